@@ -3,6 +3,8 @@ import type { NextConfig } from "next";
 const nextConfig: NextConfig = {
   /* config options here */
   reactCompiler: true,
+  // PDF text extraction runs pdf.js in route handlers
+  serverExternalPackages: ["pdfjs-dist"],
 };
 
 export default nextConfig;
@@ -0,0 +1,10 @@
+// Copies the pdf.js worker into public/ so the browser loads it as a static
+// asset matching the installed pdfjs-dist. Runs after every install.
+import { copyFileSync } from "node:fs";
+import { createRequire } from "node:module";
+
+const require = createRequire(import.meta.url);
+copyFileSync(
+  require.resolve("pdfjs-dist/build/pdf.worker.min.mjs"),
+  new URL("../public/pdf.worker.min.mjs", import.meta.url)
+);
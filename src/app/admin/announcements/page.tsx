@@ -0,0 +1,426 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { supabase } from "@/lib/supabase";
+import { ArrowLeft, Edit, Megaphone, Plus, RefreshCcw, Save, StopCircle, Trash2 } from "lucide-react";
+import { AccessDenied } from "@/components/AccessDenied";
+import { AlertModal, Modal, Toast } from "@/components/Modal";
+import {
+  ANNOUNCEMENT_SEVERITIES,
+  announcementFormToRow,
+  announcementToForm,
+  emptyAnnouncementForm,
+  isAnnouncementActive,
+  loadAnnouncements,
+  validateAnnouncementForm,
+  type AnnouncementFormErrors,
+} from "@/lib/announcements";
+import type { MessageKey } from "@/lib/i18n";
+import type { Announcement, AnnouncementForm, AnnouncementSeverity } from "@/lib/types";
+import { useI18n } from "@/lib/useI18n";
+import { useProfile } from "@/lib/useProfile";
+import { formatDateTime } from "@/lib/utils";
+
+const SEVERITY_COLORS: Record<AnnouncementSeverity, string> = {
+  info: "bg-blue-100 text-blue-700",
+  warning: "bg-amber-100 text-amber-700",
+  critical: "bg-red-100 text-red-700",
+};
+
+const SEVERITY_LABELS: Record<AnnouncementSeverity, MessageKey> = {
+  info: "announcements.severityInfo",
+  warning: "announcements.severityWarning",
+  critical: "announcements.severityCritical",
+};
+
+function windowLabel(announcement: Announcement, now: number): { label: MessageKey; color: string } {
+  if (isAnnouncementActive(announcement, now)) return { label: "announcements.live", color: "text-green-700" };
+  if (Date.parse(announcement.starts_at) > now) return { label: "announcements.upcoming", color: "text-blue-700" };
+  return { label: "announcements.ended", color: "text-slate-500" };
+}
+
+// =========================
+// ADMIN ANNOUNCEMENTS
+// =========================
+export default function AnnouncementsPage() {
+  const { session, permissions, isLoading: isAuthLoading } = useProfile();
+  const { t, intlLocale } = useI18n();
+
+  const [announcements, setAnnouncements] = useState<Announcement[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [alertMessage, setAlertMessage] = useState("");
+  const [now, setNow] = useState(() => Date.now());
+
+  const [showFormModal, setShowFormModal] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<AnnouncementForm>(emptyAnnouncementForm());
+  const [formErrors, setFormErrors] = useState<AnnouncementFormErrors>({});
+  const [announcementToDelete, setAnnouncementToDelete] = useState<Announcement | null>(null);
+
+  function showAlert(message: string) {
+    setAlertMessage(message);
+    setTimeout(() => setAlertMessage(""), 3000);
+  }
+
+  async function loadData() {
+    setIsLoading(true);
+    try {
+      setAnnouncements(await loadAnnouncements(supabase));
+      setNow(Date.now());
+    } catch (error) {
+      console.error("Error loading announcements:", error);
+      showAlert(t("announcements.loadFailed", { message: (error as Error).message }));
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    if (permissions.canManageAnnouncements) loadData();
+  }, [permissions.canManageAnnouncements]);
+
+  // =========================
+  // CRUD
+  // =========================
+  function openFormModal(announcement: Announcement | null) {
+    setEditingId(announcement?.id ?? null);
+    setForm(announcement ? announcementToForm(announcement) : emptyAnnouncementForm());
+    setFormErrors({});
+    setShowFormModal(true);
+  }
+
+  async function saveAnnouncement() {
+    const errors = validateAnnouncementForm(form, t);
+    setFormErrors(errors);
+    if (Object.keys(errors).length > 0) return;
+
+    const row = announcementFormToRow(form);
+    setIsLoading(true);
+    try {
+      const { error } = editingId
+        ? await supabase
+            .from("announcements")
+            .update({ ...row, updated_at: new Date().toISOString() })
+            .eq("id", editingId)
+        : await supabase.from("announcements").insert({ ...row, created_by: session?.user.email ?? null });
+
+      if (error) throw error;
+
+      setShowFormModal(false);
+      showAlert(t("announcements.saved", { title: row.title }));
+      await loadData();
+    } catch (error) {
+      console.error("Error saving announcement:", error);
+      showAlert(t("announcements.saveFailed", { message: (error as Error).message }));
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  // Takes a live announcement down now but keeps it for reference
+  async function endAnnouncement(announcement: Announcement) {
+    setIsLoading(true);
+    try {
+      const endedAt = new Date().toISOString();
+      const { error } = await supabase
+        .from("announcements")
+        .update({ ends_at: endedAt, updated_at: endedAt })
+        .eq("id", announcement.id);
+      if (error) throw error;
+
+      showAlert(t("announcements.endedAlert", { title: announcement.title }));
+      await loadData();
+    } catch (error) {
+      console.error("Error ending announcement:", error);
+      showAlert(t("announcements.updateFailed", { message: (error as Error).message }));
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function deleteAnnouncement() {
+    if (!announcementToDelete) return;
+
+    setIsLoading(true);
+    try {
+      const { error } = await supabase.from("announcements").delete().eq("id", announcementToDelete.id);
+      if (error) throw error;
+
+      showAlert(t("announcements.deleted", { title: announcementToDelete.title }));
+      setAnnouncementToDelete(null);
+      await loadData();
+    } catch (error) {
+      console.error("Error deleting announcement:", error);
+      showAlert(t("announcements.deleteFailed", { message: (error as Error).message }));
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  // =========================
+  // RENDER
+  // =========================
+  if (!permissions.canManageAnnouncements) {
+    return <AccessDenied isLoading={isAuthLoading} />;
+  }
+
+  const inputClass =
+    "w-full rounded-xl border border-slate-200 bg-white px-4 py-3 outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <main className="min-h-screen bg-gradient-to-b from-blue-50 via-white to-blue-50">
+      {alertMessage && <Toast message={alertMessage} />}
+
+      {/* HEADER */}
+      <div className="sticky top-0 z-50 border-b border-blue-200 bg-white/90 backdrop-blur-xl">
+        <div className="mx-auto flex max-w-[95vw] items-center justify-between px-4 py-4 sm:py-6">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/"
+              className="rounded-2xl bg-blue-100 p-2.5 text-blue-700 hover:bg-blue-200"
+              title={t("common.backToFiles")}
+            >
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+            <div>
+              <div className="text-xl font-bold tracking-tight text-blue-900">{t("admin.announcements")}</div>
+              <div className="text-xs text-blue-600">{t("announcements.subtitle")}</div>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <button
+              onClick={loadData}
+              className="inline-flex items-center gap-2 rounded-2xl bg-blue-100 px-4 py-2.5 text-sm font-semibold text-blue-700 hover:bg-blue-200"
+            >
+              <RefreshCcw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+              {t("common.refresh")}
+            </button>
+            <button
+              onClick={() => openFormModal(null)}
+              className="inline-flex items-center gap-2 rounded-2xl bg-blue-600 px-4 py-2.5 text-sm font-semibold text-white hover:bg-blue-700"
+            >
+              <Plus className="h-4 w-4" />
+              {t("announcements.new")}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* CONTENT */}
+      <div className="mx-auto max-w-[95vw] space-y-6 px-4 py-6">
+        {announcements.length === 0 ? (
+          <div className="rounded-3xl border border-blue-200 bg-white p-12 text-center">
+            <div className="flex flex-col items-center gap-4">
+              <Megaphone className="h-16 w-16 text-blue-300" />
+              <div className="text-lg font-semibold text-blue-900">
+                {isLoading ? t("announcements.loading") : t("announcements.empty")}
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="overflow-hidden rounded-3xl border-2 border-blue-200 bg-white shadow-xl">
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-blue-200">
+                <thead className="bg-blue-50">
+                  <tr>
+                    <th className="px-6 py-4 text-left text-xs font-bold text-blue-900 uppercase tracking-wider">
+                      {t("announcements.column")}
+                    </th>
+                    <th className="px-6 py-4 text-left text-xs font-bold text-blue-900 uppercase tracking-wider">
+                      {t("announcements.severity")}
+                    </th>
+                    <th className="px-6 py-4 text-left text-xs font-bold text-blue-900 uppercase tracking-wider">
+                      {t("common.ports")}
+                    </th>
+                    <th className="px-6 py-4 text-left text-xs font-bold text-blue-900 uppercase tracking-wider">
+                      {t("announcements.shown")}
+                    </th>
+                    <th className="px-6 py-4 text-left text-xs font-bold text-blue-900 uppercase tracking-wider">
+                      {t("announcements.actions")}
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-blue-100">
+                  {announcements.map((announcement) => {
+                    const status = windowLabel(announcement, now);
+                    return (
+                      <tr key={announcement.id} className="hover:bg-blue-50/30 transition-colors">
+                        <td className="max-w-md px-6 py-4">
+                          <div className="text-sm font-bold text-blue-900">{announcement.title}</div>
+                          {announcement.body && (
+                            <div className="line-clamp-2 text-xs text-slate-600">{announcement.body}</div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <span
+                            className={`rounded-full px-2 py-0.5 text-xs font-semibold ${SEVERITY_COLORS[announcement.severity]}`}
+                          >
+                            {t(SEVERITY_LABELS[announcement.severity])}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 text-sm text-slate-600">
+                          {announcement.ports.length > 0 ? announcement.ports.join(", ") : t("common.allPorts")}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-xs text-slate-600">
+                          <div className={`font-semibold ${status.color}`}>{t(status.label)}</div>
+                          <div>
+                            {formatDateTime(announcement.starts_at, intlLocale)} –{" "}
+                            {announcement.ends_at
+                              ? formatDateTime(announcement.ends_at, intlLocale)
+                              : t("announcements.untilEnded")}
+                          </div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="flex gap-2">
+                            <button
+                              onClick={() => openFormModal(announcement)}
+                              className="inline-flex items-center gap-1 rounded-xl bg-blue-100 px-3 py-1.5 text-xs font-semibold text-blue-700 hover:bg-blue-200"
+                            >
+                              <Edit className="h-3 w-3" />
+                              {t("announcements.editButton")}
+                            </button>
+                            {isAnnouncementActive(announcement, now) && (
+                              <button
+                                onClick={() => endAnnouncement(announcement)}
+                                disabled={isLoading}
+                                className="inline-flex items-center gap-1 rounded-xl bg-amber-100 px-3 py-1.5 text-xs font-semibold text-amber-700 hover:bg-amber-200 disabled:opacity-50"
+                              >
+                                <StopCircle className="h-3 w-3" />
+                                {t("announcements.endNow")}
+                              </button>
+                            )}
+                            <button
+                              onClick={() => setAnnouncementToDelete(announcement)}
+                              className="inline-flex items-center gap-1 rounded-xl bg-red-100 px-3 py-1.5 text-xs font-semibold text-red-700 hover:bg-red-200"
+                            >
+                              <Trash2 className="h-3 w-3" />
+                              {t("announcements.delete")}
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* ANNOUNCEMENT FORM MODAL */}
+      <Modal
+        isOpen={showFormModal}
+        onClose={() => setShowFormModal(false)}
+        title={editingId ? t("announcements.edit") : t("announcements.new")}
+        maxWidth="max-w-lg"
+      >
+        <div className="space-y-4">
+          <div>
+            <label className="mb-1 block text-sm font-semibold text-slate-700">{t("announcements.title")}</label>
+            <input
+              type="text"
+              value={form.title}
+              onChange={(e) => setForm({ ...form, title: e.target.value })}
+              placeholder={t("announcements.titlePlaceholder")}
+              className={inputClass}
+            />
+            {formErrors.title && <div className="mt-1 text-xs text-red-600">{formErrors.title}</div>}
+          </div>
+
+          <div>
+            <label className="mb-1 block text-sm font-semibold text-slate-700">{t("announcements.message")}</label>
+            <textarea
+              value={form.body}
+              onChange={(e) => setForm({ ...form, body: e.target.value })}
+              rows={4}
+              className={inputClass}
+            />
+            {formErrors.body && <div className="mt-1 text-xs text-red-600">{formErrors.body}</div>}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="mb-1 block text-sm font-semibold text-slate-700">{t("announcements.severity")}</label>
+              <select
+                value={form.severity}
+                onChange={(e) => setForm({ ...form, severity: e.target.value as AnnouncementSeverity })}
+                className={inputClass}
+              >
+                {ANNOUNCEMENT_SEVERITIES.map((severity) => (
+                  <option key={severity} value={severity}>
+                    {t(SEVERITY_LABELS[severity])}
+                  </option>
+                ))}
+              </select>
+              {formErrors.severity && <div className="mt-1 text-xs text-red-600">{formErrors.severity}</div>}
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-semibold text-slate-700">{t("common.ports")}</label>
+              <input
+                type="text"
+                value={form.ports}
+                onChange={(e) => setForm({ ...form, ports: e.target.value })}
+                placeholder={t("common.allPorts")}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="mb-1 block text-sm font-semibold text-slate-700">{t("announcements.starts")}</label>
+              <input
+                type="datetime-local"
+                value={form.starts_at}
+                onChange={(e) => setForm({ ...form, starts_at: e.target.value })}
+                className={inputClass}
+              />
+              {formErrors.starts_at && <div className="mt-1 text-xs text-red-600">{formErrors.starts_at}</div>}
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-semibold text-slate-700">{t("announcements.ends")}</label>
+              <input
+                type="datetime-local"
+                value={form.ends_at}
+                onChange={(e) => setForm({ ...form, ends_at: e.target.value })}
+                className={inputClass}
+              />
+              {formErrors.ends_at && <div className="mt-1 text-xs text-red-600">{formErrors.ends_at}</div>}
+            </div>
+          </div>
+
+          <div className="text-xs text-slate-500">{t("announcements.formHint")}</div>
+
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              onClick={() => setShowFormModal(false)}
+              className="rounded-2xl bg-slate-100 px-4 py-2 text-sm font-semibold text-slate-700 hover:bg-slate-200"
+            >
+              {t("common.cancel")}
+            </button>
+            <button
+              onClick={saveAnnouncement}
+              disabled={isLoading}
+              className="inline-flex items-center gap-2 rounded-2xl bg-blue-600 px-4 py-2 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Save className="h-4 w-4" />
+              {t("announcements.save")}
+            </button>
+          </div>
+        </div>
+      </Modal>
+
+      <AlertModal
+        isOpen={!!announcementToDelete}
+        onClose={() => setAnnouncementToDelete(null)}
+        title={t("announcements.deleteTitle")}
+        message={t("announcements.deleteConfirm", { title: announcementToDelete?.title ?? "" })}
+        onConfirm={deleteAnnouncement}
+        confirmText={t("announcements.delete")}
+      />
+    </main>
+  );
+}
@@ -0,0 +1,274 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { supabase } from "@/lib/supabase";
+import { ArrowLeft, ClipboardList, FileText, RefreshCcw, Search } from "lucide-react";
+import { AccessDenied } from "@/components/AccessDenied";
+import { Toast } from "@/components/Modal";
+import { AUDIT_EVENTS } from "@/lib/audit";
+import { exportRows } from "@/lib/export";
+import type { AuditEntry, AuditEvent } from "@/lib/types";
+import { useProfile } from "@/lib/useProfile";
+import { formatDateTime } from "@/lib/utils";
+
+const PAGE_LIMIT = 1000;
+
+const EVENT_COLORS: Record<AuditEvent, string> = {
+  upload: "bg-green-100 text-green-700",
+  revision: "bg-amber-100 text-amber-700",
+  publish: "bg-teal-100 text-teal-700",
+  withdraw: "bg-orange-100 text-orange-700",
+  delete: "bg-red-100 text-red-700",
+  login: "bg-blue-100 text-blue-700",
+  logout: "bg-slate-100 text-slate-600",
+};
+
+type AuditFilters = {
+  event: AuditEvent | "";
+  actor: string;
+  port: string;
+  from: string;
+  to: string;
+};
+
+function describeChange(entry: AuditEntry) {
+  const before = entry.before as { revision?: number; file_name?: string; status?: string } | null;
+  const after = entry.after as { revision?: number; change_note?: string | null; status?: string } | null;
+  if (entry.event === "revision" && before && after) {
+    return `Rev ${before.revision ?? 1} → Rev ${after.revision ?? 1}${after.change_note ? ` (${after.change_note})` : ""}`;
+  }
+  if ((entry.event === "publish" || entry.event === "withdraw") && before?.status && after?.status) {
+    return `${before.status} → ${after.status}`;
+  }
+  return "";
+}
+
+// =========================
+// ADMIN AUDIT LOG
+// =========================
+export default function AuditLogPage() {
+  const { permissions, isLoading: isAuthLoading } = useProfile();
+
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [filters, setFilters] = useState<AuditFilters>({ event: "", actor: "", port: "", from: "", to: "" });
+  const [isLoading, setIsLoading] = useState(false);
+  const [alertMessage, setAlertMessage] = useState("");
+
+  function showAlert(message: string) {
+    setAlertMessage(message);
+    setTimeout(() => setAlertMessage(""), 3000);
+  }
+
+  async function loadEntries(current: AuditFilters) {
+    setIsLoading(true);
+    try {
+      let query = supabase
+        .from("audit_log")
+        .select("*")
+        .order("created_at", { ascending: false })
+        .limit(PAGE_LIMIT);
+
+      if (current.event) query = query.eq("event", current.event);
+      if (current.actor.trim()) query = query.ilike("actor_email", `%${current.actor.trim()}%`);
+      if (current.port.trim()) query = query.ilike("port_name", `%${current.port.trim()}%`);
+      if (current.from) query = query.gte("created_at", new Date(current.from).toISOString());
+      if (current.to) {
+        // inclusive end date
+        const end = new Date(current.to);
+        end.setDate(end.getDate() + 1);
+        query = query.lt("created_at", end.toISOString());
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      setEntries((data || []) as AuditEntry[]);
+    } catch (error) {
+      console.error("Error loading audit log:", error);
+      showAlert(`Error loading audit log: ${(error as Error).message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    if (permissions.canViewAudit) loadEntries({ event: "", actor: "", port: "", from: "", to: "" });
+  }, [permissions.canViewAudit]);
+
+  function exportCsv() {
+    exportRows(
+      entries.map((entry) => ({
+        Time: entry.created_at,
+        Event: entry.event,
+        Actor: entry.actor_email,
+        Port: entry.port_name ?? "",
+        Week: entry.week ?? "",
+        Year: entry.year ?? "",
+        "File Name": entry.file_name ?? "",
+        "File ID": entry.file_id ?? "",
+        Before: entry.before ? JSON.stringify(entry.before) : "",
+        After: entry.after ? JSON.stringify(entry.after) : "",
+      })),
+      "SITC_audit_log",
+      "csv",
+      "Audit Log"
+    );
+  }
+
+  // =========================
+  // RENDER
+  // =========================
+  if (!permissions.canViewAudit) {
+    return <AccessDenied isLoading={isAuthLoading} />;
+  }
+
+  const inputClass =
+    "rounded-xl border border-blue-200 bg-white px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <main className="min-h-screen bg-gradient-to-b from-blue-50 via-white to-blue-50">
+      {alertMessage && <Toast message={alertMessage} />}
+
+      {/* HEADER */}
+      <div className="sticky top-0 z-50 border-b border-blue-200 bg-white/90 backdrop-blur-xl">
+        <div className="mx-auto max-w-[95vw] px-4 py-4 sm:py-6">
+          <div className="mb-4 flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Link
+                href="/"
+                className="rounded-2xl bg-blue-100 p-2.5 text-blue-700 hover:bg-blue-200"
+                title="Back to PDF files"
+              >
+                <ArrowLeft className="h-4 w-4" />
+              </Link>
+              <div>
+                <div className="text-xl font-bold tracking-tight text-blue-900">Audit Log</div>
+                <div className="text-xs text-blue-600">
+                  {entries.length} entries{entries.length === PAGE_LIMIT && ` (latest ${PAGE_LIMIT}, narrow the filters)`}
+                </div>
+              </div>
+            </div>
+
+            <button
+              onClick={exportCsv}
+              disabled={entries.length === 0}
+              className="inline-flex items-center gap-2 rounded-2xl bg-green-100 px-4 py-2.5 text-sm font-semibold text-green-700 hover:bg-green-200 disabled:opacity-50"
+            >
+              <FileText className="h-4 w-4" />
+              Export CSV
+            </button>
+          </div>
+
+          {/* Filters */}
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              value={filters.event}
+              onChange={(e) => setFilters({ ...filters, event: e.target.value as AuditEvent | "" })}
+              className={inputClass}
+            >
+              <option value="">All events</option>
+              {AUDIT_EVENTS.map((event) => (
+                <option key={event} value={event}>
+                  {event}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={filters.actor}
+              onChange={(e) => setFilters({ ...filters, actor: e.target.value })}
+              placeholder="Actor email"
+              className={inputClass}
+            />
+            <input
+              type="text"
+              value={filters.port}
+              onChange={(e) => setFilters({ ...filters, port: e.target.value })}
+              placeholder="Port"
+              className={inputClass}
+            />
+            <input
+              type="date"
+              value={filters.from}
+              onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+              className={inputClass}
+              title="From"
+            />
+            <input
+              type="date"
+              value={filters.to}
+              onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+              className={inputClass}
+              title="To"
+            />
+            <button
+              onClick={() => loadEntries(filters)}
+              className="inline-flex items-center gap-2 rounded-2xl bg-gradient-to-r from-blue-600 to-blue-700 px-4 py-2.5 text-sm font-semibold text-white shadow-lg hover:from-blue-700 hover:to-blue-800"
+            >
+              {isLoading ? <RefreshCcw className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+              Apply
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* CONTENT */}
+      <div className="mx-auto max-w-[95vw] px-4 py-6">
+        {entries.length === 0 ? (
+          <div className="rounded-3xl border border-blue-200 bg-white p-12 text-center">
+            <div className="flex flex-col items-center gap-4">
+              <ClipboardList className="h-16 w-16 text-blue-300" />
+              <div className="text-lg font-semibold text-blue-900">
+                {isLoading ? "Loading audit log..." : "No audit entries match these filters"}
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="overflow-hidden rounded-3xl border-2 border-blue-200 bg-white shadow-xl">
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-blue-200">
+                <thead className="bg-blue-50">
+                  <tr>
+                    {["Time", "Event", "Actor", "Port & Week", "File", "Change"].map((label) => (
+                      <th
+                        key={label}
+                        className="px-6 py-4 text-left text-xs font-bold text-blue-900 uppercase tracking-wider"
+                      >
+                        {label}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-blue-100">
+                  {entries.map((entry) => (
+                    <tr key={entry.id} className="hover:bg-blue-50/30 transition-colors">
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-blue-700">
+                        {formatDateTime(entry.created_at)}
+                      </td>
+                      <td className="px-6 py-3 whitespace-nowrap">
+                        <span className={`rounded-full px-2 py-0.5 text-xs font-semibold ${EVENT_COLORS[entry.event]}`}>
+                          {entry.event}
+                        </span>
+                      </td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-blue-900">{entry.actor_email}</td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-blue-800">
+                        {entry.port_name ? `${entry.port_name} • W${entry.week} ${entry.year}` : "-"}
+                      </td>
+                      <td className="px-6 py-3 text-sm text-blue-800">
+                        <div className="max-w-xs truncate" title={entry.file_name ?? undefined}>
+                          {entry.file_name ?? "-"}
+                        </div>
+                      </td>
+                      <td className="px-6 py-3 text-xs text-blue-600">{describeChange(entry) || "-"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
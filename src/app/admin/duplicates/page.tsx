@@ -0,0 +1,274 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { ArrowLeft, Copy, Eye, Fingerprint, Play, RefreshCcw, Trash2 } from "lucide-react";
+import { AccessDenied } from "@/components/AccessDenied";
+import { AlertModal, Toast } from "@/components/Modal";
+import { WeekBadge } from "@/components/WeekBadge";
+import { fetchDuplicateReport, removePortFile, runHashBackfill } from "@/lib/portFilesApi";
+import { isLatestRevision } from "@/lib/revisions";
+import type { DuplicateReport, PortFile } from "@/lib/types";
+import { useI18n } from "@/lib/useI18n";
+import { useProfile } from "@/lib/useProfile";
+import { formatDateTime, formatFileSize } from "@/lib/utils";
+
+// =========================
+// ADMIN DUPLICATE FILES
+// =========================
+export default function DuplicatesPage() {
+  const { permissions, isLoading: isAuthLoading } = useProfile();
+  const { t, intlLocale } = useI18n();
+
+  const [report, setReport] = useState<DuplicateReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isHashing, setIsHashing] = useState(false);
+  const [progress, setProgress] = useState({ processed: 0, failed: 0 });
+  const [fileToDelete, setFileToDelete] = useState<PortFile | null>(null);
+  const [alertMessage, setAlertMessage] = useState("");
+
+  function showAlert(message: string) {
+    setAlertMessage(message);
+    setTimeout(() => setAlertMessage(""), 3000);
+  }
+
+  async function loadReport() {
+    setIsLoading(true);
+    try {
+      setReport(await fetchDuplicateReport());
+    } catch (error) {
+      console.error("Error loading duplicate report:", error);
+      showAlert(t("duplicates.loadFailed", { message: (error as Error).message }));
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    if (permissions.canManageStorage) loadReport();
+  }, [permissions.canManageStorage]);
+
+  // Hashes older uploads batch by batch; failures are skipped on later batches
+  async function runBackfill() {
+    setIsHashing(true);
+    setProgress({ processed: 0, failed: 0 });
+    let totals = { processed: 0, failed: 0 };
+
+    try {
+      for (;;) {
+        const result = await runHashBackfill(totals.failed);
+        totals = { processed: totals.processed + result.processed, failed: totals.failed + result.failed };
+        setProgress(totals);
+        if (result.remaining === 0 || result.processed === 0) break;
+      }
+      showAlert(t("duplicates.hashed", { hashed: totals.processed - totals.failed, failed: totals.failed }));
+    } catch (error) {
+      console.error("Error hashing files:", error);
+      showAlert(t("duplicates.hashingStopped", { message: (error as Error).message }));
+    } finally {
+      setIsHashing(false);
+      await loadReport();
+    }
+  }
+
+  async function deleteFile() {
+    if (!fileToDelete) return;
+
+    setIsLoading(true);
+    try {
+      await removePortFile(fileToDelete.id);
+      showAlert(t("duplicates.deleted", { file: fileToDelete.file_name }));
+      setFileToDelete(null);
+      await loadReport();
+    } catch (error) {
+      console.error("Error deleting file:", error);
+      showAlert(t("duplicates.deleteFailed", { message: (error as Error).message }));
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  // =========================
+  // RENDER
+  // =========================
+  if (!permissions.canManageStorage) {
+    return <AccessDenied isLoading={isAuthLoading} />;
+  }
+
+  const groups = report?.groups ?? [];
+  const redundant = groups.reduce((sum, group) => sum + group.length - 1, 0);
+  const wastedBytes = groups.reduce(
+    (sum, group) => sum + group.slice(1).reduce((groupSum, file) => groupSum + (file.file_size ?? 0), 0),
+    0
+  );
+  const cards = [
+    { label: t("duplicates.sets"), value: groups.length, color: "text-blue-900" },
+    {
+      label: t("duplicates.redundant"),
+      value: `${redundant} (${formatFileSize(wastedBytes)})`,
+      color: "text-amber-700",
+    },
+    { label: t("duplicates.unhashed"), value: report?.unhashed ?? 0, color: "text-slate-700" },
+  ];
+
+  return (
+    <main className="min-h-screen bg-gradient-to-b from-blue-50 via-white to-blue-50">
+      {alertMessage && <Toast message={alertMessage} />}
+
+      {/* HEADER */}
+      <div className="sticky top-0 z-50 border-b border-blue-200 bg-white/90 backdrop-blur-xl">
+        <div className="mx-auto flex max-w-[95vw] items-center justify-between px-4 py-4 sm:py-6">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/"
+              className="rounded-2xl bg-blue-100 p-2.5 text-blue-700 hover:bg-blue-200"
+              title={t("common.backToFiles")}
+            >
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+            <div>
+              <div className="text-xl font-bold tracking-tight text-blue-900">{t("admin.duplicates")}</div>
+              <div className="text-xs text-blue-600">{t("duplicates.subtitle")}</div>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <button
+              onClick={loadReport}
+              className="inline-flex items-center gap-2 rounded-2xl bg-blue-100 px-4 py-2.5 text-sm font-semibold text-blue-700 hover:bg-blue-200"
+            >
+              <RefreshCcw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+              {t("common.refresh")}
+            </button>
+            <button
+              onClick={runBackfill}
+              disabled={isHashing || !report?.unhashed}
+              className="inline-flex items-center gap-2 rounded-2xl bg-gradient-to-r from-blue-600 to-blue-700 px-4 py-2.5 text-sm font-semibold text-white shadow-lg hover:from-blue-700 hover:to-blue-800 disabled:opacity-50"
+            >
+              <Play className="h-4 w-4" />
+              {t("duplicates.hashExisting")}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* CONTENT */}
+      <div className="mx-auto max-w-[95vw] space-y-6 px-4 py-6">
+        <div className="grid gap-4 sm:grid-cols-3">
+          {cards.map(({ label, value, color }) => (
+            <div key={label} className="rounded-3xl border border-blue-200 bg-white p-6">
+              <div className="text-sm font-semibold text-blue-600">{label}</div>
+              <div className={`mt-1 text-3xl font-bold ${color}`}>{report ? value : "–"}</div>
+            </div>
+          ))}
+        </div>
+
+        {isHashing && (
+          <div className="flex items-center gap-3 rounded-3xl border border-blue-200 bg-white p-6 text-blue-900">
+            <Fingerprint className="h-6 w-6 animate-pulse text-blue-500" />
+            {t("duplicates.hashing", { processed: progress.processed })}
+            {progress.failed > 0 && (
+              <span className="text-red-700">{t("duplicates.failedCount", { count: progress.failed })}</span>
+            )}
+          </div>
+        )}
+
+        {groups.length === 0 ? (
+          <div className="rounded-3xl border border-blue-200 bg-white p-12 text-center">
+            <div className="flex flex-col items-center gap-4">
+              <Copy className="h-16 w-16 text-blue-300" />
+              <div className="text-lg font-semibold text-blue-900">
+                {isLoading ? t("duplicates.loading") : t("duplicates.empty")}
+              </div>
+              {!!report?.unhashed && (
+                <div className="text-sm text-blue-600">
+                  {t("duplicates.unhashedHint", { count: report.unhashed })}
+                </div>
+              )}
+            </div>
+          </div>
+        ) : (
+          groups.map((group) => (
+            <div
+              key={group[0].content_hash}
+              className="overflow-hidden rounded-3xl border-2 border-blue-200 bg-white shadow-xl"
+            >
+              <div className="flex items-center justify-between border-b border-blue-100 bg-blue-50 px-6 py-3">
+                <div className="text-sm font-bold text-blue-900">
+                  {t("duplicates.copies", { count: group.length, size: formatFileSize(group[0].file_size ?? 0) })}
+                </div>
+                <div className="font-mono text-xs text-blue-500" title={group[0].content_hash ?? ""}>
+                  {group[0].content_hash?.slice(0, 12)}
+                </div>
+              </div>
+              <div className="divide-y divide-blue-100">
+                {group.map((file, index) => (
+                  <div key={file.id} className="flex flex-wrap items-center gap-4 px-6 py-3">
+                    <WeekBadge week={file.week} year={file.year} />
+                    <div className="min-w-0 flex-1">
+                      <div className="text-sm font-bold text-blue-800">
+                        {file.port_name}
+                        {index === 0 && (
+                          <span className="ml-2 text-xs font-normal text-green-700">{t("duplicates.firstUpload")}</span>
+                        )}
+                        {!isLatestRevision(file) && (
+                          <span className="ml-2 text-xs font-normal text-slate-500">{t("duplicates.superseded")}</span>
+                        )}
+                      </div>
+                      <div className="truncate text-xs text-slate-500">
+                        {file.uploaded_by
+                          ? t("duplicates.uploadedBy", {
+                              file: file.file_name,
+                              date: formatDateTime(file.uploaded_at, intlLocale),
+                              user: file.uploaded_by,
+                            })
+                          : t("duplicates.uploaded", {
+                              file: file.file_name,
+                              date: formatDateTime(file.uploaded_at, intlLocale),
+                            })}
+                      </div>
+                    </div>
+                    <div className="flex gap-2">
+                      <a
+                        href={file.file_url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center gap-1 rounded-xl bg-blue-100 px-3 py-1.5 text-xs font-semibold text-blue-700 hover:bg-blue-200"
+                      >
+                        <Eye className="h-3 w-3" />
+                        {t("file.view")}
+                      </a>
+                      {permissions.canDelete && (
+                        <button
+                          onClick={() => setFileToDelete(file)}
+                          className="inline-flex items-center gap-1 rounded-xl bg-red-100 px-3 py-1.5 text-xs font-semibold text-red-700 hover:bg-red-200"
+                        >
+                          <Trash2 className="h-3 w-3" />
+                          {t("file.delete")}
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      <AlertModal
+        isOpen={!!fileToDelete}
+        onClose={() => setFileToDelete(null)}
+        title={t("duplicates.deleteTitle")}
+        message={t("duplicates.deleteConfirm", {
+          file: fileToDelete?.file_name ?? "",
+          port: fileToDelete?.port_name ?? "",
+          week: fileToDelete?.week ?? "",
+          year: fileToDelete?.year ?? "",
+        })}
+        onConfirm={deleteFile}
+        confirmText={t("file.delete")}
+      />
+    </main>
+  );
+}
@@ -0,0 +1,491 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { supabase } from "@/lib/supabase";
+import { ArrowLeft, Edit, GitMerge, MapPin, Plus, RefreshCcw, Save, Trash2 } from "lucide-react";
+import { AccessDenied } from "@/components/AccessDenied";
+import { AlertModal, Modal, Toast } from "@/components/Modal";
+import {
+  createPortResolver,
+  emptyPortForm,
+  formatPortLabel,
+  loadPorts,
+  loadUnmappedPortNames,
+  mapPortFiles,
+  portFormToRow,
+  portKey,
+  portToForm,
+  validatePortForm,
+  type PortFormErrors,
+} from "@/lib/ports";
+import type { Port, PortForm } from "@/lib/types";
+import { useProfile } from "@/lib/useProfile";
+
+// A port_files spelling that is not linked to a catalogue entry yet
+type UnmappedName = {
+  port_name: string;
+  count: number;
+  // Catalogue port id picked for the mapping
+  target: string;
+  addAlias: boolean;
+};
+
+// =========================
+// ADMIN PORT CATALOGUE
+// =========================
+export default function PortsPage() {
+  const { permissions, isLoading: isAuthLoading } = useProfile();
+
+  const [ports, setPorts] = useState<Port[]>([]);
+  const [unmapped, setUnmapped] = useState<UnmappedName[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [alertMessage, setAlertMessage] = useState("");
+
+  const [showPortModal, setShowPortModal] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [portForm, setPortForm] = useState<PortForm>(emptyPortForm());
+  const [formErrors, setFormErrors] = useState<PortFormErrors>({});
+  const [portToDelete, setPortToDelete] = useState<Port | null>(null);
+
+  function showAlert(message: string) {
+    setAlertMessage(message);
+    setTimeout(() => setAlertMessage(""), 3000);
+  }
+
+  async function loadData() {
+    setIsLoading(true);
+    try {
+      const [catalogue, unmappedNames] = await Promise.all([loadPorts(supabase), loadUnmappedPortNames(supabase)]);
+
+      const resolvePort = createPortResolver(catalogue);
+      setPorts(catalogue);
+      setUnmapped(
+        unmappedNames.map(({ port_name, count }) => {
+          const suggested = resolvePort(port_name);
+          return { port_name, count, target: suggested?.id ?? "", addAlias: !suggested };
+        })
+      );
+    } catch (error) {
+      console.error("Error loading ports:", error);
+      showAlert(`Error loading ports: ${(error as Error).message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    if (permissions.canManageUsers) loadData();
+  }, [permissions.canManageUsers]);
+
+  // =========================
+  // CATALOGUE CRUD
+  // =========================
+  function openPortModal(port: Port | null) {
+    setEditingId(port?.id ?? null);
+    setPortForm(port ? portToForm(port) : emptyPortForm());
+    setFormErrors({});
+    setShowPortModal(true);
+  }
+
+  async function savePort() {
+    const errors = validatePortForm(portForm, ports, editingId);
+    setFormErrors(errors);
+    if (Object.keys(errors).length > 0) return;
+
+    const row = portFormToRow(portForm);
+    setIsLoading(true);
+    try {
+      // A rename also rewrites files, uploader rights, subscriptions,
+      // announcements and schedules in the same transaction (database trigger)
+      const { error } = editingId
+        ? await supabase
+            .from("ports")
+            .update({ ...row, updated_at: new Date().toISOString() })
+            .eq("id", editingId)
+        : await supabase.from("ports").insert(row);
+
+      if (error) throw error;
+
+      setShowPortModal(false);
+      showAlert(`Saved ${row.name}`);
+      await loadData();
+    } catch (error) {
+      console.error("Error saving port:", error);
+      showAlert(`Save failed: ${(error as Error).message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function deletePort() {
+    if (!portToDelete) return;
+
+    setIsLoading(true);
+    try {
+      const { error } = await supabase.from("ports").delete().eq("id", portToDelete.id);
+      if (error) throw error;
+
+      showAlert(`Deleted ${portToDelete.name}`);
+      setPortToDelete(null);
+      await loadData();
+    } catch (error) {
+      console.error("Error deleting port:", error);
+      showAlert(`Delete failed: ${(error as Error).message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  // =========================
+  // FILE MAPPING
+  // =========================
+  function updateUnmapped(portName: string, changes: Partial<UnmappedName>) {
+    setUnmapped(unmapped.map((row) => (row.port_name === portName ? { ...row, ...changes } : row)));
+  }
+
+  async function applyMapping(row: UnmappedName) {
+    const port = ports.find((candidate) => candidate.id === row.target);
+    if (!port) return 0;
+
+    // Future uploads spelled this way then resolve on their own
+    if (row.addAlias && !createPortResolver([port])(row.port_name)) {
+      const { error } = await supabase
+        .from("ports")
+        .update({
+          aliases: [...port.aliases, row.port_name.trim().toUpperCase()],
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", port.id);
+      if (error) throw error;
+    }
+
+    return mapPortFiles(supabase, row.port_name, port);
+  }
+
+  async function mapFiles(rows: UnmappedName[]) {
+    setIsLoading(true);
+    try {
+      let mapped = 0;
+      for (const row of rows) mapped += await applyMapping(row);
+
+      showAlert(`Mapped ${mapped} file${mapped === 1 ? "" : "s"}`);
+      await loadData();
+    } catch (error) {
+      console.error("Error mapping files:", error);
+      showAlert(`Mapping failed: ${(error as Error).message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  // =========================
+  // RENDER
+  // =========================
+  if (!permissions.canManageUsers) {
+    return <AccessDenied isLoading={isAuthLoading} />;
+  }
+
+  const readyToMap = unmapped.filter((row) => row.target);
+  const inputClass =
+    "w-full rounded-xl border border-slate-200 bg-white px-4 py-3 outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <main className="min-h-screen bg-gradient-to-b from-blue-50 via-white to-blue-50">
+      {alertMessage && <Toast message={alertMessage} />}
+
+      {/* HEADER */}
+      <div className="sticky top-0 z-50 border-b border-blue-200 bg-white/90 backdrop-blur-xl">
+        <div className="mx-auto flex max-w-[95vw] items-center justify-between px-4 py-4 sm:py-6">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/"
+              className="rounded-2xl bg-blue-100 p-2.5 text-blue-700 hover:bg-blue-200"
+              title="Back to PDF files"
+            >
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+            <div>
+              <div className="text-xl font-bold tracking-tight text-blue-900">Port Catalogue</div>
+              <div className="text-xs text-blue-600">
+                Canonical port names, UN/LOCODEs and the spellings that resolve to them
+              </div>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <button
+              onClick={loadData}
+              className="inline-flex items-center gap-2 rounded-2xl bg-blue-100 px-4 py-2.5 text-sm font-semibold text-blue-700 hover:bg-blue-200"
+            >
+              <RefreshCcw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+              Refresh
+            </button>
+            <button
+              onClick={() => openPortModal(null)}
+              className="inline-flex items-center gap-2 rounded-2xl bg-blue-600 px-4 py-2.5 text-sm font-semibold text-white hover:bg-blue-700"
+            >
+              <Plus className="h-4 w-4" />
+              Add Port
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* CONTENT */}
+      <div className="mx-auto max-w-[95vw] space-y-6 px-4 py-6">
+        {/* UNMAPPED FILE NAMES */}
+        {unmapped.length > 0 && (
+          <div className="overflow-hidden rounded-3xl border-2 border-amber-200 bg-white shadow-xl">
+            <div className="flex flex-wrap items-center justify-between gap-3 border-b border-amber-100 bg-amber-50 px-6 py-4">
+              <div>
+                <div className="font-bold text-amber-900">Map existing files</div>
+                <div className="text-xs text-amber-700">
+                  These port names on uploaded files are not linked to the catalogue. Mapping renames the
+                  files to the canonical port and renumbers revisions that end up in the same week.
+                </div>
+              </div>
+              <button
+                onClick={() => mapFiles(readyToMap)}
+                disabled={isLoading || readyToMap.length === 0}
+                className="inline-flex items-center gap-2 rounded-2xl bg-amber-100 px-4 py-2.5 text-sm font-semibold text-amber-800 hover:bg-amber-200 disabled:opacity-50"
+              >
+                <GitMerge className="h-4 w-4" />
+                Map All ({readyToMap.length})
+              </button>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-blue-100">
+                <thead className="bg-blue-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-bold text-blue-900 uppercase tracking-wider">
+                      File Port Name
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-bold text-blue-900 uppercase tracking-wider">
+                      Files
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-bold text-blue-900 uppercase tracking-wider">
+                      Canonical Port
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-bold text-blue-900 uppercase tracking-wider">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-blue-100">
+                  {unmapped.map((row) => {
+                    const target = ports.find((port) => port.id === row.target);
+                    const isAlias = !!target && portKey(target.name) !== portKey(row.port_name);
+                    return (
+                      <tr key={row.port_name} className="hover:bg-blue-50/30 transition-colors">
+                        <td className="px-6 py-3 whitespace-nowrap font-mono text-sm font-semibold text-blue-900">
+                          {row.port_name}
+                        </td>
+                        <td className="px-6 py-3 whitespace-nowrap text-sm text-slate-600">{row.count}</td>
+                        <td className="px-6 py-3">
+                          <div className="flex flex-wrap items-center gap-3">
+                            <select
+                              value={row.target}
+                              onChange={(e) => updateUnmapped(row.port_name, { target: e.target.value })}
+                              className="rounded-lg border border-slate-200 bg-white px-2 py-2 text-sm outline-none focus:ring-2 focus:ring-blue-500"
+                            >
+                              <option value="">Choose a port…</option>
+                              {ports.map((port) => (
+                                <option key={port.id} value={port.id}>
+                                  {formatPortLabel(port)}
+                                </option>
+                              ))}
+                            </select>
+                            {isAlias && (
+                              <label className="inline-flex items-center gap-2 text-xs text-slate-600">
+                                <input
+                                  type="checkbox"
+                                  checked={row.addAlias}
+                                  onChange={(e) => updateUnmapped(row.port_name, { addAlias: e.target.checked })}
+                                />
+                                Keep as alias
+                              </label>
+                            )}
+                          </div>
+                        </td>
+                        <td className="px-6 py-3 whitespace-nowrap">
+                          <button
+                            onClick={() => mapFiles([row])}
+                            disabled={isLoading || !row.target}
+                            className="inline-flex items-center gap-1 rounded-xl bg-green-100 px-3 py-1.5 text-xs font-semibold text-green-700 hover:bg-green-200 disabled:opacity-50"
+                          >
+                            <GitMerge className="h-3 w-3" />
+                            Map
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {/* CATALOGUE */}
+        {ports.length === 0 ? (
+          <div className="rounded-3xl border border-blue-200 bg-white p-12 text-center">
+            <div className="flex flex-col items-center gap-4">
+              <MapPin className="h-16 w-16 text-blue-300" />
+              <div className="text-lg font-semibold text-blue-900">
+                {isLoading ? "Loading ports..." : "No ports in the catalogue"}
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="overflow-hidden rounded-3xl border-2 border-blue-200 bg-white shadow-xl">
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-blue-200">
+                <thead className="bg-blue-50">
+                  <tr>
+                    <th className="px-6 py-4 text-left text-xs font-bold text-blue-900 uppercase tracking-wider">
+                      Name
+                    </th>
+                    <th className="px-6 py-4 text-left text-xs font-bold text-blue-900 uppercase tracking-wider">
+                      UN/LOCODE
+                    </th>
+                    <th className="px-6 py-4 text-left text-xs font-bold text-blue-900 uppercase tracking-wider">
+                      Country
+                    </th>
+                    <th className="px-6 py-4 text-left text-xs font-bold text-blue-900 uppercase tracking-wider">
+                      Aliases
+                    </th>
+                    <th className="px-6 py-4 text-left text-xs font-bold text-blue-900 uppercase tracking-wider">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-blue-100">
+                  {ports.map((port) => (
+                    <tr key={port.id} className="hover:bg-blue-50/30 transition-colors">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-bold text-blue-900">{port.name}</td>
+                      <td className="px-6 py-4 whitespace-nowrap font-mono text-sm text-slate-700">
+                        {port.unlocode ?? "—"}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-700">{port.country ?? "—"}</td>
+                      <td className="px-6 py-4 text-sm text-slate-600">
+                        {port.aliases.length > 0 ? port.aliases.join(", ") : "—"}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex gap-2">
+                          <button
+                            onClick={() => openPortModal(port)}
+                            className="inline-flex items-center gap-1 rounded-xl bg-blue-100 px-3 py-1.5 text-xs font-semibold text-blue-700 hover:bg-blue-200"
+                          >
+                            <Edit className="h-3 w-3" />
+                            Edit
+                          </button>
+                          <button
+                            onClick={() => setPortToDelete(port)}
+                            className="inline-flex items-center gap-1 rounded-xl bg-red-100 px-3 py-1.5 text-xs font-semibold text-red-700 hover:bg-red-200"
+                          >
+                            <Trash2 className="h-3 w-3" />
+                            Delete
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* PORT FORM MODAL */}
+      <Modal
+        isOpen={showPortModal}
+        onClose={() => setShowPortModal(false)}
+        title={editingId ? "Edit Port" : "Add Port"}
+      >
+        <div className="space-y-4">
+          <div>
+            <label className="mb-1 block text-sm font-semibold text-slate-700">Name *</label>
+            <input
+              type="text"
+              value={portForm.name}
+              onChange={(e) => setPortForm({ ...portForm, name: e.target.value })}
+              placeholder="e.g., HAIPHONG"
+              className={inputClass}
+            />
+            {formErrors.name && <div className="mt-1 text-xs text-red-600">{formErrors.name}</div>}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="mb-1 block text-sm font-semibold text-slate-700">UN/LOCODE</label>
+              <input
+                type="text"
+                value={portForm.unlocode}
+                onChange={(e) => setPortForm({ ...portForm, unlocode: e.target.value.toUpperCase() })}
+                placeholder="VNHPH"
+                maxLength={5}
+                className={`${inputClass} font-mono`}
+              />
+              {formErrors.unlocode && <div className="mt-1 text-xs text-red-600">{formErrors.unlocode}</div>}
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-semibold text-slate-700">Country</label>
+              <input
+                type="text"
+                value={portForm.country}
+                onChange={(e) => setPortForm({ ...portForm, country: e.target.value.toUpperCase() })}
+                placeholder="VN"
+                maxLength={2}
+                className={inputClass}
+              />
+              {formErrors.country && <div className="mt-1 text-xs text-red-600">{formErrors.country}</div>}
+            </div>
+          </div>
+
+          <div>
+            <label className="mb-1 block text-sm font-semibold text-slate-700">Aliases</label>
+            <input
+              type="text"
+              value={portForm.aliases}
+              onChange={(e) => setPortForm({ ...portForm, aliases: e.target.value })}
+              placeholder="HAI PHONG, HPH"
+              className={inputClass}
+            />
+            <div className="mt-1 text-xs text-slate-500">
+              Comma separated. Spacing and punctuation are ignored when matching.
+            </div>
+            {formErrors.aliases && <div className="mt-1 text-xs text-red-600">{formErrors.aliases}</div>}
+          </div>
+
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              onClick={() => setShowPortModal(false)}
+              className="rounded-2xl bg-slate-100 px-4 py-2 text-sm font-semibold text-slate-700 hover:bg-slate-200"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={savePort}
+              disabled={isLoading}
+              className="inline-flex items-center gap-2 rounded-2xl bg-blue-600 px-4 py-2 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Save className="h-4 w-4" />
+              Save
+            </button>
+          </div>
+        </div>
+      </Modal>
+
+      <AlertModal
+        isOpen={!!portToDelete}
+        onClose={() => setPortToDelete(null)}
+        title="Delete Port"
+        message={`Delete ${portToDelete?.name} from the catalogue? Its files stay but are no longer linked to a port.`}
+        onConfirm={deletePort}
+        confirmText="Delete"
+      />
+    </main>
+  );
+}
@@ -0,0 +1,255 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { ArrowLeft, CalendarClock, Eye, FileEdit, RefreshCcw, Send } from "lucide-react";
+import { AccessDenied } from "@/components/AccessDenied";
+import { Toast } from "@/components/Modal";
+import { WeekBadge } from "@/components/WeekBadge";
+import { canUploadForPort } from "@/lib/permissions";
+import { fetchSignedUrl, updatePortFileStatus } from "@/lib/portFilesApi";
+import { canChangeStatus, portFileStatus, validatePublishAt } from "@/lib/publishing";
+import { supabase } from "@/lib/supabase";
+import type { PortFile, PortFileStatus } from "@/lib/types";
+import { useProfile } from "@/lib/useProfile";
+import { formatDateTime, toDateTimeLocal } from "@/lib/utils";
+
+const SECTIONS: { status: PortFileStatus; title: string; empty: string }[] = [
+  { status: "scheduled", title: "Upcoming releases", empty: "Nothing is scheduled" },
+  { status: "draft", title: "Drafts", empty: "No drafts" },
+  { status: "withdrawn", title: "Withdrawn", empty: "No withdrawn files" },
+];
+
+// =========================
+// ADMIN RELEASES
+// =========================
+export default function ReleasesPage() {
+  const { permissions, isLoading: isAuthLoading } = useProfile();
+
+  const [files, setFiles] = useState<PortFile[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  // datetime-local values being edited, by file id
+  const [releaseTimes, setReleaseTimes] = useState<Record<string, string>>({});
+  const [alertMessage, setAlertMessage] = useState("");
+
+  function showAlert(message: string) {
+    setAlertMessage(message);
+    setTimeout(() => setAlertMessage(""), 3000);
+  }
+
+  // Row-level security only returns unpublished rows for ports the user may upload to
+  async function loadFiles() {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("port_files")
+        .select("*")
+        .neq("status", "published")
+        .order("publish_at", { ascending: true, nullsFirst: false })
+        .order("uploaded_at", { ascending: false });
+      if (error) throw error;
+      setFiles((data || []) as PortFile[]);
+      setReleaseTimes({});
+    } catch (error) {
+      console.error("Error loading releases:", error);
+      showAlert(`Error loading releases: ${(error as Error).message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    if (permissions.canUpload) loadFiles();
+  }, [permissions.canUpload]);
+
+  function releaseTime(file: PortFile) {
+    if (file.id in releaseTimes) return releaseTimes[file.id];
+    return file.status === "scheduled" && file.publish_at ? toDateTimeLocal(new Date(file.publish_at)) : "";
+  }
+
+  async function changeStatus(file: PortFile, status: PortFileStatus) {
+    let publishAt: string | undefined;
+    if (status === "scheduled") {
+      const value = releaseTime(file);
+      publishAt = value ? new Date(value).toISOString() : undefined;
+      const invalid = validatePublishAt(status, publishAt ?? null);
+      if (invalid) {
+        showAlert(invalid);
+        return;
+      }
+    }
+
+    setBusyId(file.id);
+    try {
+      await updatePortFileStatus(file.id, status, publishAt);
+      showAlert(
+        status === "published"
+          ? `Published ${file.file_name}`
+          : status === "scheduled"
+            ? `${file.file_name} goes live ${formatDateTime(publishAt!)}`
+            : `Moved ${file.file_name} to drafts`
+      );
+      await loadFiles();
+    } catch (error) {
+      console.error("Error changing status:", error);
+      showAlert(`Update failed: ${(error as Error).message}`);
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  // Unpublished files are not served through file_url, so open a signed link.
+  // The tab is opened first so the popup is not blocked after the await.
+  async function viewFile(file: PortFile) {
+    const tab = window.open("", "_blank");
+    try {
+      const { url } = await fetchSignedUrl(file.id);
+      if (tab) tab.location.href = url;
+    } catch (error) {
+      tab?.close();
+      console.error("Error opening file:", error);
+      showAlert(`Could not open ${file.file_name}: ${(error as Error).message}`);
+    }
+  }
+
+  // =========================
+  // RENDER
+  // =========================
+  if (!permissions.canUpload) {
+    return <AccessDenied isLoading={isAuthLoading} />;
+  }
+
+  return (
+    <main className="min-h-screen bg-gradient-to-b from-blue-50 via-white to-blue-50">
+      {alertMessage && <Toast message={alertMessage} />}
+
+      {/* HEADER */}
+      <div className="sticky top-0 z-50 border-b border-blue-200 bg-white/90 backdrop-blur-xl">
+        <div className="mx-auto flex max-w-[95vw] items-center justify-between px-4 py-4 sm:py-6">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/"
+              className="rounded-2xl bg-blue-100 p-2.5 text-blue-700 hover:bg-blue-200"
+              title="Back to PDF files"
+            >
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+            <div>
+              <div className="text-xl font-bold tracking-tight text-blue-900">Releases</div>
+              <div className="text-xs text-blue-600">
+                Drafts, scheduled and withdrawn schedules. Scheduled files are published every 10 minutes.
+              </div>
+            </div>
+          </div>
+
+          <button
+            onClick={loadFiles}
+            className="inline-flex items-center gap-2 rounded-2xl bg-blue-100 px-4 py-2.5 text-sm font-semibold text-blue-700 hover:bg-blue-200"
+          >
+            <RefreshCcw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {/* CONTENT */}
+      <div className="mx-auto max-w-[95vw] space-y-6 px-4 py-6">
+        {SECTIONS.map(({ status, title, empty }) => {
+          const sectionFiles = files.filter((file) => portFileStatus(file) === status);
+
+          return (
+            <div key={status} className="overflow-hidden rounded-3xl border-2 border-blue-200 bg-white shadow-xl">
+              <div className="flex items-center justify-between border-b border-blue-100 bg-blue-50 px-6 py-3">
+                <div className="text-sm font-bold text-blue-900">{title}</div>
+                <div className="text-xs text-blue-500">{sectionFiles.length} files</div>
+              </div>
+
+              {sectionFiles.length === 0 ? (
+                <div className="px-6 py-8 text-center text-sm text-blue-600">
+                  {isLoading ? "Loading releases..." : empty}
+                </div>
+              ) : (
+                <div className="divide-y divide-blue-100">
+                  {sectionFiles.map((file) => {
+                    const canManage = canUploadForPort(permissions, file.port_name);
+                    const isBusy = busyId === file.id;
+
+                    return (
+                      <div key={file.id} className="flex flex-wrap items-center gap-4 px-6 py-3">
+                        <WeekBadge week={file.week} year={file.year} />
+                        <div className="min-w-0 flex-1">
+                          <div className="text-sm font-bold text-blue-800">
+                            {file.port_name}
+                            {(file.revision ?? 1) > 1 && (
+                              <span className="ml-2 text-xs font-normal text-slate-500">rev {file.revision}</span>
+                            )}
+                          </div>
+                          <div className="truncate text-xs text-slate-500">
+                            {file.file_name} • uploaded {formatDateTime(file.uploaded_at)}
+                            {file.uploaded_by ? ` by ${file.uploaded_by}` : ""}
+                          </div>
+                          {status === "scheduled" && file.publish_at && (
+                            <div className="text-xs font-semibold text-teal-700">
+                              Goes live {formatDateTime(file.publish_at)}
+                            </div>
+                          )}
+                        </div>
+
+                        <div className="flex flex-wrap items-center gap-2">
+                          <button
+                            onClick={() => viewFile(file)}
+                            className="inline-flex items-center gap-1 rounded-xl bg-blue-100 px-3 py-1.5 text-xs font-semibold text-blue-700 hover:bg-blue-200"
+                          >
+                            <Eye className="h-3 w-3" />
+                            View
+                          </button>
+                          {canManage && (
+                            <>
+                              <input
+                                type="datetime-local"
+                                value={releaseTime(file)}
+                                onChange={(e) => setReleaseTimes((prev) => ({ ...prev, [file.id]: e.target.value }))}
+                                className="rounded-xl border border-blue-200 px-2 py-1 text-xs text-blue-900"
+                              />
+                              <button
+                                onClick={() => changeStatus(file, "scheduled")}
+                                disabled={isBusy || !releaseTime(file)}
+                                className="inline-flex items-center gap-1 rounded-xl bg-teal-100 px-3 py-1.5 text-xs font-semibold text-teal-700 hover:bg-teal-200 disabled:opacity-50"
+                              >
+                                <CalendarClock className="h-3 w-3" />
+                                {status === "scheduled" ? "Reschedule" : "Schedule"}
+                              </button>
+                              {canChangeStatus(file, "draft") && (
+                                <button
+                                  onClick={() => changeStatus(file, "draft")}
+                                  disabled={isBusy}
+                                  className="inline-flex items-center gap-1 rounded-xl bg-slate-100 px-3 py-1.5 text-xs font-semibold text-slate-700 hover:bg-slate-200 disabled:opacity-50"
+                                >
+                                  <FileEdit className="h-3 w-3" />
+                                  Move to Draft
+                                </button>
+                              )}
+                              <button
+                                onClick={() => changeStatus(file, "published")}
+                                disabled={isBusy}
+                                className="inline-flex items-center gap-1 rounded-xl bg-green-100 px-3 py-1.5 text-xs font-semibold text-green-700 hover:bg-green-200 disabled:opacity-50"
+                              >
+                                <Send className="h-3 w-3" />
+                                Publish Now
+                              </button>
+                            </>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,358 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { supabase } from "@/lib/supabase";
+import { Archive, ArrowLeft, RefreshCcw, Save, Trash2 } from "lucide-react";
+import { AccessDenied } from "@/components/AccessDenied";
+import { AlertModal, Toast } from "@/components/Modal";
+import { WeekBadge } from "@/components/WeekBadge";
+import { formatIsoWeekLabel } from "@/lib/isoWeek";
+import { fetchRetentionPreview, purgeRetainedFiles } from "@/lib/portFilesApi";
+import {
+  DEFAULT_RETENTION_POLICY,
+  loadRetentionPolicy,
+  validateRetentionPolicy,
+  type RetentionPolicyErrors,
+} from "@/lib/retention";
+import type { RetentionCounts, RetentionPolicy, RetentionPreview } from "@/lib/types";
+import { useProfile } from "@/lib/useProfile";
+import { formatDateTime, formatFileSize } from "@/lib/utils";
+
+const COUNT_CARDS: { key: keyof RetentionCounts; label: string; color: string }[] = [
+  { key: "current", label: "Shown by default", color: "text-green-700" },
+  { key: "upcoming", label: "Upcoming", color: "text-blue-700" },
+  { key: "archived", label: "In the archive", color: "text-amber-700" },
+  { key: "purge", label: "Past purge age", color: "text-red-700" },
+];
+
+function samePolicy(a: RetentionPolicy, b: RetentionPolicy) {
+  return (
+    a.weeks_behind === b.weeks_behind &&
+    a.weeks_ahead === b.weeks_ahead &&
+    a.purge_after_weeks === b.purge_after_weeks
+  );
+}
+
+// =========================
+// ADMIN RETENTION POLICY
+// =========================
+export default function RetentionPage() {
+  const { permissions, isLoading: isAuthLoading } = useProfile();
+
+  const [saved, setSaved] = useState<RetentionPolicy>(DEFAULT_RETENTION_POLICY);
+  const [draft, setDraft] = useState<RetentionPolicy>(DEFAULT_RETENTION_POLICY);
+  const [errors, setErrors] = useState<RetentionPolicyErrors>({});
+  const [preview, setPreview] = useState<RetentionPreview | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [showPurgeModal, setShowPurgeModal] = useState(false);
+  const [alertMessage, setAlertMessage] = useState("");
+
+  function showAlert(message: string) {
+    setAlertMessage(message);
+    setTimeout(() => setAlertMessage(""), 3000);
+  }
+
+  async function loadPolicy() {
+    setIsLoading(true);
+    try {
+      const policy = await loadRetentionPolicy(supabase);
+      setSaved(policy);
+      setDraft(policy);
+    } catch (error) {
+      console.error("Error loading retention policy:", error);
+      showAlert(`Error loading policy: ${(error as Error).message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function loadPreview(policy: RetentionPolicy) {
+    try {
+      setPreview(await fetchRetentionPreview(policy));
+    } catch (error) {
+      console.error("Error loading retention preview:", error);
+      showAlert(`Error loading preview: ${(error as Error).message}`);
+    }
+  }
+
+  useEffect(() => {
+    if (permissions.canManageStorage) loadPolicy();
+  }, [permissions.canManageStorage]);
+
+  // Preview the draft as it is edited, once it is valid
+  useEffect(() => {
+    if (!permissions.canManageStorage) return;
+    const draftErrors = validateRetentionPolicy(draft);
+    if (Object.keys(draftErrors).length > 0) return;
+    const timer = setTimeout(() => loadPreview(draft), 300);
+    return () => clearTimeout(timer);
+  }, [permissions.canManageStorage, draft]);
+
+  function updateDraft(changes: Partial<RetentionPolicy>) {
+    const next = { ...draft, ...changes };
+    setDraft(next);
+    setErrors(validateRetentionPolicy(next));
+  }
+
+  async function savePolicy() {
+    const policyErrors = validateRetentionPolicy(draft);
+    setErrors(policyErrors);
+    if (Object.keys(policyErrors).length > 0) return;
+
+    setIsLoading(true);
+    try {
+      const { data } = await supabase.auth.getUser();
+      const { error } = await supabase.from("retention_policy").upsert({
+        id: true,
+        weeks_behind: draft.weeks_behind,
+        weeks_ahead: draft.weeks_ahead,
+        purge_after_weeks: draft.purge_after_weeks,
+        updated_at: new Date().toISOString(),
+        updated_by: data.user?.email ?? null,
+      });
+
+      if (error) throw error;
+
+      showAlert("Retention policy saved");
+      await loadPolicy();
+    } catch (error) {
+      console.error("Error saving retention policy:", error);
+      showAlert(`Save failed: ${(error as Error).message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function purgeFiles() {
+    if (!preview) return;
+
+    setIsLoading(true);
+    try {
+      const result = await purgeRetainedFiles(preview.purge.map((file) => file.id));
+      showAlert(
+        `Purged ${result.purged} file${result.purged === 1 ? "" : "s"}` +
+          (result.skipped > 0 ? `, skipped ${result.skipped}` : "")
+      );
+      await loadPreview(saved);
+    } catch (error) {
+      console.error("Error purging files:", error);
+      showAlert(`Purge failed: ${(error as Error).message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  // =========================
+  // RENDER
+  // =========================
+  if (!permissions.canManageStorage) {
+    return <AccessDenied isLoading={isAuthLoading} />;
+  }
+
+  const isDirty = !samePolicy(draft, saved);
+  const purgeBytes = preview?.purge.reduce((sum, file) => sum + (file.file_size ?? 0), 0) ?? 0;
+  const inputClass =
+    "w-28 rounded-xl border border-slate-200 bg-white px-3 py-2 outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <main className="min-h-screen bg-gradient-to-b from-blue-50 via-white to-blue-50">
+      {alertMessage && <Toast message={alertMessage} />}
+
+      {/* HEADER */}
+      <div className="sticky top-0 z-50 border-b border-blue-200 bg-white/90 backdrop-blur-xl">
+        <div className="mx-auto flex max-w-[95vw] items-center justify-between px-4 py-4 sm:py-6">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/"
+              className="rounded-2xl bg-blue-100 p-2.5 text-blue-700 hover:bg-blue-200"
+              title="Back to PDF files"
+            >
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+            <div>
+              <div className="text-xl font-bold tracking-tight text-blue-900">Retention</div>
+              <div className="text-xs text-blue-600">
+                Which weeks the home page shows, when files move to the archive and when they may be purged
+              </div>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <button
+              onClick={loadPolicy}
+              className="inline-flex items-center gap-2 rounded-2xl bg-blue-100 px-4 py-2.5 text-sm font-semibold text-blue-700 hover:bg-blue-200"
+            >
+              <RefreshCcw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+              Refresh
+            </button>
+            <button
+              onClick={savePolicy}
+              disabled={isLoading || !isDirty}
+              className="inline-flex items-center gap-2 rounded-2xl bg-gradient-to-r from-blue-600 to-blue-700 px-4 py-2.5 text-sm font-semibold text-white shadow-lg hover:from-blue-700 hover:to-blue-800 disabled:opacity-50"
+            >
+              <Save className="h-4 w-4" />
+              Save Policy
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* CONTENT */}
+      <div className="mx-auto max-w-[95vw] space-y-6 px-4 py-6">
+        {/* POLICY FORM */}
+        <div className="rounded-3xl border border-blue-200 bg-white p-6">
+          <div className="grid gap-6 sm:grid-cols-3">
+            <div>
+              <label className="mb-1 block text-sm font-semibold text-slate-700">Weeks behind</label>
+              <input
+                type="number"
+                min={0}
+                value={draft.weeks_behind}
+                onChange={(e) => updateDraft({ weeks_behind: Number(e.target.value) })}
+                className={inputClass}
+              />
+              <div className="mt-1 text-xs text-slate-500">Older weeks move to the Archive view</div>
+              {errors.weeks_behind && <div className="mt-1 text-xs text-red-600">{errors.weeks_behind}</div>}
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-semibold text-slate-700">Weeks ahead</label>
+              <input
+                type="number"
+                min={0}
+                value={draft.weeks_ahead}
+                onChange={(e) => updateDraft({ weeks_ahead: Number(e.target.value) })}
+                className={inputClass}
+              />
+              <div className="mt-1 text-xs text-slate-500">Later weeks appear as they come into range</div>
+              {errors.weeks_ahead && <div className="mt-1 text-xs text-red-600">{errors.weeks_ahead}</div>}
+            </div>
+            <div>
+              <label className="mb-1 flex items-center gap-2 text-sm font-semibold text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={draft.purge_after_weeks !== null}
+                  onChange={(e) =>
+                    updateDraft({ purge_after_weeks: e.target.checked ? Math.max(52, draft.weeks_behind + 1) : null })
+                  }
+                />
+                Purge after weeks
+              </label>
+              <input
+                type="number"
+                min={draft.weeks_behind + 1}
+                value={draft.purge_after_weeks ?? ""}
+                disabled={draft.purge_after_weeks === null}
+                onChange={(e) => updateDraft({ purge_after_weeks: Number(e.target.value) })}
+                className={`${inputClass} disabled:bg-slate-50 disabled:text-slate-400`}
+              />
+              <div className="mt-1 text-xs text-slate-500">Files for older weeks can be deleted below</div>
+              {errors.purge_after_weeks && (
+                <div className="mt-1 text-xs text-red-600">{errors.purge_after_weeks}</div>
+              )}
+            </div>
+          </div>
+          {saved.updated_at && (
+            <div className="mt-4 text-xs text-slate-500">
+              Last saved {formatDateTime(saved.updated_at)}
+              {saved.updated_by ? ` by ${saved.updated_by}` : ""}
+            </div>
+          )}
+        </div>
+
+        {/* PREVIEW */}
+        {preview && (
+          <>
+            <div className="text-sm text-blue-900">
+              {isDirty ? "With these unsaved settings, " : "Today, "}
+              the home page shows{" "}
+              <span className="font-semibold">{formatIsoWeekLabel(preview.window.from.week, preview.window.from.year)}</span>{" "}
+              to{" "}
+              <span className="font-semibold">{formatIsoWeekLabel(preview.window.to.week, preview.window.to.year)}</span>
+              {preview.purgeBefore && (
+                <>
+                  {" "}
+                  and files before{" "}
+                  <span className="font-semibold">
+                    W{preview.purgeBefore.week} {preview.purgeBefore.year}
+                  </span>{" "}
+                  may be purged
+                </>
+              )}
+              .
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-4">
+              {COUNT_CARDS.map(({ key, label, color }) => (
+                <div key={key} className="rounded-3xl border border-blue-200 bg-white p-6">
+                  <div className="text-sm font-semibold text-blue-600">{label}</div>
+                  <div className={`mt-1 text-3xl font-bold ${color}`}>{preview.counts[key]}</div>
+                </div>
+              ))}
+            </div>
+            <div className="text-xs text-slate-500">
+              The first three count published files as visitors see them. Past purge age counts every file,
+              including drafts and withdrawn files, because purging deletes those too.
+            </div>
+
+            {preview.purge.length > 0 ? (
+              <div className="overflow-hidden rounded-3xl border-2 border-red-200 bg-white shadow-xl">
+                <div className="flex flex-wrap items-center justify-between gap-3 border-b border-red-100 bg-red-50 px-6 py-4">
+                  <div>
+                    <div className="font-bold text-red-900">Files past the purge age</div>
+                    <div className="text-xs text-red-700">
+                      {preview.counts.purge > preview.purge.length
+                        ? `Showing the oldest ${preview.purge.length} of ${preview.counts.purge}. Purge again for the rest.`
+                        : `${preview.purge.length} files, ${formatFileSize(purgeBytes)}.`}
+                      {isDirty && " Save the policy before purging."}
+                    </div>
+                  </div>
+                  {permissions.canDelete && (
+                    <button
+                      onClick={() => setShowPurgeModal(true)}
+                      disabled={isLoading || isDirty}
+                      className="inline-flex items-center gap-2 rounded-2xl bg-red-600 px-4 py-2.5 text-sm font-semibold text-white hover:bg-red-700 disabled:opacity-50"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      Purge {preview.purge.length} Files
+                    </button>
+                  )}
+                </div>
+                <div className="max-h-[28rem] divide-y divide-red-50 overflow-y-auto">
+                  {preview.purge.map((file) => (
+                    <div key={file.id} className="flex flex-wrap items-center gap-4 px-6 py-3">
+                      <WeekBadge week={file.week} year={file.year} />
+                      <div className="min-w-0 flex-1">
+                        <div className="text-sm font-bold text-blue-800">{file.port_name}</div>
+                        <div className="truncate text-xs text-slate-500">
+                          {file.file_name} • uploaded {formatDateTime(file.uploaded_at)}
+                        </div>
+                      </div>
+                      <div className="text-xs text-slate-500">{formatFileSize(file.file_size ?? 0)}</div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ) : (
+              <div className="flex items-center gap-3 rounded-3xl border border-blue-200 bg-white p-6 text-blue-900">
+                <Archive className="h-6 w-6 text-blue-400" />
+                {preview.purgeBefore
+                  ? "No files are past the purge age."
+                  : "Purging is off. Archived files stay available in the Archive view."}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      <AlertModal
+        isOpen={showPurgeModal}
+        onClose={() => setShowPurgeModal(false)}
+        title="Purge Files"
+        message={`Permanently delete ${preview?.purge.length ?? 0} files for weeks before W${preview?.purgeBefore?.week} ${preview?.purgeBefore?.year}? The PDFs are removed from storage and cannot be restored.`}
+        onConfirm={purgeFiles}
+        confirmText="Purge"
+      />
+    </main>
+  );
+}
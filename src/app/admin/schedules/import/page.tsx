@@ -0,0 +1,336 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { supabase } from "@/lib/supabase";
+import { AlertCircle, ArrowLeft, CheckCircle2, FileSpreadsheet, Upload } from "lucide-react";
+import { AccessDenied } from "@/components/AccessDenied";
+import { Toast } from "@/components/Modal";
+import { formatIsoWeekRange, isValidIsoWeek } from "@/lib/isoWeek";
+import {
+  IMPORT_FIELDS,
+  SCHEDULE_UPSERT_KEY,
+  buildImportRows,
+  guessColumnMapping,
+  groupImportRows,
+  readSheet,
+  scheduleKey,
+  type ColumnMapping,
+  type ImportField,
+} from "@/lib/scheduleImport";
+import { createPortResolver, loadPorts } from "@/lib/ports";
+import type { Port, PortCall } from "@/lib/types";
+import { useProfile } from "@/lib/useProfile";
+import { formatDateTime } from "@/lib/utils";
+
+// =========================
+// ADMIN EXCEL IMPORT
+// =========================
+export default function ImportSchedulesPage() {
+  const { permissions, isLoading: isAuthLoading } = useProfile();
+
+  const [fileName, setFileName] = useState("");
+  const [headers, setHeaders] = useState<unknown[]>([]);
+  const [dataRows, setDataRows] = useState<unknown[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [knownPorts, setKnownPorts] = useState<Set<string>>(new Set());
+  const [catalogue, setCatalogue] = useState<Port[]>([]);
+  const [existingKeys, setExistingKeys] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(false);
+  const [alertMessage, setAlertMessage] = useState("");
+
+  function showAlert(message: string) {
+    setAlertMessage(message);
+    setTimeout(() => setAlertMessage(""), 3000);
+  }
+
+  // =========================
+  // LOAD REFERENCE DATA
+  // =========================
+  async function loadReferenceData() {
+    try {
+      const [filesResult, schedulesResult, catalogueResult] = await Promise.all([
+        supabase.from("port_files").select("port_name"),
+        supabase
+          .from("vessel_schedules")
+          .select("port_name, week, year, vessel_name, voyage_no, port_calls"),
+        loadPorts(supabase),
+      ]);
+
+      if (filesResult.error) throw filesResult.error;
+      if (schedulesResult.error) throw schedulesResult.error;
+
+      const ports = new Set<string>();
+      filesResult.data?.forEach((file) => ports.add(file.port_name.trim().toUpperCase()));
+      schedulesResult.data?.forEach((schedule) => {
+        ports.add(schedule.port_name);
+        (schedule.port_calls as PortCall[]).forEach((call) => ports.add(call.port_name));
+      });
+
+      setKnownPorts(ports);
+      setCatalogue(catalogueResult);
+      setExistingKeys(new Set(schedulesResult.data?.map(scheduleKey)));
+    } catch (error) {
+      console.error("Error loading reference data:", error);
+      showAlert(`Error loading ports: ${(error as Error).message}`);
+    }
+  }
+
+  useEffect(() => {
+    loadReferenceData();
+  }, []);
+
+  // =========================
+  // FILE / MAPPING
+  // =========================
+  async function handleFile(file: File | undefined) {
+    if (!file) return;
+
+    try {
+      const rows = await readSheet(file);
+      if (rows.length < 2) {
+        showAlert("The sheet needs a header row and at least one data row");
+        return;
+      }
+      setFileName(file.name);
+      setHeaders(rows[0]);
+      setDataRows(rows.slice(1));
+      setMapping(guessColumnMapping(rows[0]));
+    } catch (error) {
+      console.error("Error reading sheet:", error);
+      showAlert(`Could not read file: ${(error as Error).message}`);
+    }
+  }
+
+  const missingFields = useMemo(
+    () =>
+      mapping
+        ? IMPORT_FIELDS.filter((field) => field.required && mapping[field.key] === null)
+        : [],
+    [mapping]
+  );
+
+  // Catalogue names and aliases first, then ports already used in files and schedules
+  const resolvePort = useMemo(() => {
+    const fromCatalogue = createPortResolver(catalogue);
+    return (text: string) => fromCatalogue(text)?.name ?? (knownPorts.has(text) ? text : null);
+  }, [catalogue, knownPorts]);
+
+  const importRows = useMemo(
+    () =>
+      mapping && missingFields.length === 0
+        ? buildImportRows(dataRows, mapping, resolvePort)
+        : [],
+    [dataRows, mapping, resolvePort, missingFields]
+  );
+
+  const invalidCount = importRows.filter((row) => row.errors.length > 0).length;
+  const schedulesToSave = useMemo(() => groupImportRows(importRows), [importRows]);
+  const updateCount = schedulesToSave.filter((s) => existingKeys.has(scheduleKey(s))).length;
+
+  // =========================
+  // COMMIT
+  // =========================
+  async function commitImport() {
+    if (invalidCount > 0 || schedulesToSave.length === 0) return;
+
+    setIsLoading(true);
+    try {
+      const now = new Date().toISOString();
+      const { error } = await supabase
+        .from("vessel_schedules")
+        .upsert(
+          schedulesToSave.map((schedule) => ({ ...schedule, updated_at: now })),
+          { onConflict: SCHEDULE_UPSERT_KEY }
+        );
+
+      if (error) throw error;
+
+      showAlert(
+        `Imported ${schedulesToSave.length} schedules (${updateCount} updated, ${schedulesToSave.length - updateCount} new)`
+      );
+      setFileName("");
+      setHeaders([]);
+      setDataRows([]);
+      setMapping(null);
+      await loadReferenceData();
+    } catch (error) {
+      console.error("Error importing schedules:", error);
+      showAlert(`Import failed: ${(error as Error).message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  // =========================
+  // RENDER
+  // =========================
+  if (!permissions.canManageSchedules) {
+    return <AccessDenied isLoading={isAuthLoading} />;
+  }
+
+  return (
+    <main className="min-h-screen bg-gradient-to-b from-blue-50 via-white to-blue-50">
+      {alertMessage && <Toast message={alertMessage} />}
+
+      {/* HEADER */}
+      <div className="sticky top-0 z-50 border-b border-blue-200 bg-white/90 backdrop-blur-xl">
+        <div className="mx-auto flex max-w-[95vw] items-center gap-4 px-4 py-4 sm:py-6">
+          <Link
+            href="/admin/schedules"
+            className="rounded-2xl bg-blue-100 p-2.5 text-blue-700 hover:bg-blue-200"
+            title="Back to schedules"
+          >
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+          <div>
+            <div className="text-xl font-bold tracking-tight text-blue-900">Import Schedules</div>
+            <div className="text-xs text-blue-600">
+              .xlsx or .csv, one row per port call
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="mx-auto max-w-[95vw] space-y-6 px-4 py-6">
+        {/* STEP 1: FILE */}
+        <div className="rounded-3xl border border-blue-200 bg-white p-6">
+          <div className="mb-3 text-sm font-bold text-blue-900">1. Choose sheet</div>
+          <label className="flex cursor-pointer items-center gap-3 rounded-2xl border-2 border-dashed border-blue-200 px-6 py-4 hover:bg-blue-50">
+            <FileSpreadsheet className="h-6 w-6 text-blue-500" />
+            <span className="text-sm text-blue-800">
+              {fileName || "Click to select an Excel or CSV file"}
+            </span>
+            <input
+              type="file"
+              accept=".xlsx,.xls,.csv"
+              className="hidden"
+              onChange={(e) => {
+                handleFile(e.target.files?.[0]);
+                e.target.value = "";
+              }}
+            />
+          </label>
+        </div>
+
+        {/* STEP 2: MAPPING */}
+        {mapping && (
+          <div className="rounded-3xl border border-blue-200 bg-white p-6">
+            <div className="mb-3 text-sm font-bold text-blue-900">2. Map columns</div>
+            <div className="grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-5">
+              {IMPORT_FIELDS.map((field) => (
+                <div key={field.key}>
+                  <label className="mb-1 block text-xs font-semibold text-slate-700">
+                    {field.label}
+                    {field.required && " *"}
+                  </label>
+                  <select
+                    value={mapping[field.key] ?? ""}
+                    onChange={(e) =>
+                      setMapping({
+                        ...mapping,
+                        [field.key as ImportField]: e.target.value === "" ? null : Number(e.target.value),
+                      })
+                    }
+                    className="w-full rounded-lg border border-slate-200 bg-white px-2 py-2 text-sm outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">— not mapped —</option>
+                    {headers.map((header, index) => (
+                      <option key={index} value={index}>
+                        {String(header) || `Column ${index + 1}`}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+            {missingFields.length > 0 && (
+              <div className="mt-3 text-sm text-red-600">
+                Map the required fields: {missingFields.map((field) => field.label).join(", ")}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* STEP 3: PREVIEW */}
+        {importRows.length > 0 && (
+          <div className="overflow-hidden rounded-3xl border-2 border-blue-200 bg-white shadow-xl">
+            <div className="flex flex-col gap-3 border-b border-blue-100 px-6 py-4 sm:flex-row sm:items-center sm:justify-between">
+              <div>
+                <div className="text-sm font-bold text-blue-900">3. Review and import</div>
+                <div className="text-xs text-blue-600">
+                  {importRows.length} rows • {schedulesToSave.length} schedules ({updateCount} will be updated)
+                  {invalidCount > 0 && (
+                    <span className="font-semibold text-red-600"> • {invalidCount} rows with errors</span>
+                  )}
+                </div>
+              </div>
+              <button
+                onClick={commitImport}
+                disabled={isLoading || invalidCount > 0}
+                className="inline-flex items-center gap-2 rounded-2xl bg-gradient-to-r from-green-600 to-green-700 px-4 py-2.5 text-sm font-semibold text-white shadow-lg hover:from-green-700 hover:to-green-800 disabled:opacity-50"
+              >
+                <Upload className="h-4 w-4" />
+                {isLoading ? "Importing..." : "Import Schedules"}
+              </button>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-blue-200 text-sm">
+                <thead className="bg-blue-50">
+                  <tr>
+                    {["Row", "Status", "Port", "Week", "Vessel / Voyage", "Call Port", "ETA", "ETD", "Cut-off"].map(
+                      (label) => (
+                        <th
+                          key={label}
+                          className="px-4 py-3 text-left text-xs font-bold text-blue-900 uppercase tracking-wider"
+                        >
+                          {label}
+                        </th>
+                      )
+                    )}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-blue-100">
+                  {importRows.map((row) => (
+                    <tr key={row.rowNumber} className={row.errors.length ? "bg-red-50/60" : ""}>
+                      <td className="px-4 py-2 text-blue-900">{row.rowNumber}</td>
+                      <td className="px-4 py-2">
+                        {row.errors.length ? (
+                          <div className="flex items-start gap-1 text-xs text-red-700">
+                            <AlertCircle className="mt-0.5 h-3 w-3 flex-shrink-0" />
+                            <span>{row.errors.join("; ")}</span>
+                          </div>
+                        ) : (
+                          <div className="flex items-center gap-1 text-xs text-green-700">
+                            <CheckCircle2 className="h-3 w-3" />
+                            {existingKeys.has(scheduleKey(row.schedule)) ? "Update" : "New"}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-4 py-2 font-semibold text-blue-800">{row.schedule.port_name}</td>
+                      <td className="px-4 py-2 whitespace-nowrap text-blue-800">
+                        W{row.schedule.week} • {row.schedule.year}
+                        {isValidIsoWeek(row.schedule.week, row.schedule.year) && (
+                          <div className="text-xs text-blue-500">
+                            {formatIsoWeekRange(row.schedule.week, row.schedule.year)}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap text-blue-800">
+                        {row.schedule.vessel_name} {row.schedule.voyage_no}
+                      </td>
+                      <td className="px-4 py-2 text-blue-800">{row.call.port_name}</td>
+                      <td className="px-4 py-2 whitespace-nowrap text-blue-700">{formatDateTime(row.call.eta)}</td>
+                      <td className="px-4 py-2 whitespace-nowrap text-blue-700">{formatDateTime(row.call.etd)}</td>
+                      <td className="px-4 py-2 whitespace-nowrap text-blue-700">{formatDateTime(row.call.cut_off)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,496 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { supabase } from "@/lib/supabase";
+import {
+  ArrowLeft,
+  FileSpreadsheet,
+  Pencil,
+  Plus,
+  RefreshCcw,
+  Ship,
+  Trash2,
+} from "lucide-react";
+import { AccessDenied } from "@/components/AccessDenied";
+import { AlertModal, Modal, Toast } from "@/components/Modal";
+import { PortRotation } from "@/components/PortRotation";
+import { WeekBadge } from "@/components/WeekBadge";
+import { getCurrentIsoWeek } from "@/lib/isoWeek";
+import {
+  emptyPortCall,
+  fromDateTimeInput,
+  toDateTimeInput,
+  validateSchedule,
+} from "@/lib/schedules";
+import type { PortCall, VesselSchedule, VesselScheduleForm } from "@/lib/types";
+import { useProfile } from "@/lib/useProfile";
+
+function emptyScheduleForm(): VesselScheduleForm {
+  const { week, year } = getCurrentIsoWeek();
+  return {
+    port_name: "",
+    week,
+    year,
+    vessel_name: "",
+    voyage_no: "",
+    service: "",
+    port_calls: [emptyPortCall()],
+  };
+}
+
+const inputClass =
+  "w-full rounded-xl border border-slate-200 bg-white px-4 py-3 outline-none focus:ring-2 focus:ring-blue-500";
+const smallInputClass =
+  "w-full rounded-lg border border-slate-200 bg-white px-2 py-2 text-sm outline-none focus:ring-2 focus:ring-blue-500";
+
+// =========================
+// ADMIN SCHEDULE CRUD
+// =========================
+export default function AdminSchedulesPage() {
+  const { permissions, isLoading: isAuthLoading } = useProfile();
+
+  const [schedules, setSchedules] = useState<VesselSchedule[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [showFormModal, setShowFormModal] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<VesselScheduleForm>(emptyScheduleForm());
+  const [formErrors, setFormErrors] = useState<string[]>([]);
+  const [scheduleToDelete, setScheduleToDelete] = useState<VesselSchedule | null>(null);
+  const [alertMessage, setAlertMessage] = useState("");
+
+  function showAlert(message: string) {
+    setAlertMessage(message);
+    setTimeout(() => setAlertMessage(""), 3000);
+  }
+
+  // =========================
+  // LOAD DATA
+  // =========================
+  async function loadSchedules() {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("vessel_schedules")
+        .select("*")
+        .order("year", { ascending: false })
+        .order("week", { ascending: false });
+
+      if (error) throw error;
+      setSchedules(data || []);
+    } catch (error) {
+      console.error("Error loading schedules:", error);
+      showAlert(`Error loading schedules: ${(error as Error).message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadSchedules();
+  }, []);
+
+  // =========================
+  // FORM HELPERS
+  // =========================
+  function openCreate() {
+    setEditingId(null);
+    setForm(emptyScheduleForm());
+    setFormErrors([]);
+    setShowFormModal(true);
+  }
+
+  function openEdit(schedule: VesselSchedule) {
+    setEditingId(schedule.id);
+    setForm({
+      port_name: schedule.port_name,
+      week: schedule.week,
+      year: schedule.year,
+      vessel_name: schedule.vessel_name,
+      voyage_no: schedule.voyage_no,
+      service: schedule.service,
+      port_calls: schedule.port_calls.length ? schedule.port_calls : [emptyPortCall()],
+    });
+    setFormErrors([]);
+    setShowFormModal(true);
+  }
+
+  function updateCall(index: number, changes: Partial<PortCall>) {
+    setForm({
+      ...form,
+      port_calls: form.port_calls.map((call, i) => (i === index ? { ...call, ...changes } : call)),
+    });
+  }
+
+  function removeCall(index: number) {
+    setForm({ ...form, port_calls: form.port_calls.filter((_, i) => i !== index) });
+  }
+
+  // =========================
+  // ACTIONS
+  // =========================
+  async function saveSchedule() {
+    const payload: VesselScheduleForm = {
+      ...form,
+      port_name: form.port_name.trim().toUpperCase(),
+      vessel_name: form.vessel_name.trim().toUpperCase(),
+      voyage_no: form.voyage_no.trim().toUpperCase(),
+      service: form.service.trim(),
+      port_calls: form.port_calls.map((call) => ({
+        ...call,
+        port_name: call.port_name.trim().toUpperCase(),
+        cut_off: call.cut_off || null,
+      })),
+    };
+
+    const errors = validateSchedule(payload);
+    setFormErrors(errors);
+    if (errors.length > 0) return;
+
+    setIsLoading(true);
+    try {
+      const { error } = editingId
+        ? await supabase
+            .from("vessel_schedules")
+            .update({ ...payload, updated_at: new Date().toISOString() })
+            .eq("id", editingId)
+        : await supabase.from("vessel_schedules").insert(payload);
+
+      if (error) throw error;
+
+      setShowFormModal(false);
+      await loadSchedules();
+      showAlert(editingId ? "Schedule updated!" : "Schedule created!");
+    } catch (error) {
+      console.error("Error saving schedule:", error);
+      setFormErrors([`Save failed: ${(error as Error).message}`]);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function deleteSchedule() {
+    if (!scheduleToDelete) return;
+
+    setIsLoading(true);
+    try {
+      const { error } = await supabase
+        .from("vessel_schedules")
+        .delete()
+        .eq("id", scheduleToDelete.id);
+
+      if (error) throw error;
+
+      setScheduleToDelete(null);
+      await loadSchedules();
+      showAlert("Schedule deleted!");
+    } catch (error) {
+      console.error("Error deleting schedule:", error);
+      showAlert(`Delete failed: ${(error as Error).message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  // =========================
+  // RENDER
+  // =========================
+  if (!permissions.canManageSchedules) {
+    return <AccessDenied isLoading={isAuthLoading} />;
+  }
+
+  return (
+    <main className="min-h-screen bg-gradient-to-b from-blue-50 via-white to-blue-50">
+      {alertMessage && <Toast message={alertMessage} />}
+
+      {/* HEADER */}
+      <div className="sticky top-0 z-50 border-b border-blue-200 bg-white/90 backdrop-blur-xl">
+        <div className="mx-auto flex max-w-[95vw] items-center justify-between px-4 py-4 sm:py-6">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/"
+              className="rounded-2xl bg-blue-100 p-2.5 text-blue-700 hover:bg-blue-200"
+              title="Back to PDF files"
+            >
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+            <div>
+              <div className="text-xl font-bold tracking-tight text-blue-900">
+                Manage Vessel Schedules
+              </div>
+              <div className="text-xs text-blue-600">{schedules.length} schedules</div>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <Link
+              href="/admin/schedules/import"
+              className="inline-flex items-center gap-2 rounded-2xl bg-blue-100 px-4 py-2.5 text-sm font-semibold text-blue-700 hover:bg-blue-200"
+            >
+              <FileSpreadsheet className="h-4 w-4" />
+              Import Excel
+            </Link>
+            <button
+              onClick={loadSchedules}
+              className="inline-flex items-center gap-2 rounded-2xl bg-blue-100 px-4 py-2.5 text-sm font-semibold text-blue-700 hover:bg-blue-200"
+            >
+              <RefreshCcw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+              Refresh
+            </button>
+            <button
+              onClick={openCreate}
+              className="inline-flex items-center gap-2 rounded-2xl bg-gradient-to-r from-green-600 to-green-700 px-4 py-2.5 text-sm font-semibold text-white shadow-lg hover:from-green-700 hover:to-green-800"
+            >
+              <Plus className="h-4 w-4" />
+              New Schedule
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* CONTENT */}
+      <div className="mx-auto max-w-[95vw] px-4 py-6">
+        {schedules.length === 0 ? (
+          <div className="rounded-3xl border border-blue-200 bg-white p-12 text-center">
+            <div className="flex flex-col items-center gap-4">
+              <Ship className="h-16 w-16 text-blue-300" />
+              <div className="text-lg font-semibold text-blue-900">
+                {isLoading ? "Loading schedules..." : "No schedules yet"}
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="overflow-hidden rounded-3xl border-2 border-blue-200 bg-white shadow-xl">
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-blue-200">
+                <thead className="bg-blue-50">
+                  <tr>
+                    <th className="px-6 py-4 text-left text-xs font-bold text-blue-900 uppercase tracking-wider">
+                      Vessel / Voyage
+                    </th>
+                    <th className="px-6 py-4 text-left text-xs font-bold text-blue-900 uppercase tracking-wider">
+                      Port & Week
+                    </th>
+                    <th className="px-6 py-4 text-left text-xs font-bold text-blue-900 uppercase tracking-wider">
+                      Port Rotation
+                    </th>
+                    <th className="px-6 py-4 text-left text-xs font-bold text-blue-900 uppercase tracking-wider">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-blue-100">
+                  {schedules.map((schedule) => (
+                    <tr key={schedule.id} className="hover:bg-blue-50/30 transition-colors">
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-bold text-blue-800">{schedule.vessel_name}</div>
+                        <div className="text-xs text-blue-600">
+                          {schedule.voyage_no}
+                          {schedule.service && ` • ${schedule.service}`}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-bold text-blue-800">{schedule.port_name}</div>
+                        <WeekBadge week={schedule.week} year={schedule.year} className="mt-1" />
+                      </td>
+                      <td className="px-6 py-4">
+                        <PortRotation calls={schedule.port_calls} />
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex items-center gap-2">
+                          <button
+                            onClick={() => openEdit(schedule)}
+                            className="inline-flex items-center gap-1 rounded-xl bg-blue-100 px-3 py-1.5 text-xs font-semibold text-blue-700 hover:bg-blue-200"
+                          >
+                            <Pencil className="h-3 w-3" />
+                            Edit
+                          </button>
+                          <button
+                            onClick={() => setScheduleToDelete(schedule)}
+                            className="inline-flex items-center gap-1 rounded-xl bg-red-100 px-3 py-1.5 text-xs font-semibold text-red-700 hover:bg-red-200"
+                          >
+                            <Trash2 className="h-3 w-3" />
+                            Delete
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* SCHEDULE FORM MODAL */}
+      <Modal
+        isOpen={showFormModal}
+        onClose={() => setShowFormModal(false)}
+        title={editingId ? "Edit Schedule" : "New Schedule"}
+        maxWidth="max-w-4xl"
+      >
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+            <div>
+              <label className="mb-1 block text-sm font-semibold text-slate-700">Vessel *</label>
+              <input
+                type="text"
+                value={form.vessel_name}
+                onChange={(e) => setForm({ ...form, vessel_name: e.target.value })}
+                placeholder="e.g., SITC MAKASSAR"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-semibold text-slate-700">Voyage No. *</label>
+              <input
+                type="text"
+                value={form.voyage_no}
+                onChange={(e) => setForm({ ...form, voyage_no: e.target.value })}
+                placeholder="e.g., 2612N"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-semibold text-slate-700">Service / Route</label>
+              <input
+                type="text"
+                value={form.service}
+                onChange={(e) => setForm({ ...form, service: e.target.value })}
+                placeholder="e.g., CVT"
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+            <div>
+              <label className="mb-1 block text-sm font-semibold text-slate-700">Port Name *</label>
+              <input
+                type="text"
+                value={form.port_name}
+                onChange={(e) => setForm({ ...form, port_name: e.target.value })}
+                placeholder="Port of the matching PDF"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-semibold text-slate-700">Year *</label>
+              <input
+                type="number"
+                value={form.year}
+                onChange={(e) => setForm({ ...form, year: parseInt(e.target.value) || 0 })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-semibold text-slate-700">Week *</label>
+              <input
+                type="number"
+                value={form.week}
+                onChange={(e) => setForm({ ...form, week: parseInt(e.target.value) || 0 })}
+                min="1"
+                max="53"
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          {/* Port rotation */}
+          <div>
+            <div className="mb-2 flex items-center justify-between">
+              <label className="block text-sm font-semibold text-slate-700">Port Rotation *</label>
+              <button
+                onClick={() => setForm({ ...form, port_calls: [...form.port_calls, emptyPortCall()] })}
+                className="inline-flex items-center gap-1 rounded-xl bg-blue-100 px-3 py-1.5 text-xs font-semibold text-blue-700 hover:bg-blue-200"
+              >
+                <Plus className="h-3 w-3" />
+                Add Port Call
+              </button>
+            </div>
+            <div className="space-y-2">
+              <div className="hidden grid-cols-[1fr_1fr_1fr_1fr_auto] gap-2 px-1 text-xs font-semibold text-slate-500 sm:grid">
+                <div>Port</div>
+                <div>ETA</div>
+                <div>ETD</div>
+                <div>Cut-off</div>
+                <div className="w-8" />
+              </div>
+              {form.port_calls.map((call, index) => (
+                <div key={index} className="grid grid-cols-1 gap-2 sm:grid-cols-[1fr_1fr_1fr_1fr_auto]">
+                  <input
+                    type="text"
+                    value={call.port_name}
+                    onChange={(e) => updateCall(index, { port_name: e.target.value })}
+                    placeholder="Port"
+                    className={smallInputClass}
+                  />
+                  <input
+                    type="datetime-local"
+                    value={toDateTimeInput(call.eta)}
+                    onChange={(e) => updateCall(index, { eta: fromDateTimeInput(e.target.value) })}
+                    className={smallInputClass}
+                  />
+                  <input
+                    type="datetime-local"
+                    value={toDateTimeInput(call.etd)}
+                    onChange={(e) => updateCall(index, { etd: fromDateTimeInput(e.target.value) })}
+                    className={smallInputClass}
+                  />
+                  <input
+                    type="datetime-local"
+                    value={toDateTimeInput(call.cut_off)}
+                    onChange={(e) => updateCall(index, { cut_off: fromDateTimeInput(e.target.value) || null })}
+                    className={smallInputClass}
+                  />
+                  <button
+                    onClick={() => removeCall(index)}
+                    className="rounded-lg p-2 text-red-600 hover:bg-red-50"
+                    title="Remove port call"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {formErrors.length > 0 && (
+            <ul className="list-disc space-y-1 rounded-xl bg-red-50 py-3 pl-8 pr-4 text-sm text-red-700">
+              {formErrors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              onClick={() => setShowFormModal(false)}
+              className="rounded-2xl bg-slate-100 px-4 py-2 text-sm font-semibold text-slate-700 hover:bg-slate-200"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={saveSchedule}
+              disabled={isLoading}
+              className="rounded-2xl bg-gradient-to-r from-green-600 to-green-700 px-4 py-2 text-sm font-semibold text-white hover:from-green-700 hover:to-green-800 disabled:opacity-50"
+            >
+              {isLoading ? "Saving..." : "Save Schedule"}
+            </button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* DELETE CONFIRMATION MODAL */}
+      <AlertModal
+        isOpen={!!scheduleToDelete}
+        onClose={() => setScheduleToDelete(null)}
+        title="Delete Schedule"
+        message={`Are you sure you want to delete ${scheduleToDelete?.vessel_name} ${scheduleToDelete?.voyage_no} (${scheduleToDelete?.port_name}, Week ${scheduleToDelete?.week}, ${scheduleToDelete?.year})?`}
+        onConfirm={deleteSchedule}
+        confirmText="Delete Schedule"
+      />
+    </main>
+  );
+}
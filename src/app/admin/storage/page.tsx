@@ -0,0 +1,246 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { supabase } from "@/lib/supabase";
+import { ArrowLeft, CheckCircle2, HardDrive, RefreshCcw, Wrench } from "lucide-react";
+import { AccessDenied } from "@/components/AccessDenied";
+import { AlertModal, Toast } from "@/components/Modal";
+import type { MessageKey, Translate } from "@/lib/i18n";
+import { removePortFile } from "@/lib/portFilesApi";
+import {
+  findStorageIssues,
+  listPortFileRows,
+  listStorageObjects,
+  repairStorageIssue,
+  type StorageIssue,
+} from "@/lib/storage";
+import { useI18n } from "@/lib/useI18n";
+import { useProfile } from "@/lib/useProfile";
+import { formatFileSize } from "@/lib/utils";
+
+const ISSUE_LABELS: Record<StorageIssue["kind"], { title: MessageKey; action: MessageKey; color: string }> = {
+  orphan_object: {
+    title: "storage.orphanObject",
+    action: "storage.deleteObject",
+    color: "bg-amber-100 text-amber-700",
+  },
+  missing_object: {
+    title: "storage.missingObject",
+    action: "storage.deleteRow",
+    color: "bg-red-100 text-red-700",
+  },
+  size_mismatch: {
+    title: "storage.sizeMismatch",
+    action: "storage.useStorageSize",
+    color: "bg-blue-100 text-blue-700",
+  },
+};
+
+function issueKey(issue: StorageIssue) {
+  return issue.kind === "orphan_object" ? `${issue.kind}:${issue.object.name}` : `${issue.kind}:${issue.row.id}`;
+}
+
+function issueDetail(issue: StorageIssue, t: Translate) {
+  switch (issue.kind) {
+    case "orphan_object":
+      return `${issue.object.name}${issue.object.size !== null ? ` • ${formatFileSize(issue.object.size)}` : ""}`;
+    case "missing_object":
+      return `${issue.row.file_name} • ${issue.row.port_name} W${issue.row.week} ${issue.row.year}`;
+    case "size_mismatch":
+      return t("storage.sizeDetail", {
+        file: issue.row.file_name,
+        rowSize: formatFileSize(issue.row.file_size ?? 0),
+        storageSize: formatFileSize(issue.object.size ?? 0),
+      });
+  }
+}
+
+// =========================
+// ADMIN STORAGE HEALTH
+// =========================
+export default function StorageHealthPage() {
+  const { permissions, isLoading: isAuthLoading } = useProfile();
+  const { t } = useI18n();
+
+  const [issues, setIssues] = useState<StorageIssue[]>([]);
+  const [counts, setCounts] = useState({ objects: 0, rows: 0 });
+  const [hasChecked, setHasChecked] = useState(false);
+  // Set when fewer rows were read than the table holds. Every object of an
+  // unread row would look orphaned, so repairs are not offered.
+  const [incompleteMessage, setIncompleteMessage] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [showRepairAllModal, setShowRepairAllModal] = useState(false);
+  const [alertMessage, setAlertMessage] = useState("");
+
+  function showAlert(message: string) {
+    setAlertMessage(message);
+    setTimeout(() => setAlertMessage(""), 3000);
+  }
+
+  async function runCheck() {
+    setIsLoading(true);
+    try {
+      const [objects, { rows, count }] = await Promise.all([
+        listStorageObjects(supabase),
+        listPortFileRows(supabase),
+      ]);
+
+      setIssues(findStorageIssues(objects, rows));
+      setCounts({ objects: objects.length, rows: rows.length });
+      setIncompleteMessage(
+        count === rows.length
+          ? ""
+          : count === null
+            ? t("storage.incompleteUnknown", { read: rows.length })
+            : t("storage.incomplete", { read: rows.length, count })
+      );
+      setHasChecked(true);
+    } catch (error) {
+      console.error("Error checking storage:", error);
+      showAlert(t("storage.checkFailed", { message: (error as Error).message }));
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    if (permissions.canManageStorage) runCheck();
+  }, [permissions.canManageStorage]);
+
+  async function repair(targets: StorageIssue[]) {
+    setIsLoading(true);
+    let failed = 0;
+    for (const issue of targets) {
+      try {
+        if (issue.kind === "missing_object") await removePortFile(issue.row.id);
+        else await repairStorageIssue(supabase, issue);
+      } catch (error) {
+        failed++;
+        console.error("Error repairing storage issue:", issue, error);
+      }
+    }
+    setIsLoading(false);
+    showAlert(
+      failed
+        ? t("storage.repairedPartly", { repaired: targets.length - failed, failed })
+        : t("storage.repaired", { count: targets.length })
+    );
+    await runCheck();
+  }
+
+  // =========================
+  // RENDER
+  // =========================
+  if (!permissions.canManageStorage) {
+    return <AccessDenied isLoading={isAuthLoading} />;
+  }
+
+  return (
+    <main className="min-h-screen bg-gradient-to-b from-blue-50 via-white to-blue-50">
+      {alertMessage && <Toast message={alertMessage} />}
+
+      {/* HEADER */}
+      <div className="sticky top-0 z-50 border-b border-blue-200 bg-white/90 backdrop-blur-xl">
+        <div className="mx-auto flex max-w-[95vw] items-center justify-between px-4 py-4 sm:py-6">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/"
+              className="rounded-2xl bg-blue-100 p-2.5 text-blue-700 hover:bg-blue-200"
+              title={t("common.backToFiles")}
+            >
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+            <div>
+              <div className="text-xl font-bold tracking-tight text-blue-900">{t("admin.storage")}</div>
+              <div className="text-xs text-blue-600">
+                {t("storage.counts", { objects: counts.objects, rows: counts.rows })}
+              </div>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <button
+              onClick={runCheck}
+              className="inline-flex items-center gap-2 rounded-2xl bg-blue-100 px-4 py-2.5 text-sm font-semibold text-blue-700 hover:bg-blue-200"
+            >
+              <RefreshCcw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+              {t("storage.recheck")}
+            </button>
+            <button
+              onClick={() => setShowRepairAllModal(true)}
+              disabled={isLoading || issues.length === 0 || !!incompleteMessage}
+              className="inline-flex items-center gap-2 rounded-2xl bg-gradient-to-r from-red-600 to-red-700 px-4 py-2.5 text-sm font-semibold text-white shadow-lg hover:from-red-700 hover:to-red-800 disabled:opacity-50"
+            >
+              <Wrench className="h-4 w-4" />
+              {t("storage.repairAll")}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* CONTENT */}
+      <div className="mx-auto max-w-[95vw] px-4 py-6">
+        {incompleteMessage && (
+          <div className="mb-4 rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+            {incompleteMessage}
+          </div>
+        )}
+
+        {issues.length === 0 ? (
+          <div className="rounded-3xl border border-blue-200 bg-white p-12 text-center">
+            <div className="flex flex-col items-center gap-4">
+              {hasChecked ? (
+                <CheckCircle2 className="h-16 w-16 text-green-400" />
+              ) : (
+                <HardDrive className="h-16 w-16 text-blue-300" />
+              )}
+              <div className="text-lg font-semibold text-blue-900">
+                {isLoading
+                  ? t("storage.checking")
+                  : hasChecked
+                    ? t("storage.consistent")
+                    : t("storage.notChecked")}
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="overflow-hidden rounded-3xl border-2 border-blue-200 bg-white shadow-xl">
+            <div className="divide-y divide-blue-100">
+              {issues.map((issue) => {
+                const label = ISSUE_LABELS[issue.kind];
+                return (
+                  <div key={issueKey(issue)} className="flex items-center justify-between gap-4 px-6 py-4">
+                    <div className="min-w-0">
+                      <span className={`rounded-full px-2 py-0.5 text-[11px] font-semibold ${label.color}`}>
+                        {t(label.title)}
+                      </span>
+                      <div className="mt-1 truncate text-sm text-blue-900">{issueDetail(issue, t)}</div>
+                    </div>
+                    <button
+                      onClick={() => repair([issue])}
+                      disabled={isLoading || !!incompleteMessage}
+                      className="inline-flex flex-shrink-0 items-center gap-1 rounded-xl bg-slate-100 px-3 py-1.5 text-xs font-semibold text-slate-700 hover:bg-slate-200 disabled:opacity-50"
+                    >
+                      <Wrench className="h-3 w-3" />
+                      {t(label.action)}
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <AlertModal
+        isOpen={showRepairAllModal}
+        onClose={() => setShowRepairAllModal(false)}
+        title={t("storage.repairAllTitle")}
+        message={t("storage.repairAllConfirm", { count: issues.length })}
+        onConfirm={() => repair(issues)}
+        confirmText={t("storage.repairAll")}
+      />
+    </main>
+  );
+}
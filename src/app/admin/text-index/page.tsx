@@ -0,0 +1,157 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { ArrowLeft, FileSearch, Play, RefreshCcw, RotateCcw } from "lucide-react";
+import { AccessDenied } from "@/components/AccessDenied";
+import { Toast } from "@/components/Modal";
+import type { MessageKey } from "@/lib/i18n";
+import { fetchTextIndexStatus, runTextBackfill } from "@/lib/portFilesApi";
+import type { TextIndexStatus } from "@/lib/types";
+import { useI18n } from "@/lib/useI18n";
+import { useProfile } from "@/lib/useProfile";
+
+const STATUS_CARDS: { key: keyof TextIndexStatus; label: MessageKey; color: string }[] = [
+  { key: "indexed", label: "textIndex.indexed", color: "text-green-700" },
+  { key: "pending", label: "textIndex.pending", color: "text-amber-700" },
+  { key: "failed", label: "textIndex.failed", color: "text-red-700" },
+];
+
+// =========================
+// ADMIN PDF TEXT INDEX
+// =========================
+export default function TextIndexPage() {
+  const { permissions, isLoading: isAuthLoading } = useProfile();
+  const { t } = useI18n();
+
+  const [status, setStatus] = useState<TextIndexStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState({ processed: 0, failed: 0 });
+  const [alertMessage, setAlertMessage] = useState("");
+
+  function showAlert(message: string) {
+    setAlertMessage(message);
+    setTimeout(() => setAlertMessage(""), 3000);
+  }
+
+  async function loadStatus() {
+    setIsLoading(true);
+    try {
+      setStatus(await fetchTextIndexStatus());
+    } catch (error) {
+      console.error("Error loading text index status:", error);
+      showAlert(t("textIndex.loadFailed", { message: (error as Error).message }));
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    if (permissions.canManageStorage) loadStatus();
+  }, [permissions.canManageStorage]);
+
+  // Runs batches until nothing is left, so the request per batch stays short
+  async function runBackfill(retryFailed: boolean) {
+    setIsRunning(true);
+    setProgress({ processed: 0, failed: 0 });
+    let totals = { processed: 0, failed: 0 };
+
+    try {
+      let result = await runTextBackfill(retryFailed);
+      for (;;) {
+        totals = { processed: totals.processed + result.processed, failed: totals.failed + result.failed };
+        setProgress(totals);
+        if (result.remaining === 0 || result.processed === 0) break;
+        result = await runTextBackfill();
+      }
+      showAlert(t("textIndex.done", { indexed: totals.processed - totals.failed, failed: totals.failed }));
+    } catch (error) {
+      console.error("Error running text backfill:", error);
+      showAlert(t("textIndex.stopped", { message: (error as Error).message }));
+    } finally {
+      setIsRunning(false);
+      await loadStatus();
+    }
+  }
+
+  // =========================
+  // RENDER
+  // =========================
+  if (!permissions.canManageStorage) {
+    return <AccessDenied isLoading={isAuthLoading} />;
+  }
+
+  return (
+    <main className="min-h-screen bg-gradient-to-b from-blue-50 via-white to-blue-50">
+      {alertMessage && <Toast message={alertMessage} />}
+
+      {/* HEADER */}
+      <div className="sticky top-0 z-50 border-b border-blue-200 bg-white/90 backdrop-blur-xl">
+        <div className="mx-auto flex max-w-[95vw] items-center justify-between px-4 py-4 sm:py-6">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/"
+              className="rounded-2xl bg-blue-100 p-2.5 text-blue-700 hover:bg-blue-200"
+              title={t("common.backToFiles")}
+            >
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+            <div>
+              <div className="text-xl font-bold tracking-tight text-blue-900">{t("admin.textIndex")}</div>
+              <div className="text-xs text-blue-600">{t("textIndex.subtitle")}</div>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <button
+              onClick={loadStatus}
+              className="inline-flex items-center gap-2 rounded-2xl bg-blue-100 px-4 py-2.5 text-sm font-semibold text-blue-700 hover:bg-blue-200"
+            >
+              <RefreshCcw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+              {t("common.refresh")}
+            </button>
+            <button
+              onClick={() => runBackfill(true)}
+              disabled={isRunning || !status?.failed}
+              className="inline-flex items-center gap-2 rounded-2xl bg-amber-100 px-4 py-2.5 text-sm font-semibold text-amber-700 hover:bg-amber-200 disabled:opacity-50"
+            >
+              <RotateCcw className="h-4 w-4" />
+              {t("textIndex.retryFailed")}
+            </button>
+            <button
+              onClick={() => runBackfill(false)}
+              disabled={isRunning || !status?.pending}
+              className="inline-flex items-center gap-2 rounded-2xl bg-gradient-to-r from-blue-600 to-blue-700 px-4 py-2.5 text-sm font-semibold text-white shadow-lg hover:from-blue-700 hover:to-blue-800 disabled:opacity-50"
+            >
+              <Play className="h-4 w-4" />
+              {t("textIndex.indexExisting")}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* CONTENT */}
+      <div className="mx-auto max-w-[95vw] space-y-6 px-4 py-6">
+        <div className="grid gap-4 sm:grid-cols-3">
+          {STATUS_CARDS.map(({ key, label, color }) => (
+            <div key={key} className="rounded-3xl border border-blue-200 bg-white p-6">
+              <div className="text-sm font-semibold text-blue-600">{t(label)}</div>
+              <div className={`mt-1 text-3xl font-bold ${color}`}>{status ? status[key] : "–"}</div>
+            </div>
+          ))}
+        </div>
+
+        {isRunning && (
+          <div className="flex items-center gap-3 rounded-3xl border border-blue-200 bg-white p-6 text-blue-900">
+            <FileSearch className="h-6 w-6 animate-pulse text-blue-500" />
+            {t("textIndex.indexing", { processed: progress.processed })}
+            {progress.failed > 0 && (
+              <span className="text-red-700">{t("textIndex.failedCount", { count: progress.failed })}</span>
+            )}
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
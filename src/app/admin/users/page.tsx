@@ -0,0 +1,248 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { supabase } from "@/lib/supabase";
+import { ArrowLeft, RefreshCcw, Save, Users } from "lucide-react";
+import { AccessDenied } from "@/components/AccessDenied";
+import { Toast } from "@/components/Modal";
+import { ROLES } from "@/lib/permissions";
+import { loadPorts, resolvePortList } from "@/lib/ports";
+import type { Port, Profile, Role } from "@/lib/types";
+import { useProfile } from "@/lib/useProfile";
+
+type Draft = { role: Role; ports: string };
+
+// =========================
+// ADMIN USER ROLES
+// =========================
+export default function UsersPage() {
+  const { profile: currentProfile, permissions, isLoading: isAuthLoading } = useProfile();
+
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, Draft>>({});
+  const [knownPorts, setKnownPorts] = useState<Port[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [alertMessage, setAlertMessage] = useState("");
+
+  function showAlert(message: string) {
+    setAlertMessage(message);
+    setTimeout(() => setAlertMessage(""), 3000);
+  }
+
+  async function loadProfiles() {
+    setIsLoading(true);
+    try {
+      const [profilesResult, ports] = await Promise.all([
+        supabase.from("profiles").select("*").order("email"),
+        loadPorts(supabase),
+      ]);
+
+      if (profilesResult.error) throw profilesResult.error;
+
+      const rows = (profilesResult.data || []) as Profile[];
+      setProfiles(rows);
+      setDrafts(
+        Object.fromEntries(rows.map((row) => [row.id, { role: row.role, ports: row.ports.join(", ") }]))
+      );
+      setKnownPorts(ports);
+    } catch (error) {
+      console.error("Error loading users:", error);
+      showAlert(`Error loading users: ${(error as Error).message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    if (permissions.canManageUsers) loadProfiles();
+  }, [permissions.canManageUsers]);
+
+  // Assignments are stored as canonical names, so aliases and typos cannot
+  // silently grant nothing
+  function parsePorts(value: string) {
+    return resolvePortList(value, knownPorts);
+  }
+
+  function isDirty(row: Profile) {
+    const draft = drafts[row.id];
+    return !!draft && (draft.role !== row.role || parsePorts(draft.ports).names.join(",") !== row.ports.join(","));
+  }
+
+  async function saveProfile(row: Profile) {
+    const draft = drafts[row.id];
+    if (!draft) return;
+
+    const { names, unknown } = parsePorts(draft.ports);
+    if (draft.role === "uploader" && unknown.length > 0) {
+      showAlert(`Not in the port catalogue: ${unknown.join(", ")}`);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const { error } = await supabase
+        .from("profiles")
+        .update({
+          role: draft.role,
+          ports: names,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", row.id);
+
+      if (error) throw error;
+
+      showAlert(`Saved ${row.email}`);
+      await loadProfiles();
+    } catch (error) {
+      console.error("Error saving user:", error);
+      showAlert(`Save failed: ${(error as Error).message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  // =========================
+  // RENDER
+  // =========================
+  if (!permissions.canManageUsers) {
+    return <AccessDenied isLoading={isAuthLoading} />;
+  }
+
+  return (
+    <main className="min-h-screen bg-gradient-to-b from-blue-50 via-white to-blue-50">
+      {alertMessage && <Toast message={alertMessage} />}
+
+      {/* HEADER */}
+      <div className="sticky top-0 z-50 border-b border-blue-200 bg-white/90 backdrop-blur-xl">
+        <div className="mx-auto flex max-w-[95vw] items-center justify-between px-4 py-4 sm:py-6">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/"
+              className="rounded-2xl bg-blue-100 p-2.5 text-blue-700 hover:bg-blue-200"
+              title="Back to PDF files"
+            >
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+            <div>
+              <div className="text-xl font-bold tracking-tight text-blue-900">Users & Roles</div>
+              <div className="text-xs text-blue-600">
+                Viewers can only read, uploaders upload for their ports, admins can do everything
+              </div>
+            </div>
+          </div>
+
+          <button
+            onClick={loadProfiles}
+            className="inline-flex items-center gap-2 rounded-2xl bg-blue-100 px-4 py-2.5 text-sm font-semibold text-blue-700 hover:bg-blue-200"
+          >
+            <RefreshCcw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {/* CONTENT */}
+      <div className="mx-auto max-w-[95vw] px-4 py-6">
+        {profiles.length === 0 ? (
+          <div className="rounded-3xl border border-blue-200 bg-white p-12 text-center">
+            <div className="flex flex-col items-center gap-4">
+              <Users className="h-16 w-16 text-blue-300" />
+              <div className="text-lg font-semibold text-blue-900">
+                {isLoading ? "Loading users..." : "No users found"}
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="overflow-hidden rounded-3xl border-2 border-blue-200 bg-white shadow-xl">
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-blue-200">
+                <thead className="bg-blue-50">
+                  <tr>
+                    <th className="px-6 py-4 text-left text-xs font-bold text-blue-900 uppercase tracking-wider">
+                      Email
+                    </th>
+                    <th className="px-6 py-4 text-left text-xs font-bold text-blue-900 uppercase tracking-wider">
+                      Role
+                    </th>
+                    <th className="px-6 py-4 text-left text-xs font-bold text-blue-900 uppercase tracking-wider">
+                      Assigned Ports
+                    </th>
+                    <th className="px-6 py-4 text-left text-xs font-bold text-blue-900 uppercase tracking-wider">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-blue-100">
+                  {profiles.map((row) => {
+                    const draft = drafts[row.id] ?? { role: row.role, ports: "" };
+                    const isSelf = row.id === currentProfile?.id;
+                    const unknownPorts = draft.role === "uploader" ? parsePorts(draft.ports).unknown : [];
+                    return (
+                      <tr key={row.id} className="hover:bg-blue-50/30 transition-colors">
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold text-blue-900">
+                          {row.email || row.id}
+                          {isSelf && <span className="ml-2 text-xs font-normal text-blue-500">(you)</span>}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <select
+                            value={draft.role}
+                            disabled={isSelf}
+                            title={isSelf ? "You cannot change your own role" : undefined}
+                            onChange={(e) =>
+                              setDrafts({ ...drafts, [row.id]: { ...draft, role: e.target.value as Role } })
+                            }
+                            className="rounded-lg border border-slate-200 bg-white px-2 py-2 text-sm outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                          >
+                            {ROLES.map((role) => (
+                              <option key={role} value={role}>
+                                {role}
+                              </option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="px-6 py-4">
+                          <input
+                            type="text"
+                            list="known-ports"
+                            value={draft.ports}
+                            disabled={draft.role !== "uploader"}
+                            onChange={(e) =>
+                              setDrafts({ ...drafts, [row.id]: { ...draft, ports: e.target.value } })
+                            }
+                            placeholder={draft.role === "uploader" ? "BATAM, HAIPHONG" : "Only used for uploaders"}
+                            className="w-full min-w-64 rounded-lg border border-slate-200 bg-white px-2 py-2 text-sm outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-slate-50 disabled:text-slate-400"
+                          />
+                          {unknownPorts.length > 0 && (
+                            <div className="mt-1 text-xs text-red-600">
+                              Not in the port catalogue: {unknownPorts.join(", ")}
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <button
+                            onClick={() => saveProfile(row)}
+                            disabled={isLoading || !isDirty(row)}
+                            className="inline-flex items-center gap-1 rounded-xl bg-green-100 px-3 py-1.5 text-xs font-semibold text-green-700 hover:bg-green-200 disabled:opacity-50"
+                          >
+                            <Save className="h-3 w-3" />
+                            Save
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            <datalist id="known-ports">
+              {knownPorts.map((port) => (
+                <option key={port.id} value={port.name} />
+              ))}
+            </datalist>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
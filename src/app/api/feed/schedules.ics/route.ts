@@ -0,0 +1,24 @@
+import { jsonError } from "@/lib/apiServer";
+import { FEED_CACHE_HEADERS, loadFeedData } from "@/lib/feedData";
+import { buildIcsFeed, parseFeedFilters } from "@/lib/feeds";
+
+// GET /api/feed/schedules.ics?port=BATAM — subscribe from Outlook / Google Calendar
+export async function GET(request: Request) {
+  try {
+    const url = new URL(request.url);
+    const filters = parseFeedFilters(url.searchParams);
+    const { files, schedules } = await loadFeedData(filters);
+
+    return new Response(buildIcsFeed(files, schedules, filters, url.origin), {
+      headers: {
+        ...FEED_CACHE_HEADERS,
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `inline; filename="sitc-schedules${
+          filters.port ? `-${filters.port.toLowerCase().replace(/[^a-z0-9]+/g, "-")}` : ""
+        }.ics"`,
+      },
+    });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { jsonError } from "@/lib/apiServer";
+import { FEED_CACHE_HEADERS, loadFeedData } from "@/lib/feedData";
+import { buildJsonFeed, parseFeedFilters } from "@/lib/feeds";
+
+// GET /api/feed/schedules.json?port=BATAM&year=2026&week_from=10&week_to=20
+export async function GET(request: Request) {
+  try {
+    const url = new URL(request.url);
+    const filters = parseFeedFilters(url.searchParams);
+    const { files, schedules } = await loadFeedData(filters);
+
+    return NextResponse.json(buildJsonFeed(files, schedules, filters, url.origin), {
+      headers: FEED_CACHE_HEADERS,
+    });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
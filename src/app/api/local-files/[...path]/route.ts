@@ -0,0 +1,33 @@
+import { ApiError, createServerClient, dataBackend, jsonError } from "@/lib/apiServer";
+import { dataBackendKind } from "@/lib/dataAccess";
+
+// GET /api/local-files/port-files/<file_name> — PDFs stored by DATA_BACKEND=memory
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ path: string[] }> }
+) {
+  try {
+    if (dataBackendKind() !== "memory") {
+      throw new ApiError(404, "not_found", "Local files are only served with DATA_BACKEND=memory");
+    }
+
+    const { path } = await params;
+    const objectPath = path.join("/");
+    const object = await dataBackend(createServerClient())
+      .storage.download(objectPath)
+      .catch(() => null);
+    if (!object) throw new ApiError(404, "not_found", "File not found");
+
+    const download = new URL(request.url).searchParams.get("download");
+    return new Response(object, {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": download
+          ? `attachment; filename="${download.replace(/["\\]/g, "")}"`
+          : `inline; filename="${path[path.length - 1]}"`,
+      },
+    });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { ApiError, createServiceClient, jsonError, requireSupabaseBackend, siteUrl } from "@/lib/apiServer";
+import { sendWeeklyDigests } from "@/lib/notifications";
+
+// GET /api/notifications/digest — weekly cron (see vercel.json).
+// Requires `Authorization: Bearer $CRON_SECRET`.
+export async function GET(request: Request) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+      throw new ApiError(401, "unauthorized", "Invalid cron secret");
+    }
+
+    requireSupabaseBackend("The weekly digest");
+    const result = await sendWeeklyDigests(createServiceClient(), siteUrl(request));
+    return NextResponse.json({ data: result });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { jsonError } from "@/lib/apiServer";
+import { visiblePortFile } from "@/lib/portFileAccess";
+import { signPortFileUrl } from "@/lib/portFiles";
+
+// GET /api/port-files/:id/file[?download=1] — the file_url of every row.
+// Redirects to a signed URL that expires after a few minutes, so a copied
+// storage link stops working soon after the file is withdrawn.
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { backend, file } = await visiblePortFile(request, id);
+
+    const download = new URL(request.url).searchParams.get("download") === "1";
+    const { url } = await signPortFileUrl(backend.storage, file, download);
+
+    const response = NextResponse.redirect(new URL(url, request.url), 302);
+    response.headers.set("Cache-Control", "no-store");
+    return response;
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,106 @@
+import { after, NextResponse } from "next/server";
+import {
+  ApiError,
+  createServiceClient,
+  dataBackend,
+  jsonError,
+  requireProfile,
+  siteUrl,
+} from "@/lib/apiServer";
+import { recordAudit } from "@/lib/audit";
+import { notifySubscribers } from "@/lib/notifications";
+import { canUploadForPort } from "@/lib/permissions";
+import { deletePortFile } from "@/lib/portFiles";
+import {
+  canChangeStatus,
+  changePortFileStatus,
+  PORT_FILE_STATUSES,
+  portFileStatus,
+  validatePublishAt,
+} from "@/lib/publishing";
+import { isLatestRevision } from "@/lib/revisions";
+import type { ApiDataBody, PortFile, PortFileStatus } from "@/lib/types";
+
+// PATCH /api/port-files/:id  { status, publish_at? }
+// Schedules, publishes or withdraws a file. Anyone who may upload for the
+// port may change its status.
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { client, user, permissions } = await requireProfile(request);
+
+    const body = (await request.json().catch(() => null)) as { status?: unknown; publish_at?: unknown } | null;
+    const status = body?.status as PortFileStatus;
+    const publishAt = typeof body?.publish_at === "string" ? body.publish_at : null;
+    if (!PORT_FILE_STATUSES.includes(status)) {
+      throw new ApiError(400, "validation_error", `Status must be one of ${PORT_FILE_STATUSES.join(", ")}`);
+    }
+    const publishAtError = validatePublishAt(status, publishAt);
+    if (publishAtError) {
+      throw new ApiError(400, "validation_error", publishAtError, { publish_at: publishAtError });
+    }
+
+    const { id } = await params;
+
+    const backend = dataBackend(client);
+    const file = await backend.portFiles.get(id);
+    if (!file) throw new ApiError(404, "not_found", "Port file not found");
+    if (!canUploadForPort(permissions, file.port_name)) {
+      throw new ApiError(403, "forbidden", `You are not assigned to ${file.port_name}`);
+    }
+    if (!canChangeStatus(file, status)) {
+      throw new ApiError(409, "conflict", `A ${portFileStatus(file)} file cannot be changed to ${status}`);
+    }
+
+    const { file: updated } = await changePortFileStatus(backend, file, status, publishAt);
+    if (status === "published" || status === "withdrawn") {
+      await recordAudit(createServiceClient(), user, status === "published" ? "publish" : "withdraw", {
+        before: file,
+        after: updated,
+      });
+    }
+
+    if (status === "published" && isLatestRevision(updated)) {
+      const baseUrl = siteUrl(request);
+      after(async () => {
+        try {
+          await notifySubscribers(createServiceClient(), updated, baseUrl);
+        } catch (notifyError) {
+          console.error("Error notifying subscribers:", notifyError);
+        }
+      });
+    }
+
+    return NextResponse.json<ApiDataBody<PortFile>>({ data: updated });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
+
+// DELETE /api/port-files/:id
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { client, user, permissions } = await requireProfile(request);
+    if (!permissions.canDelete) {
+      throw new ApiError(403, "forbidden", "Only admins can delete files");
+    }
+
+    const { id } = await params;
+
+    const backend = dataBackend(client);
+    const file = await backend.portFiles.get(id);
+    if (!file) throw new ApiError(404, "not_found", "Port file not found");
+
+    await deletePortFile(backend, file);
+    await recordAudit(createServiceClient(), user, "delete", { before: file });
+
+    return NextResponse.json<ApiDataBody<{ id: string }>>({ data: { id } });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
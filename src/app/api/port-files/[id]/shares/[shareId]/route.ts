@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { ApiError, jsonError, requireProfile } from "@/lib/apiServer";
+import { revokeShare } from "@/lib/shares";
+import type { ApiDataBody, PortFileShare } from "@/lib/types";
+
+// DELETE /api/port-files/:id/shares/:shareId — revokes the link. The row is
+// kept so the list still shows who had access.
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string; shareId: string }> }
+) {
+  try {
+    const { client, permissions } = await requireProfile(request);
+    if (!permissions.canShareFiles) {
+      throw new ApiError(403, "forbidden", "Only admins can share files");
+    }
+
+    const { id, shareId } = await params;
+    const share = await revokeShare(client, id, shareId);
+    if (!share) throw new ApiError(404, "not_found", "Share link not found or already revoked");
+
+    return NextResponse.json<ApiDataBody<PortFileShare>>({ data: share });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
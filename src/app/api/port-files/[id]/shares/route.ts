@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { ApiError, dataBackend, jsonError, requireProfile } from "@/lib/apiServer";
+import type { Permissions } from "@/lib/permissions";
+import { isPublished, portFileStatus } from "@/lib/publishing";
+import { createShare, listShares, validateShare } from "@/lib/shares";
+import type { ApiDataBody, PortFileShare } from "@/lib/types";
+
+function requireSharing(permissions: Permissions) {
+  if (!permissions.canShareFiles) {
+    throw new ApiError(403, "forbidden", "Only admins can share files");
+  }
+}
+
+// GET /api/port-files/:id/shares — every share link for the file, newest first
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { client, permissions } = await requireProfile(request);
+    requireSharing(permissions);
+
+    const { id } = await params;
+    return NextResponse.json<ApiDataBody<PortFileShare[]>>({ data: await listShares(client, id) });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
+
+// POST /api/port-files/:id/shares { recipient, expires_at } — a new link for
+// one customer. Only published files can be shared.
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { client, user, permissions } = await requireProfile(request);
+    requireSharing(permissions);
+
+    const body = (await request.json().catch(() => null)) as { recipient?: unknown; expires_at?: unknown } | null;
+    const recipient = typeof body?.recipient === "string" ? body.recipient.trim() : "";
+    const expiresAt = typeof body?.expires_at === "string" ? body.expires_at : "";
+    const errors = validateShare(recipient, expiresAt);
+    if (Object.keys(errors).length > 0) {
+      throw new ApiError(400, "validation_error", Object.values(errors)[0]!, errors);
+    }
+
+    const { id } = await params;
+    const file = await dataBackend(client).portFiles.get(id);
+    if (!file) throw new ApiError(404, "not_found", "Port file not found");
+    if (!isPublished(file)) {
+      throw new ApiError(409, "conflict", `A ${portFileStatus(file)} file cannot be shared`);
+    }
+
+    const share = await createShare(client, {
+      port_file_id: file.id,
+      recipient,
+      expires_at: new Date(expiresAt).toISOString(),
+      created_by: user.email ?? null,
+    });
+    return NextResponse.json<ApiDataBody<PortFileShare>>({ data: share }, { status: 201 });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { jsonError } from "@/lib/apiServer";
+import { visiblePortFile } from "@/lib/portFileAccess";
+import { signPortFileUrl } from "@/lib/portFiles";
+import type { ApiDataBody, SignedUrl } from "@/lib/types";
+
+// GET /api/port-files/:id/url[?download=1] — the signed URL as JSON. Links
+// cannot carry the bearer token, so staff open drafts and scheduled files
+// through this instead of file_url.
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { backend, file } = await visiblePortFile(request, id);
+
+    const download = new URL(request.url).searchParams.get("download") === "1";
+    return NextResponse.json<ApiDataBody<SignedUrl>>(
+      { data: await signPortFileUrl(backend.storage, file, download) },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (error) {
+    return jsonError(error);
+  }
+}
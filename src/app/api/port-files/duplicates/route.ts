@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { ApiError, jsonError, requireProfile, requireSupabaseBackend } from "@/lib/apiServer";
+import { backfillContentHashes, loadDuplicateReport } from "@/lib/contentHash";
+import type { ApiDataBody, DuplicateReport, HashBackfillResult } from "@/lib/types";
+
+async function requireStorageAdmin(request: Request) {
+  requireSupabaseBackend("The duplicate report");
+  const context = await requireProfile(request);
+  if (!context.permissions.canManageStorage) {
+    throw new ApiError(403, "forbidden", "Only admins can review duplicate files");
+  }
+  return context;
+}
+
+// GET /api/port-files/duplicates — files that share their content with another row
+export async function GET(request: Request) {
+  try {
+    const { client } = await requireStorageAdmin(request);
+    return NextResponse.json<ApiDataBody<DuplicateReport>>({ data: await loadDuplicateReport(client) });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
+
+// POST /api/port-files/duplicates[?skip=N] — hash the next batch of older
+// files. Call repeatedly until `remaining` is 0, passing the failures so far
+// as `skip`.
+export async function POST(request: Request) {
+  try {
+    const { client } = await requireStorageAdmin(request);
+
+    const skip = Number(new URL(request.url).searchParams.get("skip") ?? 0);
+    if (!Number.isInteger(skip) || skip < 0) {
+      throw new ApiError(400, "validation_error", "Invalid skip", { skip: "Must be a non-negative integer" });
+    }
+
+    const result = await backfillContentHashes(client, skip);
+    return NextResponse.json<ApiDataBody<HashBackfillResult>>({ data: result });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
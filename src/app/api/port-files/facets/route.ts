@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { createServerClient, dataBackend, jsonError } from "@/lib/apiServer";
+import type { ApiDataBody, PortFileFacets } from "@/lib/types";
+
+// GET /api/port-files/facets — distinct ports and years for the filter controls
+export async function GET() {
+  try {
+    const facets = await dataBackend(createServerClient()).portFiles.facets();
+    return NextResponse.json<ApiDataBody<PortFileFacets>>({ data: facets });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
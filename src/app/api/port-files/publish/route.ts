@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { ApiError, createServiceClient, dataBackend, jsonError, siteUrl } from "@/lib/apiServer";
+import { recordAudit, SYSTEM_ACTOR } from "@/lib/audit";
+import { notifySubscribers } from "@/lib/notifications";
+import { publishDuePortFiles } from "@/lib/publishing";
+import { isLatestRevision } from "@/lib/revisions";
+
+// GET /api/port-files/publish — cron (see vercel.json) that publishes
+// scheduled files whose publish_at has passed.
+// Requires `Authorization: Bearer $CRON_SECRET`.
+export async function GET(request: Request) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+      throw new ApiError(401, "unauthorized", "Invalid cron secret");
+    }
+
+    // Scheduled rows are not visible to anonymous callers
+    const client = createServiceClient();
+    const { published, failed } = await publishDuePortFiles(dataBackend(client));
+    for (const file of published) {
+      await recordAudit(client, SYSTEM_ACTOR, "publish", { after: file });
+    }
+
+    const baseUrl = siteUrl(request);
+    for (const file of published.filter(isLatestRevision)) {
+      try {
+        await notifySubscribers(client, file, baseUrl);
+      } catch (notifyError) {
+        console.error("Error notifying subscribers:", notifyError);
+      }
+    }
+
+    return NextResponse.json({ data: { published: published.length, failed } });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,103 @@
+import { NextResponse } from "next/server";
+import {
+  ApiError,
+  createServiceClient,
+  dataBackend,
+  jsonError,
+  requireProfile,
+  requireSupabaseBackend,
+} from "@/lib/apiServer";
+import { recordAudit } from "@/lib/audit";
+import { deletePortFile } from "@/lib/portFiles";
+import {
+  loadRetentionPolicy,
+  MAX_PURGE_BATCH,
+  previewRetention,
+  retentionStatus,
+  retentionWindow,
+  validateRetentionPolicy,
+} from "@/lib/retention";
+import type {
+  ApiDataBody,
+  PortFile,
+  RetentionPolicy,
+  RetentionPreview,
+  RetentionPurgeResult,
+} from "@/lib/types";
+
+// Unset parameters fall back to the saved policy, so the admin page can
+// preview a draft before saving it
+function policyFromParams(params: URLSearchParams, saved: RetentionPolicy): RetentionPolicy {
+  const number = (key: string) => (params.has(key) ? Number(params.get(key)) : null);
+  const purge = params.get("purge_after_weeks");
+  return {
+    weeks_behind: number("weeks_behind") ?? saved.weeks_behind,
+    weeks_ahead: number("weeks_ahead") ?? saved.weeks_ahead,
+    purge_after_weeks: purge === null ? saved.purge_after_weeks : purge === "" ? null : Number(purge),
+  };
+}
+
+// GET /api/port-files/retention[?weeks_behind=&weeks_ahead=&purge_after_weeks=]
+// — what the policy would show, archive and purge today
+export async function GET(request: Request) {
+  try {
+    requireSupabaseBackend("Retention");
+    const { client, permissions } = await requireProfile(request);
+    if (!permissions.canManageStorage) {
+      throw new ApiError(403, "forbidden", "Only admins can manage retention");
+    }
+
+    const policy = policyFromParams(new URL(request.url).searchParams, await loadRetentionPolicy(client));
+    const errors = validateRetentionPolicy(policy);
+    if (Object.keys(errors).length > 0) {
+      throw new ApiError(400, "validation_error", Object.values(errors)[0]!, errors);
+    }
+
+    return NextResponse.json<ApiDataBody<RetentionPreview>>({ data: await previewRetention(client, policy) });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
+
+// POST /api/port-files/retention { ids } — delete the previewed files the
+// admin confirmed. Each id is checked again against the saved policy, so a
+// stale preview cannot purge a file that is no longer past the purge age.
+export async function POST(request: Request) {
+  try {
+    requireSupabaseBackend("Retention");
+    const { client, user, permissions } = await requireProfile(request);
+    if (!permissions.canManageStorage || !permissions.canDelete) {
+      throw new ApiError(403, "forbidden", "Only admins can purge files");
+    }
+
+    const body = (await request.json().catch(() => null)) as { ids?: unknown } | null;
+    const ids = Array.isArray(body?.ids) ? body.ids.filter((id): id is string => typeof id === "string") : [];
+    if (ids.length === 0 || ids.length > MAX_PURGE_BATCH) {
+      throw new ApiError(400, "validation_error", `Send between 1 and ${MAX_PURGE_BATCH} file ids`);
+    }
+
+    const window = retentionWindow(await loadRetentionPolicy(client));
+    if (!window.purgeBefore) {
+      throw new ApiError(400, "validation_error", "Purging is turned off in the retention policy");
+    }
+
+    const { data, error } = await client.from("port_files").select("*").in("id", ids);
+    if (error) throw error;
+
+    const backend = dataBackend(client);
+    const result: RetentionPurgeResult = { purged: 0, skipped: ids.length - (data?.length ?? 0) };
+    for (const file of (data || []) as PortFile[]) {
+      if (retentionStatus(file, window) !== "purge") {
+        result.skipped++;
+        continue;
+      }
+      await deletePortFile(backend, file);
+      await recordAudit(createServiceClient(), user, "delete", { before: file });
+      result.purged++;
+    }
+
+    return NextResponse.json<ApiDataBody<RetentionPurgeResult>>({ data: result });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,208 @@
+import { after, NextResponse } from "next/server";
+import {
+  ApiError,
+  createServerClient,
+  createServiceClient,
+  dataBackend,
+  jsonError,
+  requireProfile,
+  siteUrl,
+} from "@/lib/apiServer";
+import { recordAudit } from "@/lib/audit";
+import { duplicateDetails, sha256Hex } from "@/lib/contentHash";
+import { dataBackendKind } from "@/lib/dataAccess";
+import { parseFileFilters } from "@/lib/fileFilters";
+import { notifySubscribers } from "@/lib/notifications";
+import { indexPortFileText } from "@/lib/pdfText";
+import { canUploadForPort } from "@/lib/permissions";
+import {
+  DEFAULT_PAGE_LIMIT,
+  findContentMatches,
+  findContentSnippets,
+  MAX_PAGE_LIMIT,
+  searchText,
+} from "@/lib/portFileQuery";
+import { uploadPortFile } from "@/lib/portFiles";
+import { createPortResolver, loadPorts } from "@/lib/ports";
+import { isPublished, UPLOAD_STATUSES, validatePublishAt, type UploadStatus } from "@/lib/publishing";
+import { loadRetentionPolicy, retentionWindow } from "@/lib/retention";
+import type { ApiDataBody, ApiPageBody, PortFile, PortFilePageMeta } from "@/lib/types";
+import { hasPdfSignature, validatePortFileFields } from "@/lib/validation";
+
+// GET /api/port-files?q=&port=BATAM,SHANGHAI&year=2026&week_from=10&week_to=14
+//   &uploaded_within=7d&view=current&latest=true&sort=uploaded_at&order=desc&offset=0&limit=100
+export async function GET(request: Request) {
+  try {
+    const params = new URL(request.url).searchParams;
+
+    for (const key of ["year", "week", "week_from", "week_to", "offset", "limit"]) {
+      const value = params.get(key);
+      if (value !== null && !/^\d+$/.test(value)) {
+        throw new ApiError(400, "validation_error", `Invalid ${key}`, { [key]: "Must be a non-negative integer" });
+      }
+    }
+
+    const limit = params.has("limit") ? Number(params.get("limit")) : DEFAULT_PAGE_LIMIT;
+    if (limit < 1 || limit > MAX_PAGE_LIMIT) {
+      throw new ApiError(400, "validation_error", `limit must be between 1 and ${MAX_PAGE_LIMIT}`);
+    }
+    const offset = Number(params.get("offset") ?? 0);
+
+    const filters = parseFileFilters(params);
+    const client = createServerClient();
+    // The PDF text index is a Supabase table; memory rows only match by name
+    const text = dataBackendKind() === "supabase" ? searchText(filters.q) : "";
+    const contentMatches = await findContentMatches(client, text);
+
+    // Without an explicit view every week is listed, as before retention existed
+    const view = params.has("view") ? filters.view : "all";
+    const retention = view === "all" ? null : retentionWindow(await loadRetentionPolicy(client));
+
+    const query = {
+      q: filters.q,
+      ports: filters.ports,
+      year: filters.year,
+      week_from: filters.week_from,
+      week_to: filters.week_to,
+      uploaded_within: filters.uploaded_within,
+      view,
+      retention,
+      sort: filters.sort,
+      order: filters.order,
+      latest: params.get("latest") === "true",
+      offset,
+      limit,
+    };
+    const { files, total } = await dataBackend(client).portFiles.list(query, contentMatches);
+
+    const snippets = await findContentSnippets(
+      client,
+      text,
+      files.filter((file) => contentMatches.includes(file.id)).map((file) => file.id)
+    );
+
+    return NextResponse.json<ApiPageBody<PortFile, PortFilePageMeta>>({
+      data: files,
+      meta: {
+        total,
+        offset,
+        limit,
+        snippets,
+        ...(retention && { window: { from: retention.from, to: retention.to } }),
+      },
+    });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
+
+// POST /api/port-files (multipart: port_name, week, year, file, change_note?,
+//   status? = published | scheduled | draft, publish_at? when scheduled)
+export async function POST(request: Request) {
+  try {
+    const { client, user, permissions } = await requireProfile(request);
+    if (!permissions.canUpload) {
+      throw new ApiError(403, "forbidden", "Your role cannot upload files");
+    }
+
+    let form: FormData;
+    try {
+      form = await request.formData();
+    } catch {
+      throw new ApiError(400, "validation_error", "Expected multipart/form-data");
+    }
+
+    const file = form.get("file");
+    const fields = {
+      port_name: String(form.get("port_name") ?? ""),
+      week: Number(form.get("week")),
+      year: Number(form.get("year")),
+      file: file instanceof File ? file : null,
+    };
+
+    const status = String(form.get("status") || "published") as UploadStatus;
+    const publishAt = String(form.get("publish_at") ?? "") || null;
+
+    const errors: Record<string, string> = validatePortFileFields(fields);
+    if (!errors.file && fields.file && !(await hasPdfSignature(fields.file))) {
+      errors.file = "File content is not a PDF";
+    }
+    if (!UPLOAD_STATUSES.includes(status)) {
+      errors.status = `Status must be one of ${UPLOAD_STATUSES.join(", ")}`;
+    } else {
+      const publishAtError = validatePublishAt(status, publishAt);
+      if (publishAtError) errors.publish_at = publishAtError;
+    }
+    if (Object.keys(errors).length > 0) {
+      throw new ApiError(400, "validation_error", Object.values(errors)[0]!, errors);
+    }
+
+    // Aliases and UN/LOCODEs are stored under the canonical catalogue name
+    const port = createPortResolver(await loadPorts(client))(fields.port_name);
+    if (!port) {
+      throw new ApiError(400, "validation_error", `Unknown port ${fields.port_name.trim().toUpperCase()}`, {
+        port_name: "Pick a port from the catalogue",
+      });
+    }
+
+    if (!canUploadForPort(permissions, port.name)) {
+      throw new ApiError(403, "forbidden", `You are not assigned to ${port.name}`);
+    }
+
+    // The same bytes under another name or week; the uploader must confirm
+    const pdfData = await fields.file!.arrayBuffer();
+    const contentHash = await sha256Hex(pdfData);
+    const backend = dataBackend(client);
+    const [existing] = await backend.portFiles.findByContentHash(contentHash);
+    if (existing && form.get("allow_duplicate") !== "true") {
+      throw new ApiError(
+        409,
+        "conflict",
+        `This PDF was already uploaded for ${existing.port_name} week ${existing.week}, ${existing.year}`,
+        duplicateDetails(existing)
+      );
+    }
+
+    const { file: created, superseded } = await uploadPortFile(backend, {
+      port_name: port.name,
+      port_id: port.id,
+      week: fields.week,
+      year: fields.year,
+      file: fields.file!,
+      content_hash: contentHash,
+      change_note: String(form.get("change_note") ?? ""),
+      uploaded_by: user.email,
+      status,
+      publish_at: publishAt && new Date(publishAt).toISOString(),
+    });
+
+    await recordAudit(createServiceClient(), user, superseded.length > 0 ? "revision" : "upload", {
+      before: superseded[0],
+      after: created,
+    });
+
+    // Index the PDF text and email subscribers once the response has been
+    // sent; neither can fail the upload. Drafts and scheduled uploads notify
+    // when they are published.
+    const baseUrl = siteUrl(request);
+    after(async () => {
+      if (dataBackendKind() === "supabase") {
+        try {
+          await indexPortFileText(client, created, pdfData);
+        } catch (indexError) {
+          console.error("Error indexing PDF text:", indexError);
+        }
+      }
+      if (!isPublished(created)) return;
+      try {
+        await notifySubscribers(createServiceClient(), created, baseUrl);
+      } catch (notifyError) {
+        console.error("Error notifying subscribers:", notifyError);
+      }
+    });
+
+    return NextResponse.json<ApiDataBody<PortFile>>({ data: created }, { status: 201 });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
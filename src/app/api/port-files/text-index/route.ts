@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { ApiError, jsonError, requireProfile, requireSupabaseBackend } from "@/lib/apiServer";
+import { backfillPortFileText } from "@/lib/pdfText";
+import type { ApiDataBody, TextBackfillResult, TextIndexStatus } from "@/lib/types";
+
+async function requireIndexAdmin(request: Request) {
+  requireSupabaseBackend("The PDF text index");
+  const context = await requireProfile(request);
+  if (!context.permissions.canManageStorage) {
+    throw new ApiError(403, "forbidden", "Only admins can manage the text index");
+  }
+  return context;
+}
+
+// GET /api/port-files/text-index — how many files are indexed, failed or pending
+export async function GET(request: Request) {
+  try {
+    const { client } = await requireIndexAdmin(request);
+
+    const [indexed, failed, pending] = await Promise.all([
+      client.from("port_file_contents").select("file_id", { count: "exact", head: true }).is("error", null),
+      client.from("port_file_contents").select("file_id", { count: "exact", head: true }).not("error", "is", null),
+      client.rpc("unindexed_port_files", {}, { count: "exact", head: true }),
+    ]);
+    for (const result of [indexed, failed, pending]) {
+      if (result.error) throw result.error;
+    }
+
+    return NextResponse.json<ApiDataBody<TextIndexStatus>>({
+      data: { indexed: indexed.count ?? 0, failed: failed.count ?? 0, pending: pending.count ?? 0 },
+    });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
+
+// POST /api/port-files/text-index[?retry=failed] — extract text for the next
+// batch of unindexed files. Call repeatedly until `remaining` is 0.
+// retry=failed first clears earlier failures so they are attempted again.
+export async function POST(request: Request) {
+  try {
+    const { client } = await requireIndexAdmin(request);
+
+    if (new URL(request.url).searchParams.get("retry") === "failed") {
+      const { error } = await client.from("port_file_contents").delete().not("error", "is", null);
+      if (error) throw error;
+    }
+
+    const result = await backfillPortFileText(client);
+    return NextResponse.json<ApiDataBody<TextBackfillResult>>({ data: result });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
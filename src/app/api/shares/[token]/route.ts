@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { ApiError, createServiceClient, dataBackend, jsonError } from "@/lib/apiServer";
+import { signPortFileUrl } from "@/lib/portFiles";
+import { isPublished } from "@/lib/publishing";
+import { findShare, shareState } from "@/lib/shares";
+
+// GET /api/shares/:token[?download=1] — the link given to a customer.
+// Redirects to a signed URL while the share is active and the file is
+// published, so drafts and scheduled files stay private until release. Share
+// rows are admin-only, so the lookup uses the service role.
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const client = createServiceClient();
+
+    const share = await findShare(client, token);
+    if (!share) throw new ApiError(404, "not_found", "Share link not found");
+
+    const state = shareState(share);
+    if (state !== "active") {
+      throw new ApiError(404, "not_found", `This share link has ${state === "revoked" ? "been revoked" : "expired"}`);
+    }
+
+    const backend = dataBackend(client);
+    const file = await backend.portFiles.get(share.port_file_id);
+    if (!file || !isPublished(file)) {
+      throw new ApiError(404, "not_found", "This file is no longer available");
+    }
+
+    const download = new URL(request.url).searchParams.get("download") === "1";
+    const { url } = await signPortFileUrl(backend.storage, file, download);
+
+    const response = NextResponse.redirect(new URL(url, request.url), 302);
+    response.headers.set("Cache-Control", "no-store");
+    return response;
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { ApiError, createServiceClient, jsonError } from "@/lib/apiServer";
+import type { ApiDataBody, Subscription, SubscriptionFrequency } from "@/lib/types";
+
+// POST /api/subscriptions/confirm?token=... (from the confirmation email)
+// Starts the subscription, or applies a pending change to a confirmed one.
+// The token is cleared on use, so a link works once.
+export async function POST(request: Request) {
+  try {
+    const token = new URL(request.url).searchParams.get("token") ?? "";
+    if (!/^[0-9a-f-]{36}$/i.test(token)) {
+      throw new ApiError(400, "validation_error", "Invalid confirmation link");
+    }
+
+    const client = createServiceClient();
+    const { data, error: loadError } = await client
+      .from("subscriptions")
+      .select("*")
+      .eq("confirm_token", token)
+      .maybeSingle();
+
+    if (loadError) throw loadError;
+    if (!data) throw new ApiError(404, "not_found", "This confirmation link has already been used or replaced");
+
+    const subscription = data as Subscription;
+    const now = new Date().toISOString();
+    const { data: confirmed, error } = await client
+      .from("subscriptions")
+      .update({
+        ports: subscription.pending_ports ?? subscription.ports,
+        frequency: subscription.pending_frequency ?? subscription.frequency,
+        pending_ports: null,
+        pending_frequency: null,
+        confirm_token: null,
+        confirmed_at: subscription.confirmed_at ?? now,
+        updated_at: now,
+      })
+      .eq("id", subscription.id)
+      .eq("confirm_token", token)
+      .select("email, ports, frequency")
+      .maybeSingle();
+
+    if (error) throw error;
+    // Another request used or replaced the token in the meantime
+    if (!confirmed) throw new ApiError(404, "not_found", "This confirmation link has already been used or replaced");
+
+    return NextResponse.json<ApiDataBody<{ email: string; ports: string[]; frequency: SubscriptionFrequency }>>({
+      data: confirmed,
+    });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server";
+import { ApiError, createServiceClient, jsonError, siteUrl } from "@/lib/apiServer";
+import { getMailTransport } from "@/lib/mail";
+import { composeConfirmation } from "@/lib/notifications";
+import { loadPorts, resolvePortList } from "@/lib/ports";
+import type { ApiDataBody, SubscriptionFrequency } from "@/lib/types";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// POST /api/subscriptions { email, ports: string[], frequency: "instant" | "weekly" }
+// Double opt-in: nothing is sent until the address owner opens the emailed
+// confirmation link. For an already confirmed address the request is kept as
+// pending_ports/pending_frequency and only replaces the subscription once
+// confirmed. Each request issues a new single-use confirmation token. The
+// response is the same whether or not the address is known.
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => null);
+    const email = String(body?.email ?? "").trim().toLowerCase();
+    const requested = Array.isArray(body?.ports) ? body.ports.map((port: unknown) => String(port)).join(",") : "";
+    const frequency = body?.frequency as SubscriptionFrequency;
+
+    const client = createServiceClient();
+    // Stored as catalogue names so every notification query matches them
+    const { names: ports, unknown } = resolvePortList(requested, await loadPorts(client));
+
+    const errors: Record<string, string> = {};
+    if (!EMAIL_PATTERN.test(email)) errors.email = "Enter a valid email address";
+    if (unknown.length > 0) errors.ports = `Not in the port catalogue: ${unknown.join(", ")}`;
+    else if (ports.length === 0) errors.ports = "Choose at least one port";
+    if (frequency !== "instant" && frequency !== "weekly") errors.frequency = "Choose instant or weekly";
+    if (Object.keys(errors).length > 0) {
+      throw new ApiError(400, "validation_error", Object.values(errors)[0], errors);
+    }
+
+    const { data: existing, error: loadError } = await client
+      .from("subscriptions")
+      .select("*")
+      .eq("email", email)
+      .maybeSingle();
+    if (loadError) throw loadError;
+
+    const updatedAt = new Date().toISOString();
+    const confirmToken = crypto.randomUUID();
+    const change = existing?.confirmed_at
+      ? { pending_ports: ports, pending_frequency: frequency, confirm_token: confirmToken, updated_at: updatedAt }
+      : { ports, frequency, confirm_token: confirmToken, updated_at: updatedAt };
+
+    const { error } = existing
+      ? await client.from("subscriptions").update(change).eq("id", existing.id)
+      : await client.from("subscriptions").insert({ email, ...change });
+    if (error) throw error;
+
+    await getMailTransport().send(
+      composeConfirmation({ email, confirm_token: confirmToken }, ports, frequency, siteUrl(request))
+    );
+
+    return NextResponse.json<ApiDataBody<{ email: string; ports: string[]; frequency: SubscriptionFrequency }>>(
+      { data: { email, ports, frequency } },
+      { status: 202 }
+    );
+  } catch (error) {
+    return jsonError(error);
+  }
+}
+
+// DELETE /api/subscriptions?token=... (from the unsubscribe link)
+export async function DELETE(request: Request) {
+  try {
+    const token = new URL(request.url).searchParams.get("token") ?? "";
+    if (!/^[0-9a-f-]{36}$/i.test(token)) {
+      throw new ApiError(400, "validation_error", "Invalid unsubscribe link");
+    }
+
+    const { data, error } = await createServiceClient()
+      .from("subscriptions")
+      .delete()
+      .eq("token", token)
+      .select("email")
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) throw new ApiError(404, "not_found", "This subscription no longer exists");
+
+    return NextResponse.json<ApiDataBody<{ email: string }>>({ data: { email: data.email } });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,107 @@
+"use client";
+
+import { Suspense, useState } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { ArrowLeft, MailCheck } from "lucide-react";
+import type { ApiDataBody, ApiErrorBody, SubscriptionFrequency } from "@/lib/types";
+import { useI18n } from "@/lib/useI18n";
+
+type ConfirmState = "idle" | "working" | "done" | "error";
+
+type ConfirmedSubscription = { email: string; ports: string[]; frequency: SubscriptionFrequency };
+
+// Confirmation needs a click, so mail scanners that open links do not confirm
+function ConfirmForm() {
+  const { t } = useI18n();
+  const token = useSearchParams().get("token") ?? "";
+  const [state, setState] = useState<ConfirmState>("idle");
+  const [message, setMessage] = useState("");
+
+  async function confirm() {
+    setState("working");
+    try {
+      const response = await fetch(`/api/subscriptions/confirm?token=${encodeURIComponent(token)}`, {
+        method: "POST",
+      });
+      const body = (await response.json().catch(() => null)) as
+        | ApiDataBody<ConfirmedSubscription>
+        | ApiErrorBody
+        | null;
+      if (!response.ok || !body || "error" in body) {
+        throw new Error(
+          body && "error" in body ? body.error.message : t("subscribe.requestFailed", { status: response.status })
+        );
+      }
+      const { email, ports, frequency } = body.data;
+      setMessage(
+        t(frequency === "instant" ? "subscribe.instantDone" : "subscribe.weeklyDone", {
+          email,
+          ports: ports.join(", "),
+        })
+      );
+      setState("done");
+    } catch (error) {
+      console.error("Error confirming subscription:", error);
+      setMessage((error as Error).message);
+      setState("error");
+    }
+  }
+
+  if (!token) {
+    return <p className="text-slate-600">{t("confirmSubscription.incomplete")}</p>;
+  }
+
+  if (state === "done" || state === "error") {
+    return <p className={state === "done" ? "text-slate-700" : "text-red-700"}>{message}</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-slate-600">{t("confirmSubscription.prompt")}</p>
+      <button
+        onClick={confirm}
+        disabled={state === "working"}
+        className="inline-flex items-center gap-2 rounded-2xl bg-blue-600 px-5 py-2.5 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-50"
+      >
+        <MailCheck className="h-4 w-4" />
+        {state === "working" ? t("confirmSubscription.submitting") : t("common.confirm")}
+      </button>
+    </div>
+  );
+}
+
+// =========================
+// MAIN COMPONENT
+// =========================
+export default function ConfirmSubscriptionPage() {
+  const { t } = useI18n();
+
+  return (
+    <main className="min-h-screen bg-gradient-to-b from-blue-50 via-white to-blue-50">
+      {/* HEADER */}
+      <div className="sticky top-0 z-50 border-b border-blue-200 bg-white/90 backdrop-blur-xl">
+        <div className="mx-auto max-w-[95vw] px-4 py-4 sm:py-6">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/"
+              className="rounded-2xl bg-blue-100 p-2.5 text-blue-700 hover:bg-blue-200"
+              title={t("common.backToFiles")}
+            >
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+            <div className="text-xl font-bold tracking-tight text-blue-900">{t("subscribe.title")}</div>
+          </div>
+        </div>
+      </div>
+
+      <div className="mx-auto max-w-lg px-4 py-12">
+        <div className="rounded-3xl border border-blue-200 bg-white p-8">
+          <Suspense fallback={<p className="text-slate-500">{t("common.loading")}</p>}>
+            <ConfirmForm />
+          </Suspense>
+        </div>
+      </div>
+    </main>
+  );
+}
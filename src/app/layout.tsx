@@ -1,5 +1,8 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import { cookies, headers } from "next/headers";
+import { I18nProvider } from "@/components/I18nProvider";
+import { HTML_LANG, LOCALE_COOKIE, resolveLocale } from "@/lib/i18n";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -20,17 +23,23 @@ export const metadata: Metadata = {
     },
 };
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  // Saved language switcher choice, else the browser's preferred language
+  const locale = resolveLocale(
+    (await cookies()).get(LOCALE_COOKIE)?.value,
+    (await headers()).get("accept-language")
+  );
+
   return (
-    <html lang="en">
+    <html lang={HTML_LANG[locale]}>
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        {children}
+        <I18nProvider initialLocale={locale}>{children}</I18nProvider>
       </body>
     </html>
   );
@@ -1,13 +1,14 @@
 "use client";
 
-import { useEffect, useState } from "react";
-import { supabase } from "@/lib/supabase";
+import { Suspense, useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { auth, supabase } from "@/lib/supabase";
 import Image from "next/image";
+import Link from "next/link";
 import {
   Download,
   FileUp,
   File,
-  X,
   Trash2,
   Eye,
   RefreshCcw,
@@ -15,185 +16,138 @@ import {
   Search,
   LogIn,
   LogOut,
-  Check,
-  Calendar,
   Clock,
   FileText,
+  Ship,
+  History,
+  Rss,
+  Mail,
+  Files,
+  ArrowDown,
+  ArrowUp,
+  Sparkles,
+  X,
+  EyeOff,
+  Share2,
 } from "lucide-react";
-
-// =========================
-// TYPES
-// =========================
-type PortFile = {
-  id: string;
-  week: number;
-  year: number;
-  port_name: string;
-  file_name: string;
-  file_url: string;
-  file_size?: number;
-  uploaded_at: string;
-  uploaded_by?: string;
-};
-
-type UploadForm = {
-  port_name: string;
-  file: File | null;
-  week: number;
-  year: number;
-};
-
-// =========================
-// MODAL COMPONENTS
-// =========================
-function Modal({
-  isOpen,
-  onClose,
-  title,
-  children,
-}: {
-  isOpen: boolean;
-  onClose: () => void;
-  title: string;
-  children: React.ReactNode;
-}) {
-  if (!isOpen) return null;
-
-  return (
-    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 p-4 backdrop-blur-sm">
-      <div className="w-full max-w-md rounded-2xl bg-white shadow-2xl">
-        <div className="flex items-center justify-between border-b border-slate-200 px-6 py-4">
-          <h3 className="text-lg font-bold text-slate-900">{title}</h3>
-          <button
-            onClick={onClose}
-            className="rounded-full p-1 hover:bg-slate-100"
-          >
-            <X className="h-5 w-5 text-slate-500" />
-          </button>
-        </div>
-        <div className="p-6">{children}</div>
-      </div>
-    </div>
-  );
-}
-
-function AlertModal({
-  isOpen,
-  onClose,
-  title,
-  message,
-  onConfirm,
-  confirmText = "Confirm",
-  confirmColor = "bg-red-600 hover:bg-red-700",
-}: {
-  isOpen: boolean;
-  onClose: () => void;
-  title: string;
-  message: string;
-  onConfirm: () => void;
-  confirmText?: string;
-  confirmColor?: string;
-}) {
-  return (
-    <Modal isOpen={isOpen} onClose={onClose} title={title}>
-      <div className="space-y-4">
-        <p className="text-slate-600">{message}</p>
-        <div className="flex justify-end gap-3">
-          <button
-            onClick={onClose}
-            className="rounded-2xl bg-slate-100 px-4 py-2 text-sm font-semibold text-slate-700 hover:bg-slate-200"
-          >
-            Cancel
-          </button>
-          <button
-            onClick={() => {
-              onConfirm();
-              onClose();
-            }}
-            className={`rounded-2xl px-4 py-2 text-sm font-semibold text-white ${confirmColor}`}
-          >
-            {confirmText}
-          </button>
-        </div>
-      </div>
-    </Modal>
-  );
-}
-
-// =========================
-// UTILITY FUNCTIONS
-// =========================
-function formatFileSize(bytes: number): string {
-  if (bytes === 0) return "0 Bytes";
-  const k = 1024;
-  const sizes = ["Bytes", "KB", "MB", "GB"];
-  const i = Math.floor(Math.log(bytes) / Math.log(k));
-  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
-}
-
-function formatDate(dateStr: string): string {
-  const date = new Date(dateStr);
-  const now = new Date();
-  const diffMs = now.getTime() - date.getTime();
-  const diffMins = Math.floor(diffMs / (1000 * 60));
-  const diffHours = Math.floor(diffMs / (1000 * 60 * 60));
-  const diffDays = Math.floor(diffMs / (1000 * 60 * 60 * 24));
-
-  if (diffMins < 60) {
-    return `${diffMins}m ago`;
-  } else if (diffHours < 24) {
-    return `${diffHours}h ago`;
-  } else if (diffDays === 1) {
-    return "Yesterday";
-  } else if (diffDays < 7) {
-    return `${diffDays}d ago`;
-  } else {
-    return date.toLocaleDateString("en-US", {
-      month: "short",
-      day: "numeric",
-      year: diffDays < 365 ? undefined : "numeric",
-    });
-  }
-}
-
-function getWeekNumber(date: Date) {
-  const firstDayOfYear = new Date(date.getFullYear(), 0, 1);
-  const pastDaysOfYear = (date.getTime() - firstDayOfYear.getTime()) / 86400000;
-  return Math.ceil((pastDaysOfYear + firstDayOfYear.getDay() + 1) / 7);
+import { AdminMenu } from "@/components/AdminMenu";
+import { AnnouncementBanner } from "@/components/AnnouncementBanner";
+import { BulkUploadModal } from "@/components/BulkUploadModal";
+import { ExportButtons } from "@/components/ExportButtons";
+import { FeedLinksModal } from "@/components/FeedLinksModal";
+import { FileFacets } from "@/components/FileFacets";
+import { LanguageSwitcher } from "@/components/LanguageSwitcher";
+import { Pagination } from "@/components/Pagination";
+import { PdfViewerModal } from "@/components/PdfViewerModal";
+import { PortCombobox } from "@/components/PortCombobox";
+import { SearchSnippet } from "@/components/SearchSnippet";
+import { AlertModal, Modal, Toast } from "@/components/Modal";
+import { ShareLinksModal } from "@/components/ShareLinksModal";
+import { SubscribeModal } from "@/components/SubscribeModal";
+import { WeekBadge } from "@/components/WeekBadge";
+import { exportRows, portFileExportRows, type ExportFormat } from "@/lib/export";
+import {
+  FILE_PAGE_SIZE,
+  applyPortFileChange,
+  fileFiltersToQuery,
+  groupFiles,
+  parseFileFilters,
+  type FileFilters,
+  type FileSort,
+  type PortFileChange,
+} from "@/lib/fileFilters";
+import { formatIsoWeekLabel, getCurrentIsoWeek, isValidIsoWeek } from "@/lib/isoWeek";
+import { canUploadForPort } from "@/lib/permissions";
+import {
+  createPortFile,
+  fetchAllPortFiles,
+  fetchPortFileFacets,
+  fetchPortFiles,
+  duplicateOf,
+  fetchRevisions,
+  removePortFile,
+  updatePortFileStatus,
+} from "@/lib/portFilesApi";
+import { createPortResolver, loadPorts } from "@/lib/ports";
+import { validatePublishAt, wasJustPublished } from "@/lib/publishing";
+import { isLatestRevision, nextRevisionNumber, revisionHistory } from "@/lib/revisions";
+import { portFileUrl } from "@/lib/storage";
+import type { Port, PortFile, PortFileFacets, PortFilePageMeta, UploadForm } from "@/lib/types";
+import { useI18n } from "@/lib/useI18n";
+import { usePortFileChanges } from "@/lib/usePortFileChanges";
+import { useProfile } from "@/lib/useProfile";
+import { formatDate, formatDateTime, formatFileSize } from "@/lib/utils";
+import { MIN_UPLOAD_YEAR, maxUploadYear, portFileFieldIssues } from "@/lib/validation";
+
+// How long a row that arrived live stays highlighted
+const FRESH_HIGHLIGHT_MS = 30_000;
+
+function emptyUploadForm(): UploadForm {
+  const { week, year } = getCurrentIsoWeek();
+  return { port_name: "", file: null, week, year, change_note: "", status: "published", publish_at: "" };
 }
 
 // =========================
 // MAIN COMPONENT
 // =========================
-export default function Home() {
+function HomeContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { t, intlLocale } = useI18n();
+
   // State untuk data PDF
+  // Current page of the table; the server filters, sorts and paginates
   const [portFiles, setPortFiles] = useState<PortFile[]>([]);
-  const [filteredFiles, setFilteredFiles] = useState<PortFile[]>([]);
-  
-  // Search state
-  const [searchQuery, setSearchQuery] = useState<string>("");
+  const [totalFiles, setTotalFiles] = useState(0);
+  // PDF text excerpts for rows the search matched by content
+  const [snippets, setSnippets] = useState<Record<string, string>>({});
+  const [retentionWindow, setRetentionWindow] = useState<PortFilePageMeta["window"]>();
+  const [facets, setFacets] = useState<PortFileFacets>({ ports: [], years: [] });
+  // Port catalogue for upload autocomplete and name resolution
+  const [ports, setPorts] = useState<Port[]>([]);
+
+  // Filter state, mirrored in the URL query string
+  const [filters, setFilters] = useState<FileFilters>(() => parseFileFilters(searchParams));
+  const [searchText, setSearchText] = useState(filters.q);
 
   // UI State
   const [isLoading, setIsLoading] = useState(false);
   const [showUploadModal, setShowUploadModal] = useState(false);
+  const [showBulkUploadModal, setShowBulkUploadModal] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [showSuccessAlert, setShowSuccessAlert] = useState(false);
   const [alertMessage, setAlertMessage] = useState("");
-  const [uploadForm, setUploadForm] = useState<UploadForm>({
-    port_name: "",
-    file: null,
-    week: getWeekNumber(new Date()),
-    year: new Date().getFullYear(),
-  });
+  const [uploadForm, setUploadForm] = useState<UploadForm>(emptyUploadForm());
 
   // Auth state
-  const [isAdmin, setIsAdmin] = useState(false);
+  const { permissions } = useProfile();
   const [showLoginModal, setShowLoginModal] = useState(false);
   const [loginEmail, setLoginEmail] = useState("");
   const [loginPassword, setLoginPassword] = useState("");
 
   // State untuk file yang akan dihapus
   const [fileToDelete, setFileToDelete] = useState<PortFile | null>(null);
+  const [fileToWithdraw, setFileToWithdraw] = useState<PortFile | null>(null);
+  const [fileToShare, setFileToShare] = useState<PortFile | null>(null);
+
+  // Port/week whose revision history is open
+  const [historyFile, setHistoryFile] = useState<PortFile | null>(null);
+  const [historyFiles, setHistoryFiles] = useState<PortFile[]>([]);
+  // Existing revisions of the port/week in the upload form
+  const [uploadTargetFiles, setUploadTargetFiles] = useState<PortFile[]>([]);
+  // Where the selected PDF already exists, after the server reported a duplicate
+  const [duplicateWarning, setDuplicateWarning] = useState<{
+    file: File;
+    existing: Record<string, string>;
+  } | null>(null);
+  const [previewFile, setPreviewFile] = useState<PortFile | null>(null);
+  const [showFeedModal, setShowFeedModal] = useState(false);
+  const [showSubscribeModal, setShowSubscribeModal] = useState(false);
+
+  // Rows added by other people since the page was opened
+  const [freshIds, setFreshIds] = useState<Set<string>>(new Set());
+  const [newSchedules, setNewSchedules] = useState(0);
+  const liveStatus = usePortFileChanges({ onChange: applyLiveChange, onResync: refresh });
 
   // =========================
   // LOAD DATA
@@ -201,43 +155,110 @@ export default function Home() {
   async function loadPortFiles() {
     setIsLoading(true);
     try {
-      const { data, error } = await supabase
-        .from("port_files")
-        .select("*")
-        .order("uploaded_at", { ascending: false });
+      const { files, meta } = await fetchPortFiles(filters, FILE_PAGE_SIZE);
 
-      if (error) throw error;
+      // The page can run past the end after deletes or a narrower filter
+      const lastPage = Math.max(1, Math.ceil(meta.total / FILE_PAGE_SIZE));
+      if (filters.page > lastPage) {
+        updateFilters({ page: lastPage });
+        return;
+      }
 
-      setPortFiles(data || []);
-      filterFiles(data || []);
+      setPortFiles(files);
+      setTotalFiles(meta.total);
+      setSnippets(meta.snippets ?? {});
+      setRetentionWindow(meta.window);
     } catch (error) {
       console.error("Error loading port files:", error);
-      showAlert(`Error loading files: ${(error as Error).message}`);
+      showAlert(t("alert.loadFailed", { message: (error as Error).message }));
     } finally {
       setIsLoading(false);
     }
   }
 
-  // Filter files berdasarkan pencarian
-  function filterFiles(files: PortFile[]) {
-    let filtered = [...files];
-
-    // Filter by search query
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase();
-      filtered = filtered.filter(
-        (file) =>
-          file.port_name.toLowerCase().includes(query) ||
-          file.file_name.toLowerCase().includes(query) ||
-          file.year.toString().includes(query) ||
-          file.week.toString().includes(query)
-      );
+  async function loadFacets() {
+    try {
+      setFacets(await fetchPortFileFacets());
+    } catch (error) {
+      console.error("Error loading filter options:", error);
+    }
+  }
+
+  async function loadPortCatalogue() {
+    try {
+      setPorts(await loadPorts(supabase));
+    } catch (error) {
+      console.error("Error loading port catalogue:", error);
+    }
+  }
+
+  async function refresh() {
+    await Promise.all([loadPortFiles(), loadFacets()]);
+  }
+
+  function applyLiveChange(update: PortFileChange) {
+    // A release arrives as an update of a row this page never had
+    const change: PortFileChange =
+      update.type === "update" &&
+      wasJustPublished(update.file) &&
+      !portFiles.some((file) => file.id === update.file.id)
+        ? { type: "insert", file: update.file }
+        : update;
+    const currentWindow = retentionWindow ? { ...retentionWindow, purgeBefore: null } : null;
+    const next = applyPortFileChange(
+      { files: portFiles, total: totalFiles },
+      change,
+      filters,
+      currentWindow,
+      FILE_PAGE_SIZE
+    );
+    setPortFiles(next.files);
+    setTotalFiles(next.total);
+
+    if (change.type === "insert") {
+      markFresh(change.file.id);
+      if (isLatestRevision(change.file)) setNewSchedules((count) => count + 1);
     }
+    if (change.type !== "update") loadFacets();
+  }
+
+  function markFresh(id: string) {
+    setFreshIds((current) => new Set(current).add(id));
+    setTimeout(() => {
+      setFreshIds((current) => {
+        const next = new Set(current);
+        next.delete(id);
+        return next;
+      });
+    }, FRESH_HIGHLIGHT_MS);
+  }
 
-    // Sort by uploaded date (newest first)
-    filtered.sort((a, b) => new Date(b.uploaded_at).getTime() - new Date(a.uploaded_at).getTime());
+  // Any filter change starts again from the first page
+  function updateFilters(changes: Partial<FileFilters>) {
+    const next = { ...filters, page: 1, ...changes };
+    setFilters(next);
+    if (changes.q !== undefined) setSearchText(changes.q);
 
-    setFilteredFiles(filtered);
+    const query = fileFiltersToQuery(next);
+    router.replace(query ? `/?${query}` : "/", { scroll: false });
+  }
+
+  function toggleSort(sort: FileSort) {
+    updateFilters({
+      sort,
+      order: filters.sort === sort && filters.order === "desc" ? "asc" : "desc",
+    });
+  }
+
+  async function openHistory(file: PortFile) {
+    setHistoryFile(file);
+    setHistoryFiles([]);
+    try {
+      setHistoryFiles(revisionHistory(await fetchRevisions(file), file));
+    } catch (error) {
+      console.error("Error loading revisions:", error);
+      showAlert(t("alert.historyFailed", { message: (error as Error).message }));
+    }
   }
 
   // =========================
@@ -245,34 +266,43 @@ export default function Home() {
   // =========================
   useEffect(() => {
     loadPortFiles();
-  }, []);
+  }, [filters]);
 
   useEffect(() => {
-    filterFiles(portFiles);
-  }, [searchQuery, portFiles]);
+    loadFacets();
+    loadPortCatalogue();
+  }, []);
 
-  // =========================
-  // AUTH SESSION CHECK
-  // =========================
+  // Debounce typing before it hits the server
   useEffect(() => {
-    supabase.auth.getSession().then(({ data }) => {
-      setIsAdmin(!!data.session);
-    });
+    if (searchText === filters.q) return;
+    const timer = setTimeout(() => updateFilters({ q: searchText }), 300);
+    return () => clearTimeout(timer);
+  }, [searchText]);
 
-    const { data: listener } = supabase.auth.onAuthStateChange(
-      (_event, session) => {
-        setIsAdmin(!!session);
-      }
-    );
-
-    return () => {
-      listener.subscription.unsubscribe();
-    };
-  }, []);
+  useEffect(() => {
+    const { week, year } = uploadForm;
+    const port = resolvePort(uploadForm.port_name);
+    if (!showUploadModal || !port || !isValidIsoWeek(week, year)) {
+      setUploadTargetFiles([]);
+      return;
+    }
+    const timer = setTimeout(() => {
+      fetchRevisions({ port_name: port.name, week, year })
+        .then(setUploadTargetFiles)
+        .catch((error) => console.error("Error loading revisions:", error));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [showUploadModal, uploadForm.port_name, uploadForm.week, uploadForm.year]);
 
   // =========================
   // UI HELPERS
   // =========================
+  // Canonical catalogue entry for a typed name, alias or UN/LOCODE
+  function resolvePort(text: string) {
+    return text.trim() ? createPortResolver(ports)(text) : null;
+  }
+
   function showAlert(message: string) {
     setAlertMessage(message);
     setShowSuccessAlert(true);
@@ -282,96 +312,91 @@ export default function Home() {
   // =========================
   // AUTH ACTIONS
   // =========================
+  // Sign-ins and sign-outs are audited by the database, not here
   async function adminLogin() {
-    const { error } = await supabase.auth.signInWithPassword({
-      email: loginEmail,
-      password: loginPassword,
-    });
-
-    if (error) {
-      showAlert(`Login failed: ${error.message}`);
+    try {
+      await auth.signIn(loginEmail, loginPassword);
+    } catch (error) {
+      showAlert(t("alert.loginFailed", { message: (error as Error).message }));
       return;
     }
 
     setLoginEmail("");
     setLoginPassword("");
     setShowLoginModal(false);
-    showAlert("Login successful!");
+    showAlert(t("alert.loginSuccess"));
   }
 
   async function adminLogout() {
-    await supabase.auth.signOut();
-    showAlert("Logged out successfully");
+    await auth.signOut();
+    showAlert(t("alert.logoutSuccess"));
   }
 
   // =========================
   // FILE ACTIONS
   // =========================
-  async function uploadFile() {
-    if (!uploadForm.file || !uploadForm.port_name.trim()) {
-      showAlert("Please select a file and enter port name");
+  async function uploadFile(allowDuplicate = false) {
+    const issue = Object.values(portFileFieldIssues(uploadForm))[0];
+    if (issue || !uploadForm.file) {
+      showAlert(issue ? t(`validation.${issue.code}`, issue.params) : t("alert.selectFile"));
       return;
     }
 
-    if (!uploadForm.week || !uploadForm.year) {
-      showAlert("Please enter week and year");
+    const port = resolvePort(uploadForm.port_name);
+    if (!port) {
+      showAlert(t("alert.unknownPort", { port: uploadForm.port_name.trim().toUpperCase() }));
+      return;
+    }
+
+    if (!canUploadForPort(permissions, port.name)) {
+      showAlert(t("alert.portNotAllowed", { port: port.name }));
+      return;
+    }
+
+    // datetime-local is in the uploader's time zone
+    const publishAt =
+      uploadForm.status === "scheduled" && uploadForm.publish_at
+        ? new Date(uploadForm.publish_at).toISOString()
+        : undefined;
+    if (validatePublishAt(uploadForm.status, publishAt ?? null)) {
+      showAlert(t("upload.publishAtInvalid"));
       return;
     }
 
     setIsLoading(true);
 
     try {
-      // Generate unique file name
-      const fileExt = uploadForm.file.name.split(".").pop();
-      const safePortName = uploadForm.port_name
-        .trim()
-        .toUpperCase()
-        .replace(/\s+/g, "_")
-        .replace(/[^a-zA-Z0-9_]/g, "");
-      const fileName = `${Date.now()}_${safePortName}_W${uploadForm.week}_${uploadForm.year}.${fileExt}`;
-      const filePath = `port-files/${fileName}`;
-
-      // Upload file to storage
-      const { error: uploadError, data: uploadData } = await supabase.storage
-        .from("port-files")
-        .upload(filePath, uploadForm.file, {
-          cacheControl: '3600',
-          upsert: false
-        });
-
-      if (uploadError) throw uploadError;
-
-      // Get public URL
-      const { data: urlData } = supabase.storage
-        .from("port-files")
-        .getPublicUrl(filePath);
-
-      // Insert record to database
-      const { error: dbError } = await supabase.from("port_files").insert({
+      const uploaded = await createPortFile({
+        port_name: port.name,
         week: uploadForm.week,
         year: uploadForm.year,
-        port_name: uploadForm.port_name.trim(),
-        file_name: fileName,
-        file_url: urlData.publicUrl,
-        file_size: uploadForm.file.size,
-        uploaded_at: new Date().toISOString(),
+        file: uploadForm.file,
+        change_note: uploadForm.change_note,
+        status: uploadForm.status,
+        publish_at: publishAt,
+        allow_duplicate: allowDuplicate,
       });
-
-      if (dbError) throw dbError;
+      const revision = uploaded.revision ?? 1;
 
       // Reset form and reload
-      setUploadForm({
-        port_name: "",
-        file: null,
-        week: getWeekNumber(new Date()),
-        year: new Date().getFullYear(),
-      });
+      setUploadForm(emptyUploadForm());
       setShowUploadModal(false);
-      await loadPortFiles();
-      showAlert("File uploaded successfully!");
+      await refresh();
+      if (uploaded.status === "draft") {
+        showAlert(t("alert.draftSaved"));
+      } else if (uploaded.status === "scheduled") {
+        showAlert(t("alert.scheduled", { date: formatDateTime(uploaded.publish_at!, intlLocale) }));
+      } else {
+        showAlert(revision > 1 ? t("alert.revisionSuccess", { revision }) : t("alert.uploadSuccess"));
+      }
     } catch (error) {
+      const existing = duplicateOf(error);
+      if (existing) {
+        setDuplicateWarning({ file: uploadForm.file, existing });
+        return;
+      }
       console.error("Error uploading file:", error);
-      showAlert(`Upload failed: ${(error as Error).message}`);
+      showAlert(t("alert.uploadFailed", { message: (error as Error).message }));
     } finally {
       setIsLoading(false);
     }
@@ -383,63 +408,212 @@ export default function Home() {
     setIsLoading(true);
 
     try {
-      // Delete from storage
-      const { error: storageError } = await supabase.storage
-        .from("port-files")
-        .remove([fileToDelete.file_name]);
-
-      if (storageError) throw storageError;
-
-      // Delete from database
-      const { error: dbError } = await supabase
-        .from("port_files")
-        .delete()
-        .eq("id", fileToDelete.id);
-
-      if (dbError) throw dbError;
+      await removePortFile(fileToDelete.id);
 
       // Reset state and reload
       setFileToDelete(null);
       setShowDeleteModal(false);
-      await loadPortFiles();
-      showAlert("File deleted successfully!");
+      await refresh();
+      showAlert(t("alert.deleteSuccess"));
     } catch (error) {
       console.error("Error deleting file:", error);
-      showAlert(`Delete failed: ${(error as Error).message}`);
+      showAlert(t("alert.deleteFailed", { message: (error as Error).message }));
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  // Hides a published file from visitors; it stays under Admin → Scheduled Releases
+  async function withdrawFile() {
+    if (!fileToWithdraw) return;
+
+    setIsLoading(true);
+
+    try {
+      await updatePortFileStatus(fileToWithdraw.id, "withdrawn");
+      setFileToWithdraw(null);
+      await refresh();
+      showAlert(t("alert.withdrawSuccess"));
+    } catch (error) {
+      console.error("Error withdrawing file:", error);
+      showAlert(t("alert.withdrawFailed", { message: (error as Error).message }));
     } finally {
       setIsLoading(false);
     }
   }
 
+  // Exports every matching row, not just the current page
+  async function exportFiles(format: ExportFormat) {
+    try {
+      const files = await fetchAllPortFiles(filters);
+      exportRows(portFileExportRows(files, window.location.origin), "SITC_port_files", format, "Port Files");
+    } catch (error) {
+      console.error("Error exporting files:", error);
+      showAlert(t("alert.exportFailed", { message: (error as Error).message }));
+    }
+  }
+
   function openFilePreview(file: PortFile) {
-    window.open(file.file_url, "_blank");
+    setPreviewFile(file);
   }
 
   function downloadFile(file: PortFile) {
     const link = document.createElement("a");
-    link.href = file.file_url;
+    link.href = portFileUrl(file.id, true);
     link.download = file.file_name;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
   }
 
+  // =========================
+  // TABLE ROWS
+  // =========================
+  function renderSortButton(label: string, sort: FileSort) {
+    const isActive = filters.sort === sort;
+    const Icon = isActive && filters.order === "asc" ? ArrowUp : ArrowDown;
+    return (
+      <button
+        onClick={() => toggleSort(sort)}
+        className="inline-flex items-center gap-1 uppercase tracking-wider hover:text-blue-600"
+      >
+        {label}
+        <Icon className={`h-3 w-3 ${isActive ? "text-blue-600" : "text-blue-300"}`} />
+      </button>
+    );
+  }
+
+  function renderFileRow(file: PortFile, index: number) {
+    return (
+      <tr
+        key={file.id}
+        className={`transition-colors ${freshIds.has(file.id) ? "bg-green-50/70" : "hover:bg-blue-50/30"}`}
+      >
+        <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold text-blue-900">
+          {(filters.page - 1) * FILE_PAGE_SIZE + index + 1}
+        </td>
+        <td className="px-6 py-4 whitespace-nowrap">
+          <div className="text-sm font-bold text-blue-800">{file.port_name}</div>
+        </td>
+        <td className="px-6 py-4 whitespace-nowrap">
+          <WeekBadge week={file.week} year={file.year} />
+        </td>
+        <td className="px-6 py-4">
+          <div className="flex items-center gap-2 max-w-xs">
+            <File className="h-4 w-4 text-blue-500 flex-shrink-0" />
+            <span className="text-sm text-blue-900 truncate" title={file.file_name}>
+              {file.file_name}
+            </span>
+            {freshIds.has(file.id) && (
+              <span className="flex-shrink-0 rounded-full bg-green-100 px-2 py-0.5 text-[11px] font-semibold text-green-700">
+                {t("live.new")}
+              </span>
+            )}
+            {(file.revision ?? 1) > 1 && (
+              <span className="flex-shrink-0 rounded-full bg-amber-100 px-2 py-0.5 text-[11px] font-semibold text-amber-700">
+                {t("file.revision", { revision: file.revision ?? 1 })}
+              </span>
+            )}
+            {!isLatestRevision(file) && (
+              <span className="flex-shrink-0 rounded-full bg-slate-100 px-2 py-0.5 text-[11px] font-semibold text-slate-500">
+                {t("file.superseded")}
+              </span>
+            )}
+          </div>
+          {file.change_note && (
+            <div className="mt-1 max-w-xs truncate text-xs text-blue-600" title={file.change_note}>
+              {file.change_note}
+            </div>
+          )}
+          {snippets[file.id] && <SearchSnippet snippet={snippets[file.id]} />}
+        </td>
+        <td className="px-6 py-4 whitespace-nowrap">
+          <div className="flex items-center gap-1 text-sm text-blue-700">
+            <Clock className="h-3 w-3" />
+            {formatDate(file.uploaded_at, intlLocale)}
+          </div>
+          {permissions.isSignedIn && file.uploaded_by && (
+            <div className="mt-0.5 text-xs text-blue-500">{t("file.uploadedBy", { name: file.uploaded_by })}</div>
+          )}
+        </td>
+        <td className="px-6 py-4 whitespace-nowrap">
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => openFilePreview(file)}
+              className="inline-flex items-center gap-1 rounded-xl bg-blue-100 px-3 py-1.5 text-xs font-semibold text-blue-700 hover:bg-blue-200"
+              title={t("file.previewHint")}
+            >
+              <Eye className="h-3 w-3" />
+              {t("file.preview")}
+            </button>
+            <button
+              onClick={() => downloadFile(file)}
+              className="inline-flex items-center gap-1 rounded-xl bg-green-100 px-3 py-1.5 text-xs font-semibold text-green-700 hover:bg-green-200"
+              title={t("file.downloadHint")}
+            >
+              <Download className="h-3 w-3" />
+              {t("file.download")}
+            </button>
+            {(file.revision ?? 1) > 1 && (
+              <button
+                onClick={() => openHistory(file)}
+                className="inline-flex items-center gap-1 rounded-xl bg-amber-100 px-3 py-1.5 text-xs font-semibold text-amber-700 hover:bg-amber-200"
+                title={t("file.historyHint")}
+              >
+                <History className="h-3 w-3" />
+                {t("file.history")}
+              </button>
+            )}
+            {canUploadForPort(permissions, file.port_name) && (
+              <button
+                onClick={() => setFileToWithdraw(file)}
+                className="inline-flex items-center gap-1 rounded-xl bg-orange-100 px-3 py-1.5 text-xs font-semibold text-orange-700 hover:bg-orange-200"
+                title={t("file.withdrawHint")}
+              >
+                <EyeOff className="h-3 w-3" />
+                {t("file.withdraw")}
+              </button>
+            )}
+            {permissions.canShareFiles && (
+              <button
+                onClick={() => setFileToShare(file)}
+                className="inline-flex items-center gap-1 rounded-xl bg-indigo-100 px-3 py-1.5 text-xs font-semibold text-indigo-700 hover:bg-indigo-200"
+                title={t("file.shareHint")}
+              >
+                <Share2 className="h-3 w-3" />
+                {t("file.share")}
+              </button>
+            )}
+            {permissions.canDelete && (
+              <button
+                onClick={() => {
+                  setFileToDelete(file);
+                  setShowDeleteModal(true);
+                }}
+                className="inline-flex items-center gap-1 rounded-xl bg-red-100 px-3 py-1.5 text-xs font-semibold text-red-700 hover:bg-red-200"
+                title={t("file.deleteHint")}
+              >
+                <Trash2 className="h-3 w-3" />
+                {t("file.delete")}
+              </button>
+            )}
+          </div>
+        </td>
+      </tr>
+    );
+  }
+
+  const knownPorts = facets.ports;
+  const uploadPort = resolvePort(uploadForm.port_name);
+  const uploadTarget = uploadPort ? { ...uploadForm, port_name: uploadPort.name } : null;
+
   // =========================
   // RENDER
   // =========================
   return (
     <main className="min-h-screen bg-gradient-to-b from-blue-50 via-white to-blue-50">
       {/* SUCCESS ALERT */}
-      {showSuccessAlert && (
-        <div className="fixed top-4 left-1/2 z-[200] -translate-x-1/2 animate-fade-in">
-          <div className="rounded-2xl bg-green-500 px-6 py-3 text-white shadow-2xl">
-            <div className="flex items-center gap-2">
-              <Check className="h-4 w-4" />
-              {alertMessage}
-            </div>
-          </div>
-        </div>
-      )}
+      {showSuccessAlert && <Toast message={alertMessage} />}
 
       {/* HEADER */}
       <div className="sticky top-0 z-50 border-b border-blue-200 bg-white/90 backdrop-blur-xl">
@@ -459,32 +633,54 @@ export default function Home() {
               </div>
               <div>
                 <div className="text-xl font-bold tracking-tight text-blue-900">
-                  SITC Port PDF Files
+                  {t("home.title")}
                 </div>
                 <div className="text-xs text-blue-600">
-                  All uploaded PDF files
+                  {t("home.subtitle")}
                 </div>
               </div>
             </div>
 
             <div className="flex items-center gap-3">
-              {isAdmin && (
+              <Link
+                href="/schedules"
+                className="inline-flex items-center gap-2 rounded-2xl bg-blue-100 px-4 py-2.5 text-sm font-semibold text-blue-700 hover:bg-blue-200"
+              >
+                <Ship className="h-4 w-4" />
+                {t("home.vesselSchedules")}
+              </Link>
+
+              <LanguageSwitcher />
+
+              <AdminMenu permissions={permissions} />
+
+              {permissions.canUpload && (
                 <button
                   onClick={() => setShowUploadModal(true)}
                   className="inline-flex items-center gap-2 rounded-2xl bg-gradient-to-r from-green-600 to-green-700 px-4 py-2.5 text-sm font-semibold text-white shadow-lg hover:from-green-700 hover:to-green-800"
                 >
                   <Plus className="h-4 w-4" />
-                  Upload PDF
+                  {t("home.uploadPdf")}
+                </button>
+              )}
+              {permissions.canUpload && (
+                <button
+                  onClick={() => setShowBulkUploadModal(true)}
+                  className="inline-flex items-center gap-2 rounded-2xl bg-green-100 px-4 py-2.5 text-sm font-semibold text-green-700 hover:bg-green-200"
+                  title={t("home.bulkUploadHint")}
+                >
+                  <Files className="h-4 w-4" />
+                  {t("home.bulkUpload")}
                 </button>
               )}
 
-              {isAdmin ? (
+              {permissions.isSignedIn ? (
                 <button
                   onClick={adminLogout}
                   className="inline-flex items-center gap-2 rounded-2xl bg-blue-100 px-4 py-2.5 text-sm font-semibold text-blue-700 hover:bg-blue-200"
                 >
                   <LogOut className="h-4 w-4" />
-                  Logout
+                  {t("home.logout")}
                 </button>
               ) : (
                 <button
@@ -492,7 +688,7 @@ export default function Home() {
                   className="inline-flex items-center gap-2 rounded-2xl bg-gradient-to-r from-blue-600 to-blue-700 px-4 py-2.5 text-sm font-semibold text-white shadow-lg hover:from-blue-700 hover:to-blue-800"
                 >
                   <LogIn className="h-4 w-4" />
-                  Login
+                  {t("home.login")}
                 </button>
               )}
             </div>
@@ -502,68 +698,152 @@ export default function Home() {
           <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-3">
             <div className="flex flex-wrap items-center gap-3">
               <button
-                onClick={loadPortFiles}
+                onClick={refresh}
                 className="inline-flex items-center gap-2 rounded-2xl bg-blue-100 px-4 py-2.5 text-sm font-semibold text-blue-700 hover:bg-blue-200"
               >
                 <RefreshCcw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
-                Refresh
+                {t("common.refresh")}
               </button>
+              {liveStatus !== "connecting" && (
+                <span
+                  className={`inline-flex items-center gap-1.5 text-xs font-semibold ${
+                    liveStatus === "live" ? "text-green-700" : "text-amber-700"
+                  }`}
+                >
+                  <span
+                    className={`h-2 w-2 rounded-full ${
+                      liveStatus === "live" ? "bg-green-500" : "animate-pulse bg-amber-500"
+                    }`}
+                  />
+                  {liveStatus === "live" ? t("live.connected") : t("live.reconnecting")}
+                </span>
+              )}
 
               {/* Search Input */}
               <div className="relative">
                 <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-blue-400" />
                 <input
                   type="text"
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                  placeholder="Search port, file name, week, or year..."
+                  value={searchText}
+                  onChange={(e) => setSearchText(e.target.value)}
+                  placeholder={t("home.searchPlaceholder")}
                   className="w-full lg:w-80 rounded-2xl border border-blue-200 bg-white pl-10 pr-4 py-2.5 text-sm outline-none focus:ring-2 focus:ring-blue-500"
                 />
               </div>
+
+              <label className="inline-flex items-center gap-2 text-sm text-blue-700">
+                <input
+                  type="checkbox"
+                  checked={filters.revisions}
+                  onChange={(e) => updateFilters({ revisions: e.target.checked })}
+                  className="h-4 w-4 rounded border-blue-300"
+                />
+                {t("home.showSuperseded")}
+              </label>
             </div>
 
             <div className="flex items-center gap-3">
+              <button
+                onClick={() => setShowFeedModal(true)}
+                className="inline-flex items-center gap-2 rounded-2xl bg-blue-100 px-4 py-2.5 text-sm font-semibold text-blue-700 hover:bg-blue-200"
+                title={t("home.feedsHint")}
+              >
+                <Rss className="h-4 w-4" />
+                {t("home.feeds")}
+              </button>
+              <button
+                onClick={() => setShowSubscribeModal(true)}
+                className="inline-flex items-center gap-2 rounded-2xl bg-blue-100 px-4 py-2.5 text-sm font-semibold text-blue-700 hover:bg-blue-200"
+                title={t("home.notifyMeHint")}
+              >
+                <Mail className="h-4 w-4" />
+                {t("home.notifyMe")}
+              </button>
+              <ExportButtons onExport={exportFiles} disabled={totalFiles === 0} />
               <div className="rounded-2xl bg-blue-50 px-4 py-2.5">
                 <div className="flex items-center gap-2 text-sm font-semibold text-blue-800">
                   <FileText className="h-4 w-4" />
-                  Total Files: <span className="text-blue-600">{filteredFiles.length}</span>
+                  {t("home.totalFiles")} <span className="text-blue-600">{totalFiles}</span>
                 </div>
               </div>
             </div>
           </div>
+
+          {/* Facets */}
+          <div className="mt-3">
+            <FileFacets
+              filters={filters}
+              onChange={updateFilters}
+              ports={knownPorts}
+              years={facets.years}
+              retentionWindow={retentionWindow}
+            />
+          </div>
         </div>
       </div>
 
       {/* CONTENT */}
       <div className="mx-auto max-w-[95vw] px-4 py-6">
+        <AnnouncementBanner ports={filters.ports} />
+
+        {!permissions.isSignedIn && newSchedules > 0 && (
+          <div className="mb-4 flex justify-center">
+            <div className="inline-flex items-center gap-3 rounded-2xl border border-green-200 bg-green-50 px-4 py-2 text-sm text-green-800">
+              <Sparkles className="h-4 w-4" />
+              {t("live.banner", { count: newSchedules })}
+              <button
+                onClick={() => {
+                  setNewSchedules(0);
+                  updateFilters({});
+                  window.scrollTo({ top: 0, behavior: "smooth" });
+                }}
+                className="font-semibold underline hover:text-green-900"
+              >
+                {t("live.show")}
+              </button>
+              <button
+                onClick={() => setNewSchedules(0)}
+                className="rounded-full p-0.5 hover:bg-green-100"
+                title={t("live.dismiss")}
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          </div>
+        )}
+
         {isLoading && portFiles.length === 0 ? (
           <div className="rounded-3xl border border-blue-200 bg-white p-12 text-center">
             <div className="flex flex-col items-center gap-4">
               <RefreshCcw className="h-8 w-8 animate-spin text-blue-500" />
               <div className="text-lg font-semibold text-blue-900">
-                Loading port files...
+                {t("home.loading")}
               </div>
             </div>
           </div>
-        ) : filteredFiles.length === 0 ? (
+        ) : portFiles.length === 0 ? (
           <div className="rounded-3xl border border-blue-200 bg-white p-12 text-center">
             <div className="flex flex-col items-center gap-4">
               <File className="h-16 w-16 text-blue-300" />
               <div className="text-lg font-semibold text-blue-900">
-                No PDF files uploaded yet
+                {knownPorts.length > 0 ? t("home.noMatches") : t("home.noFiles")}
               </div>
               <div className="text-blue-600">
-                {isAdmin
-                  ? 'Upload your first PDF using the "Upload PDF" button'
-                  : "No files available. Please contact admin."}
+                {knownPorts.length > 0
+                  ? filters.view === "current"
+                    ? t("home.archiveHint")
+                    : t("home.widenHint")
+                  : permissions.canUpload
+                    ? t("home.uploadFirstHint")
+                    : t("home.contactAdmin")}
               </div>
-              {isAdmin && (
+              {permissions.canUpload && knownPorts.length === 0 && (
                 <button
                   onClick={() => setShowUploadModal(true)}
                   className="mt-4 inline-flex items-center gap-2 rounded-2xl bg-gradient-to-r from-green-600 to-green-700 px-6 py-3 text-sm font-semibold text-white shadow-lg hover:from-green-700 hover:to-green-800"
                 >
                   <Plus className="h-4 w-4" />
-                  Upload First PDF
+                  {t("home.uploadFirst")}
                 </button>
               )}
             </div>
@@ -575,94 +855,48 @@ export default function Home() {
                 <thead className="bg-blue-50">
                   <tr>
                     <th className="px-6 py-4 text-left text-xs font-bold text-blue-900 uppercase tracking-wider">
-                      No.
+                      {t("table.no")}
                     </th>
                     <th className="px-6 py-4 text-left text-xs font-bold text-blue-900 uppercase tracking-wider">
-                      Port Name
+                      {renderSortButton(t("table.portName"), "port")}
                     </th>
                     <th className="px-6 py-4 text-left text-xs font-bold text-blue-900 uppercase tracking-wider">
-                      Week & Year
+                      {renderSortButton(t("table.weekYear"), "week")}
                     </th>
                     <th className="px-6 py-4 text-left text-xs font-bold text-blue-900 uppercase tracking-wider">
-                      File Name
+                      {t("table.fileName")}
                     </th>
                     <th className="px-6 py-4 text-left text-xs font-bold text-blue-900 uppercase tracking-wider">
-                      Uploaded
+                      {renderSortButton(t("table.uploaded"), "uploaded_at")}
                     </th>
                     <th className="px-6 py-4 text-left text-xs font-bold text-blue-900 uppercase tracking-wider">
-                      Actions
+                      {t("table.actions")}
                     </th>
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-blue-100">
-                  {filteredFiles.map((file, index) => (
-                    <tr key={file.id} className="hover:bg-blue-50/30 transition-colors">
-                      <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold text-blue-900">
-                        {index + 1}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        <div className="text-sm font-bold text-blue-800">{file.port_name}</div>
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        <div className="inline-flex items-center gap-1 rounded-full bg-blue-100 px-3 py-1">
-                          <Calendar className="h-3 w-3 text-blue-600" />
-                          <span className="text-xs font-semibold text-blue-700">
-                            W{file.week} • {file.year}
-                          </span>
-                        </div>
-                      </td>
-                      <td className="px-6 py-4">
-                        <div className="flex items-center gap-2 max-w-xs">
-                          <File className="h-4 w-4 text-blue-500 flex-shrink-0" />
-                          <span className="text-sm text-blue-900 truncate" title={file.file_name}>
-                            {file.file_name}
-                          </span>
-                        </div>
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        <div className="flex items-center gap-1 text-sm text-blue-700">
-                          <Clock className="h-3 w-3" />
-                          {formatDate(file.uploaded_at)}
-                        </div>
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        <div className="flex items-center gap-2">
-                          <button
-                            onClick={() => openFilePreview(file)}
-                            className="inline-flex items-center gap-1 rounded-xl bg-blue-100 px-3 py-1.5 text-xs font-semibold text-blue-700 hover:bg-blue-200"
-                            title="Preview PDF"
-                          >
-                            <Eye className="h-3 w-3" />
-                            Preview
-                          </button>
-                          <button
-                            onClick={() => downloadFile(file)}
-                            className="inline-flex items-center gap-1 rounded-xl bg-green-100 px-3 py-1.5 text-xs font-semibold text-green-700 hover:bg-green-200"
-                            title="Download PDF"
-                          >
-                            <Download className="h-3 w-3" />
-                            Download
-                          </button>
-                          {isAdmin && (
-                            <button
-                              onClick={() => {
-                                setFileToDelete(file);
-                                setShowDeleteModal(true);
-                              }}
-                              className="inline-flex items-center gap-1 rounded-xl bg-red-100 px-3 py-1.5 text-xs font-semibold text-red-700 hover:bg-red-200"
-                              title="Delete PDF"
-                            >
-                              <Trash2 className="h-3 w-3" />
-                              Delete
-                            </button>
-                          )}
-                        </div>
-                      </td>
-                    </tr>
-                  ))}
+                  {filters.group
+                    ? groupFiles(portFiles, filters.group, intlLocale).flatMap((group) => [
+                        <tr key={`group-${group.key}`} className="bg-blue-50/60">
+                          <td colSpan={6} className="px-6 py-2 text-sm font-bold text-blue-900">
+                            {group.label}
+                            <span className="ml-2 text-xs font-semibold text-blue-500">
+                              {t("table.fileCount", { count: group.files.length })}
+                            </span>
+                          </td>
+                        </tr>,
+                        ...group.files.map((file) => renderFileRow(file, portFiles.indexOf(file))),
+                      ])
+                    : portFiles.map(renderFileRow)}
                 </tbody>
               </table>
             </div>
+            <Pagination
+              page={filters.page}
+              pageSize={FILE_PAGE_SIZE}
+              total={totalFiles}
+              onPageChange={(page) => updateFilters({ page })}
+            />
           </div>
         )}
 
@@ -677,7 +911,7 @@ export default function Home() {
               className="h-5 w-5 object-contain"
             />
             <div className="text-xs text-blue-700">
-              Please note that our website is currently undergoing maintenance. In the meantime, schedule information is available in PDF format. We apologize for any inconvenience and thank you for your understanding. • {filteredFiles.length} files available
+              {t("home.footer", { count: totalFiles })}
             </div>
           </div>
         </div>
@@ -691,12 +925,12 @@ export default function Home() {
       <Modal
         isOpen={showLoginModal}
         onClose={() => setShowLoginModal(false)}
-        title="Admin Login"
+        title={t("login.title")}
       >
         <div className="space-y-4">
           <div>
             <label className="mb-1 block text-sm font-semibold text-slate-700">
-              Email
+              {t("common.email")}
             </label>
             <input
               type="email"
@@ -708,7 +942,7 @@ export default function Home() {
           </div>
           <div>
             <label className="mb-1 block text-sm font-semibold text-slate-700">
-              Password
+              {t("login.password")}
             </label>
             <input
               type="password"
@@ -722,7 +956,7 @@ export default function Home() {
             onClick={adminLogin}
             className="w-full rounded-2xl bg-gradient-to-r from-blue-600 to-blue-700 py-3 text-sm font-semibold text-white shadow-md hover:from-blue-700 hover:to-blue-800"
           >
-            Sign In
+            {t("login.submit")}
           </button>
         </div>
       </Modal>
@@ -732,35 +966,43 @@ export default function Home() {
         isOpen={showUploadModal}
         onClose={() => {
           setShowUploadModal(false);
-          setUploadForm({
-            port_name: "",
-            file: null,
-            week: getWeekNumber(new Date()),
-            year: new Date().getFullYear(),
-          });
+          setUploadForm(emptyUploadForm());
         }}
-        title="Upload PDF File"
+        title={t("upload.title")}
       >
         <div className="space-y-4">
           <div>
             <label className="mb-1 block text-sm font-semibold text-slate-700">
-              Port Name *
+              {t("upload.portName")}
             </label>
-            <input
-              type="text"
-              value={uploadForm.port_name}
-              onChange={(e) =>
-                setUploadForm({ ...uploadForm, port_name: e.target.value })
-              }
-              placeholder="e.g., BATAM, HAIPHONG, SHANGHAI"
-              className="w-full rounded-xl border border-slate-200 bg-white px-4 py-3 outline-none focus:ring-2 focus:ring-blue-500"
-            />
+            {permissions.uploadPorts ? (
+              <select
+                value={uploadForm.port_name}
+                onChange={(e) =>
+                  setUploadForm({ ...uploadForm, port_name: e.target.value })
+                }
+                className="w-full rounded-xl border border-slate-200 bg-white px-4 py-3 outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">{t("upload.selectAssignedPort")}</option>
+                {permissions.uploadPorts.map((port) => (
+                  <option key={port} value={port}>
+                    {port}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <PortCombobox
+                value={uploadForm.port_name}
+                onChange={(port_name) => setUploadForm({ ...uploadForm, port_name })}
+                ports={ports}
+              />
+            )}
           </div>
 
           <div className="grid grid-cols-2 gap-3">
             <div>
               <label className="mb-1 block text-sm font-semibold text-slate-700">
-                Year *
+                {t("upload.year")}
               </label>
               <input
                 type="number"
@@ -768,17 +1010,17 @@ export default function Home() {
                 onChange={(e) =>
                   setUploadForm({
                     ...uploadForm,
-                    year: parseInt(e.target.value || new Date().getFullYear().toString()),
+                    year: parseInt(e.target.value || getCurrentIsoWeek().year.toString()),
                   })
                 }
-                min="2024"
-                max="2030"
+                min={MIN_UPLOAD_YEAR}
+                max={maxUploadYear()}
                 className="w-full rounded-xl border border-slate-200 bg-white px-4 py-3 outline-none focus:ring-2 focus:ring-blue-500"
               />
             </div>
             <div>
               <label className="mb-1 block text-sm font-semibold text-slate-700">
-                Week *
+                {t("upload.week")}
               </label>
               <input
                 type="number"
@@ -786,7 +1028,7 @@ export default function Home() {
                 onChange={(e) =>
                   setUploadForm({
                     ...uploadForm,
-                    week: parseInt(e.target.value || getWeekNumber(new Date()).toString()),
+                    week: parseInt(e.target.value || getCurrentIsoWeek().week.toString()),
                   })
                 }
                 min="1"
@@ -798,7 +1040,7 @@ export default function Home() {
 
           <div>
             <label className="mb-1 block text-sm font-semibold text-slate-700">
-              PDF File *
+              {t("upload.file")}
             </label>
             <div className="mt-1">
               <input
@@ -830,37 +1072,253 @@ export default function Home() {
             )}
           </div>
 
+          <div>
+            <label className="mb-1 block text-sm font-semibold text-slate-700">
+              {t("upload.changeNote")}
+            </label>
+            <input
+              type="text"
+              value={uploadForm.change_note}
+              onChange={(e) =>
+                setUploadForm({ ...uploadForm, change_note: e.target.value })
+              }
+              placeholder={t("upload.changeNotePlaceholder")}
+              className="w-full rounded-xl border border-slate-200 bg-white px-4 py-3 outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <div>
+            <label className="mb-1 block text-sm font-semibold text-slate-700">
+              {t("upload.release")}
+            </label>
+            <div className="grid grid-cols-2 gap-3">
+              <select
+                value={uploadForm.status}
+                onChange={(e) =>
+                  setUploadForm({ ...uploadForm, status: e.target.value as UploadForm["status"] })
+                }
+                className="w-full rounded-xl border border-slate-200 bg-white px-4 py-3 outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="published">{t("upload.publishNow")}</option>
+                <option value="scheduled">{t("upload.schedule")}</option>
+                <option value="draft">{t("upload.draft")}</option>
+              </select>
+              {uploadForm.status === "scheduled" && (
+                <input
+                  type="datetime-local"
+                  value={uploadForm.publish_at}
+                  onChange={(e) => setUploadForm({ ...uploadForm, publish_at: e.target.value })}
+                  aria-label={t("upload.publishAt")}
+                  className="w-full rounded-xl border border-slate-200 bg-white px-4 py-3 outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              )}
+            </div>
+            {uploadForm.status !== "published" && (
+              <div className="mt-1 text-xs text-slate-500">{t("upload.releaseHint")}</div>
+            )}
+          </div>
+
+          {uploadTarget && nextRevisionNumber(uploadTargetFiles, uploadTarget) > 1 && (
+            <div className="rounded-lg bg-amber-50 p-3 text-xs text-amber-700">
+              {t("upload.revisionNotice", {
+                port: uploadTarget.port_name,
+                revision: nextRevisionNumber(uploadTargetFiles, uploadTarget),
+              })}
+            </div>
+          )}
+
           <div className="text-xs text-slate-500">
-            File will be uploaded to: Week {uploadForm.week}, {uploadForm.year}
+            {t("upload.target")}{" "}
+            {isValidIsoWeek(uploadForm.week, uploadForm.year) ? (
+              <span className="font-semibold text-slate-700">
+                {formatIsoWeekLabel(uploadForm.week, uploadForm.year, intlLocale)}
+              </span>
+            ) : (
+              <span className="font-semibold text-red-600">
+                {t("upload.invalidWeek", { week: uploadForm.week, year: uploadForm.year })}
+              </span>
+            )}
           </div>
 
+          {duplicateWarning && duplicateWarning.file === uploadForm.file && (
+            <div className="rounded-lg bg-amber-50 p-3 text-xs text-amber-700">
+              {t("upload.duplicate", {
+                file: duplicateWarning.existing.file_name,
+                port: duplicateWarning.existing.port_name,
+                week: duplicateWarning.existing.week,
+                year: duplicateWarning.existing.year,
+                date: formatDateTime(duplicateWarning.existing.uploaded_at, intlLocale),
+              })}
+              <button
+                onClick={() => uploadFile(true)}
+                disabled={isLoading}
+                className="ml-2 font-semibold underline hover:text-amber-900 disabled:opacity-50"
+              >
+                {t("upload.anyway")}
+              </button>
+            </div>
+          )}
+
           <div className="flex justify-end gap-3 pt-2">
             <button
               onClick={() => setShowUploadModal(false)}
               className="rounded-2xl bg-slate-100 px-4 py-2 text-sm font-semibold text-slate-700 hover:bg-slate-200"
             >
-              Cancel
+              {t("common.cancel")}
             </button>
             <button
-              onClick={uploadFile}
-              disabled={isLoading || !uploadForm.file || !uploadForm.port_name.trim() || !uploadForm.week || !uploadForm.year}
+              onClick={() => uploadFile()}
+              disabled={
+                isLoading ||
+                !uploadForm.file ||
+                !uploadForm.port_name.trim() ||
+                !uploadForm.week ||
+                !uploadForm.year ||
+                (uploadForm.status === "scheduled" && !uploadForm.publish_at)
+              }
               className="rounded-2xl bg-gradient-to-r from-green-600 to-green-700 px-4 py-2 text-sm font-semibold text-white hover:from-green-700 hover:to-green-800 disabled:opacity-50"
             >
-              {isLoading ? "Uploading..." : "Upload PDF"}
+              {isLoading ? t("common.uploading") : t("upload.submit")}
             </button>
           </div>
         </div>
       </Modal>
 
+      {/* REVISION HISTORY MODAL */}
+      <Modal
+        isOpen={!!historyFile}
+        onClose={() => setHistoryFile(null)}
+        title={
+          historyFile
+            ? t("history.title", { port: historyFile.port_name, week: historyFile.week, year: historyFile.year })
+            : t("history.fallbackTitle")
+        }
+        maxWidth="max-w-2xl"
+      >
+        <div className="space-y-3">
+          {historyFile &&
+            historyFiles.map((file) => (
+              <div
+                key={file.id}
+                className={`rounded-xl border p-4 ${
+                  isLatestRevision(file) ? "border-green-200 bg-green-50/50" : "border-slate-200"
+                }`}
+              >
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-bold text-slate-900">
+                        {t("history.revision", { revision: file.revision ?? 1 })}
+                      </span>
+                      {isLatestRevision(file) ? (
+                        <span className="rounded-full bg-green-100 px-2 py-0.5 text-[11px] font-semibold text-green-700">
+                          {t("file.current")}
+                        </span>
+                      ) : (
+                        <span className="rounded-full bg-slate-100 px-2 py-0.5 text-[11px] font-semibold text-slate-500">
+                          {t("file.superseded")}
+                        </span>
+                      )}
+                    </div>
+                    <div className="mt-1 truncate text-xs text-slate-500" title={file.file_name}>
+                      {file.file_name} • {formatDate(file.uploaded_at, intlLocale)}
+                    </div>
+                    {file.change_note && (
+                      <div className="mt-1 text-sm text-slate-700">{file.change_note}</div>
+                    )}
+                  </div>
+                  <div className="flex flex-shrink-0 items-center gap-2">
+                    <button
+                      onClick={() => openFilePreview(file)}
+                      className="inline-flex items-center gap-1 rounded-xl bg-blue-100 px-3 py-1.5 text-xs font-semibold text-blue-700 hover:bg-blue-200"
+                    >
+                      <Eye className="h-3 w-3" />
+                      {t("file.view")}
+                    </button>
+                    <button
+                      onClick={() => downloadFile(file)}
+                      className="inline-flex items-center gap-1 rounded-xl bg-green-100 px-3 py-1.5 text-xs font-semibold text-green-700 hover:bg-green-200"
+                    >
+                      <Download className="h-3 w-3" />
+                      {t("file.download")}
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+        </div>
+      </Modal>
+
+      {/* BULK UPLOAD MODAL */}
+      <BulkUploadModal
+        isOpen={showBulkUploadModal}
+        onClose={() => setShowBulkUploadModal(false)}
+        ports={ports}
+        permissions={permissions}
+        onUploaded={refresh}
+      />
+
+      {/* FEED LINKS MODAL */}
+      <FeedLinksModal
+        isOpen={showFeedModal}
+        onClose={() => setShowFeedModal(false)}
+        ports={knownPorts}
+      />
+
+      {/* EMAIL SUBSCRIPTION MODAL */}
+      <SubscribeModal
+        isOpen={showSubscribeModal}
+        onClose={() => setShowSubscribeModal(false)}
+        ports={knownPorts}
+        onSubscribed={showAlert}
+      />
+
+      {/* PDF VIEWER */}
+      {previewFile && (
+        <PdfViewerModal file={previewFile} onClose={() => setPreviewFile(null)} onDownload={downloadFile} />
+      )}
+
       {/* DELETE CONFIRMATION MODAL */}
       <AlertModal
         isOpen={showDeleteModal}
         onClose={() => setShowDeleteModal(false)}
-        title="Delete PDF File"
-        message={`Are you sure you want to delete "${fileToDelete?.file_name}" for ${fileToDelete?.port_name} (Week ${fileToDelete?.week}, ${fileToDelete?.year})? This action cannot be undone.`}
+        title={t("delete.title")}
+        message={t("delete.message", {
+          file: fileToDelete?.file_name ?? "",
+          port: fileToDelete?.port_name ?? "",
+          week: fileToDelete?.week ?? "",
+          year: fileToDelete?.year ?? "",
+        })}
         onConfirm={deleteFile}
-        confirmText="Delete File"
+        confirmText={t("delete.confirm")}
       />
+
+      {/* WITHDRAW CONFIRMATION MODAL */}
+      <AlertModal
+        isOpen={!!fileToWithdraw}
+        onClose={() => setFileToWithdraw(null)}
+        title={t("withdraw.title")}
+        message={t("withdraw.message", {
+          file: fileToWithdraw?.file_name ?? "",
+          port: fileToWithdraw?.port_name ?? "",
+          week: fileToWithdraw?.week ?? "",
+          year: fileToWithdraw?.year ?? "",
+        })}
+        onConfirm={withdrawFile}
+        confirmText={t("withdraw.confirm")}
+      />
+
+      {/* SHARE LINKS MODAL */}
+      <ShareLinksModal file={fileToShare} onClose={() => setFileToShare(null)} />
     </main>
   );
-}
\ No newline at end of file
+}
+
+export default function Home() {
+  // useSearchParams needs a Suspense boundary for static rendering
+  return (
+    <Suspense>
+      <HomeContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,220 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { supabase } from "@/lib/supabase";
+import { ArrowLeft, File, RefreshCcw, Search, Ship } from "lucide-react";
+import { ExportButtons } from "@/components/ExportButtons";
+import { Pagination } from "@/components/Pagination";
+import { PortRotation } from "@/components/PortRotation";
+import { WeekBadge } from "@/components/WeekBadge";
+import { exportRows, scheduleExportRows, type ExportFormat } from "@/lib/export";
+import {
+  findPortFile,
+  loadAllSchedules,
+  loadSchedulePage,
+  loadSchedulePortFiles,
+  SCHEDULE_PAGE_SIZE,
+} from "@/lib/schedules";
+import type { PortFile, VesselSchedule } from "@/lib/types";
+import { useI18n } from "@/lib/useI18n";
+
+// =========================
+// PUBLIC SCHEDULE TABLE
+// =========================
+export default function SchedulesPage() {
+  const { t } = useI18n();
+  const [schedules, setSchedules] = useState<VesselSchedule[]>([]);
+  // Only the PDFs for the port/weeks on the current page
+  const [portFiles, setPortFiles] = useState<PortFile[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [searchText, setSearchText] = useState("");
+  const [searchQuery, setSearchQuery] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  async function loadSchedules() {
+    setIsLoading(true);
+    setError("");
+    try {
+      const result = await loadSchedulePage(supabase, searchQuery, (page - 1) * SCHEDULE_PAGE_SIZE);
+
+      // The page can run past the end after a narrower search
+      const lastPage = Math.max(1, Math.ceil(result.total / SCHEDULE_PAGE_SIZE));
+      if (page > lastPage) {
+        setPage(lastPage);
+        return;
+      }
+
+      setSchedules(result.schedules);
+      setPortFiles(await loadSchedulePortFiles(supabase, result.schedules));
+      setTotal(result.total);
+    } catch (error) {
+      console.error("Error loading schedules:", error);
+      setError(t("schedules.loadFailed", { message: (error as Error).message }));
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadSchedules();
+  }, [page, searchQuery]);
+
+  // Search once typing pauses, from the first page
+  useEffect(() => {
+    if (searchText === searchQuery) return;
+    const timer = setTimeout(() => {
+      setSearchQuery(searchText);
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchText]);
+
+  // Exports every matching schedule, not just the current page
+  async function exportSchedules(format: ExportFormat) {
+    try {
+      const all = await loadAllSchedules(supabase, searchQuery);
+      const files = await loadSchedulePortFiles(supabase, all);
+      exportRows(scheduleExportRows(all, files, window.location.origin), "SITC_vessel_schedules", format, "Schedules");
+    } catch (error) {
+      console.error("Error exporting schedules:", error);
+      setError(t("schedules.exportFailed", { message: (error as Error).message }));
+    }
+  }
+
+  return (
+    <main className="min-h-screen bg-gradient-to-b from-blue-50 via-white to-blue-50">
+      {/* HEADER */}
+      <div className="sticky top-0 z-50 border-b border-blue-200 bg-white/90 backdrop-blur-xl">
+        <div className="mx-auto max-w-[95vw] px-4 py-4 sm:py-6">
+          <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-3">
+            <div className="flex items-center gap-4">
+              <Link
+                href="/"
+                className="rounded-2xl bg-blue-100 p-2.5 text-blue-700 hover:bg-blue-200"
+                title={t("common.backToFiles")}
+              >
+                <ArrowLeft className="h-4 w-4" />
+              </Link>
+              <div>
+                <div className="text-xl font-bold tracking-tight text-blue-900">
+                  {t("schedules.title")}
+                </div>
+                <div className="text-xs text-blue-600">
+                  {t("schedules.subtitle")}
+                </div>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3">
+              <ExportButtons onExport={exportSchedules} disabled={total === 0} />
+              <button
+                onClick={loadSchedules}
+                className="inline-flex items-center gap-2 rounded-2xl bg-blue-100 px-4 py-2.5 text-sm font-semibold text-blue-700 hover:bg-blue-200"
+              >
+                <RefreshCcw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+                {t("common.refresh")}
+              </button>
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-blue-400" />
+                <input
+                  type="text"
+                  value={searchText}
+                  onChange={(e) => setSearchText(e.target.value)}
+                  placeholder={t("schedules.searchPlaceholder")}
+                  className="w-full lg:w-80 rounded-2xl border border-blue-200 bg-white pl-10 pr-4 py-2.5 text-sm outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* CONTENT */}
+      <div className="mx-auto max-w-[95vw] px-4 py-6">
+        {error && (
+          <div className="mb-4 rounded-2xl bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+        )}
+
+        {schedules.length === 0 ? (
+          <div className="rounded-3xl border border-blue-200 bg-white p-12 text-center">
+            <div className="flex flex-col items-center gap-4">
+              <Ship className="h-16 w-16 text-blue-300" />
+              <div className="text-lg font-semibold text-blue-900">
+                {isLoading ? t("schedules.loading") : t("schedules.empty")}
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="overflow-hidden rounded-3xl border-2 border-blue-200 bg-white shadow-xl">
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-blue-200">
+                <thead className="bg-blue-50">
+                  <tr>
+                    <th className="px-6 py-4 text-left text-xs font-bold text-blue-900 uppercase tracking-wider">
+                      {t("schedules.vesselVoyage")}
+                    </th>
+                    <th className="px-6 py-4 text-left text-xs font-bold text-blue-900 uppercase tracking-wider">
+                      {t("schedules.service")}
+                    </th>
+                    <th className="px-6 py-4 text-left text-xs font-bold text-blue-900 uppercase tracking-wider">
+                      {t("schedules.portWeek")}
+                    </th>
+                    <th className="px-6 py-4 text-left text-xs font-bold text-blue-900 uppercase tracking-wider">
+                      {t("schedules.rotation")}
+                    </th>
+                    <th className="px-6 py-4 text-left text-xs font-bold text-blue-900 uppercase tracking-wider">
+                      {t("schedules.officialPdf")}
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-blue-100">
+                  {schedules.map((schedule) => {
+                    const portFile = findPortFile(portFiles, schedule);
+                    return (
+                      <tr key={schedule.id} className="hover:bg-blue-50/30 transition-colors">
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="text-sm font-bold text-blue-800">{schedule.vessel_name}</div>
+                          <div className="text-xs text-blue-600">{schedule.voyage_no}</div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-blue-800">
+                          {schedule.service || "-"}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="text-sm font-bold text-blue-800">{schedule.port_name}</div>
+                          <WeekBadge week={schedule.week} year={schedule.year} className="mt-1" />
+                        </td>
+                        <td className="px-6 py-4">
+                          <PortRotation calls={schedule.port_calls} />
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          {portFile ? (
+                            <a
+                              href={portFile.file_url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="inline-flex items-center gap-1 rounded-xl bg-blue-100 px-3 py-1.5 text-xs font-semibold text-blue-700 hover:bg-blue-200"
+                              title={portFile.file_name}
+                            >
+                              <File className="h-3 w-3" />
+                              {t("schedules.viewPdf")}
+                            </a>
+                          ) : (
+                            <span className="text-xs text-slate-400">{t("schedules.notUploaded")}</span>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            <Pagination page={page} pageSize={SCHEDULE_PAGE_SIZE} total={total} onPageChange={setPage} />
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
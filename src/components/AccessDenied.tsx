@@ -0,0 +1,23 @@
+"use client";
+
+import Link from "next/link";
+import { useI18n } from "@/lib/useI18n";
+
+export function AccessDenied({ isLoading }: { isLoading?: boolean }) {
+  const { t } = useI18n();
+
+  return (
+    <main className="flex min-h-screen items-center justify-center bg-gradient-to-b from-blue-50 via-white to-blue-50 p-4">
+      <div className="rounded-3xl border border-blue-200 bg-white p-12 text-center">
+        <div className="text-lg font-semibold text-blue-900">
+          {isLoading ? t("access.checking") : t("access.denied")}
+        </div>
+        {!isLoading && (
+          <Link href="/" className="mt-4 inline-block text-sm font-semibold text-blue-600 hover:underline">
+            {t("common.backToFiles")}
+          </Link>
+        )}
+      </div>
+    </main>
+  );
+}
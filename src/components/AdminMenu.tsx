@@ -0,0 +1,83 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import {
+  Archive,
+  CalendarClock,
+  ChevronDown,
+  ClipboardList,
+  Copy,
+  FileSearch,
+  HardDrive,
+  MapPin,
+  Megaphone,
+  Settings,
+  Ship,
+  Users,
+} from "lucide-react";
+import type { MessageKey } from "@/lib/i18n";
+import type { Permissions } from "@/lib/permissions";
+import { useI18n } from "@/lib/useI18n";
+
+const ADMIN_LINKS: {
+  href: string;
+  label: MessageKey;
+  icon: typeof Settings;
+  allowed: (permissions: Permissions) => boolean;
+}[] = [
+  { href: "/admin/schedules", label: "admin.schedules", icon: Ship, allowed: (p) => p.canManageSchedules },
+  { href: "/admin/releases", label: "admin.releases", icon: CalendarClock, allowed: (p) => p.canUpload },
+  {
+    href: "/admin/announcements",
+    label: "admin.announcements",
+    icon: Megaphone,
+    allowed: (p) => p.canManageAnnouncements,
+  },
+  { href: "/admin/storage", label: "admin.storage", icon: HardDrive, allowed: (p) => p.canManageStorage },
+  { href: "/admin/text-index", label: "admin.textIndex", icon: FileSearch, allowed: (p) => p.canManageStorage },
+  { href: "/admin/duplicates", label: "admin.duplicates", icon: Copy, allowed: (p) => p.canManageStorage },
+  { href: "/admin/retention", label: "admin.retention", icon: Archive, allowed: (p) => p.canManageStorage },
+  { href: "/admin/ports", label: "admin.ports", icon: MapPin, allowed: (p) => p.canManageUsers },
+  { href: "/admin/users", label: "admin.users", icon: Users, allowed: (p) => p.canManageUsers },
+  { href: "/admin/audit", label: "admin.audit", icon: ClipboardList, allowed: (p) => p.canViewAudit },
+];
+
+export function AdminMenu({ permissions }: { permissions: Permissions }) {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const links = ADMIN_LINKS.filter((link) => link.allowed(permissions));
+
+  if (links.length === 0) return null;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="inline-flex items-center gap-2 rounded-2xl bg-blue-100 px-4 py-2.5 text-sm font-semibold text-blue-700 hover:bg-blue-200"
+      >
+        <Settings className="h-4 w-4" />
+        {t("admin.menu")}
+        <ChevronDown className={`h-4 w-4 transition-transform ${isOpen ? "rotate-180" : ""}`} />
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 z-50 mt-2 w-56 overflow-hidden rounded-2xl border border-blue-100 bg-white py-1 shadow-xl">
+            {links.map(({ href, label, icon: Icon }) => (
+              <Link
+                key={href}
+                href={href}
+                className="flex items-center gap-2 px-4 py-2.5 text-sm font-semibold text-blue-800 hover:bg-blue-50"
+              >
+                <Icon className="h-4 w-4 text-blue-500" />
+                {t(label)}
+              </Link>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
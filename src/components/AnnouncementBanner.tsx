@@ -0,0 +1,57 @@
+"use client";
+
+import { AlertOctagon, AlertTriangle, Info, X } from "lucide-react";
+import { matchesAnnouncementPorts } from "@/lib/announcements";
+import type { AnnouncementSeverity } from "@/lib/types";
+import { useAnnouncements } from "@/lib/useAnnouncements";
+import { useI18n } from "@/lib/useI18n";
+
+const SEVERITY_STYLES: Record<AnnouncementSeverity, { icon: typeof Info; box: string; iconColor: string }> = {
+  info: { icon: Info, box: "border-blue-200 bg-blue-50 text-blue-900", iconColor: "text-blue-500" },
+  warning: { icon: AlertTriangle, box: "border-amber-200 bg-amber-50 text-amber-900", iconColor: "text-amber-500" },
+  critical: { icon: AlertOctagon, box: "border-red-200 bg-red-50 text-red-900", iconColor: "text-red-500" },
+};
+
+// Active site announcements above the schedule list. ports narrows
+// port-targeted announcements to the visitor's port filter.
+export function AnnouncementBanner({ ports }: { ports: string[] }) {
+  const { t } = useI18n();
+  const { announcements, dismiss } = useAnnouncements();
+
+  const visible = announcements.filter((announcement) => matchesAnnouncementPorts(announcement, ports));
+  if (visible.length === 0) return null;
+
+  return (
+    <div className="mb-6 space-y-3">
+      {visible.map((announcement) => {
+        const { icon: Icon, box, iconColor } = SEVERITY_STYLES[announcement.severity];
+        return (
+          <div
+            key={announcement.id}
+            role={announcement.severity === "critical" ? "alert" : "status"}
+            className={`flex items-start gap-3 rounded-2xl border px-4 py-3 ${box}`}
+          >
+            <Icon className={`mt-0.5 h-5 w-5 flex-shrink-0 ${iconColor}`} />
+            <div className="min-w-0 flex-1">
+              <div className="text-sm font-bold">{announcement.title}</div>
+              {announcement.body && <div className="mt-0.5 whitespace-pre-line text-sm">{announcement.body}</div>}
+              {announcement.ports.length > 0 && (
+                <div className="mt-1 text-xs opacity-75">
+                  {t("announcement.ports", { ports: announcement.ports.join(", ") })}
+                </div>
+              )}
+            </div>
+            <button
+              onClick={() => dismiss(announcement)}
+              className="rounded-full p-1 opacity-60 hover:bg-white/60 hover:opacity-100"
+              title={t("announcement.dismiss")}
+              aria-label={t("announcement.dismiss")}
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
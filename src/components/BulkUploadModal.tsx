@@ -0,0 +1,347 @@
+"use client";
+
+import { useState } from "react";
+import { CheckCircle2, FileUp, RotateCcw, Upload, X, XCircle } from "lucide-react";
+import { Modal } from "@/components/Modal";
+import { createBulkUploadItem, type BulkUploadItem } from "@/lib/bulkUpload";
+import type { Translate } from "@/lib/i18n";
+import { formatIsoWeekRange, isValidIsoWeek } from "@/lib/isoWeek";
+import { canUploadForPort, type Permissions } from "@/lib/permissions";
+import { createPortFile, duplicateOf } from "@/lib/portFilesApi";
+import { createPortResolver } from "@/lib/ports";
+import type { Port } from "@/lib/types";
+import { useI18n } from "@/lib/useI18n";
+import { formatFileSize } from "@/lib/utils";
+import { portFileFieldIssues } from "@/lib/validation";
+
+type UploadSummary = { uploaded: number; revisions: number; failed: number };
+
+function itemError(item: BulkUploadItem, permissions: Permissions, port: Port | null, t: Translate) {
+  const issue = Object.values(portFileFieldIssues(item))[0];
+  if (issue) return t(`validation.${issue.code}`, issue.params);
+  if (!port) return t("alert.unknownPort", { port: item.port_name.trim().toUpperCase() });
+  if (!canUploadForPort(permissions, port.name)) {
+    return t("bulk.notAssigned", { port: port.name });
+  }
+  return "";
+}
+
+export function BulkUploadModal({
+  isOpen,
+  onClose,
+  ports,
+  permissions,
+  onUploaded,
+}: {
+  isOpen: boolean;
+  onClose: () => void;
+  ports: Port[];
+  permissions: Permissions;
+  onUploaded: () => void;
+}) {
+  const { t, intlLocale } = useI18n();
+  const [items, setItems] = useState<BulkUploadItem[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [summary, setSummary] = useState<UploadSummary | null>(null);
+
+  const resolvePort = createPortResolver(ports);
+  const portChoices = ports
+    .map((port) => port.name)
+    .filter((name) => !permissions.uploadPorts || permissions.uploadPorts.includes(name));
+
+  function addFiles(files: FileList | null) {
+    if (!files) return;
+    const added = Array.from(files).map((file) => createBulkUploadItem(file, resolvePort));
+    setItems((current) => [...current, ...added]);
+    setSummary(null);
+  }
+
+  function updateItem(id: string, changes: Partial<BulkUploadItem>) {
+    setItems((current) => current.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+  }
+
+  async function uploadItem(item: BulkUploadItem) {
+    const port = resolvePort(item.port_name);
+    const error = itemError(item, permissions, port, t);
+    if (error || !port) {
+      updateItem(item.id, { status: "error", error });
+      return null;
+    }
+
+    updateItem(item.id, { status: "uploading", progress: 0, error: undefined, duplicate: false });
+    try {
+      const uploaded = await createPortFile(
+        {
+          port_name: port.name,
+          week: item.week,
+          year: item.year,
+          file: item.file,
+          change_note: item.change_note,
+          allow_duplicate: item.allow_duplicate,
+        },
+        (progress) => updateItem(item.id, { progress })
+      );
+      updateItem(item.id, { status: "done", progress: 1, revision: uploaded.revision ?? 1 });
+      return uploaded;
+    } catch (uploadError) {
+      const existing = duplicateOf(uploadError);
+      if (existing) {
+        updateItem(item.id, {
+          status: "error",
+          error: t("bulk.duplicate", {
+            file: existing.file_name,
+            port: existing.port_name,
+            week: existing.week,
+            year: existing.year,
+          }),
+          duplicate: true,
+        });
+        return null;
+      }
+      console.error(`Error uploading ${item.file.name}:`, uploadError);
+      updateItem(item.id, { status: "error", error: (uploadError as Error).message });
+      return null;
+    }
+  }
+
+  // Sequential, so several files for the same port/week become ordered revisions
+  async function uploadAll(queue: BulkUploadItem[]) {
+    setIsUploading(true);
+    setSummary(null);
+
+    const result: UploadSummary = { uploaded: 0, revisions: 0, failed: 0 };
+    for (const item of queue) {
+      const uploaded = await uploadItem(item);
+      if (!uploaded) result.failed++;
+      else if ((uploaded.revision ?? 1) > 1) result.revisions++;
+      else result.uploaded++;
+    }
+
+    setIsUploading(false);
+    setSummary(result);
+    if (result.uploaded + result.revisions > 0) onUploaded();
+  }
+
+  function close() {
+    if (isUploading) return;
+    setItems([]);
+    setSummary(null);
+    onClose();
+  }
+
+  const pending = items.filter((item) => item.status === "pending" || item.status === "error");
+
+  return (
+    <Modal isOpen={isOpen} onClose={close} title={t("bulk.title")} maxWidth="max-w-6xl">
+      <div className="space-y-4">
+        <label
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={(e) => {
+            e.preventDefault();
+            setIsDragging(false);
+            addFiles(e.dataTransfer.files);
+          }}
+          className={`flex cursor-pointer flex-col items-center gap-2 rounded-2xl border-2 border-dashed px-6 py-8 text-center ${
+            isDragging ? "border-blue-500 bg-blue-50" : "border-blue-200 hover:bg-blue-50/50"
+          }`}
+        >
+          <FileUp className="h-8 w-8 text-blue-500" />
+          <div className="text-sm font-semibold text-blue-900">{t("bulk.drop")}</div>
+          <div className="text-xs text-slate-500">
+            {t("bulk.nameHint", { first: "BATAM_W12_2026.pdf", second: "HAIPHONG wk 12.pdf" })}
+          </div>
+          <input
+            type="file"
+            accept=".pdf,application/pdf"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              addFiles(e.target.files);
+              e.target.value = "";
+            }}
+          />
+        </label>
+
+        <datalist id="bulk-upload-ports">
+          {portChoices.map((port) => (
+            <option key={port} value={port} />
+          ))}
+        </datalist>
+
+        {items.length > 0 && (
+          <div className="overflow-x-auto rounded-2xl border border-slate-200">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-left text-xs font-semibold uppercase text-slate-500">
+                <tr>
+                  <th className="px-3 py-2">{t("bulk.file")}</th>
+                  <th className="px-3 py-2">{t("common.port")}</th>
+                  <th className="px-3 py-2">{t("bulk.week")}</th>
+                  <th className="px-3 py-2">{t("bulk.year")}</th>
+                  <th className="px-3 py-2">{t("bulk.changeNote")}</th>
+                  <th className="px-3 py-2">{t("bulk.status")}</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {items.map((item) => {
+                  const locked = item.status === "uploading" || item.status === "done";
+                  const validationError = locked ? "" : itemError(item, permissions, resolvePort(item.port_name), t);
+
+                  return (
+                    <tr key={item.id} className="align-top">
+                      <td className="px-3 py-2">
+                        <div className="max-w-[220px] truncate font-medium text-slate-800" title={item.file.name}>
+                          {item.file.name}
+                        </div>
+                        <div className="text-xs text-slate-500">{formatFileSize(item.file.size)}</div>
+                      </td>
+                      <td className="px-3 py-2">
+                        <input
+                          list="bulk-upload-ports"
+                          value={item.port_name}
+                          disabled={locked}
+                          onChange={(e) => updateItem(item.id, { port_name: e.target.value.toUpperCase() })}
+                          className="w-36 rounded-lg border border-slate-200 px-2 py-1.5 outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-slate-50"
+                        />
+                      </td>
+                      <td className="px-3 py-2">
+                        <input
+                          type="number"
+                          min={1}
+                          max={53}
+                          value={item.week}
+                          disabled={locked}
+                          onChange={(e) => updateItem(item.id, { week: Number(e.target.value) })}
+                          className="w-16 rounded-lg border border-slate-200 px-2 py-1.5 outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-slate-50"
+                        />
+                        {isValidIsoWeek(item.week, item.year) && (
+                          <div className="mt-1 whitespace-nowrap text-[11px] text-slate-500">
+                            {formatIsoWeekRange(item.week, item.year, intlLocale)}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-3 py-2">
+                        <input
+                          type="number"
+                          value={item.year}
+                          disabled={locked}
+                          onChange={(e) => updateItem(item.id, { year: Number(e.target.value) })}
+                          className="w-20 rounded-lg border border-slate-200 px-2 py-1.5 outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-slate-50"
+                        />
+                      </td>
+                      <td className="px-3 py-2">
+                        <input
+                          value={item.change_note}
+                          disabled={locked}
+                          placeholder={t("bulk.optional")}
+                          onChange={(e) => updateItem(item.id, { change_note: e.target.value })}
+                          className="w-40 rounded-lg border border-slate-200 px-2 py-1.5 outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-slate-50"
+                        />
+                      </td>
+                      <td className="px-3 py-2">
+                        {item.status === "uploading" && (
+                          <div className="w-28">
+                            <div className="h-2 overflow-hidden rounded-full bg-blue-100">
+                              <div
+                                className="h-full bg-blue-600 transition-all"
+                                style={{ width: `${Math.round(item.progress * 100)}%` }}
+                              />
+                            </div>
+                            <div className="mt-1 text-xs text-blue-700">{Math.round(item.progress * 100)}%</div>
+                          </div>
+                        )}
+                        {item.status === "done" && (
+                          <span className="inline-flex items-center gap-1 text-xs font-semibold text-green-700">
+                            <CheckCircle2 className="h-4 w-4" />
+                            {(item.revision ?? 1) > 1 ? t("history.revision", { revision: item.revision ?? 1 }) : t("bulk.uploaded")}
+                          </span>
+                        )}
+                        {item.status === "error" && (
+                          <span className="inline-flex items-start gap-1 text-xs font-semibold text-red-700">
+                            <XCircle className="h-4 w-4 flex-shrink-0" />
+                            {item.error}
+                          </span>
+                        )}
+                        {item.status === "pending" && (
+                          <span className={`text-xs ${validationError ? "text-red-600" : "text-slate-500"}`}>
+                            {validationError || t("bulk.ready")}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-3 py-2">
+                        <div className="flex items-center gap-1">
+                          {item.status === "error" && item.duplicate && !isUploading && (
+                            <button
+                              onClick={() => {
+                                updateItem(item.id, { allow_duplicate: true });
+                                uploadAll([{ ...item, allow_duplicate: true }]);
+                              }}
+                              className="rounded-lg px-2 py-1 text-xs font-semibold text-amber-700 hover:bg-amber-100"
+                            >
+                              {t("upload.anyway")}
+                            </button>
+                          )}
+                          {item.status === "error" && !item.duplicate && !isUploading && (
+                            <button
+                              onClick={() => uploadAll([item])}
+                              className="rounded-lg p-1.5 text-blue-700 hover:bg-blue-100"
+                              title={t("bulk.retry")}
+                            >
+                              <RotateCcw className="h-4 w-4" />
+                            </button>
+                          )}
+                          {item.status !== "uploading" && !isUploading && (
+                            <button
+                              onClick={() => setItems((current) => current.filter((other) => other.id !== item.id))}
+                              className="rounded-lg p-1.5 text-slate-500 hover:bg-slate-100"
+                              title={t("bulk.remove")}
+                            >
+                              <X className="h-4 w-4" />
+                            </button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {summary && (
+          <div className="rounded-xl bg-blue-50 px-4 py-3 text-sm text-blue-900">
+            {t("bulk.summary", { uploaded: summary.uploaded, count: summary.revisions })}{" "}
+            <span className={summary.failed > 0 ? "font-semibold text-red-700" : ""}>
+              {t("bulk.failed", { count: summary.failed })}
+            </span>
+            {summary.failed > 0 && ` ${t("bulk.fixRows")}`}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={close}
+            disabled={isUploading}
+            className="rounded-xl px-4 py-2 text-sm font-semibold text-slate-600 hover:bg-slate-100 disabled:opacity-50"
+          >
+            {summary ? t("common.done") : t("common.cancel")}
+          </button>
+          <button
+            onClick={() => uploadAll(pending)}
+            disabled={isUploading || pending.length === 0}
+            className="inline-flex items-center gap-2 rounded-xl bg-gradient-to-r from-green-600 to-green-700 px-4 py-2 text-sm font-semibold text-white hover:from-green-700 hover:to-green-800 disabled:opacity-50"
+          >
+            <Upload className="h-4 w-4" />
+            {isUploading ? t("common.uploading") : t("bulk.submit", { count: pending.length })}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
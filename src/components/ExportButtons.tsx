@@ -0,0 +1,36 @@
+import { FileSpreadsheet, FileText } from "lucide-react";
+import type { ExportFormat } from "@/lib/export";
+import { useI18n } from "@/lib/useI18n";
+
+export function ExportButtons({
+  onExport,
+  disabled,
+}: {
+  onExport: (format: ExportFormat) => void;
+  disabled?: boolean;
+}) {
+  const { t } = useI18n();
+
+  return (
+    <div className="inline-flex overflow-hidden rounded-2xl bg-green-100">
+      <button
+        onClick={() => onExport("xlsx")}
+        disabled={disabled}
+        className="inline-flex items-center gap-2 px-4 py-2.5 text-sm font-semibold text-green-700 hover:bg-green-200 disabled:opacity-50"
+        title={t("export.excelHint")}
+      >
+        <FileSpreadsheet className="h-4 w-4" />
+        Excel
+      </button>
+      <button
+        onClick={() => onExport("csv")}
+        disabled={disabled}
+        className="inline-flex items-center gap-2 border-l border-green-200 px-4 py-2.5 text-sm font-semibold text-green-700 hover:bg-green-200 disabled:opacity-50"
+        title={t("export.csvHint")}
+      >
+        <FileText className="h-4 w-4" />
+        CSV
+      </button>
+    </div>
+  );
+}
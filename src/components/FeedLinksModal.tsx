@@ -0,0 +1,95 @@
+"use client";
+
+import { useState } from "react";
+import { CalendarPlus, Copy } from "lucide-react";
+import { Modal } from "@/components/Modal";
+import { useI18n } from "@/lib/useI18n";
+
+function FeedLink({ label, url }: { label: string; url: string }) {
+  const { t } = useI18n();
+  const [copied, setCopied] = useState(false);
+
+  return (
+    <div>
+      <div className="mb-1 text-sm font-semibold text-slate-700">{label}</div>
+      <div className="flex items-center gap-2">
+        <input
+          readOnly
+          value={url}
+          onFocus={(e) => e.target.select()}
+          className="w-full rounded-xl border border-slate-200 bg-slate-50 px-3 py-2 text-xs text-slate-700 outline-none"
+        />
+        <button
+          onClick={async () => {
+            await navigator.clipboard.writeText(url);
+            setCopied(true);
+            setTimeout(() => setCopied(false), 1500);
+          }}
+          className="inline-flex flex-shrink-0 items-center gap-1 rounded-xl bg-blue-100 px-3 py-2 text-xs font-semibold text-blue-700 hover:bg-blue-200"
+        >
+          <Copy className="h-3 w-3" />
+          {copied ? t("common.copied") : t("common.copy")}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export function FeedLinksModal({
+  isOpen,
+  onClose,
+  ports,
+}: {
+  isOpen: boolean;
+  onClose: () => void;
+  ports: string[];
+}) {
+  const { t } = useI18n();
+  const [port, setPort] = useState("");
+
+  if (!isOpen) return null;
+
+  const query = port ? `?port=${encodeURIComponent(port)}` : "";
+  const origin = window.location.origin;
+  const icsUrl = `${origin}/api/feed/schedules.ics${query}`;
+  const webcalUrl = icsUrl.replace(/^https?:/, "webcal:");
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={t("feeds.title")} maxWidth="max-w-lg">
+      <div className="space-y-4">
+        <div>
+          <label className="mb-1 block text-sm font-semibold text-slate-700">{t("common.port")}</label>
+          <select
+            value={port}
+            onChange={(e) => setPort(e.target.value)}
+            className="w-full rounded-xl border border-slate-200 bg-white px-4 py-3 outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">{t("common.allPorts")}</option>
+            {ports.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <FeedLink label={t("feeds.calendar")} url={icsUrl} />
+        <FeedLink label={t("feeds.json")} url={`${origin}/api/feed/schedules.json${query}`} />
+
+        <div className="text-xs text-slate-500">
+          {t("feeds.params", { params: "year, week_from, week_to" })}
+        </div>
+
+        <div className="flex justify-end">
+          <a
+            href={webcalUrl}
+            className="inline-flex items-center gap-2 rounded-2xl bg-gradient-to-r from-blue-600 to-blue-700 px-4 py-2 text-sm font-semibold text-white hover:from-blue-700 hover:to-blue-800"
+          >
+            <CalendarPlus className="h-4 w-4" />
+            {t("feeds.openCalendar")}
+          </a>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,221 @@
+"use client";
+
+import { useState } from "react";
+import { Archive, ChevronDown, Link2, X } from "lucide-react";
+import {
+  UPLOADED_WITHIN,
+  activeFilterCount,
+  type FileFilters,
+  type FileGroupBy,
+  type FileView,
+  type UploadedWithin,
+} from "@/lib/fileFilters";
+import type { MessageKey } from "@/lib/i18n";
+import type { PortFilePageMeta } from "@/lib/types";
+import { useI18n } from "@/lib/useI18n";
+
+const VIEWS: { value: FileView; label: MessageKey }[] = [
+  { value: "current", label: "facets.current" },
+  { value: "upcoming", label: "facets.upcoming" },
+  { value: "archive", label: "facets.archive" },
+  { value: "all", label: "facets.allWeeks" },
+];
+
+const SELECT_CLASS =
+  "rounded-2xl border border-blue-200 bg-white px-3 py-2 text-sm text-blue-900 outline-none focus:ring-2 focus:ring-blue-500";
+
+function numberOrNull(value: string) {
+  return value === "" ? null : Number(value);
+}
+
+function PortMultiSelect({
+  ports,
+  selected,
+  onChange,
+}: {
+  ports: string[];
+  selected: string[];
+  onChange: (ports: string[]) => void;
+}) {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+
+  function toggle(port: string) {
+    onChange(selected.includes(port) ? selected.filter((name) => name !== port) : [...selected, port]);
+  }
+
+  return (
+    <div className="relative">
+      <button onClick={() => setIsOpen(!isOpen)} className={`${SELECT_CLASS} inline-flex items-center gap-2`}>
+        {selected.length === 0
+          ? t("common.allPorts")
+          : selected.length <= 2
+            ? selected.join(", ")
+            : t("facets.portCount", { count: selected.length })}
+        <ChevronDown className={`h-4 w-4 text-blue-500 transition-transform ${isOpen ? "rotate-180" : ""}`} />
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+          <div className="absolute left-0 z-50 mt-2 max-h-72 w-56 overflow-y-auto rounded-2xl border border-blue-100 bg-white py-1 shadow-xl">
+            {ports.map((port) => (
+              <label
+                key={port}
+                className="flex cursor-pointer items-center gap-2 px-4 py-2 text-sm text-blue-900 hover:bg-blue-50"
+              >
+                <input
+                  type="checkbox"
+                  checked={selected.includes(port)}
+                  onChange={() => toggle(port)}
+                  className="h-4 w-4 rounded border-blue-300"
+                />
+                {port}
+              </label>
+            ))}
+            {ports.length === 0 && <div className="px-4 py-2 text-sm text-slate-500">{t("common.noPorts")}</div>}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export function FileFacets({
+  filters,
+  onChange,
+  ports,
+  years,
+  retentionWindow,
+}: {
+  filters: FileFilters;
+  onChange: (changes: Partial<FileFilters>) => void;
+  ports: string[];
+  years: number[];
+  // Weeks the current view covers, as reported by the server
+  retentionWindow?: PortFilePageMeta["window"];
+}) {
+  const { t } = useI18n();
+  const [copied, setCopied] = useState(false);
+  const activeCount = activeFilterCount(filters);
+  const windowLabel = retentionWindow
+    ? `W${retentionWindow.from.week} ${retentionWindow.from.year} – W${retentionWindow.to.week} ${retentionWindow.to.year}`
+    : "";
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <div className="inline-flex rounded-2xl border border-blue-200 bg-white p-0.5">
+        {VIEWS.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => onChange({ view: value })}
+            title={
+              value === "current" && windowLabel
+                ? windowLabel
+                : value === "upcoming" && retentionWindow
+                  ? t("facets.upcomingHint", retentionWindow.to)
+                  : value === "archive" && retentionWindow
+                    ? t("facets.archiveHint", retentionWindow.from)
+                    : undefined
+            }
+            className={`inline-flex items-center gap-1 rounded-xl px-3 py-1.5 text-sm font-semibold ${
+              filters.view === value ? "bg-blue-600 text-white" : "text-blue-700 hover:bg-blue-50"
+            }`}
+          >
+            {value === "archive" && <Archive className="h-3.5 w-3.5" />}
+            {t(label)}
+          </button>
+        ))}
+      </div>
+      {filters.view === "current" && windowLabel && (
+        <span className="text-xs text-blue-600">{windowLabel}</span>
+      )}
+
+      <PortMultiSelect ports={ports} selected={filters.ports} onChange={(selected) => onChange({ ports: selected })} />
+
+      <select
+        value={filters.year ?? ""}
+        onChange={(e) => onChange({ year: numberOrNull(e.target.value) })}
+        className={SELECT_CLASS}
+      >
+        <option value="">{t("facets.allYears")}</option>
+        {years.map((year) => (
+          <option key={year} value={year}>
+            {year}
+          </option>
+        ))}
+      </select>
+
+      <div className="inline-flex items-center gap-1 text-sm text-blue-700">
+        W
+        <input
+          type="number"
+          min={1}
+          max={53}
+          value={filters.week_from ?? ""}
+          onChange={(e) => onChange({ week_from: numberOrNull(e.target.value) })}
+          placeholder={t("facets.weekFrom")}
+          className={`${SELECT_CLASS} w-20`}
+        />
+        –
+        <input
+          type="number"
+          min={1}
+          max={53}
+          value={filters.week_to ?? ""}
+          onChange={(e) => onChange({ week_to: numberOrNull(e.target.value) })}
+          placeholder={t("facets.weekTo")}
+          className={`${SELECT_CLASS} w-20`}
+        />
+      </div>
+
+      <select
+        value={filters.uploaded_within ?? ""}
+        onChange={(e) => onChange({ uploaded_within: (e.target.value || null) as UploadedWithin | null })}
+        className={SELECT_CLASS}
+      >
+        <option value="">{t("facets.uploadedAnyTime")}</option>
+        {Object.keys(UPLOADED_WITHIN).map((value) => (
+          <option key={value} value={value}>
+            {t(`facets.uploaded.${value as UploadedWithin}`)}
+          </option>
+        ))}
+      </select>
+
+      <select
+        value={filters.group ?? ""}
+        onChange={(e) => onChange({ group: (e.target.value || null) as FileGroupBy | null })}
+        className={SELECT_CLASS}
+      >
+        <option value="">{t("facets.noGrouping")}</option>
+        <option value="week">{t("facets.groupByWeek")}</option>
+        <option value="port">{t("facets.groupByPort")}</option>
+      </select>
+
+      {activeCount > 0 && (
+        <button
+          onClick={() =>
+            onChange({ q: "", ports: [], year: null, week_from: null, week_to: null, uploaded_within: null })
+          }
+          className="inline-flex items-center gap-1 rounded-2xl px-3 py-2 text-sm font-semibold text-blue-700 hover:bg-blue-100"
+        >
+          <X className="h-4 w-4" />
+          {t("facets.clear", { count: activeCount })}
+        </button>
+      )}
+
+      <button
+        onClick={async () => {
+          await navigator.clipboard.writeText(window.location.href);
+          setCopied(true);
+          setTimeout(() => setCopied(false), 1500);
+        }}
+        className="inline-flex items-center gap-1 rounded-2xl px-3 py-2 text-sm font-semibold text-blue-700 hover:bg-blue-100"
+        title={t("facets.copyLinkHint")}
+      >
+        <Link2 className="h-4 w-4" />
+        {copied ? t("common.copied") : t("facets.copyLink")}
+      </button>
+    </div>
+  );
+}
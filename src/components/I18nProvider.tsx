@@ -0,0 +1,37 @@
+"use client";
+
+import { useState } from "react";
+import { HTML_LANG, INTL_LOCALES, LOCALE_COOKIE, translate, type Locale } from "@/lib/i18n";
+import { I18nContext } from "@/lib/useI18n";
+
+const ONE_YEAR_SECONDS = 60 * 60 * 24 * 365;
+
+export function I18nProvider({
+  initialLocale,
+  children,
+}: {
+  initialLocale: Locale;
+  children: React.ReactNode;
+}) {
+  const [locale, setLocaleState] = useState(initialLocale);
+
+  // The cookie lets the root layout render the chosen language on the next visit
+  function setLocale(next: Locale) {
+    document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=${ONE_YEAR_SECONDS}; samesite=lax`;
+    document.documentElement.lang = HTML_LANG[next];
+    setLocaleState(next);
+  }
+
+  return (
+    <I18nContext.Provider
+      value={{
+        locale,
+        intlLocale: INTL_LOCALES[locale],
+        setLocale,
+        t: (key, params) => translate(locale, key, params),
+      }}
+    >
+      {children}
+    </I18nContext.Provider>
+  );
+}
@@ -0,0 +1,27 @@
+"use client";
+
+import { Languages } from "lucide-react";
+import { LOCALES, LOCALE_LABELS, isLocale } from "@/lib/i18n";
+import { useI18n } from "@/lib/useI18n";
+
+export function LanguageSwitcher() {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <label className="inline-flex items-center gap-2 rounded-2xl bg-blue-100 px-3 py-2.5 text-sm font-semibold text-blue-700">
+      <Languages className="h-4 w-4" />
+      <select
+        value={locale}
+        onChange={(e) => isLocale(e.target.value) && setLocale(e.target.value)}
+        aria-label={t("language.label")}
+        className="bg-transparent outline-none"
+      >
+        {LOCALES.map((value) => (
+          <option key={value} value={value}>
+            {LOCALE_LABELS[value]}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
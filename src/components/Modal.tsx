@@ -0,0 +1,98 @@
+"use client";
+
+import { Check, X } from "lucide-react";
+import { useI18n } from "@/lib/useI18n";
+
+// =========================
+// MODAL COMPONENTS
+// =========================
+export function Modal({
+  isOpen,
+  onClose,
+  title,
+  children,
+  maxWidth = "max-w-md",
+}: {
+  isOpen: boolean;
+  onClose: () => void;
+  title: string;
+  children: React.ReactNode;
+  maxWidth?: string;
+}) {
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 p-4 backdrop-blur-sm">
+      <div className={`w-full ${maxWidth} max-h-[90vh] overflow-y-auto rounded-2xl bg-white shadow-2xl`}>
+        <div className="flex items-center justify-between border-b border-slate-200 px-6 py-4">
+          <h3 className="text-lg font-bold text-slate-900">{title}</h3>
+          <button
+            onClick={onClose}
+            className="rounded-full p-1 hover:bg-slate-100"
+          >
+            <X className="h-5 w-5 text-slate-500" />
+          </button>
+        </div>
+        <div className="p-6">{children}</div>
+      </div>
+    </div>
+  );
+}
+
+export function AlertModal({
+  isOpen,
+  onClose,
+  title,
+  message,
+  onConfirm,
+  confirmText,
+  confirmColor = "bg-red-600 hover:bg-red-700",
+}: {
+  isOpen: boolean;
+  onClose: () => void;
+  title: string;
+  message: string;
+  onConfirm: () => void;
+  confirmText?: string;
+  confirmColor?: string;
+}) {
+  const { t } = useI18n();
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={title}>
+      <div className="space-y-4">
+        <p className="text-slate-600">{message}</p>
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="rounded-2xl bg-slate-100 px-4 py-2 text-sm font-semibold text-slate-700 hover:bg-slate-200"
+          >
+            {t("common.cancel")}
+          </button>
+          <button
+            onClick={() => {
+              onConfirm();
+              onClose();
+            }}
+            className={`rounded-2xl px-4 py-2 text-sm font-semibold text-white ${confirmColor}`}
+          >
+            {confirmText ?? t("common.confirm")}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
+
+export function Toast({ message }: { message: string }) {
+  return (
+    <div className="fixed top-4 left-1/2 z-[200] -translate-x-1/2 animate-fade-in">
+      <div className="rounded-2xl bg-green-500 px-6 py-3 text-white shadow-2xl">
+        <div className="flex items-center gap-2">
+          <Check className="h-4 w-4" />
+          {message}
+        </div>
+      </div>
+    </div>
+  );
+}
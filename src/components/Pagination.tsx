@@ -0,0 +1,51 @@
+"use client";
+
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { useI18n } from "@/lib/useI18n";
+
+export function Pagination({
+  page,
+  pageSize,
+  total,
+  onPageChange,
+}: {
+  page: number;
+  pageSize: number;
+  total: number;
+  onPageChange: (page: number) => void;
+}) {
+  const { t } = useI18n();
+  const lastPage = Math.max(1, Math.ceil(total / pageSize));
+  const first = total === 0 ? 0 : (page - 1) * pageSize + 1;
+  const last = Math.min(page * pageSize, total);
+
+  return (
+    <div className="flex flex-col items-center justify-between gap-3 border-t border-blue-100 px-6 py-4 sm:flex-row">
+      <div className="text-sm text-blue-700">
+        {t("pagination.showing", { first, last, total })}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => onPageChange(page - 1)}
+          disabled={page <= 1}
+          className="inline-flex items-center gap-1 rounded-xl bg-blue-100 px-3 py-1.5 text-sm font-semibold text-blue-700 hover:bg-blue-200 disabled:opacity-40"
+        >
+          <ChevronLeft className="h-4 w-4" />
+          {t("pagination.previous")}
+        </button>
+        <span className="text-sm font-semibold text-blue-900">
+          {t("pagination.page", { page, lastPage })}
+        </span>
+        <button
+          onClick={() => onPageChange(page + 1)}
+          disabled={page >= lastPage}
+          className="inline-flex items-center gap-1 rounded-xl bg-blue-100 px-3 py-1.5 text-sm font-semibold text-blue-700 hover:bg-blue-200 disabled:opacity-40"
+        >
+          {t("pagination.next")}
+          <ChevronRight className="h-4 w-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
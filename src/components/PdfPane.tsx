@@ -0,0 +1,203 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { PDFDocumentProxy, RenderTask } from "pdfjs-dist";
+import { RefreshCcw } from "lucide-react";
+import { findPageMatches, loadPageTexts, loadPdfjs, openPdfDocument, type PageMatch } from "@/lib/pdfViewer";
+import { useI18n } from "@/lib/useI18n";
+
+// =========================
+// SINGLE PAGE
+// =========================
+function PdfPage({
+  pdf,
+  pageNumber,
+  scale,
+  query = "",
+  withTextLayer = false,
+}: {
+  pdf: PDFDocumentProxy;
+  pageNumber: number;
+  scale: number;
+  query?: string;
+  withTextLayer?: boolean;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const textLayerRef = useRef<HTMLDivElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [textLayerVersion, setTextLayerVersion] = useState(0);
+
+  useEffect(() => {
+    let renderTask: RenderTask | null = null;
+    let cancelled = false;
+
+    (async () => {
+      const page = await pdf.getPage(pageNumber);
+      if (cancelled || !canvasRef.current) return;
+
+      const viewport = page.getViewport({ scale });
+      const ratio = window.devicePixelRatio || 1;
+      const canvas = canvasRef.current;
+      canvas.width = Math.floor(viewport.width * ratio);
+      canvas.height = Math.floor(viewport.height * ratio);
+      setSize({ width: viewport.width, height: viewport.height });
+
+      renderTask = page.render({
+        canvas,
+        viewport,
+        transform: ratio === 1 ? undefined : [ratio, 0, 0, ratio, 0, 0],
+      });
+      await renderTask.promise.catch(() => undefined);
+
+      const container = textLayerRef.current;
+      if (!withTextLayer || cancelled || !container) return;
+
+      const { TextLayer } = await loadPdfjs();
+      container.replaceChildren();
+      container.style.setProperty("--scale-factor", String(viewport.scale));
+      await new TextLayer({
+        textContentSource: page.streamTextContent(),
+        container,
+        viewport,
+      }).render();
+      if (!cancelled) setTextLayerVersion((version) => version + 1);
+    })().catch((error) => console.error(`Error rendering page ${pageNumber}:`, error));
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [pdf, pageNumber, scale, withTextLayer]);
+
+  // Highlight text spans containing the search query
+  useEffect(() => {
+    const needle = query.trim().toLowerCase();
+    textLayerRef.current?.querySelectorAll("span").forEach((span) => {
+      span.classList.toggle("search-match", !!needle && !!span.textContent?.toLowerCase().includes(needle));
+    });
+  }, [query, textLayerVersion]);
+
+  return (
+    <div className="relative bg-white shadow-md" style={{ width: size.width || undefined, height: size.height || undefined }}>
+      <canvas ref={canvasRef} style={{ width: size.width || undefined, height: size.height || undefined }} />
+      {withTextLayer && <div ref={textLayerRef} className="textLayer" />}
+    </div>
+  );
+}
+
+// =========================
+// DOCUMENT PANE
+// =========================
+// Loads one PDF and renders every page, optionally with a thumbnail strip.
+// Reports search matches so the parent can step through them. Give it a key
+// per file so switching files starts from a fresh state.
+export function PdfPane({
+  url,
+  zoom,
+  query,
+  activePage,
+  onActivePageChange,
+  onMatches,
+  showThumbnails = false,
+}: {
+  url: string;
+  zoom: number;
+  query: string;
+  activePage: number;
+  onActivePageChange: (page: number) => void;
+  onMatches?: (matches: PageMatch[]) => void;
+  showThumbnails?: boolean;
+}) {
+  const { t } = useI18n();
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [pageTexts, setPageTexts] = useState<string[]>([]);
+  const [error, setError] = useState("");
+  const pageRefs = useRef<Record<number, HTMLDivElement | null>>({});
+
+  useEffect(() => {
+    let loaded: PDFDocumentProxy | null = null;
+    let cancelled = false;
+
+    openPdfDocument(url)
+      .then(async (document) => {
+        loaded = document;
+        if (cancelled) return;
+        setPdf(document);
+        setPageTexts(await loadPageTexts(document));
+      })
+      .catch((loadError) => {
+        console.error("Error loading PDF:", loadError);
+        if (!cancelled) setError((loadError as Error).message);
+      });
+
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+    };
+  }, [url]);
+
+  useEffect(() => {
+    onMatches?.(findPageMatches(pageTexts, query));
+  }, [pageTexts, query]);
+
+  useEffect(() => {
+    pageRefs.current[activePage]?.scrollIntoView({ behavior: "smooth", block: "start" });
+  }, [activePage, pdf]);
+
+  if (error) {
+    return (
+      <div className="flex h-full items-center justify-center p-8 text-center text-sm text-red-700">
+        {t("viewer.loadFailed", { message: error })}
+      </div>
+    );
+  }
+
+  if (!pdf) {
+    return (
+      <div className="flex h-full items-center justify-center gap-2 text-sm text-blue-700">
+        <RefreshCcw className="h-4 w-4 animate-spin" />
+        {t("viewer.loading")}
+      </div>
+    );
+  }
+
+  const pageNumbers = Array.from({ length: pdf.numPages }, (_, index) => index + 1);
+
+  return (
+    <div className="flex h-full min-h-0">
+      {showThumbnails && (
+        <div className="w-36 flex-shrink-0 space-y-3 overflow-y-auto border-r border-slate-200 bg-slate-100 p-3">
+          {pageNumbers.map((pageNumber) => (
+            <button
+              key={pageNumber}
+              onClick={() => onActivePageChange(pageNumber)}
+              className={`block w-full rounded-lg p-1 text-center ${
+                pageNumber === activePage ? "bg-blue-200 ring-2 ring-blue-500" : "hover:bg-slate-200"
+              }`}
+            >
+              <div className="flex justify-center">
+                <PdfPage pdf={pdf} pageNumber={pageNumber} scale={0.18} />
+              </div>
+              <div className="mt-1 text-xs font-semibold text-slate-600">{pageNumber}</div>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex-1 overflow-auto bg-slate-200 p-4">
+        <div className="flex flex-col items-center gap-4">
+          {pageNumbers.map((pageNumber) => (
+            <div
+              key={pageNumber}
+              ref={(element) => {
+                pageRefs.current[pageNumber] = element;
+              }}
+            >
+              <PdfPage pdf={pdf} pageNumber={pageNumber} scale={zoom} query={query} withTextLayer />
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,243 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  ChevronDown,
+  ChevronLeft,
+  ChevronRight,
+  ChevronUp,
+  Columns2,
+  Download,
+  ExternalLink,
+  Search,
+  X,
+  ZoomIn,
+  ZoomOut,
+} from "lucide-react";
+import { PdfPane } from "@/components/PdfPane";
+import { WeekBadge } from "@/components/WeekBadge";
+import { fetchPortWeeks } from "@/lib/portFilesApi";
+import { DEFAULT_ZOOM, nextZoom, type PageMatch } from "@/lib/pdfViewer";
+import type { PortFile } from "@/lib/types";
+import { useI18n } from "@/lib/useI18n";
+
+const TOOL_BUTTON =
+  "inline-flex items-center gap-1 rounded-xl bg-blue-100 px-2.5 py-1.5 text-xs font-semibold text-blue-700 hover:bg-blue-200 disabled:opacity-40";
+
+function weekLabel(file: PortFile) {
+  return `W${file.week} ${file.year}`;
+}
+
+// =========================
+// PDF VIEWER MODAL
+// =========================
+// In-app replacement for opening the PDF in a new tab: thumbnails, zoom,
+// search within the document, stepping through the port's other weeks and a
+// side-by-side comparison of two weeks.
+export function PdfViewerModal({
+  file: initialFile,
+  onClose,
+  onDownload,
+}: {
+  file: PortFile;
+  onClose: () => void;
+  onDownload: (file: PortFile) => void;
+}) {
+  const { t } = useI18n();
+  const [file, setFile] = useState(initialFile);
+  const [compareFile, setCompareFile] = useState<PortFile | null>(null);
+  const [portWeeks, setPortWeeks] = useState<PortFile[]>([]);
+  const [zoom, setZoom] = useState(DEFAULT_ZOOM);
+  const [query, setQuery] = useState("");
+  const [matches, setMatches] = useState<PageMatch[]>([]);
+  const [matchIndex, setMatchIndex] = useState(0);
+  const [activePage, setActivePage] = useState(1);
+
+  useEffect(() => {
+    fetchPortWeeks(initialFile.port_name)
+      .then(setPortWeeks)
+      .catch((error) => console.error("Error loading port weeks:", error));
+  }, [initialFile.port_name]);
+
+  useEffect(() => {
+    function onKeyDown(event: KeyboardEvent) {
+      if (event.key === "Escape") onClose();
+    }
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [onClose]);
+
+  const position = portWeeks.findIndex((week) => week.week === file.week && week.year === file.year);
+  const previousWeek = position > 0 ? portWeeks[position - 1] : null;
+  const nextWeek = position >= 0 && position < portWeeks.length - 1 ? portWeeks[position + 1] : null;
+  const totalMatches = matches.reduce((sum, match) => sum + match.count, 0);
+
+  function showFile(target: PortFile) {
+    setFile(target);
+    setActivePage(1);
+    setMatchIndex(0);
+    if (compareFile?.id === target.id) setCompareFile(null);
+  }
+
+  function stepMatch(direction: 1 | -1) {
+    if (matches.length === 0) return;
+    const index = (matchIndex + direction + matches.length) % matches.length;
+    setMatchIndex(index);
+    setActivePage(matches[index].page);
+  }
+
+  function onMatches(found: PageMatch[]) {
+    setMatches(found);
+    setMatchIndex(0);
+    if (found.length > 0) setActivePage(found[0].page);
+  }
+
+  return (
+    <div className="fixed inset-0 z-[100] flex flex-col bg-slate-900/70 backdrop-blur-sm">
+      <div className="m-2 flex min-h-0 flex-1 flex-col overflow-hidden rounded-2xl bg-white shadow-2xl sm:m-4">
+        {/* TOOLBAR */}
+        <div className="flex flex-wrap items-center gap-2 border-b border-slate-200 px-4 py-3">
+          <div className="mr-2 flex items-center gap-2">
+            <span className="text-base font-bold text-blue-900">{file.port_name}</span>
+            <WeekBadge week={file.week} year={file.year} />
+          </div>
+
+          <button
+            onClick={() => previousWeek && showFile(previousWeek)}
+            disabled={!previousWeek}
+            className={TOOL_BUTTON}
+            title={previousWeek ? t("viewer.previousWeek", { week: weekLabel(previousWeek) }) : t("viewer.noEarlierWeek")}
+          >
+            <ChevronLeft className="h-4 w-4" />
+            {previousWeek ? weekLabel(previousWeek) : t("viewer.prev")}
+          </button>
+          <button
+            onClick={() => nextWeek && showFile(nextWeek)}
+            disabled={!nextWeek}
+            className={TOOL_BUTTON}
+            title={nextWeek ? t("viewer.nextWeek", { week: weekLabel(nextWeek) }) : t("viewer.noLaterWeek")}
+          >
+            {nextWeek ? weekLabel(nextWeek) : t("viewer.next")}
+            <ChevronRight className="h-4 w-4" />
+          </button>
+
+          <div className="mx-1 h-6 w-px bg-slate-200" />
+
+          <button onClick={() => setZoom(nextZoom(zoom, -1))} className={TOOL_BUTTON} title={t("viewer.zoomOut")}>
+            <ZoomOut className="h-4 w-4" />
+          </button>
+          <span className="w-12 text-center text-xs font-semibold text-slate-600">{Math.round(zoom * 100)}%</span>
+          <button onClick={() => setZoom(nextZoom(zoom, 1))} className={TOOL_BUTTON} title={t("viewer.zoomIn")}>
+            <ZoomIn className="h-4 w-4" />
+          </button>
+
+          <div className="mx-1 h-6 w-px bg-slate-200" />
+
+          <div className="relative">
+            <Search className="absolute left-2.5 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-blue-400" />
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && stepMatch(e.shiftKey ? -1 : 1)}
+              placeholder={t("viewer.find")}
+              className="w-44 rounded-xl border border-blue-200 py-1.5 pl-8 pr-2 text-xs outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          {query.trim() && (
+            <>
+              <span className="text-xs text-slate-600">
+                {totalMatches === 0
+                  ? t("viewer.noMatches")
+                  : t("viewer.matches", { count: totalMatches, page: matches[matchIndex]?.page ?? "" })}
+              </span>
+              <button onClick={() => stepMatch(-1)} disabled={matches.length === 0} className={TOOL_BUTTON} title={t("viewer.previousMatch")}>
+                <ChevronUp className="h-4 w-4" />
+              </button>
+              <button onClick={() => stepMatch(1)} disabled={matches.length === 0} className={TOOL_BUTTON} title={t("viewer.nextMatch")}>
+                <ChevronDown className="h-4 w-4" />
+              </button>
+            </>
+          )}
+
+          <div className="mx-1 h-6 w-px bg-slate-200" />
+
+          <div className="inline-flex items-center gap-1">
+            <Columns2 className="h-4 w-4 text-blue-600" />
+            <select
+              value={compareFile?.id ?? ""}
+              onChange={(e) => setCompareFile(portWeeks.find((week) => week.id === e.target.value) ?? null)}
+              className="rounded-xl border border-blue-200 bg-white px-2 py-1.5 text-xs text-blue-900 outline-none focus:ring-2 focus:ring-blue-500"
+              title={t("viewer.compare")}
+            >
+              <option value="">{t("viewer.compareWith")}</option>
+              {portWeeks
+                .filter((week) => week.id !== file.id)
+                .map((week) => (
+                  <option key={week.id} value={week.id}>
+                    {weekLabel(week)}
+                  </option>
+                ))}
+            </select>
+          </div>
+
+          <div className="ml-auto flex items-center gap-2">
+            <a href={file.file_url} target="_blank" rel="noreferrer" className={TOOL_BUTTON} title={t("viewer.openInNewTab")}>
+              <ExternalLink className="h-4 w-4" />
+            </a>
+            <button
+              onClick={() => onDownload(file)}
+              className="inline-flex items-center gap-1 rounded-xl bg-green-100 px-2.5 py-1.5 text-xs font-semibold text-green-700 hover:bg-green-200"
+            >
+              <Download className="h-4 w-4" />
+              {t("file.download")}
+            </button>
+            <button onClick={onClose} className="rounded-full p-1 hover:bg-slate-100" title={t("common.close")}>
+              <X className="h-5 w-5 text-slate-500" />
+            </button>
+          </div>
+        </div>
+
+        {/* DOCUMENTS */}
+        {compareFile ? (
+          <div className="grid min-h-0 flex-1 grid-cols-2 divide-x divide-slate-300">
+            {[file, compareFile].map((pane, index) => (
+              <div key={pane.id} className="flex min-h-0 flex-col">
+                <div className="flex items-center justify-between bg-slate-50 px-4 py-2 text-xs font-semibold text-slate-700">
+                  <WeekBadge week={pane.week} year={pane.year} />
+                  {index === 1 && (
+                    <button onClick={() => setCompareFile(null)} className="text-blue-700 hover:underline">
+                      {t("viewer.closeComparison")}
+                    </button>
+                  )}
+                </div>
+                <div className="min-h-0 flex-1">
+                  <PdfPane
+                    url={pane.file_url}
+                    zoom={zoom}
+                    query={query}
+                    activePage={activePage}
+                    onActivePageChange={setActivePage}
+                    onMatches={index === 0 ? onMatches : undefined}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="min-h-0 flex-1">
+            <PdfPane
+              key={file.id}
+              url={file.file_url}
+              zoom={zoom}
+              query={query}
+              activePage={activePage}
+              onActivePageChange={setActivePage}
+              onMatches={onMatches}
+              showThumbnails
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+"use client";
+
+import { useId, useState } from "react";
+import { MapPin } from "lucide-react";
+import { createPortResolver, suggestPorts } from "@/lib/ports";
+import type { Port } from "@/lib/types";
+import { useI18n } from "@/lib/useI18n";
+
+// =========================
+// PORT AUTOCOMPLETE
+// =========================
+// Free-text input that suggests catalogue ports by name, UN/LOCODE or alias.
+// Picking a suggestion writes the canonical name back into the input.
+export function PortCombobox({
+  value,
+  onChange,
+  ports,
+  placeholder,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  ports: Port[];
+  placeholder?: string;
+}) {
+  const { t } = useI18n();
+  const listId = useId();
+  const [isOpen, setIsOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const suggestions = suggestPorts(ports, value);
+  const resolved = value.trim() ? createPortResolver(ports)(value) : null;
+
+  function pick(port: Port) {
+    onChange(port.name);
+    setIsOpen(false);
+  }
+
+  function handleKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setIsOpen(true);
+      setHighlighted(Math.min(highlighted + 1, suggestions.length - 1));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setHighlighted(Math.max(highlighted - 1, 0));
+    } else if (e.key === "Enter" && isOpen && suggestions[highlighted]) {
+      e.preventDefault();
+      pick(suggestions[highlighted]);
+    } else if (e.key === "Escape") {
+      setIsOpen(false);
+    }
+  }
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setHighlighted(0);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder ?? t("portPicker.placeholder")}
+        role="combobox"
+        aria-controls={listId}
+        aria-expanded={isOpen}
+        aria-autocomplete="list"
+        className="w-full rounded-xl border border-slate-200 bg-white px-4 py-3 outline-none focus:ring-2 focus:ring-blue-500"
+      />
+
+      {value.trim() && !isOpen && (
+        <div className={`mt-1 text-xs ${resolved ? "text-green-700" : "text-red-600"}`}>
+          {resolved
+            ? resolved.name === value.trim().toUpperCase()
+              ? `${resolved.unlocode ?? t("portPicker.noUnlocode")}${resolved.country ? ` • ${resolved.country}` : ""}`
+              : t("portPicker.filedAs", { port: resolved.name })
+            : t("portPicker.unknown")}
+        </div>
+      )}
+
+      {isOpen && suggestions.length > 0 && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute z-10 mt-1 max-h-64 w-full overflow-y-auto rounded-xl border border-slate-200 bg-white py-1 shadow-xl"
+        >
+          {suggestions.map((port, index) => (
+            <li
+              key={port.id}
+              role="option"
+              aria-selected={index === highlighted}
+              // mousedown fires before the input blur closes the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                pick(port);
+              }}
+              onMouseEnter={() => setHighlighted(index)}
+              className={`flex cursor-pointer items-center gap-2 px-4 py-2 text-sm ${
+                index === highlighted ? "bg-blue-50" : ""
+              }`}
+            >
+              <MapPin className="h-4 w-4 text-blue-500" />
+              <span className="font-semibold text-blue-900">{port.name}</span>
+              {port.unlocode && <span className="font-mono text-xs text-slate-500">{port.unlocode}</span>}
+              {port.aliases.length > 0 && (
+                <span className="truncate text-xs text-slate-400">{port.aliases.join(", ")}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+"use client";
+
+import { ArrowRight } from "lucide-react";
+import type { PortCall } from "@/lib/types";
+import { useI18n } from "@/lib/useI18n";
+import { formatDateTime } from "@/lib/utils";
+
+export function PortRotation({ calls }: { calls: PortCall[] }) {
+  const { t, intlLocale } = useI18n();
+
+  return (
+    <div className="flex flex-wrap items-stretch gap-2">
+      {calls.map((call, index) => (
+        <div key={`${call.port_name}-${index}`} className="flex items-center gap-2">
+          {index > 0 && <ArrowRight className="h-3 w-3 text-blue-300" />}
+          <div className="rounded-xl border border-blue-100 bg-blue-50/50 px-3 py-1.5">
+            <div className="text-xs font-bold text-blue-900">{call.port_name}</div>
+            <div className="text-[11px] text-blue-700">
+              {t("schedules.etaEtd", {
+                eta: formatDateTime(call.eta, intlLocale),
+                etd: formatDateTime(call.etd, intlLocale),
+              })}
+            </div>
+            {call.cut_off && (
+              <div className="text-[11px] text-orange-600">
+                {t("schedules.cutOff", { date: formatDateTime(call.cut_off, intlLocale) })}
+              </div>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
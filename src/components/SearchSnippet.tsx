@@ -0,0 +1,23 @@
+import { FileSearch } from "lucide-react";
+
+// Renders a PDF text excerpt whose matched words are wrapped in [[ ]]
+export function SearchSnippet({ snippet }: { snippet: string }) {
+  const parts = snippet.split(/\[\[|\]\]/);
+
+  return (
+    <div className="mt-1 flex max-w-md items-start gap-1 whitespace-normal text-xs text-slate-600">
+      <FileSearch className="mt-0.5 h-3 w-3 flex-shrink-0 text-blue-400" />
+      <span>
+        {parts.map((part, index) =>
+          index % 2 === 1 ? (
+            <mark key={index} className="rounded bg-yellow-200 px-0.5 text-slate-900">
+              {part}
+            </mark>
+          ) : (
+            <span key={index}>{part}</span>
+          )
+        )}
+      </span>
+    </div>
+  );
+}
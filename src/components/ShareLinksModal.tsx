@@ -0,0 +1,167 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Copy, Link2, XCircle } from "lucide-react";
+import { Modal } from "@/components/Modal";
+import { createShare, fetchShares, revokeShare } from "@/lib/portFilesApi";
+import { shareState, shareUrl, type ShareState } from "@/lib/shares";
+import type { PortFile, PortFileShare } from "@/lib/types";
+import { useI18n } from "@/lib/useI18n";
+import { formatDateTime, toDateTimeLocal } from "@/lib/utils";
+
+const DEFAULT_SHARE_DAYS = 7;
+
+const STATE_STYLES: Record<ShareState, string> = {
+  active: "bg-green-100 text-green-700",
+  expired: "bg-slate-100 text-slate-500",
+  revoked: "bg-red-100 text-red-700",
+};
+
+function defaultExpiry() {
+  return toDateTimeLocal(new Date(Date.now() + DEFAULT_SHARE_DAYS * 24 * 60 * 60 * 1000));
+}
+
+// Admins create and revoke links to one file for a named customer
+export function ShareLinksModal({ file, onClose }: { file: PortFile | null; onClose: () => void }) {
+  const { t, intlLocale } = useI18n();
+  const [shares, setShares] = useState<PortFileShare[]>([]);
+  const [recipient, setRecipient] = useState("");
+  const [expiresAt, setExpiresAt] = useState(defaultExpiry);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!file) return;
+    setRecipient("");
+    setExpiresAt(defaultExpiry());
+    setError("");
+    setShares([]);
+    fetchShares(file.id)
+      .then(setShares)
+      .catch((loadError: Error) => setError(loadError.message));
+  }, [file]);
+
+  if (!file) return null;
+
+  async function submit() {
+    if (!file) return;
+    setIsLoading(true);
+    setError("");
+    try {
+      const share = await createShare(file.id, recipient.trim(), new Date(expiresAt).toISOString());
+      setShares((prev) => [share, ...prev]);
+      setRecipient("");
+      await copy(share);
+    } catch (createError) {
+      setError((createError as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function revoke(share: PortFileShare) {
+    if (!file) return;
+    setError("");
+    try {
+      const revoked = await revokeShare(file.id, share.id);
+      setShares((prev) => prev.map((entry) => (entry.id === revoked.id ? revoked : entry)));
+    } catch (revokeError) {
+      setError((revokeError as Error).message);
+    }
+  }
+
+  async function copy(share: PortFileShare) {
+    await navigator.clipboard.writeText(shareUrl(window.location.origin, share.token));
+    setCopiedId(share.id);
+    setTimeout(() => setCopiedId(null), 1500);
+  }
+
+  return (
+    <Modal
+      isOpen={!!file}
+      onClose={onClose}
+      title={t("share.title", { port: file.port_name, week: file.week, year: file.year })}
+      maxWidth="max-w-xl"
+    >
+      <div className="space-y-4">
+        <div className="grid gap-3 sm:grid-cols-2">
+          <div>
+            <label className="mb-1 block text-sm font-semibold text-slate-700">{t("share.recipient")}</label>
+            <input
+              type="text"
+              value={recipient}
+              onChange={(e) => setRecipient(e.target.value)}
+              placeholder={t("share.recipientPlaceholder")}
+              className="w-full rounded-xl border border-slate-200 bg-white px-4 py-3 outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="mb-1 block text-sm font-semibold text-slate-700">{t("share.expiresAt")}</label>
+            <input
+              type="datetime-local"
+              value={expiresAt}
+              onChange={(e) => setExpiresAt(e.target.value)}
+              className="w-full rounded-xl border border-slate-200 bg-white px-4 py-3 outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-3">
+          <div className="text-xs text-slate-500">{t("share.hint")}</div>
+          <button
+            onClick={submit}
+            disabled={isLoading || !recipient.trim() || !expiresAt}
+            className="inline-flex flex-shrink-0 items-center gap-2 rounded-2xl bg-gradient-to-r from-blue-600 to-blue-700 px-4 py-2 text-sm font-semibold text-white hover:from-blue-700 hover:to-blue-800 disabled:opacity-50"
+          >
+            <Link2 className="h-4 w-4" />
+            {t("share.create")}
+          </button>
+        </div>
+
+        {error && <div className="rounded-lg bg-red-50 p-3 text-sm text-red-700">{error}</div>}
+
+        {shares.length === 0 ? (
+          <div className="rounded-xl bg-slate-50 p-4 text-center text-sm text-slate-500">{t("share.empty")}</div>
+        ) : (
+          <div className="divide-y divide-slate-100 rounded-xl border border-slate-200">
+            {shares.map((share) => {
+              const state = shareState(share);
+              return (
+                <div key={share.id} className="flex items-center gap-3 px-4 py-3">
+                  <div className="min-w-0 flex-1">
+                    <div className="truncate text-sm font-semibold text-slate-800">{share.recipient}</div>
+                    <div className="text-xs text-slate-500">
+                      {t("share.expires", { date: formatDateTime(share.expires_at, intlLocale) })}
+                    </div>
+                  </div>
+                  <span className={`rounded-full px-2 py-0.5 text-xs font-semibold ${STATE_STYLES[state]}`}>
+                    {t(`share.state.${state}`)}
+                  </span>
+                  {state === "active" && (
+                    <>
+                      <button
+                        onClick={() => copy(share)}
+                        className="inline-flex items-center gap-1 rounded-xl bg-blue-100 px-3 py-1.5 text-xs font-semibold text-blue-700 hover:bg-blue-200"
+                      >
+                        <Copy className="h-3 w-3" />
+                        {copiedId === share.id ? t("common.copied") : t("common.copy")}
+                      </button>
+                      <button
+                        onClick={() => revoke(share)}
+                        className="inline-flex items-center gap-1 rounded-xl bg-red-100 px-3 py-1.5 text-xs font-semibold text-red-700 hover:bg-red-200"
+                      >
+                        <XCircle className="h-3 w-3" />
+                        {t("share.revoke")}
+                      </button>
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,123 @@
+"use client";
+
+import { useState } from "react";
+import { Mail } from "lucide-react";
+import { Modal } from "@/components/Modal";
+import type { ApiErrorBody, SubscriptionFrequency } from "@/lib/types";
+import { useI18n } from "@/lib/useI18n";
+
+export function SubscribeModal({
+  isOpen,
+  onClose,
+  ports,
+  onSubscribed,
+}: {
+  isOpen: boolean;
+  onClose: () => void;
+  ports: string[];
+  onSubscribed: (message: string) => void;
+}) {
+  const { t } = useI18n();
+  const [email, setEmail] = useState("");
+  const [selectedPorts, setSelectedPorts] = useState<string[]>([]);
+  const [frequency, setFrequency] = useState<SubscriptionFrequency>("instant");
+  const [error, setError] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  function togglePort(port: string) {
+    setSelectedPorts((current) =>
+      current.includes(port) ? current.filter((name) => name !== port) : [...current, port]
+    );
+  }
+
+  async function subscribe() {
+    setError("");
+    setIsSaving(true);
+    try {
+      const response = await fetch("/api/subscriptions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, ports: selectedPorts, frequency }),
+      });
+      if (!response.ok) {
+        const body = (await response.json().catch(() => null)) as ApiErrorBody | null;
+        throw new Error(body?.error.message || t("subscribe.requestFailed", { status: response.status }));
+      }
+
+      onSubscribed(t("subscribe.confirmSent", { email }));
+      setSelectedPorts([]);
+      onClose();
+    } catch (subscribeError) {
+      console.error("Error subscribing:", subscribeError);
+      setError((subscribeError as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={t("subscribe.title")} maxWidth="max-w-lg">
+      <div className="space-y-4">
+        <div>
+          <label className="mb-1 block text-sm font-semibold text-slate-700">{t("common.email")}</label>
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="you@company.com"
+            className="w-full rounded-xl border border-slate-200 px-4 py-3 outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+
+        <div>
+          <label className="mb-1 block text-sm font-semibold text-slate-700">{t("common.ports")}</label>
+          <div className="grid max-h-48 grid-cols-2 gap-2 overflow-y-auto rounded-xl border border-slate-200 p-3">
+            {ports.map((port) => (
+              <label key={port} className="flex items-center gap-2 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={selectedPorts.includes(port)}
+                  onChange={() => togglePort(port)}
+                  className="h-4 w-4 rounded border-blue-300"
+                />
+                {port}
+              </label>
+            ))}
+            {ports.length === 0 && <div className="col-span-2 text-sm text-slate-500">{t("common.noPorts")}</div>}
+          </div>
+        </div>
+
+        <div>
+          <label className="mb-1 block text-sm font-semibold text-slate-700">{t("subscribe.frequency")}</label>
+          <div className="flex gap-4 text-sm text-slate-700">
+            <label className="flex items-center gap-2">
+              <input type="radio" checked={frequency === "instant"} onChange={() => setFrequency("instant")} />
+              {t("subscribe.instant")}
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="radio" checked={frequency === "weekly"} onChange={() => setFrequency("weekly")} />
+              {t("subscribe.weekly")}
+            </label>
+          </div>
+        </div>
+
+        {error && <div className="rounded-xl bg-red-50 px-4 py-2 text-sm text-red-700">{error}</div>}
+
+        <div className="text-xs text-slate-500">
+          {t("subscribe.unsubscribeNote")}
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            onClick={subscribe}
+            disabled={isSaving || !email || selectedPorts.length === 0}
+            className="inline-flex items-center gap-2 rounded-2xl bg-gradient-to-r from-blue-600 to-blue-700 px-4 py-2 text-sm font-semibold text-white hover:from-blue-700 hover:to-blue-800 disabled:opacity-50"
+          >
+            <Mail className="h-4 w-4" />
+            {isSaving ? t("subscribe.submitting") : t("subscribe.submit")}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,27 @@
+"use client";
+
+import { Calendar } from "lucide-react";
+import { formatIsoWeekRange } from "@/lib/isoWeek";
+import { useI18n } from "@/lib/useI18n";
+
+export function WeekBadge({
+  week,
+  year,
+  className = "",
+}: {
+  week: number;
+  year: number;
+  className?: string;
+}) {
+  const { intlLocale } = useI18n();
+
+  return (
+    <div className={`inline-flex items-center gap-1 rounded-full bg-blue-100 px-3 py-1 ${className}`}>
+      <Calendar className="h-3 w-3 text-blue-600" />
+      <span className="text-xs font-semibold text-blue-700">
+        W{week} • {year}
+      </span>
+      <span className="text-xs text-blue-500">· {formatIsoWeekRange(week, year, intlLocale)}</span>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import {
+  announcementFormToRow,
+  dismissalKey,
+  isAnnouncementActive,
+  matchesAnnouncementPorts,
+  sortAnnouncements,
+  validateAnnouncementForm,
+} from "@/lib/announcements";
+import { translate, type Translate } from "@/lib/i18n";
+import type { Announcement, AnnouncementForm } from "@/lib/types";
+
+const NOW = Date.UTC(2026, 2, 16, 8, 0);
+const TOMORROW = new Date(NOW + 24 * 60 * 60 * 1000).toISOString();
+const YESTERDAY = new Date(NOW - 24 * 60 * 60 * 1000).toISOString();
+const t: Translate = (key, params) => translate("en", key, params);
+
+function announcement(overrides: Partial<Announcement>): Announcement {
+  return {
+    id: "a1",
+    title: "Office closed",
+    body: "",
+    severity: "info",
+    ports: [],
+    starts_at: YESTERDAY,
+    ends_at: null,
+    created_by: null,
+    created_at: YESTERDAY,
+    updated_at: YESTERDAY,
+    ...overrides,
+  };
+}
+
+function form(overrides: Partial<AnnouncementForm>): AnnouncementForm {
+  return {
+    title: "Office closed",
+    body: "",
+    severity: "info",
+    ports: "",
+    starts_at: "2026-03-16T08:00",
+    ends_at: "",
+    ...overrides,
+  };
+}
+
+describe("isAnnouncementActive", () => {
+  it("is active from the start until the end", () => {
+    expect(isAnnouncementActive({ starts_at: YESTERDAY, ends_at: null }, NOW)).toBe(true);
+    expect(isAnnouncementActive({ starts_at: YESTERDAY, ends_at: TOMORROW }, NOW)).toBe(true);
+    expect(isAnnouncementActive({ starts_at: TOMORROW, ends_at: null }, NOW)).toBe(false);
+    expect(isAnnouncementActive({ starts_at: YESTERDAY, ends_at: new Date(NOW).toISOString() }, NOW)).toBe(false);
+  });
+});
+
+describe("matchesAnnouncementPorts", () => {
+  it("shows targeted announcements unless the visitor filtered to other ports", () => {
+    expect(matchesAnnouncementPorts({ ports: [] }, ["JAKARTA"])).toBe(true);
+    expect(matchesAnnouncementPorts({ ports: ["SURABAYA"] }, [])).toBe(true);
+    expect(matchesAnnouncementPorts({ ports: ["SURABAYA"] }, ["surabaya "])).toBe(true);
+    expect(matchesAnnouncementPorts({ ports: ["SURABAYA"] }, ["JAKARTA"])).toBe(false);
+  });
+});
+
+describe("sortAnnouncements", () => {
+  it("puts the most severe first, then the newest", () => {
+    const sorted = sortAnnouncements([
+      announcement({ id: "old-info", starts_at: YESTERDAY }),
+      announcement({ id: "new-info", starts_at: new Date(NOW).toISOString() }),
+      announcement({ id: "critical", severity: "critical" }),
+      announcement({ id: "warning", severity: "warning" }),
+    ]);
+    expect(sorted.map((a) => a.id)).toEqual(["critical", "warning", "new-info", "old-info"]);
+  });
+});
+
+describe("dismissalKey", () => {
+  it("changes when the announcement is edited", () => {
+    const before = announcement({});
+    expect(dismissalKey(before)).not.toBe(dismissalKey({ ...before, updated_at: TOMORROW }));
+  });
+});
+
+describe("validateAnnouncementForm", () => {
+  it("needs a title and an end after the start", () => {
+    expect(validateAnnouncementForm(form({}), t)).toEqual({});
+    expect(validateAnnouncementForm(form({ title: " ", ends_at: "2026-03-16T07:00" }), t)).toEqual({
+      title: "Title is required",
+      ends_at: "End must be after the start",
+    });
+    expect(validateAnnouncementForm(form({ body: "x".repeat(1001), starts_at: "soon" }), t)).toEqual({
+      body: "Message must be at most 1000 characters",
+      starts_at: "Start is not a valid date",
+    });
+  });
+});
+
+describe("announcementFormToRow", () => {
+  it("normalizes ports and leaves an open end as null", () => {
+    const row = announcementFormToRow(form({ ports: "surabaya, Tanjung  Priok,,SURABAYA" }));
+    expect(row.ports).toEqual(["SURABAYA", "TANJUNG PRIOK"]);
+    expect(row.ends_at).toBeNull();
+  });
+});
@@ -0,0 +1,127 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Translate } from "@/lib/i18n";
+import { normalizePortName } from "@/lib/permissions";
+import type { Announcement, AnnouncementForm, AnnouncementSeverity } from "@/lib/types";
+import { toDateTimeLocal } from "@/lib/utils";
+
+// =========================
+// VISIBILITY
+// =========================
+// Mirrors the CHECK in supabase/migrations/*_announcements.sql, most severe last
+export const ANNOUNCEMENT_SEVERITIES: AnnouncementSeverity[] = ["info", "warning", "critical"];
+
+export const MAX_TITLE_LENGTH = 120;
+export const MAX_BODY_LENGTH = 1000;
+
+export function isAnnouncementActive(announcement: Pick<Announcement, "starts_at" | "ends_at">, now = Date.now()) {
+  return (
+    Date.parse(announcement.starts_at) <= now && (!announcement.ends_at || Date.parse(announcement.ends_at) > now)
+  );
+}
+
+// Untargeted announcements always show. Port-targeted ones show unless the
+// visitor filtered the list down to other ports.
+export function matchesAnnouncementPorts(announcement: Pick<Announcement, "ports">, ports: string[]) {
+  if (announcement.ports.length === 0 || ports.length === 0) return true;
+  return ports.some((port) => announcement.ports.includes(normalizePortName(port)));
+}
+
+// Most severe first, then newest
+export function sortAnnouncements(announcements: Announcement[]) {
+  return [...announcements].sort(
+    (a, b) =>
+      ANNOUNCEMENT_SEVERITIES.indexOf(b.severity) - ANNOUNCEMENT_SEVERITIES.indexOf(a.severity) ||
+      Date.parse(b.starts_at) - Date.parse(a.starts_at)
+  );
+}
+
+// Dismissals are remembered per edit, so changing an announcement shows it again
+export function dismissalKey(announcement: Pick<Announcement, "id" | "updated_at">) {
+  return `${announcement.id}@${announcement.updated_at}`;
+}
+
+// =========================
+// FORM
+// =========================
+export function emptyAnnouncementForm(now = new Date()): AnnouncementForm {
+  return { title: "", body: "", severity: "info", ports: "", starts_at: toDateTimeLocal(now), ends_at: "" };
+}
+
+export function announcementToForm(announcement: Announcement): AnnouncementForm {
+  return {
+    title: announcement.title,
+    body: announcement.body,
+    severity: announcement.severity,
+    ports: announcement.ports.join(", "),
+    starts_at: toDateTimeLocal(new Date(announcement.starts_at)),
+    ends_at: announcement.ends_at ? toDateTimeLocal(new Date(announcement.ends_at)) : "",
+  };
+}
+
+export function parseAnnouncementPorts(text: string) {
+  const ports = text
+    .split(",")
+    .map((port) => normalizePortName(port).replace(/\s+/g, " "))
+    .filter(Boolean);
+  return [...new Set(ports)];
+}
+
+export type AnnouncementFormErrors = Partial<Record<keyof AnnouncementForm, string>>;
+
+// Messages come from `t` so the admin form shows them in the active language
+export function validateAnnouncementForm(form: AnnouncementForm, t: Translate): AnnouncementFormErrors {
+  const errors: AnnouncementFormErrors = {};
+
+  const title = form.title.trim();
+  if (!title) errors.title = t("announcements.titleRequired");
+  else if (title.length > MAX_TITLE_LENGTH) errors.title = t("announcements.titleTooLong", { max: MAX_TITLE_LENGTH });
+
+  if (form.body.trim().length > MAX_BODY_LENGTH) {
+    errors.body = t("announcements.messageTooLong", { max: MAX_BODY_LENGTH });
+  }
+
+  if (!ANNOUNCEMENT_SEVERITIES.includes(form.severity)) errors.severity = t("announcements.severityRequired");
+
+  const startsAt = Date.parse(form.starts_at);
+  if (Number.isNaN(startsAt)) errors.starts_at = t("announcements.startInvalid");
+
+  if (form.ends_at) {
+    const endsAt = Date.parse(form.ends_at);
+    if (Number.isNaN(endsAt)) errors.ends_at = t("announcements.endInvalid");
+    else if (!Number.isNaN(startsAt) && endsAt <= startsAt) errors.ends_at = t("announcements.endBeforeStart");
+  }
+
+  return errors;
+}
+
+export function announcementFormToRow(form: AnnouncementForm) {
+  return {
+    title: form.title.trim(),
+    body: form.body.trim(),
+    severity: form.severity,
+    ports: parseAnnouncementPorts(form.ports),
+    starts_at: new Date(form.starts_at).toISOString(),
+    ends_at: form.ends_at ? new Date(form.ends_at).toISOString() : null,
+  };
+}
+
+// =========================
+// DATA ACCESS
+// =========================
+// Row-level security returns only active announcements to visitors; the
+// window is checked again so an admin sees the same banner as everyone else
+export async function loadActiveAnnouncements(client: SupabaseClient, now = Date.now()): Promise<Announcement[]> {
+  const { data, error } = await client
+    .from("announcements")
+    .select("*")
+    .lte("starts_at", new Date(now).toISOString());
+  if (error) throw error;
+  const announcements = (data || []) as Announcement[];
+  return sortAnnouncements(announcements.filter((announcement) => isAnnouncementActive(announcement, now)));
+}
+
+export async function loadAnnouncements(client: SupabaseClient): Promise<Announcement[]> {
+  const { data, error } = await client.from("announcements").select("*").order("starts_at", { ascending: false });
+  if (error) throw error;
+  return (data || []) as Announcement[];
+}
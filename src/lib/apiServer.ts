@@ -0,0 +1,153 @@
+import { createClient, type SupabaseClient, type User } from "@supabase/supabase-js";
+import { NextResponse } from "next/server";
+import { dataBackendKind, type DataBackend } from "@/lib/dataAccess";
+import { createLocalFileStorage } from "@/lib/localFileStorage";
+import { createMemoryBackend } from "@/lib/memoryBackend";
+import { permissionsFor, type Permissions } from "@/lib/permissions";
+import { createSupabaseBackend } from "@/lib/supabaseBackend";
+import type { ApiErrorBody, ApiErrorCode, Profile } from "@/lib/types";
+
+// =========================
+// ERRORS
+// =========================
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    public code: ApiErrorCode,
+    message: string,
+    public details?: Record<string, string>
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+export function jsonError(error: unknown) {
+  if (error instanceof ApiError) {
+    const body: ApiErrorBody = {
+      error: { code: error.code, message: error.message, details: error.details },
+    };
+    return NextResponse.json(body, { status: error.status });
+  }
+
+  console.error("Unhandled API error:", error);
+  const body: ApiErrorBody = {
+    error: { code: "server_error", message: (error as Error)?.message || "Internal server error" },
+  };
+  return NextResponse.json(body, { status: 500 });
+}
+
+// =========================
+// SUPABASE (SERVER)
+// =========================
+// Requests run as the caller: the bearer token is forwarded so row-level
+// security applies exactly as it does in the browser.
+function bearerToken(request: Request) {
+  const header = request.headers.get("authorization") || "";
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1] : null;
+}
+
+export function createServerClient(accessToken?: string | null): SupabaseClient {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      auth: { persistSession: false, autoRefreshToken: false },
+      global: accessToken ? { headers: { Authorization: `Bearer ${accessToken}` } } : undefined,
+    }
+  );
+}
+
+// Bypasses RLS. Only for server-owned tables such as subscriptions.
+export function createServiceClient(): SupabaseClient {
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!serviceKey) {
+    throw new ApiError(500, "server_error", "SUPABASE_SERVICE_ROLE_KEY is not configured");
+  }
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, serviceKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
+
+// =========================
+// DATA BACKEND
+// =========================
+// DATA_BACKEND=memory keeps port file rows in this process and PDFs in memory
+// or under LOCAL_STORAGE_DIR. Sign-in, profiles and the catalogue still come
+// from Supabase.
+let memoryBackend: DataBackend | null = null;
+
+export function dataBackend(client: SupabaseClient): DataBackend {
+  if (dataBackendKind() === "supabase") return createSupabaseBackend(client);
+
+  const storageDir = process.env.LOCAL_STORAGE_DIR;
+  memoryBackend ??= createMemoryBackend({
+    storage: storageDir ? createLocalFileStorage(storageDir) : undefined,
+  });
+  return memoryBackend;
+}
+
+// For routes that read Supabase tables beyond port_files and storage
+export function requireSupabaseBackend(feature: string) {
+  if (dataBackendKind() !== "supabase") {
+    throw new ApiError(501, "server_error", `${feature} is only available with DATA_BACKEND=supabase`);
+  }
+}
+
+// Public URL used in emails and feeds
+export function siteUrl(request?: Request) {
+  return (
+    process.env.NEXT_PUBLIC_SITE_URL?.replace(/\/$/, "") ||
+    (request ? new URL(request.url).origin : "http://localhost:3000")
+  );
+}
+
+export async function requireUser(request: Request): Promise<{ client: SupabaseClient; user: User }> {
+  const token = bearerToken(request);
+  if (!token) {
+    throw new ApiError(401, "unauthorized", "Sign in to perform this action");
+  }
+
+  const client = createServerClient(token);
+  const { data, error } = await client.auth.getUser(token);
+  if (error || !data.user) {
+    throw new ApiError(401, "unauthorized", "Session is invalid or has expired");
+  }
+
+  return { client, user: data.user };
+}
+
+// Signed-in caller plus the role-based permissions from their profile row
+export async function requireProfile(request: Request): Promise<{
+  client: SupabaseClient;
+  user: User;
+  profile: Profile | null;
+  permissions: Permissions;
+}> {
+  const { client, user } = await requireUser(request);
+
+  const { data, error } = await client
+    .from("profiles")
+    .select("*")
+    .eq("id", user.id)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  const profile = (data as Profile | null) ?? null;
+  return { client, user, profile, permissions: permissionsFor(profile, true) };
+}
+
+// For routes open to visitors: without a bearer token the caller is anonymous
+// and gets the anon client with no permissions
+export async function optionalProfile(request: Request): Promise<{
+  client: SupabaseClient;
+  permissions: Permissions;
+}> {
+  if (!bearerToken(request)) {
+    return { client: createServerClient(), permissions: permissionsFor(null, false) };
+  }
+  const { client, permissions } = await requireProfile(request);
+  return { client, permissions };
+}
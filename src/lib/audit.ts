@@ -0,0 +1,59 @@
+import type { SupabaseClient, User } from "@supabase/supabase-js";
+import type { AuditEntry, AuditEvent, PortFile } from "@/lib/types";
+
+export const AUDIT_EVENTS: AuditEvent[] = ["upload", "revision", "publish", "withdraw", "delete", "login", "logout"];
+
+// File metadata kept in before/after snapshots
+export function fileSnapshot(file: PortFile | null | undefined): Record<string, unknown> | null {
+  if (!file) return null;
+  return {
+    id: file.id,
+    port_name: file.port_name,
+    week: file.week,
+    year: file.year,
+    file_name: file.file_name,
+    file_size: file.file_size ?? null,
+    revision: file.revision ?? 1,
+    change_note: file.change_note ?? null,
+    uploaded_at: file.uploaded_at,
+    uploaded_by: file.uploaded_by ?? null,
+    superseded_at: file.superseded_at ?? null,
+    status: file.status ?? "published",
+    publish_at: file.publish_at ?? null,
+  };
+}
+
+// =========================
+// WRITE
+// =========================
+export type AuditActor = Pick<User, "id" | "email"> | { id: null; email: string };
+
+// Actor of changes made by scheduled jobs such as the publish cron
+export const SYSTEM_ACTOR: AuditActor = { id: null, email: "system" };
+
+// Needs the service-role client: browser and caller clients cannot write
+// audit_log. A failed write throws, so the route reports an error instead of
+// succeeding untraced.
+export async function recordAudit(
+  client: SupabaseClient,
+  actor: AuditActor,
+  event: AuditEvent,
+  details: { file?: PortFile | null; before?: PortFile | null; after?: PortFile | null } = {}
+) {
+  const file = details.file ?? details.after ?? details.before ?? null;
+  const entry: Omit<AuditEntry, "id" | "created_at"> = {
+    event,
+    actor_id: actor.id,
+    actor_email: actor.email ?? "",
+    port_name: file?.port_name ?? null,
+    week: file?.week ?? null,
+    year: file?.year ?? null,
+    file_id: file?.id ?? null,
+    file_name: file?.file_name ?? null,
+    before: fileSnapshot(details.before),
+    after: fileSnapshot(details.after),
+  };
+
+  const { error } = await client.from("audit_log").insert(entry);
+  if (error) throw new Error(`Error writing ${event} audit entry: ${error.message}`);
+}
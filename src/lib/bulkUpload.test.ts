@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { parseUploadFileName } from "@/lib/bulkUpload";
+import { isValidIsoWeek } from "@/lib/isoWeek";
+import { createPortResolver } from "@/lib/ports";
+import type { Port } from "@/lib/types";
+
+const FALLBACK = { week: 12, year: 2026 };
+
+const port = (name: string, unlocode: string, aliases: string[] = []): Port => ({
+  id: name.toLowerCase(),
+  name,
+  unlocode,
+  country: unlocode.slice(0, 2),
+  aliases,
+});
+
+const resolvePort = createPortResolver([port("HAIPHONG", "VNHPH", ["HAI PHONG", "HPH"]), port("BATAM", "IDBTM")]);
+
+describe("parseUploadFileName", () => {
+  it("reads port, week and year from common names", () => {
+    expect(parseUploadFileName("BATAM_W12_2026.pdf", resolvePort, FALLBACK)).toEqual({
+      port_name: "BATAM",
+      week: 12,
+      year: 2026,
+    });
+    expect(parseUploadFileName("Shanghai Week 9 2027.pdf", resolvePort, FALLBACK)).toEqual({
+      port_name: "SHANGHAI",
+      week: 9,
+      year: 2027,
+    });
+    expect(parseUploadFileName("haiphong-wk-05.PDF", resolvePort, FALLBACK)).toEqual({
+      port_name: "HAIPHONG",
+      week: 5,
+      year: 2026,
+    });
+  });
+
+  it("strips the timestamp prefix of storage names", () => {
+    expect(parseUploadFileName("1760000000000_BATAM_W12_2026.pdf", resolvePort, FALLBACK)).toEqual({
+      port_name: "BATAM",
+      week: 12,
+      year: 2026,
+    });
+  });
+
+  it("files aliases and UN/LOCODEs under the catalogue name", () => {
+    expect(parseUploadFileName("Hai Phong W07 2026.pdf", resolvePort, FALLBACK).port_name).toBe("HAIPHONG");
+    expect(parseUploadFileName("VNHPH_W07_2026.pdf", resolvePort, FALLBACK).port_name).toBe("HAIPHONG");
+    expect(parseUploadFileName("Hai Phong W07 2026.pdf", undefined, FALLBACK).port_name).toBe("HAI PHONG");
+  });
+
+  it("keeps an out-of-range week so validation flags the row", () => {
+    const parsed = parseUploadFileName("BATAM_W60_2026.pdf", resolvePort, FALLBACK);
+    expect(parsed.week).toBe(60);
+    expect(isValidIsoWeek(parsed.week, parsed.year)).toBe(false);
+
+    // 2027 has 52 ISO weeks, 2026 has 53
+    expect(isValidIsoWeek(parseUploadFileName("BATAM W53 2027.pdf", resolvePort, FALLBACK).week, 2027)).toBe(false);
+    expect(isValidIsoWeek(parseUploadFileName("BATAM W53 2026.pdf", resolvePort, FALLBACK).week, 2026)).toBe(true);
+  });
+
+  it("falls back to the given week for names it cannot read", () => {
+    expect(parseUploadFileName("scan.pdf", resolvePort, FALLBACK)).toEqual({ port_name: "SCAN", week: 12, year: 2026 });
+    expect(parseUploadFileName("BATAM_W123.pdf", resolvePort, FALLBACK)).toEqual({
+      port_name: "BATAM W123",
+      week: 12,
+      year: 2026,
+    });
+    expect(parseUploadFileName("2026.pdf", resolvePort, FALLBACK)).toEqual({ port_name: "", week: 12, year: 2026 });
+  });
+});
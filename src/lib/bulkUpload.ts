@@ -0,0 +1,86 @@
+import { getCurrentIsoWeek } from "@/lib/isoWeek";
+import { normalizePortName } from "@/lib/permissions";
+import type { Port } from "@/lib/types";
+
+// =========================
+// FILENAME PARSING
+// =========================
+// Understands names such as "BATAM_W12_2026.pdf", "HAIPHONG wk 12.pdf",
+// "Shanghai Week 9 2026.pdf" and our own storage names
+// ("1760000000000_BATAM_W12_2026.pdf"). Missing parts fall back to the
+// current ISO week so the admin only corrects what the filename lacks.
+export type ParsedFileName = {
+  port_name: string;
+  week: number;
+  year: number;
+};
+
+const WEEK_PATTERN = /\b(?:w|wk|week)\s*0?(\d{1,2})\b/i;
+const YEAR_PATTERN = /\b(20\d{2})\b/;
+const TIMESTAMP_PATTERN = /^\d{10,}\b/;
+
+type PortResolver = (text: string) => Port | null;
+
+export function parseUploadFileName(
+  fileName: string,
+  resolvePort: PortResolver = () => null,
+  fallback = getCurrentIsoWeek()
+): ParsedFileName {
+  let rest = fileName
+    .replace(/\.[^.]+$/, "")
+    .replace(/[_\-.]+/g, " ")
+    .trim()
+    .replace(TIMESTAMP_PATTERN, "");
+
+  const weekMatch = rest.match(WEEK_PATTERN);
+  if (weekMatch) rest = rest.replace(weekMatch[0], " ");
+
+  const yearMatch = rest.match(YEAR_PATTERN);
+  if (yearMatch) rest = rest.replace(yearMatch[0], " ");
+
+  let port = normalizePortName(rest.replace(/\s+/g, " "));
+  // Prefer the catalogue name, e.g. "HAI PHONG" or "VNHPH" → "HAIPHONG"
+  const known = resolvePort(port);
+  if (known) port = known.name;
+
+  return {
+    port_name: port,
+    week: weekMatch ? Number(weekMatch[1]) : fallback.week,
+    year: yearMatch ? Number(yearMatch[1]) : fallback.year,
+  };
+}
+
+// =========================
+// QUEUE ITEMS
+// =========================
+export type BulkUploadStatus = "pending" | "uploading" | "done" | "error";
+
+export type BulkUploadItem = {
+  id: string;
+  file: File;
+  port_name: string;
+  week: number;
+  year: number;
+  change_note: string;
+  status: BulkUploadStatus;
+  progress: number;
+  error?: string;
+  revision?: number;
+  // The server already has this exact PDF; set allow_duplicate to upload anyway
+  duplicate?: boolean;
+  allow_duplicate?: boolean;
+};
+
+export function createBulkUploadItem(file: File, resolvePort: PortResolver): BulkUploadItem {
+  const parsed = parseUploadFileName(file.name, resolvePort);
+  return {
+    id: `${file.name}-${file.size}-${file.lastModified}-${Math.random().toString(36).slice(2, 8)}`,
+    file,
+    port_name: parsed.port_name,
+    week: parsed.week,
+    year: parsed.year,
+    change_note: "",
+    status: "pending",
+    progress: 0,
+  };
+}
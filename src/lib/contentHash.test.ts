@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { duplicateDetails, groupByContentHash, sha256Hex } from "@/lib/contentHash";
+import type { PortFile } from "@/lib/types";
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+
+const row = (overrides: Partial<PortFile>): PortFile => ({
+  id: "p",
+  port_name: "BATAM",
+  week: 12,
+  year: 2026,
+  file_name: "p.pdf",
+  file_url: "/api/port-files/p/file",
+  uploaded_at: "2026-03-16T08:00:00.000Z",
+  content_hash: null,
+  ...overrides,
+});
+
+describe("sha256Hex", () => {
+  it("matches the standard SHA-256 digest", async () => {
+    expect(await sha256Hex(bytes("abc"))).toBe("ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad");
+  });
+
+  it("gives identical bytes the same hash however they are passed", async () => {
+    const data = bytes("%PDF-1.4 schedule");
+    expect(await sha256Hex(data)).toBe(await sha256Hex(bytes("%PDF-1.4 schedule")));
+    expect(await sha256Hex(data.buffer as ArrayBuffer)).toBe(await sha256Hex(data));
+  });
+
+  it("gives different bytes different hashes", async () => {
+    expect(await sha256Hex(bytes("%PDF-1.4 schedule"))).not.toBe(await sha256Hex(bytes("%PDF-1.4 schedule ")));
+  });
+});
+
+describe("groupByContentHash", () => {
+  it("groups files with the same hash across ports and weeks", () => {
+    const files = [
+      row({ id: "a", port_name: "BATAM", content_hash: "h1" }),
+      row({ id: "b", port_name: "HAIPHONG", week: 13, content_hash: "h1" }),
+      row({ id: "c", port_name: "BATAM", content_hash: "h2" }),
+      row({ id: "d", port_name: "SINGAPORE", content_hash: "h2" }),
+      row({ id: "e", port_name: "SINGAPORE", content_hash: "h2" }),
+    ];
+    expect(groupByContentHash(files).map((group) => group.map((file) => file.id))).toEqual([
+      ["a", "b"],
+      ["c", "d", "e"],
+    ]);
+  });
+
+  it("leaves out unique and unhashed files", () => {
+    const files = [
+      row({ id: "a", content_hash: "h1" }),
+      row({ id: "b", content_hash: "h2" }),
+      row({ id: "c", content_hash: null }),
+      row({ id: "d" }),
+    ];
+    expect(groupByContentHash(files)).toEqual([]);
+  });
+});
+
+describe("duplicateDetails", () => {
+  it("tells the uploader where the existing file is", () => {
+    expect(duplicateDetails(row({ id: "a", port_name: "HAIPHONG", week: 7, file_name: "hph.pdf" }))).toEqual({
+      id: "a",
+      port_name: "HAIPHONG",
+      week: "7",
+      year: "2026",
+      file_name: "hph.pdf",
+      uploaded_at: "2026-03-16T08:00:00.000Z",
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { PORT_FILES_BUCKET, storagePath } from "@/lib/storage";
+import type { DuplicateReport, HashBackfillResult, PortFile } from "@/lib/types";
+
+// =========================
+// HASHING
+// =========================
+// Web Crypto is available in browsers and in Node 20, so the same digest is
+// produced on both sides.
+export async function sha256Hex(data: ArrayBuffer | Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new Uint8Array(data));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+// =========================
+// DUPLICATES
+// =========================
+// Fields returned in the 409 body so the uploader can see where the file is
+export function duplicateDetails(file: PortFile): Record<string, string> {
+  return {
+    id: file.id,
+    port_name: file.port_name,
+    week: String(file.week),
+    year: String(file.year),
+    file_name: file.file_name,
+    uploaded_at: file.uploaded_at,
+  };
+}
+
+export function groupByContentHash(files: PortFile[]): PortFile[][] {
+  const groups = new Map<string, PortFile[]>();
+  for (const file of files) {
+    if (!file.content_hash) continue;
+    groups.set(file.content_hash, [...(groups.get(file.content_hash) ?? []), file]);
+  }
+  return [...groups.values()].filter((group) => group.length > 1);
+}
+
+export async function loadDuplicateReport(client: SupabaseClient): Promise<DuplicateReport> {
+  const [duplicates, unhashed] = await Promise.all([
+    client.rpc("duplicate_port_files"),
+    client.from("port_files").select("id", { count: "exact", head: true }).is("content_hash", null),
+  ]);
+
+  if (duplicates.error) throw duplicates.error;
+  if (unhashed.error) throw unhashed.error;
+
+  return { groups: groupByContentHash((duplicates.data || []) as PortFile[]), unhashed: unhashed.count ?? 0 };
+}
+
+// =========================
+// BACKFILL
+// =========================
+export const HASH_BATCH_SIZE = 20;
+
+// Hashes the next batch of files uploaded before hashing existed. Files that
+// cannot be downloaded stay unhashed; pass how many failed so far as `skip`
+// so the next batch moves past them.
+export async function backfillContentHashes(client: SupabaseClient, skip = 0): Promise<HashBackfillResult> {
+  const { data, error, count } = await client
+    .from("port_files")
+    .select("*", { count: "exact" })
+    .is("content_hash", null)
+    .order("uploaded_at", { ascending: false })
+    .order("id")
+    .range(skip, skip + HASH_BATCH_SIZE - 1);
+
+  if (error) throw error;
+
+  const files = (data || []) as PortFile[];
+  let failed = 0;
+  for (const file of files) {
+    try {
+      const { data: blob, error: downloadError } = await client.storage
+        .from(PORT_FILES_BUCKET)
+        .download(storagePath(file.file_name));
+      if (downloadError) throw downloadError;
+
+      const { error: updateError } = await client
+        .from("port_files")
+        .update({ content_hash: await sha256Hex(await blob.arrayBuffer()) })
+        .eq("id", file.id);
+      if (updateError) throw updateError;
+    } catch (hashError) {
+      console.error(`Error hashing ${file.file_name}:`, hashError);
+      failed++;
+    }
+  }
+
+  return {
+    processed: files.length,
+    failed,
+    remaining: Math.max(0, (count ?? 0) - skip - files.length),
+  };
+}
@@ -0,0 +1,72 @@
+import type { User } from "@supabase/supabase-js";
+import type { FilePage } from "@/lib/fileFilters";
+import type { PortFileQuery } from "@/lib/portFileQuery";
+import type { PortFile, PortFileFacets } from "@/lib/types";
+
+// =========================
+// INTERFACES
+// =========================
+// Port file rows, PDF objects and sign-in sit behind these so the upload and
+// delete flows run the same against Supabase and the in-memory backend.
+// DATA_BACKEND only selects the rows and PDFs; see DataBackend.
+// file_url is derived from the id, see portFileUrl
+export type NewPortFile = Omit<PortFile, "id" | "file_url">;
+export type PortFileUpdate = Partial<Pick<PortFile, "status" | "publish_at" | "superseded_at">>;
+
+export interface PortFileRepository {
+  // PDF text matches only apply to the Supabase backend
+  list(query: PortFileQuery, contentMatchIds?: string[]): Promise<FilePage>;
+  get(id: string): Promise<PortFile | null>;
+  // Distinct ports and years of published files, for the filter controls
+  facets(): Promise<PortFileFacets>;
+  // Rows holding the same PDF, oldest first, see contentHash.ts
+  findByContentHash(hash: string): Promise<PortFile[]>;
+  // Every port's rows for one week, the input to revisionHistory
+  listWeek(week: number, year: number): Promise<PortFile[]>;
+  // Scheduled rows, earliest release first
+  listScheduled(): Promise<PortFile[]>;
+  insert(row: NewPortFile): Promise<PortFile>;
+  update(id: string, changes: PortFileUpdate): Promise<PortFile>;
+  setSupersededAt(ids: string[], supersededAt: string | null): Promise<void>;
+  // Returns the removed row so it can be put back with restore
+  remove(id: string): Promise<PortFile>;
+  restore(row: PortFile): Promise<void>;
+}
+
+// Paths are inside the port-files bucket, see storagePath
+export interface FileStorage {
+  upload(path: string, file: Blob, contentType: string): Promise<void>;
+  download(path: string): Promise<Blob>;
+  remove(paths: string[]): Promise<void>;
+  // Time-limited link to the object; download names the saved file
+  signedUrl(path: string, expiresIn: number, download?: string): Promise<string>;
+}
+
+export type AuthUser = Pick<User, "id" | "email">;
+
+// Sign-in is not selected by DATA_BACKEND: the API routes check Supabase
+// access tokens, so the browser always signs in through Supabase. The memory
+// implementation is for the offline tests.
+export interface AuthService {
+  signIn(email: string, password: string): Promise<AuthUser>;
+  currentUser(): Promise<AuthUser | null>;
+  signOut(): Promise<void>;
+}
+
+// What DATA_BACKEND selects for the API routes. The retention preview and
+// purge, duplicate report, PDF text index and weekly digest read Supabase
+// tables directly and refuse to run with DATA_BACKEND=memory.
+export type DataBackend = {
+  portFiles: PortFileRepository;
+  storage: FileStorage;
+};
+
+// =========================
+// SELECTION
+// =========================
+export const DATA_BACKENDS = ["supabase", "memory"] as const;
+export type DataBackendKind = (typeof DATA_BACKENDS)[number];
+
+export function dataBackendKind(value = process.env.DATA_BACKEND): DataBackendKind {
+  return DATA_BACKENDS.find((kind) => kind === value?.trim().toLowerCase()) ?? "supabase";
+}
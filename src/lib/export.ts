@@ -0,0 +1,83 @@
+import * as XLSX from "xlsx";
+import { getIsoWeekRange } from "@/lib/isoWeek";
+import { findPortFile } from "@/lib/schedules";
+import { absoluteFileUrl } from "@/lib/storage";
+import type { PortFile, VesselSchedule } from "@/lib/types";
+import { toDateKey } from "@/lib/utils";
+
+export type ExportFormat = "xlsx" | "csv";
+
+type ExportRow = Record<string, string | number>;
+
+// =========================
+// SPREADSHEET WRITER
+// =========================
+export function exportRows(rows: ExportRow[], baseName: string, format: ExportFormat, sheetName = "Export") {
+  const worksheet = XLSX.utils.json_to_sheet(rows);
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, worksheet, sheetName);
+  XLSX.writeFile(workbook, `${baseName}_${toDateKey(new Date())}.${format}`, { bookType: format });
+}
+
+function weekColumns(week: number, year: number): ExportRow {
+  const { start, end } = getIsoWeekRange(week, year);
+  return {
+    Week: week,
+    Year: year,
+    "Week Start (Mon)": toDateKey(start),
+    "Week End (Sun)": toDateKey(end),
+  };
+}
+
+function formatTimestamp(value: string | null | undefined) {
+  if (!value) return "";
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return "";
+  return `${toDateKey(date)} ${date.toTimeString().slice(0, 5)}`;
+}
+
+// =========================
+// ROW BUILDERS
+// =========================
+// Links are made absolute against siteUrl so they work outside the app
+export function portFileExportRows(files: PortFile[], siteUrl: string): ExportRow[] {
+  return files.map((file) => ({
+    Port: file.port_name,
+    ...weekColumns(file.week, file.year),
+    Revision: file.revision ?? 1,
+    "File Name": file.file_name,
+    Uploaded: formatTimestamp(file.uploaded_at),
+    "Download Link": absoluteFileUrl(file, siteUrl),
+  }));
+}
+
+// One row per port call so the sheet can be filtered by call port
+export function scheduleExportRows(schedules: VesselSchedule[], files: PortFile[], siteUrl: string): ExportRow[] {
+  return schedules.flatMap((schedule) => {
+    const portFile = findPortFile(files, schedule);
+    const base: ExportRow = {
+      Vessel: schedule.vessel_name,
+      Voyage: schedule.voyage_no,
+      Service: schedule.service,
+      Port: schedule.port_name,
+      ...weekColumns(schedule.week, schedule.year),
+    };
+    const pdf = {
+      "PDF Uploaded": formatTimestamp(portFile?.uploaded_at),
+      "PDF Link": portFile ? absoluteFileUrl(portFile, siteUrl) : "",
+    };
+
+    if (schedule.port_calls.length === 0) {
+      return [{ ...base, "Call Port": "", ETA: "", ETD: "", "Cut-off": "", ...pdf }];
+    }
+
+    return schedule.port_calls.map((call) => ({
+      ...base,
+      "Call Port": call.port_name,
+      ETA: formatTimestamp(call.eta),
+      ETD: formatTimestamp(call.etd),
+      "Cut-off": formatTimestamp(call.cut_off),
+      ...pdf,
+    }));
+  });
+}
@@ -0,0 +1,61 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createServerClient } from "@/lib/apiServer";
+import type { FeedFilters } from "@/lib/feeds";
+import type { PortFile, VesselSchedule } from "@/lib/types";
+
+// PostgREST caps each response at 1000 rows, so feeds read page by page
+const FEED_PAGE_SIZE = 1000;
+
+function feedQuery(client: SupabaseClient, table: "port_files" | "vessel_schedules", filters: FeedFilters) {
+  let query = client.from(table).select("*");
+  // ilike without wildcards is a case-insensitive match on the whole name
+  if (filters.port) query = query.ilike("port_name", filters.port.replace(/[%_\\]/g, "\\$&"));
+  if (filters.year !== null) query = query.eq("year", filters.year);
+  if (filters.week_from !== null) query = query.gte("week", filters.week_from);
+  if (filters.week_to !== null) query = query.lte("week", filters.week_to);
+  return query;
+}
+
+async function loadAllPages<T>(
+  loadPage: (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += FEED_PAGE_SIZE) {
+    const { data, error } = await loadPage(from, from + FEED_PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...((data || []) as T[]));
+    if (!data || data.length < FEED_PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+// Latest revisions and structured sailings matching the feed filters, oldest
+// week first. The feed builders check matchesFeedFilters again.
+export async function loadFeedData(filters: FeedFilters) {
+  const client = createServerClient();
+
+  const [files, schedules] = await Promise.all([
+    loadAllPages<PortFile>((from, to) =>
+      feedQuery(client, "port_files", filters)
+        .is("superseded_at", null)
+        .order("year", { ascending: true })
+        .order("week", { ascending: true })
+        .order("id", { ascending: true })
+        .range(from, to)
+    ),
+    loadAllPages<VesselSchedule>((from, to) =>
+      feedQuery(client, "vessel_schedules", filters)
+        .order("year", { ascending: true })
+        .order("week", { ascending: true })
+        .order("id", { ascending: true })
+        .range(from, to)
+    ),
+  ]);
+
+  return { files, schedules };
+}
+
+export const FEED_CACHE_HEADERS = {
+  "Cache-Control": "public, max-age=300, s-maxage=300",
+  "Access-Control-Allow-Origin": "*",
+};
@@ -0,0 +1,257 @@
+import { ApiError } from "@/lib/apiServer";
+import { getIsoWeekRange } from "@/lib/isoWeek";
+import { findPortFile } from "@/lib/schedules";
+import { absoluteFileUrl } from "@/lib/storage";
+import type { PortFile, VesselSchedule } from "@/lib/types";
+import { toDateKey } from "@/lib/utils";
+
+// =========================
+// FILTERS
+// =========================
+export type FeedFilters = {
+  port: string | null;
+  year: number | null;
+  week_from: number | null;
+  week_to: number | null;
+};
+
+function parseIntParam(params: URLSearchParams, key: string, min: number, max: number) {
+  const value = params.get(key);
+  if (value === null || value === "") return null;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min || number > max) {
+    throw new ApiError(400, "validation_error", `Invalid ${key}`, { [key]: `Must be an integer between ${min} and ${max}` });
+  }
+  return number;
+}
+
+// ?port=BATAM&year=2026&week_from=10&week_to=20 (week=12 is shorthand for a single week)
+export function parseFeedFilters(params: URLSearchParams): FeedFilters {
+  const week = parseIntParam(params, "week", 1, 53);
+  const filters: FeedFilters = {
+    port: params.get("port")?.trim().toUpperCase() || null,
+    year: parseIntParam(params, "year", 2000, 2100),
+    week_from: week ?? parseIntParam(params, "week_from", 1, 53),
+    week_to: week ?? parseIntParam(params, "week_to", 1, 53),
+  };
+
+  if (filters.week_from !== null && filters.week_to !== null && filters.week_from > filters.week_to) {
+    throw new ApiError(400, "validation_error", "week_from must not be after week_to");
+  }
+
+  return filters;
+}
+
+export function matchesFeedFilters(item: Pick<PortFile, "port_name" | "week" | "year">, filters: FeedFilters) {
+  if (filters.port && item.port_name.trim().toUpperCase() !== filters.port) return false;
+  if (filters.year !== null && item.year !== filters.year) return false;
+  if (filters.week_from !== null && item.week < filters.week_from) return false;
+  if (filters.week_to !== null && item.week > filters.week_to) return false;
+  return true;
+}
+
+// =========================
+// JSON FEED
+// =========================
+export type FeedWeek = {
+  week: number;
+  year: number;
+  start: string;
+  end: string;
+  pdf: { file_name: string; url: string; revision: number; uploaded_at: string } | null;
+  sailings: {
+    vessel_name: string;
+    voyage_no: string;
+    service: string;
+    port_calls: VesselSchedule["port_calls"];
+  }[];
+};
+
+export type JsonFeed = {
+  generated_at: string;
+  filters: FeedFilters;
+  ports: { port_name: string; weeks: FeedWeek[] }[];
+};
+
+function weekKey(item: Pick<PortFile, "port_name" | "week" | "year">) {
+  return `${item.port_name.trim().toUpperCase()}|${item.year}|${item.week}`;
+}
+
+export function buildJsonFeed(
+  files: PortFile[],
+  schedules: VesselSchedule[],
+  filters: FeedFilters,
+  siteUrl: string
+): JsonFeed {
+  const weeks = new Map<string, FeedWeek & { port_name: string }>();
+
+  const ensureWeek = (item: Pick<PortFile, "port_name" | "week" | "year">) => {
+    const key = weekKey(item);
+    let entry = weeks.get(key);
+    if (!entry) {
+      const { start, end } = getIsoWeekRange(item.week, item.year);
+      entry = {
+        port_name: item.port_name.trim().toUpperCase(),
+        week: item.week,
+        year: item.year,
+        start: toDateKey(start),
+        end: toDateKey(end),
+        pdf: null,
+        sailings: [],
+      };
+      weeks.set(key, entry);
+    }
+    return entry;
+  };
+
+  for (const file of files.filter((file) => matchesFeedFilters(file, filters))) {
+    const entry = ensureWeek(file);
+    const latest = findPortFile(files, file);
+    if (latest) {
+      entry.pdf = {
+        file_name: latest.file_name,
+        url: absoluteFileUrl(latest, siteUrl),
+        revision: latest.revision ?? 1,
+        uploaded_at: latest.uploaded_at,
+      };
+    }
+  }
+
+  for (const schedule of schedules.filter((schedule) => matchesFeedFilters(schedule, filters))) {
+    ensureWeek(schedule).sailings.push({
+      vessel_name: schedule.vessel_name,
+      voyage_no: schedule.voyage_no,
+      service: schedule.service,
+      port_calls: schedule.port_calls,
+    });
+  }
+
+  const ports = new Map<string, FeedWeek[]>();
+  for (const { port_name, ...week } of weeks.values()) {
+    ports.set(port_name, [...(ports.get(port_name) ?? []), week]);
+  }
+
+  return {
+    generated_at: new Date().toISOString(),
+    filters,
+    ports: [...ports.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([port_name, portWeeks]) => ({
+        port_name,
+        weeks: portWeeks.sort((a, b) => a.year - b.year || a.week - b.week),
+      })),
+  };
+}
+
+// =========================
+// ICALENDAR FEED (RFC 5545)
+// =========================
+function escapeIcs(text: string) {
+  return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+// Lines longer than 75 octets are folded with CRLF + space
+function foldLine(line: string) {
+  const bytes = new TextEncoder().encode(line);
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (new TextEncoder().encode(current + char).length > limit) {
+      parts.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function icsDate(date: Date) {
+  return toDateKey(date).replace(/-/g, "");
+}
+
+function icsDateTime(iso: string) {
+  return new Date(iso).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function isValidDate(value: string | null | undefined) {
+  return !!value && !isNaN(new Date(value).getTime());
+}
+
+export function buildIcsFeed(
+  files: PortFile[],
+  schedules: VesselSchedule[],
+  filters: FeedFilters,
+  siteUrl: string
+): string {
+  const stamp = icsDateTime(new Date().toISOString());
+  const events: string[][] = [];
+
+  // One all-day event spanning Monday..Sunday per published PDF
+  const seen = new Set<string>();
+  for (const file of files.filter((file) => matchesFeedFilters(file, filters))) {
+    const key = weekKey(file);
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const latest = findPortFile(files, file) ?? file;
+    const fileUrl = absoluteFileUrl(latest, siteUrl);
+    const { start } = getIsoWeekRange(file.week, file.year);
+    const endExclusive = new Date(start.getFullYear(), start.getMonth(), start.getDate() + 7);
+    events.push([
+      `UID:port-file-${latest.id}@sitc-schedule`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${icsDate(start)}`,
+      `DTEND;VALUE=DATE:${icsDate(endExclusive)}`,
+      `SUMMARY:${escapeIcs(`${latest.port_name.toUpperCase()} schedule W${file.week} ${file.year}`)}`,
+      `DESCRIPTION:${escapeIcs(
+        `Revision ${latest.revision ?? 1}${latest.change_note ? ` – ${latest.change_note}` : ""}\nPDF: ${fileUrl}`
+      )}`,
+      `URL:${fileUrl}`,
+      "TRANSP:TRANSPARENT",
+    ]);
+  }
+
+  // Structured sailings: the vessel's stay at the first port of call
+  for (const schedule of schedules.filter((schedule) => matchesFeedFilters(schedule, filters))) {
+    const first = schedule.port_calls[0];
+    const rotation = schedule.port_calls
+      .map((call) => `${call.port_name}: ETA ${call.eta} / ETD ${call.etd}${call.cut_off ? ` / cut-off ${call.cut_off}` : ""}`)
+      .join("\n");
+    const timing =
+      first && isValidDate(first.eta) && isValidDate(first.etd)
+        ? [`DTSTART:${icsDateTime(first.eta)}`, `DTEND:${icsDateTime(first.etd)}`]
+        : (() => {
+            const { start } = getIsoWeekRange(schedule.week, schedule.year);
+            const endExclusive = new Date(start.getFullYear(), start.getMonth(), start.getDate() + 7);
+            return [`DTSTART;VALUE=DATE:${icsDate(start)}`, `DTEND;VALUE=DATE:${icsDate(endExclusive)}`];
+          })();
+
+    events.push([
+      `UID:sailing-${schedule.id}@sitc-schedule`,
+      `DTSTAMP:${stamp}`,
+      ...timing,
+      `SUMMARY:${escapeIcs(`${schedule.vessel_name} ${schedule.voyage_no} → ${schedule.port_name}`)}`,
+      `DESCRIPTION:${escapeIcs(`${schedule.service ? `Service ${schedule.service}\n` : ""}${rotation}`)}`,
+      ...(first ? [`LOCATION:${escapeIcs(first.port_name)}`] : []),
+      `URL:${siteUrl}/schedules`,
+    ]);
+  }
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//SITC Batam//Export Schedule//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeIcs(`SITC schedules${filters.port ? ` – ${filters.port}` : ""}`)}`,
+    ...events.flatMap((event) => ["BEGIN:VEVENT", ...event, "END:VEVENT"]),
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
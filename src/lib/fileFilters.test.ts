@@ -0,0 +1,169 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyPortFileChange,
+  EMPTY_FILE_FILTERS,
+  matchesFileFilters,
+  parseFileFilters,
+  parseSearchTokens,
+  type FileFilters,
+} from "@/lib/fileFilters";
+import type { RetentionWindow } from "@/lib/retention";
+import type { PortFile } from "@/lib/types";
+
+const NOW = Date.UTC(2026, 2, 16, 8, 0);
+
+const portFile = (overrides: Partial<PortFile> = {}): PortFile => ({
+  id: "file-1",
+  port_name: "BATAM",
+  week: 12,
+  year: 2026,
+  file_name: "1_BATAM_W12_2026.pdf",
+  file_url: "https://example.com/1_BATAM_W12_2026.pdf",
+  uploaded_at: new Date(NOW).toISOString(),
+  revision: 1,
+  superseded_at: null,
+  ...overrides,
+});
+
+const filters = (overrides: Partial<FileFilters> = {}): FileFilters => ({
+  ...EMPTY_FILE_FILTERS,
+  view: "all",
+  ...overrides,
+});
+
+describe("parseFileFilters", () => {
+  it("reads a shared link", () => {
+    const parsed = parseFileFilters(
+      new URLSearchParams("q=ever&port=batam, shanghai&year=2026&week_from=10&week_to=14&sort=port&order=asc&page=3")
+    );
+    expect(parsed).toMatchObject({
+      q: "ever",
+      ports: ["BATAM", "SHANGHAI"],
+      year: 2026,
+      week_from: 10,
+      week_to: 14,
+      sort: "port",
+      order: "asc",
+      page: 3,
+    });
+  });
+
+  it("turns a single week into a one-week range", () => {
+    expect(parseFileFilters(new URLSearchParams("week=7"))).toMatchObject({ week_from: 7, week_to: 7 });
+  });
+
+  it("ignores invalid values instead of rejecting the link", () => {
+    expect(parseFileFilters(new URLSearchParams("year=abc&week_from=60&uploaded_within=2d&view=old&page=0"))).toEqual(
+      EMPTY_FILE_FILTERS
+    );
+  });
+});
+
+describe("parseSearchTokens", () => {
+  it("splits week, year and text words", () => {
+    expect(parseSearchTokens("Batam w12 2026 EVER")).toEqual([
+      { kind: "text", value: "batam" },
+      { kind: "week", value: 12 },
+      { kind: "year", value: 2026 },
+      { kind: "text", value: "ever" },
+    ]);
+  });
+});
+
+describe("matchesFileFilters", () => {
+  it("hides superseded revisions unless asked for", () => {
+    const old = portFile({ superseded_at: new Date(NOW).toISOString() });
+    expect(matchesFileFilters(old, filters())).toBe(false);
+    expect(matchesFileFilters(old, filters({ revisions: true }))).toBe(true);
+  });
+
+  it("filters by port, year and week range", () => {
+    const file = portFile();
+    expect(matchesFileFilters(file, filters({ ports: ["BATAM", "SHANGHAI"] }))).toBe(true);
+    expect(matchesFileFilters(file, filters({ ports: ["SHANGHAI"] }))).toBe(false);
+    expect(matchesFileFilters(file, filters({ year: 2025 }))).toBe(false);
+    expect(matchesFileFilters(file, filters({ week_from: 10, week_to: 12 }))).toBe(true);
+    expect(matchesFileFilters(file, filters({ week_from: 13 }))).toBe(false);
+  });
+
+  it("filters by upload age", () => {
+    const file = portFile({ uploaded_at: new Date(NOW - 3 * 86400000).toISOString() });
+    expect(matchesFileFilters(file, filters({ uploaded_within: "7d" }), null, NOW)).toBe(true);
+    expect(matchesFileFilters(file, filters({ uploaded_within: "1d" }), null, NOW)).toBe(false);
+  });
+
+  it("needs every search word to match", () => {
+    const file = portFile();
+    expect(matchesFileFilters(file, filters({ q: "bat W12 2026" }))).toBe(true);
+    expect(matchesFileFilters(file, filters({ q: "batam W13" }))).toBe(false);
+    expect(matchesFileFilters(file, filters({ q: "batam shanghai" }))).toBe(false);
+  });
+
+  it("splits current, upcoming and archive views on the retention window", () => {
+    const window: RetentionWindow = {
+      from: { week: 10, year: 2026 },
+      to: { week: 14, year: 2026 },
+      purgeBefore: { week: 1, year: 2026 },
+    };
+    const current = portFile({ week: 10 });
+    const archived = portFile({ week: 9 });
+    const purgeable = portFile({ week: 52, year: 2025 });
+
+    expect(matchesFileFilters(current, filters({ view: "current" }), window)).toBe(true);
+    expect(matchesFileFilters(archived, filters({ view: "current" }), window)).toBe(false);
+    expect(matchesFileFilters(archived, filters({ view: "archive" }), window)).toBe(true);
+    expect(matchesFileFilters(purgeable, filters({ view: "archive" }), window)).toBe(true);
+    expect(matchesFileFilters(portFile({ week: 15 }), filters({ view: "archive" }), window)).toBe(false);
+
+    // Weeks past the window are only left out of the current view
+    const upcoming = portFile({ week: 15 });
+    expect(matchesFileFilters(upcoming, filters({ view: "current" }), window)).toBe(false);
+    expect(matchesFileFilters(upcoming, filters({ view: "upcoming" }), window)).toBe(true);
+    expect(matchesFileFilters(current, filters({ view: "upcoming" }), window)).toBe(false);
+    expect(matchesFileFilters(upcoming, filters({ view: "all" }), window)).toBe(true);
+  });
+});
+
+describe("applyPortFileChange", () => {
+  const page = {
+    files: [
+      portFile({ id: "b", uploaded_at: new Date(NOW - 1000).toISOString() }),
+      portFile({ id: "a", uploaded_at: new Date(NOW - 2000).toISOString() }),
+    ],
+    total: 2,
+  };
+
+  it("puts a new upload in sort order and counts it", () => {
+    const inserted = portFile({ id: "c", uploaded_at: new Date(NOW).toISOString() });
+    const result = applyPortFileChange(page, { type: "insert", file: inserted }, filters(), null, 50);
+    expect(result.files.map((file) => file.id)).toEqual(["c", "b", "a"]);
+    expect(result.total).toBe(3);
+  });
+
+  it("counts but does not show an insert that belongs to an earlier page", () => {
+    const inserted = portFile({ id: "c", uploaded_at: new Date(NOW).toISOString() });
+    const result = applyPortFileChange(page, { type: "insert", file: inserted }, filters({ page: 2 }), null, 50);
+    expect(result.files).toBe(page.files);
+    expect(result.total).toBe(3);
+  });
+
+  it("ignores inserts outside the filters", () => {
+    const inserted = portFile({ id: "c", port_name: "SHANGHAI" });
+    expect(applyPortFileChange(page, { type: "insert", file: inserted }, filters({ ports: ["BATAM"] }), null, 50)).toBe(
+      page
+    );
+  });
+
+  it("drops a row that was deleted or superseded", () => {
+    const deleted = applyPortFileChange(page, { type: "delete", id: "a" }, filters(), null, 50);
+    expect(deleted).toEqual({ files: [page.files[0]], total: 1 });
+
+    const superseded = { ...page.files[0], superseded_at: new Date(NOW).toISOString() };
+    const updated = applyPortFileChange(page, { type: "update", file: superseded }, filters(), null, 50);
+    expect(updated).toEqual({ files: [page.files[1]], total: 1 });
+  });
+
+  it("leaves the page alone for changes to rows it does not show", () => {
+    expect(applyPortFileChange(page, { type: "delete", id: "z" }, filters(), null, 50)).toBe(page);
+  });
+});
@@ -0,0 +1,266 @@
+import { formatIsoWeekLabel } from "@/lib/isoWeek";
+import { isPublished } from "@/lib/publishing";
+import { retentionStatus, type RetentionWindow } from "@/lib/retention";
+import { isLatestRevision } from "@/lib/revisions";
+import type { PortFile, PortFileFacets } from "@/lib/types";
+
+// =========================
+// FILTER STATE
+// =========================
+// Serialized into the home page query string so a filtered view can be shared,
+// e.g. /?port=SHANGHAI&year=2026&week_from=10&week_to=14
+export const UPLOADED_WITHIN = {
+  "1d": { days: 1 },
+  "7d": { days: 7 },
+  "30d": { days: 30 },
+  "90d": { days: 90 },
+} as const;
+
+export type UploadedWithin = keyof typeof UPLOADED_WITHIN;
+export type FileGroupBy = "week" | "port";
+export type FileSort = "uploaded_at" | "port" | "week";
+export type SortOrder = "asc" | "desc";
+// current: the retention window around this week; upcoming: later weeks;
+// archive: older weeks
+export type FileView = "current" | "upcoming" | "archive" | "all";
+
+export const FILE_PAGE_SIZE = 50;
+
+export type FileFilters = {
+  q: string;
+  ports: string[];
+  year: number | null;
+  week_from: number | null;
+  week_to: number | null;
+  uploaded_within: UploadedWithin | null;
+  view: FileView;
+  group: FileGroupBy | null;
+  revisions: boolean;
+  sort: FileSort;
+  order: SortOrder;
+  // 1-based
+  page: number;
+};
+
+export const EMPTY_FILE_FILTERS: FileFilters = {
+  q: "",
+  ports: [],
+  year: null,
+  week_from: null,
+  week_to: null,
+  uploaded_within: null,
+  view: "current",
+  group: null,
+  revisions: false,
+  sort: "uploaded_at",
+  order: "desc",
+  page: 1,
+};
+
+function intParam(params: URLSearchParams, key: string, min: number, max: number) {
+  const number = Number(params.get(key));
+  return params.get(key) && Number.isInteger(number) && number >= min && number <= max ? number : null;
+}
+
+// Lenient: invalid values in a shared link are ignored rather than rejected
+export function parseFileFilters(params: URLSearchParams): FileFilters {
+  const within = params.get("uploaded_within");
+  const group = params.get("group");
+  const view = params.get("view");
+  const sort = params.get("sort");
+  const week = intParam(params, "week", 1, 53);
+
+  return {
+    q: params.get("q") ?? "",
+    ports: (params.get("port") ?? "")
+      .split(",")
+      .map((port) => port.trim().toUpperCase())
+      .filter(Boolean),
+    year: intParam(params, "year", 2000, 2100),
+    week_from: week ?? intParam(params, "week_from", 1, 53),
+    week_to: week ?? intParam(params, "week_to", 1, 53),
+    uploaded_within: within && within in UPLOADED_WITHIN ? (within as UploadedWithin) : null,
+    view: view === "upcoming" || view === "archive" || view === "all" ? view : "current",
+    group: group === "week" || group === "port" ? group : null,
+    revisions: params.get("revisions") === "all",
+    sort: sort === "port" || sort === "week" ? sort : "uploaded_at",
+    order: params.get("order") === "asc" ? "asc" : "desc",
+    page: intParam(params, "page", 1, 100000) ?? 1,
+  };
+}
+
+export function fileFiltersToQuery(filters: FileFilters) {
+  const params = new URLSearchParams();
+  if (filters.q.trim()) params.set("q", filters.q.trim());
+  if (filters.ports.length > 0) params.set("port", filters.ports.join(","));
+  if (filters.year !== null) params.set("year", String(filters.year));
+  if (filters.week_from !== null) params.set("week_from", String(filters.week_from));
+  if (filters.week_to !== null) params.set("week_to", String(filters.week_to));
+  if (filters.uploaded_within) params.set("uploaded_within", filters.uploaded_within);
+  if (filters.view !== "current") params.set("view", filters.view);
+  if (filters.group) params.set("group", filters.group);
+  if (filters.revisions) params.set("revisions", "all");
+  if (filters.sort !== "uploaded_at") params.set("sort", filters.sort);
+  if (filters.order !== "desc") params.set("order", filters.order);
+  if (filters.page > 1) params.set("page", String(filters.page));
+  return params.toString();
+}
+
+export function activeFilterCount(filters: FileFilters) {
+  return [
+    filters.q.trim(),
+    filters.ports.length > 0,
+    filters.year !== null,
+    filters.week_from !== null || filters.week_to !== null,
+    filters.uploaded_within,
+  ].filter(Boolean).length;
+}
+
+// =========================
+// MATCHING
+// =========================
+// Mirrors the server-side query in portFileQuery.ts (minus PDF text matches),
+// for checking rows that arrive outside a page load.
+// Search terms are matched per token: "w12" or a bare 1–2 digit number is an
+// exact week, a 4-digit number an exact year, anything else a substring of the
+// port or file name (or, server-side, a word in the PDF text). So "12" no
+// longer matches year 2012 or 120-something names.
+export type SearchToken =
+  | { kind: "week"; value: number }
+  | { kind: "year"; value: number }
+  | { kind: "text"; value: string };
+
+export function parseSearchTokens(q: string): SearchToken[] {
+  return q
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((token): SearchToken => {
+      const week = token.match(/^(?:w|wk|week)?(\d{1,2})$/);
+      if (week) return { kind: "week", value: Number(week[1]) };
+      if (/^\d{4}$/.test(token)) return { kind: "year", value: Number(token) };
+      return { kind: "text", value: token };
+    });
+}
+
+function matchesSearchToken(file: PortFile, token: SearchToken) {
+  if (token.kind === "week") return file.week === token.value;
+  if (token.kind === "year") return file.year === token.value;
+  return file.port_name.toLowerCase().includes(token.value) || file.file_name.toLowerCase().includes(token.value);
+}
+
+export function matchesFileFilters(
+  file: PortFile,
+  filters: FileFilters,
+  window: RetentionWindow | null = null,
+  now = Date.now()
+) {
+  if (!isPublished(file)) return false;
+  if (!filters.revisions && !isLatestRevision(file)) return false;
+  if (window && filters.view !== "all") {
+    const status = retentionStatus(file, window);
+    const archived = status === "archived" || status === "purge";
+    if (filters.view === "archive" ? !archived : status !== filters.view) return false;
+  }
+  if (filters.ports.length > 0 && !filters.ports.includes(file.port_name.trim().toUpperCase())) return false;
+  if (filters.year !== null && file.year !== filters.year) return false;
+  if (filters.week_from !== null && file.week < filters.week_from) return false;
+  if (filters.week_to !== null && file.week > filters.week_to) return false;
+
+  if (filters.uploaded_within) {
+    const since = now - UPLOADED_WITHIN[filters.uploaded_within].days * 86400000;
+    if (new Date(file.uploaded_at).getTime() < since) return false;
+  }
+
+  return parseSearchTokens(filters.q).every((token) => matchesSearchToken(file, token));
+}
+
+// Distinct ports and years, as the port_file_facets view returns them
+export function portFileFacets(files: Pick<PortFile, "port_name" | "year">[]): PortFileFacets {
+  return {
+    ports: [...new Set(files.map((file) => file.port_name.trim().toUpperCase()))].sort(),
+    years: [...new Set(files.map((file) => file.year))].sort((a, b) => b - a),
+  };
+}
+
+// =========================
+// GROUPING
+// =========================
+export type FileGroup = { key: string; label: string; files: PortFile[] };
+
+// Weeks newest first, ports alphabetically; files keep their incoming order
+export function groupFiles(files: PortFile[], groupBy: FileGroupBy, intlLocale?: string): FileGroup[] {
+  const groups = new Map<string, FileGroup>();
+
+  for (const file of files) {
+    const port = file.port_name.trim().toUpperCase();
+    const key = groupBy === "port" ? port : `${file.year}-${String(file.week).padStart(2, "0")}`;
+    const label = groupBy === "port" ? port : formatIsoWeekLabel(file.week, file.year, intlLocale);
+
+    if (!groups.has(key)) groups.set(key, { key, label, files: [] });
+    groups.get(key)!.files.push(file);
+  }
+
+  return [...groups.values()].sort((a, b) =>
+    groupBy === "port" ? a.key.localeCompare(b.key) : b.key.localeCompare(a.key)
+  );
+}
+
+// =========================
+// LIVE UPDATES
+// =========================
+export type PortFileChange =
+  | { type: "insert" | "update"; file: PortFile }
+  | { type: "delete"; id: string };
+
+export type FilePage = { files: PortFile[]; total: number };
+
+// Same order as the server: the sort columns, then id for ties
+export function compareFiles(a: PortFile, b: PortFile, sort: FileSort, order: SortOrder) {
+  const keys = (file: PortFile): (string | number)[] =>
+    sort === "port"
+      ? [file.port_name, file.year, file.week]
+      : sort === "week"
+        ? [file.year, file.week, file.port_name]
+        : [new Date(file.uploaded_at).getTime()];
+
+  const left = [...keys(a), a.id];
+  const right = [...keys(b), b.id];
+  for (let i = 0; i < left.length; i++) {
+    if (left[i] === right[i]) continue;
+    const diff = left[i] < right[i] ? -1 : 1;
+    return order === "asc" ? diff : -diff;
+  }
+  return 0;
+}
+
+// Applies one realtime change to the visible page. Inserts are placed in sort
+// order but only where they fall inside the page; rows that would land on
+// another page just move the total. Updates and deletes only touch rows that
+// are on the page. Text matches inside PDFs are not known here, so a search
+// may miss live rows until the next reload.
+export function applyPortFileChange(
+  page: FilePage,
+  change: PortFileChange,
+  filters: FileFilters,
+  window: RetentionWindow | null,
+  pageSize: number
+): FilePage {
+  const id = change.type === "delete" ? change.id : change.file.id;
+  const existing = page.files.some((file) => file.id === id);
+  if (!existing && change.type !== "insert") return page;
+
+  const others = page.files.filter((file) => file.id !== id);
+  if (change.type === "delete" || !matchesFileFilters(change.file, filters, window)) {
+    return existing ? { files: others, total: Math.max(0, page.total - 1) } : page;
+  }
+
+  const sorted = [...others, change.file].sort((a, b) => compareFiles(a, b, filters.sort, filters.order));
+  if (existing) return { files: sorted, total: page.total };
+
+  const index = sorted.indexOf(change.file);
+  const fitsPage = index < others.length || others.length < pageSize;
+  // On later pages a row sorting first may belong to an earlier page
+  const onPage = fitsPage && (filters.page === 1 || index > 0);
+  return { files: onPage ? sorted.slice(0, pageSize) : page.files, total: page.total + 1 };
+}
@@ -0,0 +1,78 @@
+import en from "@/lib/messages/en";
+import id from "@/lib/messages/id";
+import zh from "@/lib/messages/zh";
+
+// =========================
+// LOCALES
+// =========================
+export const LOCALES = ["en", "id", "zh"] as const;
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+// Remembers the switcher choice; read by the root layout on every request
+export const LOCALE_COOKIE = "locale";
+
+export const LOCALE_LABELS: Record<Locale, string> = {
+  en: "English",
+  id: "Bahasa Indonesia",
+  zh: "简体中文",
+};
+
+// Passed to Intl / toLocale* for dates and relative times
+export const INTL_LOCALES: Record<Locale, string> = {
+  en: "en-GB",
+  id: "id-ID",
+  zh: "zh-CN",
+};
+
+// Value of <html lang>
+export const HTML_LANG: Record<Locale, string> = {
+  en: "en",
+  id: "id",
+  zh: "zh-Hans",
+};
+
+// =========================
+// MESSAGES
+// =========================
+type SingularKey = Extract<keyof typeof en, `${string}_one`>;
+export type MessageKey = Exclude<keyof typeof en, SingularKey>;
+// Languages without a singular form may leave out the "_one" variants
+export type Messages = Record<MessageKey, string> & Partial<Record<SingularKey, string>>;
+export type MessageParams = Record<string, string | number>;
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+const MESSAGES: Record<Locale, Messages> = { en, id, zh };
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale);
+}
+
+// Saved choice first, then the browser's Accept-Language preference order
+export function resolveLocale(saved: string | null | undefined, acceptLanguage: string | null | undefined): Locale {
+  if (isLocale(saved)) return saved;
+
+  const preferred = (acceptLanguage ?? "")
+    .split(",")
+    .map((part) => {
+      const [tag, quality] = part.trim().split(";q=");
+      return { language: tag.split("-")[0].toLowerCase(), quality: quality ? Number(quality) : 1 };
+    })
+    .sort((a, b) => b.quality - a.quality);
+
+  return preferred.map(({ language }) => language).find(isLocale) ?? DEFAULT_LOCALE;
+}
+
+// Looks up `key` and fills in {param} placeholders.
+// A `count` of 1 selects the "_one" variant when the language has one.
+export function translate(locale: Locale, key: MessageKey, params?: MessageParams): string {
+  const messages: Partial<Record<string, string>> = MESSAGES[locale];
+  const singular = params?.count === 1 ? messages[`${key}_one`] : undefined;
+  const message = singular ?? messages[key] ?? en[key];
+
+  if (!params) return message;
+  return message.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+}
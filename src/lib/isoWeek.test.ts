@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import {
+  addIsoWeeks,
+  compareIsoWeeks,
+  formatIsoWeekLabel,
+  formatIsoWeekRange,
+  getIsoWeek,
+  getIsoWeekRange,
+  getIsoWeeksInYear,
+  isValidIsoWeek,
+} from "@/lib/isoWeek";
+
+const day = (year: number, month: number, date: number) => new Date(year, month - 1, date);
+
+describe("getIsoWeek", () => {
+  it("puts late-December days into week 1 of the next year", () => {
+    expect(getIsoWeek(day(2025, 12, 29))).toEqual({ week: 1, year: 2026 });
+    expect(getIsoWeek(day(2025, 12, 31))).toEqual({ week: 1, year: 2026 });
+    expect(getIsoWeek(day(2024, 12, 30))).toEqual({ week: 1, year: 2025 });
+  });
+
+  it("puts early-January days into the last week of the previous year", () => {
+    expect(getIsoWeek(day(2021, 1, 1))).toEqual({ week: 53, year: 2020 });
+    expect(getIsoWeek(day(2021, 1, 3))).toEqual({ week: 53, year: 2020 });
+    expect(getIsoWeek(day(2023, 1, 1))).toEqual({ week: 52, year: 2022 });
+    expect(getIsoWeek(day(2027, 1, 3))).toEqual({ week: 53, year: 2026 });
+  });
+
+  it("starts week 1 on the Monday containing January 4th", () => {
+    expect(getIsoWeek(day(2026, 1, 4))).toEqual({ week: 1, year: 2026 });
+    expect(getIsoWeek(day(2026, 1, 5))).toEqual({ week: 2, year: 2026 });
+    expect(getIsoWeek(day(2021, 1, 4))).toEqual({ week: 1, year: 2021 });
+  });
+
+  it("handles mid-year dates and leap days", () => {
+    expect(getIsoWeek(day(2026, 3, 16))).toEqual({ week: 12, year: 2026 });
+    expect(getIsoWeek(day(2024, 2, 29))).toEqual({ week: 9, year: 2024 });
+  });
+});
+
+describe("getIsoWeeksInYear", () => {
+  it("returns 53 for long years and 52 otherwise", () => {
+    expect(getIsoWeeksInYear(2020)).toBe(53);
+    expect(getIsoWeeksInYear(2026)).toBe(53);
+    expect(getIsoWeeksInYear(2025)).toBe(52);
+    expect(getIsoWeeksInYear(2024)).toBe(52);
+  });
+
+  it("validates week numbers against the year length", () => {
+    expect(isValidIsoWeek(53, 2026)).toBe(true);
+    expect(isValidIsoWeek(53, 2025)).toBe(false);
+    expect(isValidIsoWeek(0, 2026)).toBe(false);
+  });
+});
+
+describe("getIsoWeekRange", () => {
+  it("returns Monday to Sunday across the year boundary", () => {
+    const { start, end } = getIsoWeekRange(1, 2026);
+    expect(start).toEqual(day(2025, 12, 29));
+    expect(end).toEqual(day(2026, 1, 4));
+  });
+
+  it("round-trips with getIsoWeek", () => {
+    for (const year of [2020, 2021, 2025, 2026, 2027]) {
+      for (let week = 1; week <= getIsoWeeksInYear(year); week++) {
+        const { start, end } = getIsoWeekRange(week, year);
+        expect(getIsoWeek(start)).toEqual({ week, year });
+        expect(getIsoWeek(end)).toEqual({ week, year });
+      }
+    }
+  });
+
+  it("formats the range for badges", () => {
+    expect(formatIsoWeekRange(1, 2026)).toBe("29 Dec – 4 Jan");
+    expect(formatIsoWeekLabel(1, 2026)).toBe("W1 2026 · 29 Dec – 4 Jan");
+  });
+
+  it("formats the range in the given locale", () => {
+    expect(formatIsoWeekRange(1, 2026, "id-ID")).toBe("29 Des – 4 Jan");
+    expect(formatIsoWeekRange(1, 2026, "zh-CN")).toBe("12月29日 – 1月4日");
+  });
+});
+
+describe("addIsoWeeks", () => {
+  it("crosses into 53-week and 52-week years", () => {
+    expect(addIsoWeeks({ week: 52, year: 2026 }, 1)).toEqual({ week: 53, year: 2026 });
+    expect(addIsoWeeks({ week: 53, year: 2026 }, 1)).toEqual({ week: 1, year: 2027 });
+    expect(addIsoWeeks({ week: 2, year: 2025 }, -3)).toEqual({ week: 51, year: 2024 });
+  });
+
+  it("orders weeks by year first", () => {
+    expect(compareIsoWeeks({ week: 1, year: 2027 }, { week: 53, year: 2026 })).toBeGreaterThan(0);
+    expect(compareIsoWeeks({ week: 10, year: 2026 }, { week: 10, year: 2026 })).toBe(0);
+  });
+});
@@ -0,0 +1,72 @@
+// =========================
+// ISO-8601 WEEKS
+// =========================
+// Weeks start on Monday and week 1 is the week containing the first Thursday
+// of the year (equivalently, January 4th). Late-December days can belong to
+// week 1 of the next year and early-January days to week 52/53 of the
+// previous one, so the week-year is returned alongside the week.
+
+export type IsoWeek = { week: number; year: number };
+
+const DAY_MS = 86400000;
+
+// Calendar date in UTC so DST shifts never change the day count
+function toUtcDate(date: Date) {
+  return Date.UTC(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+export function getIsoWeek(date: Date): IsoWeek {
+  const day = new Date(toUtcDate(date));
+  // Move to the Thursday of this week; its year is the ISO week-year
+  const weekday = day.getUTCDay() || 7;
+  day.setUTCDate(day.getUTCDate() + 4 - weekday);
+  const year = day.getUTCFullYear();
+  const week = Math.ceil(((day.getTime() - Date.UTC(year, 0, 1)) / DAY_MS + 1) / 7);
+  return { week, year };
+}
+
+export function getIsoWeeksInYear(year: number): number {
+  // Dec 28th is always in the last week of its ISO year
+  return getIsoWeek(new Date(year, 11, 28)).week;
+}
+
+export function getCurrentIsoWeek(): IsoWeek {
+  return getIsoWeek(new Date());
+}
+
+export function isValidIsoWeek(week: number, year: number): boolean {
+  return Number.isInteger(week) && week >= 1 && week <= getIsoWeeksInYear(year);
+}
+
+// Monday..Sunday (local dates) of the given ISO week
+export function getIsoWeekRange(week: number, year: number): { start: Date; end: Date } {
+  const jan4 = new Date(year, 0, 4);
+  const mondayOfWeek1 = 4 - ((jan4.getDay() + 6) % 7);
+  const start = new Date(year, 0, mondayOfWeek1 + (week - 1) * 7);
+  const end = new Date(year, 0, mondayOfWeek1 + (week - 1) * 7 + 6);
+  return { start, end };
+}
+
+// "29 Dec – 4 Jan", or "12月29日 – 1月4日" for zh-CN
+export function formatIsoWeekRange(week: number, year: number, intlLocale = "en-GB"): string {
+  const { start, end } = getIsoWeekRange(week, year);
+  const format = (date: Date) =>
+    date.toLocaleDateString(intlLocale, { day: "numeric", month: "short" });
+  return `${format(start)} – ${format(end)}`;
+}
+
+// "W1 2026 · 29 Dec – 4 Jan"
+export function formatIsoWeekLabel(week: number, year: number, intlLocale = "en-GB"): string {
+  return `W${week} ${year} · ${formatIsoWeekRange(week, year, intlLocale)}`;
+}
+
+// Negative when a is earlier than b
+export function compareIsoWeeks(a: IsoWeek, b: IsoWeek): number {
+  return a.year - b.year || a.week - b.week;
+}
+
+// The ISO week `weeks` weeks before (negative) or after the given one
+export function addIsoWeeks(target: IsoWeek, weeks: number): IsoWeek {
+  const { start } = getIsoWeekRange(target.week, target.year);
+  return getIsoWeek(new Date(start.getFullYear(), start.getMonth(), start.getDate() + weeks * 7));
+}
@@ -0,0 +1,41 @@
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { FileStorage } from "@/lib/dataAccess";
+import { localFileUrl } from "@/lib/memoryBackend";
+
+// =========================
+// LOCAL FILESYSTEM STORAGE
+// =========================
+// PDFs under LOCAL_STORAGE_DIR, so they survive a dev server restart even
+// though the in-memory rows do not. Server only.
+export function createLocalFileStorage(rootDir: string): FileStorage {
+  const root = path.resolve(rootDir);
+
+  // Storage paths come from URLs too; never leave the root directory
+  function resolve(objectPath: string) {
+    const fullPath = path.resolve(root, objectPath);
+    if (!fullPath.startsWith(root + path.sep)) throw new Error(`Invalid storage path ${objectPath}`);
+    return fullPath;
+  }
+
+  return {
+    async upload(objectPath, file) {
+      const fullPath = resolve(objectPath);
+      await mkdir(path.dirname(fullPath), { recursive: true });
+      // "wx" fails when the file exists, like upsert: false
+      await writeFile(fullPath, Buffer.from(await file.arrayBuffer()), { flag: "wx" });
+    },
+
+    async download(objectPath) {
+      return new Blob([await readFile(resolve(objectPath))], { type: "application/pdf" });
+    },
+
+    async remove(paths) {
+      for (const objectPath of paths) await rm(resolve(objectPath), { force: true });
+    },
+
+    async signedUrl(objectPath, _expiresIn, download) {
+      return localFileUrl(objectPath, download);
+    },
+  };
+}
@@ -0,0 +1,53 @@
+import nodemailer from "nodemailer";
+
+// =========================
+// MAIL TRANSPORT
+// =========================
+// MAIL_TRANSPORT=smtp sends through SMTP_HOST/SMTP_PORT (e.g. a local Mailpit
+// or MailHog catcher on localhost:1025 in development). The default "console"
+// transport only logs messages.
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  headers?: Record<string, string>;
+};
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+function mailFrom() {
+  return process.env.MAIL_FROM || "SITC Batam Schedules <no-reply@localhost>";
+}
+
+export class SmtpTransport implements MailTransport {
+  private transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST || "localhost",
+    port: Number(process.env.SMTP_PORT || 1025),
+    secure: process.env.SMTP_SECURE === "true",
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined,
+  });
+
+  async send(message: MailMessage) {
+    await this.transporter.sendMail({ from: mailFrom(), ...message });
+  }
+}
+
+export class ConsoleTransport implements MailTransport {
+  async send(message: MailMessage) {
+    console.info(`[mail] to=${message.to} subject="${message.subject}"\n${message.text}`);
+  }
+}
+
+let transport: MailTransport | null = null;
+
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    transport = process.env.MAIL_TRANSPORT === "smtp" ? new SmtpTransport() : new ConsoleTransport();
+  }
+  return transport;
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { EMPTY_FILE_FILTERS } from "@/lib/fileFilters";
+import { createMemoryAuth, createMemoryPortFiles } from "@/lib/memoryBackend";
+import type { PortFileQuery } from "@/lib/portFileQuery";
+import type { PortFile } from "@/lib/types";
+
+const portFile = (id: string, port_name: string, week: number, overrides: Partial<PortFile> = {}): PortFile => ({
+  id,
+  port_name,
+  week,
+  year: 2026,
+  file_name: `${id}_${port_name}_W${week}_2026.pdf`,
+  file_url: `/api/local-files/port-files/${id}.pdf`,
+  uploaded_at: new Date(Date.UTC(2026, 2, week)).toISOString(),
+  revision: 1,
+  superseded_at: null,
+  ...overrides,
+});
+
+const query = (overrides: Partial<PortFileQuery> = {}): PortFileQuery => {
+  const { q, ports, year, week_from, week_to, uploaded_within, view, sort, order } = EMPTY_FILE_FILTERS;
+  return {
+    q,
+    ports,
+    year,
+    week_from,
+    week_to,
+    uploaded_within,
+    view,
+    sort,
+    order,
+    retention: null,
+    latest: true,
+    offset: 0,
+    limit: 100,
+    ...overrides,
+  };
+};
+
+describe("memory port files", () => {
+  const files = [
+    portFile("1", "BATAM", 10),
+    portFile("2", "SHANGHAI", 11),
+    portFile("3", "BATAM", 12, { superseded_at: "2026-03-20T00:00:00.000Z" }),
+    portFile("4", "BATAM", 12, { revision: 2 }),
+  ];
+
+  it("filters, sorts and pages like GET /api/port-files", async () => {
+    const portFiles = createMemoryPortFiles(files);
+
+    const page = await portFiles.list(query({ ports: ["BATAM"], sort: "week", order: "asc", limit: 1, offset: 1 }));
+    expect(page.total).toBe(2);
+    expect(page.files.map((file) => file.id)).toEqual(["4"]);
+
+    const all = await portFiles.list(query({ latest: false, q: "w12" }));
+    expect(all.files.map((file) => file.id).sort()).toEqual(["3", "4"]);
+  });
+
+  it("leaves drafts, scheduled and withdrawn files out of the list", async () => {
+    const portFiles = createMemoryPortFiles([
+      ...files,
+      portFile("5", "SHANGHAI", 12, { status: "draft" }),
+      portFile("6", "SHANGHAI", 13, { status: "scheduled", publish_at: "2026-03-30T00:00:00.000Z" }),
+      portFile("7", "SHANGHAI", 14, { status: "withdrawn" }),
+    ]);
+
+    const page = await portFiles.list(query({ ports: ["SHANGHAI"], latest: false }));
+    expect(page.files.map((file) => file.id)).toEqual(["2"]);
+  });
+
+  it("finds duplicates and facets among its own rows", async () => {
+    const portFiles = createMemoryPortFiles([
+      ...files,
+      portFile("5", "SHANGHAI", 12, { content_hash: "abc", uploaded_at: "2026-03-21T00:00:00.000Z" }),
+      portFile("6", "JAKARTA", 13, { content_hash: "abc", status: "draft" }),
+    ]);
+
+    expect((await portFiles.findByContentHash("abc")).map((file) => file.id)).toEqual(["6", "5"]);
+    expect(await portFiles.facets()).toEqual({ ports: ["BATAM", "SHANGHAI"], years: [2026] });
+  });
+
+  it("never hands out its stored rows", async () => {
+    const portFiles = createMemoryPortFiles(files);
+    const row = await portFiles.get("1");
+    row!.port_name = "CHANGED";
+    expect((await portFiles.get("1"))?.port_name).toBe("BATAM");
+  });
+
+  it("refuses to restore a row that still exists", async () => {
+    const portFiles = createMemoryPortFiles(files);
+    await expect(portFiles.restore(files[0])).rejects.toThrow("already exists");
+  });
+});
+
+describe("memory auth", () => {
+  it("signs in known users only", async () => {
+    const auth = createMemoryAuth([{ id: "u1", email: "ops@example.com", password: "secret" }]);
+
+    await expect(auth.signIn("ops@example.com", "wrong")).rejects.toThrow("Invalid login credentials");
+    expect(await auth.currentUser()).toBeNull();
+
+    expect(await auth.signIn(" OPS@example.com ", "secret")).toEqual({ id: "u1", email: "ops@example.com" });
+    expect(await auth.currentUser()).toEqual({ id: "u1", email: "ops@example.com" });
+
+    await auth.signOut();
+    expect(await auth.currentUser()).toBeNull();
+  });
+});
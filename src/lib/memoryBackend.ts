@@ -0,0 +1,168 @@
+import type {
+  AuthService,
+  AuthUser,
+  DataBackend,
+  FileStorage,
+  PortFileRepository,
+} from "@/lib/dataAccess";
+import { compareFiles, EMPTY_FILE_FILTERS, matchesFileFilters, portFileFacets } from "@/lib/fileFilters";
+import { isPublished } from "@/lib/publishing";
+import { portFileUrl } from "@/lib/storage";
+import type { PortFile } from "@/lib/types";
+
+// =========================
+// IN-MEMORY BACKEND
+// =========================
+// Keeps everything in the current process: the offline tests and
+// DATA_BACKEND=memory use it. Rows are copied in and out so callers can never
+// change stored state by mutating a result.
+
+// Served by GET /api/local-files/<path> when DATA_BACKEND=memory
+export const LOCAL_FILES_ROUTE = "/api/local-files";
+
+// Nothing to sign offline: the link does not expire
+export function localFileUrl(path: string, download?: string) {
+  return `${LOCAL_FILES_ROUTE}/${path}${download ? `?download=${encodeURIComponent(download)}` : ""}`;
+}
+
+export function createMemoryPortFiles(initial: PortFile[] = []): PortFileRepository {
+  const rows = new Map(initial.map((row) => [row.id, { ...row }]));
+
+  function find(id: string) {
+    const row = rows.get(id);
+    if (!row) throw new Error(`Port file ${id} not found`);
+    return row;
+  }
+
+  return {
+    async list(query) {
+      const filters = { ...EMPTY_FILE_FILTERS, ...query, revisions: !query.latest };
+      const files = [...rows.values()]
+        .filter((row) => matchesFileFilters(row, filters, query.retention))
+        .sort((a, b) => compareFiles(a, b, query.sort, query.order));
+      return {
+        files: files.slice(query.offset, query.offset + query.limit).map((row) => ({ ...row })),
+        total: files.length,
+      };
+    },
+
+    async get(id) {
+      const row = rows.get(id);
+      return row ? { ...row } : null;
+    },
+
+    async facets() {
+      return portFileFacets([...rows.values()].filter(isPublished));
+    },
+
+    async findByContentHash(hash) {
+      return [...rows.values()]
+        .filter((row) => row.content_hash === hash)
+        .sort((a, b) => Date.parse(a.uploaded_at) - Date.parse(b.uploaded_at))
+        .map((row) => ({ ...row }));
+    },
+
+    async listWeek(week, year) {
+      return [...rows.values()].filter((row) => row.week === week && row.year === year).map((row) => ({ ...row }));
+    },
+
+    async listScheduled() {
+      return [...rows.values()]
+        .filter((row) => row.status === "scheduled")
+        .sort((a, b) => Date.parse(a.publish_at ?? "") - Date.parse(b.publish_at ?? ""))
+        .map((row) => ({ ...row }));
+    },
+
+    async insert(row) {
+      const id = crypto.randomUUID();
+      const created = { ...row, id, file_url: portFileUrl(id) };
+      rows.set(created.id, created);
+      return { ...created };
+    },
+
+    async update(id, changes) {
+      const row = Object.assign(find(id), changes);
+      return { ...row };
+    },
+
+    async setSupersededAt(ids, supersededAt) {
+      for (const id of ids) find(id).superseded_at = supersededAt;
+    },
+
+    async remove(id) {
+      const row = find(id);
+      rows.delete(id);
+      return { ...row };
+    },
+
+    async restore(row) {
+      if (rows.has(row.id)) throw new Error(`Port file ${row.id} already exists`);
+      rows.set(row.id, { ...row });
+    },
+  };
+}
+
+export function createMemoryStorage(initial: Record<string, Blob> = {}): FileStorage {
+  const objects = new Map(Object.entries(initial));
+
+  return {
+    async upload(path, file, contentType) {
+      if (objects.has(path)) throw new Error(`Object ${path} already exists`);
+      objects.set(path, new Blob([await file.arrayBuffer()], { type: contentType }));
+    },
+
+    async download(path) {
+      const object = objects.get(path);
+      if (!object) throw new Error(`Object ${path} not found`);
+      return object;
+    },
+
+    // Missing paths are skipped, as Supabase does
+    async remove(paths) {
+      for (const path of paths) objects.delete(path);
+    },
+
+    async signedUrl(path, _expiresIn, download) {
+      return localFileUrl(path, download);
+    },
+  };
+}
+
+export type MemoryUser = AuthUser & { password: string };
+
+export function createMemoryAuth(users: MemoryUser[] = []): AuthService {
+  let current: AuthUser | null = null;
+
+  return {
+    async signIn(email, password) {
+      const user = users.find((entry) => entry.email === email.trim().toLowerCase() && entry.password === password);
+      if (!user) throw new Error("Invalid login credentials");
+      current = { id: user.id, email: user.email };
+      return current;
+    },
+
+    async currentUser() {
+      return current;
+    },
+
+    async signOut() {
+      current = null;
+    },
+  };
+}
+
+export function createMemoryBackend({
+  files,
+  objects,
+  storage,
+}: {
+  files?: PortFile[];
+  objects?: Record<string, Blob>;
+  // Replaces the in-memory object store, e.g. createLocalFileStorage
+  storage?: FileStorage;
+} = {}): DataBackend {
+  return {
+    portFiles: createMemoryPortFiles(files),
+    storage: storage ?? createMemoryStorage(objects),
+  };
+}
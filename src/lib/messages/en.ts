@@ -0,0 +1,420 @@
+// =========================
+// ENGLISH MESSAGES
+// =========================
+// Source catalogue: every key used by the UI is defined here and the other
+// languages must provide the same keys. Keys ending in "_one" are the
+// singular variant picked when the `count` parameter is 1.
+const en = {
+  "common.cancel": "Cancel",
+  "common.confirm": "Confirm",
+  "common.close": "Close",
+  "common.done": "Done",
+  "common.copy": "Copy",
+  "common.copied": "Copied",
+  "common.refresh": "Refresh",
+  "common.port": "Port",
+  "common.ports": "Ports",
+  "common.email": "Email",
+  "common.noPorts": "No ports yet",
+  "common.allPorts": "All ports",
+  "common.uploading": "Uploading...",
+  "common.loading": "Loading...",
+  "common.backToFiles": "Back to PDF files",
+
+  "language.label": "Language",
+
+  "home.title": "SITC Port PDF Files",
+  "home.subtitle": "All uploaded PDF files",
+  "home.vesselSchedules": "Vessel Schedules",
+  "home.uploadPdf": "Upload PDF",
+  "home.bulkUpload": "Bulk Upload",
+  "home.bulkUploadHint": "Upload many PDFs at once",
+  "home.login": "Login",
+  "home.logout": "Logout",
+  "home.searchPlaceholder": "Search port, vessel, voyage, W12 or 2026...",
+  "home.showSuperseded": "Show superseded revisions",
+  "home.feeds": "Subscribe",
+  "home.feedsHint": "JSON and calendar feeds",
+  "home.notifyMe": "Notify me",
+  "home.notifyMeHint": "Email me when a port's schedule is published",
+  "home.totalFiles": "Total Files:",
+  "home.loading": "Loading port files...",
+  "home.noMatches": "No files match your filters",
+  "home.noFiles": "No PDF files uploaded yet",
+  "home.archiveHint": "Later weeks are under Upcoming and older weeks in the Archive, or try clearing the filters",
+  "home.widenHint": "Try a wider week range or clear the filters",
+  "home.uploadFirstHint": "Upload your first PDF using the \"Upload PDF\" button",
+  "home.contactAdmin": "No files available. Please contact admin.",
+  "home.uploadFirst": "Upload First PDF",
+  "home.footer": "{count} files available",
+  "home.footer_one": "{count} file available",
+
+  "announcement.dismiss": "Dismiss",
+  "announcement.ports": "For {ports}",
+
+  "live.new": "New",
+  "live.connected": "Live",
+  "live.reconnecting": "Reconnecting…",
+  "live.banner": "{count} new schedules since you opened this page",
+  "live.banner_one": "{count} new schedule since you opened this page",
+  "live.show": "Show",
+  "live.dismiss": "Dismiss",
+
+  "table.no": "No.",
+  "table.portName": "Port Name",
+  "table.weekYear": "Week & Year",
+  "table.fileName": "File Name",
+  "table.uploaded": "Uploaded",
+  "table.actions": "Actions",
+  "table.fileCount": "{count} files",
+  "table.fileCount_one": "{count} file",
+
+  "file.revision": "Rev {revision}",
+  "file.superseded": "Superseded",
+  "file.current": "Current",
+  "file.uploadedBy": "by {name}",
+  "file.preview": "Preview",
+  "file.previewHint": "Preview PDF",
+  "file.view": "View",
+  "file.download": "Download",
+  "file.downloadHint": "Download PDF",
+  "file.history": "History",
+  "file.historyHint": "Revision history",
+  "file.withdraw": "Withdraw",
+  "file.withdrawHint": "Hide from visitors",
+  "file.share": "Share",
+  "file.shareHint": "Create a link for a customer",
+  "file.delete": "Delete",
+  "file.deleteHint": "Delete PDF",
+
+  "alert.loadFailed": "Error loading files: {message}",
+  "alert.historyFailed": "Error loading history: {message}",
+  "alert.loginFailed": "Login failed: {message}",
+  "alert.loginSuccess": "Login successful!",
+  "alert.logoutSuccess": "Logged out successfully",
+  "alert.selectFile": "Please select a file",
+  "alert.unknownPort": "{port} is not in the port catalogue",
+  "alert.portNotAllowed": "You are not allowed to upload for {port}",
+  "alert.uploadSuccess": "File uploaded successfully!",
+  "alert.revisionSuccess": "Revision {revision} uploaded successfully!",
+  "alert.uploadFailed": "Upload failed: {message}",
+  "alert.deleteSuccess": "File deleted successfully!",
+  "alert.deleteFailed": "Delete failed: {message}",
+  "alert.exportFailed": "Export failed: {message}",
+  "alert.withdrawSuccess": "File withdrawn",
+  "alert.withdrawFailed": "Withdraw failed: {message}",
+  "alert.draftSaved": "Saved as draft",
+  "alert.scheduled": "Scheduled for release on {date}",
+
+  "login.title": "Admin Login",
+  "login.password": "Password",
+  "login.submit": "Sign In",
+
+  "upload.title": "Upload PDF File",
+  "upload.portName": "Port Name *",
+  "upload.selectAssignedPort": "Select an assigned port",
+  "upload.year": "Year *",
+  "upload.week": "Week *",
+  "upload.file": "PDF File *",
+  "upload.changeNote": "Change Note",
+  "upload.changeNotePlaceholder": "e.g., ETD moved +1 day",
+  "upload.revisionNotice":
+    "A schedule for {port} already exists for this week. This upload becomes revision {revision} and supersedes the current one.",
+  "upload.release": "Release",
+  "upload.publishNow": "Publish now",
+  "upload.schedule": "Schedule",
+  "upload.draft": "Save as draft",
+  "upload.publishAt": "Release time",
+  "upload.publishAtInvalid": "Pick a release time in the future",
+  "upload.releaseHint":
+    "Visitors only see this file once it is published. Manage it under Admin → Scheduled Releases.",
+  "upload.target": "File will be uploaded to:",
+  "upload.invalidWeek": "Week {week} does not exist in {year}",
+  "upload.duplicate":
+    "This PDF is already in the archive as {file} for {port} • Week {week}, {year}, uploaded {date}.",
+  "upload.anyway": "Upload anyway",
+  "upload.submit": "Upload PDF",
+
+  "validation.port_required": "Port name is required",
+  "validation.port_too_long": "Port name is too long",
+  "validation.year_range": "Year must be between {min} and {max}",
+  "validation.week_range": "Week must be between 1 and {max} for {year}",
+  "validation.file_required": "PDF file is required",
+  "validation.file_not_pdf": "Only PDF files are allowed",
+  "validation.file_empty": "File is empty",
+  "validation.file_too_large": "File is larger than {max} MB",
+
+  "history.title": "{port} • Week {week}, {year} — History",
+  "history.fallbackTitle": "History",
+  "history.revision": "Revision {revision}",
+
+  "delete.title": "Delete PDF File",
+  "delete.message":
+    "Are you sure you want to delete \"{file}\" for {port} (Week {week}, {year})? This action cannot be undone.",
+  "delete.confirm": "Delete File",
+
+  "withdraw.title": "Withdraw PDF File",
+  "withdraw.message":
+    "Withdraw \"{file}\" for {port} (Week {week}, {year})? Visitors will no longer see it, and the previous revision becomes current again.",
+  "withdraw.confirm": "Withdraw",
+
+  "share.title": "Share {port} • Week {week}, {year}",
+  "share.recipient": "Customer",
+  "share.recipientPlaceholder": "e.g. PT Samudera Logistics",
+  "share.expiresAt": "Link expires",
+  "share.hint":
+    "The link is copied when created. It stops working when it expires, is revoked or the file is withdrawn.",
+  "share.create": "Create Link",
+  "share.empty": "No share links yet",
+  "share.expires": "Expires {date}",
+  "share.state.active": "Active",
+  "share.state.expired": "Expired",
+  "share.state.revoked": "Revoked",
+  "share.revoke": "Revoke",
+
+  "pagination.showing": "Showing {first}–{last} of {total}",
+  "pagination.page": "Page {page} of {lastPage}",
+  "pagination.previous": "Previous",
+  "pagination.next": "Next",
+
+  "export.excelHint": "Export current list to Excel",
+  "export.csvHint": "Export current list to CSV",
+
+  "facets.current": "Current",
+  "facets.upcoming": "Upcoming",
+  "facets.archive": "Archive",
+  "facets.allWeeks": "All weeks",
+  "facets.upcomingHint": "Weeks after W{week} {year}",
+  "facets.archiveHint": "Weeks before W{week} {year}",
+  "facets.portCount": "{count} ports",
+  "facets.allYears": "All years",
+  "facets.weekFrom": "from",
+  "facets.weekTo": "to",
+  "facets.uploadedAnyTime": "Uploaded any time",
+  "facets.uploaded.1d": "Last 24 hours",
+  "facets.uploaded.7d": "Last 7 days",
+  "facets.uploaded.30d": "Last 30 days",
+  "facets.uploaded.90d": "Last 90 days",
+  "facets.noGrouping": "No grouping",
+  "facets.groupByWeek": "Group by week",
+  "facets.groupByPort": "Group by port",
+  "facets.clear": "Clear {count} filters",
+  "facets.clear_one": "Clear {count} filter",
+  "facets.copyLink": "Copy link",
+  "facets.copyLinkHint": "Copy a link to this filtered view",
+
+  "feeds.title": "Subscribe to Schedules",
+  "feeds.calendar": "Calendar (.ics) — Outlook, Google Calendar",
+  "feeds.json": "JSON feed",
+  "feeds.params": "Both feeds also accept {params}.",
+  "feeds.openCalendar": "Open in Calendar App",
+
+  "subscribe.title": "Email Notifications",
+  "subscribe.frequency": "Frequency",
+  "subscribe.instant": "As soon as published",
+  "subscribe.weekly": "Weekly digest",
+  "subscribe.unsubscribeNote": "Every email contains an unsubscribe link.",
+  "subscribe.submit": "Subscribe",
+  "subscribe.submitting": "Subscribing...",
+  "subscribe.instantDone": "We'll email {email} when {ports} schedules are published",
+  "subscribe.weeklyDone": "We'll email {email} a weekly digest for {ports}",
+  "subscribe.confirmSent": "We sent a confirmation link to {email}. Open it to start receiving emails.",
+  "subscribe.requestFailed": "Request failed ({status})",
+
+  "unsubscribe.prompt": "Stop receiving schedule notification emails?",
+  "unsubscribe.submit": "Unsubscribe",
+  "unsubscribe.submitting": "Unsubscribing...",
+  "unsubscribe.done": "{email} will no longer receive schedule emails.",
+  "unsubscribe.incomplete": "This unsubscribe link is incomplete.",
+
+  "confirmSubscription.prompt": "Start receiving schedule notification emails?",
+  "confirmSubscription.submitting": "Confirming...",
+  "confirmSubscription.incomplete": "This confirmation link is incomplete.",
+
+  "schedules.title": "Vessel Schedules",
+  "schedules.subtitle": "Search by vessel, voyage, service or port",
+  "schedules.searchPlaceholder": "Search vessel, voyage, service or port...",
+  "schedules.loading": "Loading schedules...",
+  "schedules.empty": "No schedules found",
+  "schedules.vesselVoyage": "Vessel / Voyage",
+  "schedules.service": "Service",
+  "schedules.portWeek": "Port & Week",
+  "schedules.rotation": "Port Rotation",
+  "schedules.officialPdf": "Official PDF",
+  "schedules.viewPdf": "View PDF",
+  "schedules.notUploaded": "Not uploaded",
+  "schedules.etaEtd": "ETA {eta} · ETD {etd}",
+  "schedules.cutOff": "Cut-off {date}",
+  "schedules.loadFailed": "Error loading schedules: {message}",
+  "schedules.exportFailed": "Error exporting schedules: {message}",
+
+  "bulk.title": "Bulk Upload PDFs",
+  "bulk.drop": "Drop PDFs here or click to choose",
+  "bulk.nameHint": "Port, week and year are read from names like {first} or {second}",
+  "bulk.file": "File",
+  "bulk.week": "Week",
+  "bulk.year": "Year",
+  "bulk.changeNote": "Change note",
+  "bulk.status": "Status",
+  "bulk.optional": "Optional",
+  "bulk.ready": "Ready",
+  "bulk.uploaded": "Uploaded",
+  "bulk.notAssigned": "Not assigned to {port}",
+  "bulk.duplicate": "Already uploaded as {file} ({port} W{week} {year})",
+  "bulk.retry": "Retry",
+  "bulk.remove": "Remove from queue",
+  "bulk.summary": "{uploaded} uploaded, {count} revisions,",
+  "bulk.summary_one": "{uploaded} uploaded, {count} revision,",
+  "bulk.failed": "{count} failed",
+  "bulk.fixRows": "— correct the rows marked in red and retry.",
+  "bulk.submit": "Upload {count} files",
+  "bulk.submit_one": "Upload {count} file",
+
+  "viewer.previousWeek": "Previous: {week}",
+  "viewer.nextWeek": "Next: {week}",
+  "viewer.noEarlierWeek": "No earlier week",
+  "viewer.noLaterWeek": "No later week",
+  "viewer.prev": "Prev",
+  "viewer.next": "Next",
+  "viewer.zoomOut": "Zoom out",
+  "viewer.zoomIn": "Zoom in",
+  "viewer.find": "Find in document",
+  "viewer.noMatches": "No matches",
+  "viewer.matches": "{count} matches · page {page}",
+  "viewer.matches_one": "{count} match · page {page}",
+  "viewer.previousMatch": "Previous match",
+  "viewer.nextMatch": "Next match",
+  "viewer.compare": "Compare side by side",
+  "viewer.compareWith": "Compare with…",
+  "viewer.openInNewTab": "Open in new tab",
+  "viewer.closeComparison": "Close comparison",
+  "viewer.loading": "Loading PDF...",
+  "viewer.loadFailed": "Could not load this PDF: {message}",
+
+  "portPicker.placeholder": "Search by name, alias or UN/LOCODE",
+  "portPicker.noUnlocode": "No UN/LOCODE",
+  "portPicker.filedAs": "Will be filed as {port}",
+  "portPicker.unknown": "Not in the port catalogue",
+
+  "access.checking": "Checking access...",
+  "access.denied": "You don't have permission to view this page",
+
+  "announcements.subtitle":
+    "Notices shown above the schedule list, such as holiday closures, congestion and cut-off changes",
+  "announcements.new": "New Announcement",
+  "announcements.edit": "Edit Announcement",
+  "announcements.loading": "Loading announcements...",
+  "announcements.empty": "No announcements yet",
+  "announcements.column": "Announcement",
+  "announcements.severity": "Severity",
+  "announcements.shown": "Shown",
+  "announcements.actions": "Actions",
+  "announcements.severityInfo": "info",
+  "announcements.severityWarning": "warning",
+  "announcements.severityCritical": "critical",
+  "announcements.live": "Live",
+  "announcements.upcoming": "Upcoming",
+  "announcements.ended": "Ended",
+  "announcements.untilEnded": "until ended",
+  "announcements.editButton": "Edit",
+  "announcements.endNow": "End Now",
+  "announcements.delete": "Delete",
+  "announcements.title": "Title *",
+  "announcements.titlePlaceholder": "e.g., Office closed for Eid al-Fitr",
+  "announcements.message": "Message",
+  "announcements.starts": "Starts *",
+  "announcements.ends": "Ends",
+  "announcements.formHint":
+    "Ports are comma separated; leave empty to show the announcement for every port. Without an end, it stays up until you end it. Visitors can dismiss an announcement; editing it shows it to them again.",
+  "announcements.save": "Save",
+  "announcements.saved": "Saved \"{title}\"",
+  "announcements.endedAlert": "Ended \"{title}\"",
+  "announcements.deleted": "Deleted \"{title}\"",
+  "announcements.deleteTitle": "Delete Announcement",
+  "announcements.deleteConfirm": "Delete \"{title}\"? Use End Now instead to keep it for reference.",
+  "announcements.loadFailed": "Error loading announcements: {message}",
+  "announcements.saveFailed": "Save failed: {message}",
+  "announcements.updateFailed": "Update failed: {message}",
+  "announcements.deleteFailed": "Delete failed: {message}",
+  "announcements.titleRequired": "Title is required",
+  "announcements.titleTooLong": "Title must be at most {max} characters",
+  "announcements.messageTooLong": "Message must be at most {max} characters",
+  "announcements.severityRequired": "Choose a severity",
+  "announcements.startInvalid": "Start is not a valid date",
+  "announcements.endInvalid": "End is not a valid date",
+  "announcements.endBeforeStart": "End must be after the start",
+
+  "duplicates.subtitle": "Identical PDFs stored more than once, found by comparing content hashes",
+  "duplicates.hashExisting": "Hash Existing Files",
+  "duplicates.sets": "Duplicate sets",
+  "duplicates.redundant": "Redundant copies",
+  "duplicates.unhashed": "Not hashed yet",
+  "duplicates.hashing": "Hashing… {processed} processed",
+  "duplicates.failedCount": "({count} failed)",
+  "duplicates.loading": "Loading report...",
+  "duplicates.empty": "No duplicate files found",
+  "duplicates.unhashedHint": "{count} older files are not hashed yet and are not covered by this report.",
+  "duplicates.unhashedHint_one": "{count} older file is not hashed yet and is not covered by this report.",
+  "duplicates.copies": "{count} copies • {size}",
+  "duplicates.firstUpload": "(first upload)",
+  "duplicates.superseded": "(superseded)",
+  "duplicates.uploaded": "{file} • uploaded {date}",
+  "duplicates.uploadedBy": "{file} • uploaded {date} by {user}",
+  "duplicates.deleteTitle": "Delete Duplicate",
+  "duplicates.deleteConfirm":
+    "Delete \"{file}\" for {port} (Week {week}, {year})? This action cannot be undone.",
+  "duplicates.hashed": "{hashed} files hashed, {failed} failed",
+  "duplicates.hashingStopped": "Hashing stopped: {message}",
+  "duplicates.deleted": "Deleted {file}",
+  "duplicates.loadFailed": "Error loading report: {message}",
+  "duplicates.deleteFailed": "Delete failed: {message}",
+
+  "storage.counts": "{objects} storage objects • {rows} database rows",
+  "storage.recheck": "Re-check",
+  "storage.repairAll": "Repair All",
+  "storage.repairAllTitle": "Repair All Issues",
+  "storage.repairAllConfirm":
+    "This will delete orphaned objects, remove rows whose file is missing and correct file sizes ({count} issues). This action cannot be undone.",
+  "storage.orphanObject": "Storage object without database row",
+  "storage.deleteObject": "Delete object",
+  "storage.missingObject": "Database row without storage object",
+  "storage.deleteRow": "Delete row",
+  "storage.sizeMismatch": "Size mismatch",
+  "storage.useStorageSize": "Use storage size",
+  "storage.sizeDetail": "{file} • row {rowSize}, storage {storageSize}",
+  "storage.checking": "Checking storage...",
+  "storage.consistent": "Storage and database are consistent",
+  "storage.notChecked": "Run a check to compare storage with the database",
+  "storage.incomplete": "Read {read} of {count} database rows. Re-check before repairing.",
+  "storage.incompleteUnknown": "Read {read} of an unknown number of database rows. Re-check before repairing.",
+  "storage.repaired": "{count} issues repaired",
+  "storage.repaired_one": "{count} issue repaired",
+  "storage.repairedPartly": "{repaired} repaired, {failed} failed",
+  "storage.checkFailed": "Check failed: {message}",
+
+  "textIndex.subtitle": "Text extracted from each PDF so search can find vessel names and voyage numbers",
+  "textIndex.retryFailed": "Retry Failed",
+  "textIndex.indexExisting": "Index Existing Files",
+  "textIndex.indexed": "Indexed",
+  "textIndex.pending": "Not indexed yet",
+  "textIndex.failed": "Extraction failed",
+  "textIndex.indexing": "Indexing… {processed} processed",
+  "textIndex.failedCount": "({count} failed)",
+  "textIndex.done": "{indexed} files indexed, {failed} failed",
+  "textIndex.stopped": "Backfill stopped: {message}",
+  "textIndex.loadFailed": "Error loading status: {message}",
+
+  "admin.menu": "Admin",
+  "admin.schedules": "Manage Schedules",
+  "admin.releases": "Scheduled Releases",
+  "admin.announcements": "Announcements",
+  "admin.storage": "Storage Health",
+  "admin.textIndex": "PDF Text Index",
+  "admin.duplicates": "Duplicate Files",
+  "admin.retention": "Retention",
+  "admin.ports": "Port Catalogue",
+  "admin.users": "Users & Roles",
+  "admin.audit": "Audit Log",
+};
+
+export default en;
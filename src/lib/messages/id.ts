@@ -0,0 +1,411 @@
+import type { Messages } from "@/lib/i18n";
+
+// =========================
+// BAHASA INDONESIA
+// =========================
+const id: Messages = {
+  "common.cancel": "Batal",
+  "common.confirm": "Konfirmasi",
+  "common.close": "Tutup",
+  "common.done": "Selesai",
+  "common.copy": "Salin",
+  "common.copied": "Tersalin",
+  "common.refresh": "Muat Ulang",
+  "common.port": "Pelabuhan",
+  "common.ports": "Pelabuhan",
+  "common.email": "Email",
+  "common.noPorts": "Belum ada pelabuhan",
+  "common.allPorts": "Semua pelabuhan",
+  "common.uploading": "Mengunggah...",
+  "common.loading": "Memuat...",
+  "common.backToFiles": "Kembali ke file PDF",
+
+  "language.label": "Bahasa",
+
+  "home.title": "File PDF Pelabuhan SITC",
+  "home.subtitle": "Semua file PDF yang telah diunggah",
+  "home.vesselSchedules": "Jadwal Kapal",
+  "home.uploadPdf": "Unggah PDF",
+  "home.bulkUpload": "Unggah Massal",
+  "home.bulkUploadHint": "Unggah banyak PDF sekaligus",
+  "home.login": "Masuk",
+  "home.logout": "Keluar",
+  "home.searchPlaceholder": "Cari pelabuhan, kapal, voyage, W12 atau 2026...",
+  "home.showSuperseded": "Tampilkan revisi lama",
+  "home.feeds": "Langganan",
+  "home.feedsHint": "Feed JSON dan kalender",
+  "home.notifyMe": "Beri tahu saya",
+  "home.notifyMeHint": "Kirim email saat jadwal pelabuhan diterbitkan",
+  "home.totalFiles": "Total File:",
+  "home.loading": "Memuat file pelabuhan...",
+  "home.noMatches": "Tidak ada file yang cocok dengan filter",
+  "home.noFiles": "Belum ada file PDF yang diunggah",
+  "home.archiveHint": "Minggu berikutnya ada di Mendatang dan minggu yang lebih lama di Arsip, atau coba hapus filter",
+  "home.widenHint": "Coba rentang minggu yang lebih luas atau hapus filter",
+  "home.uploadFirstHint": "Unggah PDF pertama Anda dengan tombol \"Unggah PDF\"",
+  "home.contactAdmin": "Belum ada file. Silakan hubungi admin.",
+  "home.uploadFirst": "Unggah PDF Pertama",
+  "home.footer": "{count} file tersedia",
+
+  "announcement.dismiss": "Tutup",
+  "announcement.ports": "Untuk {ports}",
+
+  "live.new": "Baru",
+  "live.connected": "Langsung",
+  "live.reconnecting": "Menghubungkan ulang…",
+  "live.banner": "{count} jadwal baru sejak Anda membuka halaman ini",
+  "live.show": "Tampilkan",
+  "live.dismiss": "Tutup",
+
+  "table.no": "No.",
+  "table.portName": "Nama Pelabuhan",
+  "table.weekYear": "Minggu & Tahun",
+  "table.fileName": "Nama File",
+  "table.uploaded": "Diunggah",
+  "table.actions": "Aksi",
+  "table.fileCount": "{count} file",
+
+  "file.revision": "Rev {revision}",
+  "file.superseded": "Digantikan",
+  "file.current": "Terkini",
+  "file.uploadedBy": "oleh {name}",
+  "file.preview": "Pratinjau",
+  "file.previewHint": "Pratinjau PDF",
+  "file.view": "Lihat",
+  "file.download": "Unduh",
+  "file.downloadHint": "Unduh PDF",
+  "file.history": "Riwayat",
+  "file.historyHint": "Riwayat revisi",
+  "file.withdraw": "Tarik",
+  "file.withdrawHint": "Sembunyikan dari pengunjung",
+  "file.share": "Bagikan",
+  "file.shareHint": "Buat tautan untuk pelanggan",
+  "file.delete": "Hapus",
+  "file.deleteHint": "Hapus PDF",
+
+  "alert.loadFailed": "Gagal memuat file: {message}",
+  "alert.historyFailed": "Gagal memuat riwayat: {message}",
+  "alert.loginFailed": "Gagal masuk: {message}",
+  "alert.loginSuccess": "Berhasil masuk!",
+  "alert.logoutSuccess": "Berhasil keluar",
+  "alert.selectFile": "Silakan pilih file",
+  "alert.unknownPort": "{port} tidak ada di katalog pelabuhan",
+  "alert.portNotAllowed": "Anda tidak diizinkan mengunggah untuk {port}",
+  "alert.uploadSuccess": "File berhasil diunggah!",
+  "alert.revisionSuccess": "Revisi {revision} berhasil diunggah!",
+  "alert.uploadFailed": "Gagal mengunggah: {message}",
+  "alert.deleteSuccess": "File berhasil dihapus!",
+  "alert.deleteFailed": "Gagal menghapus: {message}",
+  "alert.exportFailed": "Gagal mengekspor: {message}",
+  "alert.withdrawSuccess": "File ditarik",
+  "alert.withdrawFailed": "Gagal menarik file: {message}",
+  "alert.draftSaved": "Disimpan sebagai draf",
+  "alert.scheduled": "Dijadwalkan terbit pada {date}",
+
+  "login.title": "Login Admin",
+  "login.password": "Kata Sandi",
+  "login.submit": "Masuk",
+
+  "upload.title": "Unggah File PDF",
+  "upload.portName": "Nama Pelabuhan *",
+  "upload.selectAssignedPort": "Pilih pelabuhan yang ditugaskan",
+  "upload.year": "Tahun *",
+  "upload.week": "Minggu *",
+  "upload.file": "File PDF *",
+  "upload.changeNote": "Catatan Perubahan",
+  "upload.changeNotePlaceholder": "mis., ETD mundur +1 hari",
+  "upload.revisionNotice":
+    "Jadwal untuk {port} sudah ada untuk minggu ini. Unggahan ini menjadi revisi {revision} dan menggantikan versi saat ini.",
+  "upload.release": "Terbitkan",
+  "upload.publishNow": "Terbitkan sekarang",
+  "upload.schedule": "Jadwalkan",
+  "upload.draft": "Simpan sebagai draf",
+  "upload.publishAt": "Waktu terbit",
+  "upload.publishAtInvalid": "Pilih waktu terbit di masa mendatang",
+  "upload.releaseHint":
+    "Pengunjung baru melihat file ini setelah diterbitkan. Kelola di Admin → Rilis Terjadwal.",
+  "upload.target": "File akan diunggah ke:",
+  "upload.invalidWeek": "Minggu {week} tidak ada di tahun {year}",
+  "upload.duplicate":
+    "PDF ini sudah ada di arsip sebagai {file} untuk {port} • Minggu {week}, {year}, diunggah {date}.",
+  "upload.anyway": "Tetap unggah",
+  "upload.submit": "Unggah PDF",
+
+  "validation.port_required": "Nama pelabuhan wajib diisi",
+  "validation.port_too_long": "Nama pelabuhan terlalu panjang",
+  "validation.year_range": "Tahun harus antara {min} dan {max}",
+  "validation.week_range": "Minggu harus antara 1 dan {max} untuk tahun {year}",
+  "validation.file_required": "File PDF wajib diisi",
+  "validation.file_not_pdf": "Hanya file PDF yang diizinkan",
+  "validation.file_empty": "File kosong",
+  "validation.file_too_large": "File lebih besar dari {max} MB",
+
+  "history.title": "{port} • Minggu {week}, {year} — Riwayat",
+  "history.fallbackTitle": "Riwayat",
+  "history.revision": "Revisi {revision}",
+
+  "delete.title": "Hapus File PDF",
+  "delete.message":
+    "Yakin ingin menghapus \"{file}\" untuk {port} (Minggu {week}, {year})? Tindakan ini tidak dapat dibatalkan.",
+  "delete.confirm": "Hapus File",
+
+  "withdraw.title": "Tarik File PDF",
+  "withdraw.message":
+    "Tarik \"{file}\" untuk {port} (Minggu {week}, {year})? Pengunjung tidak akan melihatnya lagi, dan revisi sebelumnya kembali menjadi versi terkini.",
+  "withdraw.confirm": "Tarik",
+
+  "share.title": "Bagikan {port} • Minggu {week}, {year}",
+  "share.recipient": "Pelanggan",
+  "share.recipientPlaceholder": "mis. PT Samudera Logistics",
+  "share.expiresAt": "Tautan berakhir",
+  "share.hint":
+    "Tautan disalin saat dibuat. Tautan tidak berlaku lagi setelah kedaluwarsa, dicabut, atau file ditarik.",
+  "share.create": "Buat Tautan",
+  "share.empty": "Belum ada tautan berbagi",
+  "share.expires": "Berakhir {date}",
+  "share.state.active": "Aktif",
+  "share.state.expired": "Kedaluwarsa",
+  "share.state.revoked": "Dicabut",
+  "share.revoke": "Cabut",
+
+  "pagination.showing": "Menampilkan {first}–{last} dari {total}",
+  "pagination.page": "Halaman {page} dari {lastPage}",
+  "pagination.previous": "Sebelumnya",
+  "pagination.next": "Berikutnya",
+
+  "export.excelHint": "Ekspor daftar ini ke Excel",
+  "export.csvHint": "Ekspor daftar ini ke CSV",
+
+  "facets.current": "Terkini",
+  "facets.upcoming": "Mendatang",
+  "facets.archive": "Arsip",
+  "facets.allWeeks": "Semua minggu",
+  "facets.upcomingHint": "Minggu setelah W{week} {year}",
+  "facets.archiveHint": "Minggu sebelum W{week} {year}",
+  "facets.portCount": "{count} pelabuhan",
+  "facets.allYears": "Semua tahun",
+  "facets.weekFrom": "dari",
+  "facets.weekTo": "sampai",
+  "facets.uploadedAnyTime": "Diunggah kapan saja",
+  "facets.uploaded.1d": "24 jam terakhir",
+  "facets.uploaded.7d": "7 hari terakhir",
+  "facets.uploaded.30d": "30 hari terakhir",
+  "facets.uploaded.90d": "90 hari terakhir",
+  "facets.noGrouping": "Tanpa pengelompokan",
+  "facets.groupByWeek": "Kelompokkan per minggu",
+  "facets.groupByPort": "Kelompokkan per pelabuhan",
+  "facets.clear": "Hapus {count} filter",
+  "facets.copyLink": "Salin tautan",
+  "facets.copyLinkHint": "Salin tautan ke tampilan yang difilter ini",
+
+  "feeds.title": "Langganan Jadwal",
+  "feeds.calendar": "Kalender (.ics) — Outlook, Google Calendar",
+  "feeds.json": "Feed JSON",
+  "feeds.params": "Kedua feed juga menerima {params}.",
+  "feeds.openCalendar": "Buka di Aplikasi Kalender",
+
+  "subscribe.title": "Notifikasi Email",
+  "subscribe.frequency": "Frekuensi",
+  "subscribe.instant": "Segera setelah diterbitkan",
+  "subscribe.weekly": "Ringkasan mingguan",
+  "subscribe.unsubscribeNote": "Setiap email berisi tautan untuk berhenti berlangganan.",
+  "subscribe.submit": "Berlangganan",
+  "subscribe.submitting": "Mendaftarkan...",
+  "subscribe.instantDone": "Kami akan mengirim email ke {email} saat jadwal {ports} diterbitkan",
+  "subscribe.weeklyDone": "Kami akan mengirim ringkasan mingguan {ports} ke {email}",
+  "subscribe.confirmSent": "Kami mengirim tautan konfirmasi ke {email}. Buka tautan itu untuk mulai menerima email.",
+  "subscribe.requestFailed": "Permintaan gagal ({status})",
+
+  "unsubscribe.prompt": "Berhenti menerima email notifikasi jadwal?",
+  "unsubscribe.submit": "Berhenti berlangganan",
+  "unsubscribe.submitting": "Memproses...",
+  "unsubscribe.done": "{email} tidak akan menerima email jadwal lagi.",
+  "unsubscribe.incomplete": "Tautan berhenti berlangganan ini tidak lengkap.",
+
+  "confirmSubscription.prompt": "Mulai menerima email notifikasi jadwal?",
+  "confirmSubscription.submitting": "Mengonfirmasi...",
+  "confirmSubscription.incomplete": "Tautan konfirmasi ini tidak lengkap.",
+
+  "schedules.title": "Jadwal Kapal",
+  "schedules.subtitle": "Cari berdasarkan kapal, voyage, layanan atau pelabuhan",
+  "schedules.searchPlaceholder": "Cari kapal, voyage, layanan atau pelabuhan...",
+  "schedules.loading": "Memuat jadwal...",
+  "schedules.empty": "Jadwal tidak ditemukan",
+  "schedules.vesselVoyage": "Kapal / Voyage",
+  "schedules.service": "Layanan",
+  "schedules.portWeek": "Pelabuhan & Minggu",
+  "schedules.rotation": "Rotasi Pelabuhan",
+  "schedules.officialPdf": "PDF Resmi",
+  "schedules.viewPdf": "Lihat PDF",
+  "schedules.notUploaded": "Belum diunggah",
+  "schedules.etaEtd": "ETA {eta} · ETD {etd}",
+  "schedules.cutOff": "Cut-off {date}",
+  "schedules.loadFailed": "Gagal memuat jadwal: {message}",
+  "schedules.exportFailed": "Gagal mengekspor jadwal: {message}",
+
+  "bulk.title": "Unggah PDF Massal",
+  "bulk.drop": "Letakkan PDF di sini atau klik untuk memilih",
+  "bulk.nameHint": "Pelabuhan, minggu dan tahun dibaca dari nama seperti {first} atau {second}",
+  "bulk.file": "File",
+  "bulk.week": "Minggu",
+  "bulk.year": "Tahun",
+  "bulk.changeNote": "Catatan perubahan",
+  "bulk.status": "Status",
+  "bulk.optional": "Opsional",
+  "bulk.ready": "Siap",
+  "bulk.uploaded": "Terunggah",
+  "bulk.notAssigned": "Tidak ditugaskan ke {port}",
+  "bulk.duplicate": "Sudah diunggah sebagai {file} ({port} W{week} {year})",
+  "bulk.retry": "Coba lagi",
+  "bulk.remove": "Hapus dari antrean",
+  "bulk.summary": "{uploaded} terunggah, {count} revisi,",
+  "bulk.failed": "{count} gagal",
+  "bulk.fixRows": "— perbaiki baris yang ditandai merah lalu coba lagi.",
+  "bulk.submit": "Unggah {count} file",
+
+  "viewer.previousWeek": "Sebelumnya: {week}",
+  "viewer.nextWeek": "Berikutnya: {week}",
+  "viewer.noEarlierWeek": "Tidak ada minggu sebelumnya",
+  "viewer.noLaterWeek": "Tidak ada minggu berikutnya",
+  "viewer.prev": "Sebelumnya",
+  "viewer.next": "Berikutnya",
+  "viewer.zoomOut": "Perkecil",
+  "viewer.zoomIn": "Perbesar",
+  "viewer.find": "Cari di dokumen",
+  "viewer.noMatches": "Tidak ditemukan",
+  "viewer.matches": "{count} hasil · halaman {page}",
+  "viewer.previousMatch": "Hasil sebelumnya",
+  "viewer.nextMatch": "Hasil berikutnya",
+  "viewer.compare": "Bandingkan berdampingan",
+  "viewer.compareWith": "Bandingkan dengan…",
+  "viewer.openInNewTab": "Buka di tab baru",
+  "viewer.closeComparison": "Tutup perbandingan",
+  "viewer.loading": "Memuat PDF...",
+  "viewer.loadFailed": "PDF ini tidak dapat dimuat: {message}",
+
+  "portPicker.placeholder": "Cari nama, alias atau UN/LOCODE",
+  "portPicker.noUnlocode": "Tanpa UN/LOCODE",
+  "portPicker.filedAs": "Akan disimpan sebagai {port}",
+  "portPicker.unknown": "Tidak ada di katalog pelabuhan",
+
+  "access.checking": "Memeriksa akses...",
+  "access.denied": "Anda tidak memiliki izin untuk melihat halaman ini",
+
+  "announcements.subtitle":
+    "Pemberitahuan di atas daftar jadwal, seperti libur kantor, kepadatan pelabuhan, dan perubahan cut-off",
+  "announcements.new": "Pengumuman Baru",
+  "announcements.edit": "Ubah Pengumuman",
+  "announcements.loading": "Memuat pengumuman...",
+  "announcements.empty": "Belum ada pengumuman",
+  "announcements.column": "Pengumuman",
+  "announcements.severity": "Tingkat",
+  "announcements.shown": "Ditampilkan",
+  "announcements.actions": "Aksi",
+  "announcements.severityInfo": "info",
+  "announcements.severityWarning": "peringatan",
+  "announcements.severityCritical": "kritis",
+  "announcements.live": "Tayang",
+  "announcements.upcoming": "Mendatang",
+  "announcements.ended": "Berakhir",
+  "announcements.untilEnded": "sampai diakhiri",
+  "announcements.editButton": "Ubah",
+  "announcements.endNow": "Akhiri Sekarang",
+  "announcements.delete": "Hapus",
+  "announcements.title": "Judul *",
+  "announcements.titlePlaceholder": "mis., Kantor tutup untuk Idul Fitri",
+  "announcements.message": "Pesan",
+  "announcements.starts": "Mulai *",
+  "announcements.ends": "Berakhir",
+  "announcements.formHint":
+    "Pisahkan pelabuhan dengan koma; kosongkan agar pengumuman tampil untuk semua pelabuhan. Tanpa waktu berakhir, pengumuman tetap tampil sampai Anda mengakhirinya. Pengunjung dapat menutup pengumuman; mengubahnya akan menampilkannya lagi.",
+  "announcements.save": "Simpan",
+  "announcements.saved": "\"{title}\" disimpan",
+  "announcements.endedAlert": "\"{title}\" diakhiri",
+  "announcements.deleted": "\"{title}\" dihapus",
+  "announcements.deleteTitle": "Hapus Pengumuman",
+  "announcements.deleteConfirm": "Hapus \"{title}\"? Gunakan Akhiri Sekarang agar tetap tersimpan sebagai referensi.",
+  "announcements.loadFailed": "Gagal memuat pengumuman: {message}",
+  "announcements.saveFailed": "Gagal menyimpan: {message}",
+  "announcements.updateFailed": "Gagal memperbarui: {message}",
+  "announcements.deleteFailed": "Gagal menghapus: {message}",
+  "announcements.titleRequired": "Judul wajib diisi",
+  "announcements.titleTooLong": "Judul maksimal {max} karakter",
+  "announcements.messageTooLong": "Pesan maksimal {max} karakter",
+  "announcements.severityRequired": "Pilih tingkat",
+  "announcements.startInvalid": "Waktu mulai tidak valid",
+  "announcements.endInvalid": "Waktu berakhir tidak valid",
+  "announcements.endBeforeStart": "Waktu berakhir harus setelah waktu mulai",
+
+  "duplicates.subtitle": "PDF identik yang tersimpan lebih dari sekali, ditemukan dengan membandingkan hash isi",
+  "duplicates.hashExisting": "Hash File Lama",
+  "duplicates.sets": "Kelompok duplikat",
+  "duplicates.redundant": "Salinan berlebih",
+  "duplicates.unhashed": "Belum di-hash",
+  "duplicates.hashing": "Menghitung hash… {processed} diproses",
+  "duplicates.failedCount": "({count} gagal)",
+  "duplicates.loading": "Memuat laporan...",
+  "duplicates.empty": "Tidak ada file duplikat",
+  "duplicates.unhashedHint": "{count} file lama belum di-hash dan tidak tercakup dalam laporan ini.",
+  "duplicates.copies": "{count} salinan • {size}",
+  "duplicates.firstUpload": "(unggahan pertama)",
+  "duplicates.superseded": "(digantikan)",
+  "duplicates.uploaded": "{file} • diunggah {date}",
+  "duplicates.uploadedBy": "{file} • diunggah {date} oleh {user}",
+  "duplicates.deleteTitle": "Hapus Duplikat",
+  "duplicates.deleteConfirm":
+    "Hapus \"{file}\" untuk {port} (Minggu {week}, {year})? Tindakan ini tidak dapat dibatalkan.",
+  "duplicates.hashed": "{hashed} file di-hash, {failed} gagal",
+  "duplicates.hashingStopped": "Penghitungan hash berhenti: {message}",
+  "duplicates.deleted": "{file} dihapus",
+  "duplicates.loadFailed": "Gagal memuat laporan: {message}",
+  "duplicates.deleteFailed": "Gagal menghapus: {message}",
+
+  "storage.counts": "{objects} objek penyimpanan • {rows} baris database",
+  "storage.recheck": "Periksa Ulang",
+  "storage.repairAll": "Perbaiki Semua",
+  "storage.repairAllTitle": "Perbaiki Semua Masalah",
+  "storage.repairAllConfirm":
+    "Ini akan menghapus objek yatim, menghapus baris yang file-nya hilang, dan memperbaiki ukuran file ({count} masalah). Tindakan ini tidak dapat dibatalkan.",
+  "storage.orphanObject": "Objek penyimpanan tanpa baris database",
+  "storage.deleteObject": "Hapus objek",
+  "storage.missingObject": "Baris database tanpa objek penyimpanan",
+  "storage.deleteRow": "Hapus baris",
+  "storage.sizeMismatch": "Ukuran tidak cocok",
+  "storage.useStorageSize": "Pakai ukuran penyimpanan",
+  "storage.sizeDetail": "{file} • baris {rowSize}, penyimpanan {storageSize}",
+  "storage.checking": "Memeriksa penyimpanan...",
+  "storage.consistent": "Penyimpanan dan database konsisten",
+  "storage.notChecked": "Jalankan pemeriksaan untuk membandingkan penyimpanan dengan database",
+  "storage.incomplete": "Terbaca {read} dari {count} baris database. Periksa ulang sebelum memperbaiki.",
+  "storage.incompleteUnknown":
+    "Terbaca {read} dari jumlah baris database yang tidak diketahui. Periksa ulang sebelum memperbaiki.",
+  "storage.repaired": "{count} masalah diperbaiki",
+  "storage.repairedPartly": "{repaired} diperbaiki, {failed} gagal",
+  "storage.checkFailed": "Pemeriksaan gagal: {message}",
+
+  "textIndex.subtitle": "Teks yang diambil dari setiap PDF agar pencarian dapat menemukan nama kapal dan nomor voyage",
+  "textIndex.retryFailed": "Coba Lagi yang Gagal",
+  "textIndex.indexExisting": "Indeks File Lama",
+  "textIndex.indexed": "Terindeks",
+  "textIndex.pending": "Belum terindeks",
+  "textIndex.failed": "Ekstraksi gagal",
+  "textIndex.indexing": "Mengindeks… {processed} diproses",
+  "textIndex.failedCount": "({count} gagal)",
+  "textIndex.done": "{indexed} file terindeks, {failed} gagal",
+  "textIndex.stopped": "Pengindeksan berhenti: {message}",
+  "textIndex.loadFailed": "Gagal memuat status: {message}",
+
+  "admin.menu": "Admin",
+  "admin.schedules": "Kelola Jadwal",
+  "admin.releases": "Rilis Terjadwal",
+  "admin.announcements": "Pengumuman",
+  "admin.storage": "Kesehatan Penyimpanan",
+  "admin.textIndex": "Indeks Teks PDF",
+  "admin.duplicates": "File Duplikat",
+  "admin.retention": "Retensi",
+  "admin.ports": "Katalog Pelabuhan",
+  "admin.users": "Pengguna & Peran",
+  "admin.audit": "Log Audit",
+};
+
+export default id;
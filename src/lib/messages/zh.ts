@@ -0,0 +1,401 @@
+import type { Messages } from "@/lib/i18n";
+
+// =========================
+// 简体中文
+// =========================
+const zh: Messages = {
+  "common.cancel": "取消",
+  "common.confirm": "确认",
+  "common.close": "关闭",
+  "common.done": "完成",
+  "common.copy": "复制",
+  "common.copied": "已复制",
+  "common.refresh": "刷新",
+  "common.port": "港口",
+  "common.ports": "港口",
+  "common.email": "邮箱",
+  "common.noPorts": "暂无港口",
+  "common.allPorts": "全部港口",
+  "common.uploading": "上传中...",
+  "common.loading": "加载中...",
+  "common.backToFiles": "返回 PDF 文件",
+
+  "language.label": "语言",
+
+  "home.title": "SITC 港口 PDF 文件",
+  "home.subtitle": "所有已上传的 PDF 文件",
+  "home.vesselSchedules": "船期表",
+  "home.uploadPdf": "上传 PDF",
+  "home.bulkUpload": "批量上传",
+  "home.bulkUploadHint": "一次上传多个 PDF",
+  "home.login": "登录",
+  "home.logout": "退出",
+  "home.searchPlaceholder": "搜索港口、船名、航次、W12 或 2026...",
+  "home.showSuperseded": "显示已被替换的版本",
+  "home.feeds": "订阅",
+  "home.feedsHint": "JSON 与日历订阅源",
+  "home.notifyMe": "通知我",
+  "home.notifyMeHint": "港口船期发布时发邮件通知我",
+  "home.totalFiles": "文件总数：",
+  "home.loading": "正在加载港口文件...",
+  "home.noMatches": "没有符合筛选条件的文件",
+  "home.noFiles": "尚未上传任何 PDF 文件",
+  "home.archiveHint": "之后的周次在“即将到来”中，较早的周次在“归档”中，或尝试清除筛选条件",
+  "home.widenHint": "请扩大周次范围或清除筛选条件",
+  "home.uploadFirstHint": "点击“上传 PDF”按钮上传第一个文件",
+  "home.contactAdmin": "暂无文件，请联系管理员。",
+  "home.uploadFirst": "上传第一个 PDF",
+  "home.footer": "共 {count} 个文件",
+
+  "announcement.dismiss": "关闭",
+  "announcement.ports": "适用于 {ports}",
+
+  "live.new": "新",
+  "live.connected": "实时",
+  "live.reconnecting": "正在重新连接…",
+  "live.banner": "自您打开此页面以来有 {count} 个新船期",
+  "live.show": "查看",
+  "live.dismiss": "关闭",
+
+  "table.no": "序号",
+  "table.portName": "港口名称",
+  "table.weekYear": "周次与年份",
+  "table.fileName": "文件名",
+  "table.uploaded": "上传时间",
+  "table.actions": "操作",
+  "table.fileCount": "{count} 个文件",
+
+  "file.revision": "第 {revision} 版",
+  "file.superseded": "已替换",
+  "file.current": "当前版本",
+  "file.uploadedBy": "上传者：{name}",
+  "file.preview": "预览",
+  "file.previewHint": "预览 PDF",
+  "file.view": "查看",
+  "file.download": "下载",
+  "file.downloadHint": "下载 PDF",
+  "file.history": "历史",
+  "file.historyHint": "版本历史",
+  "file.withdraw": "撤回",
+  "file.withdrawHint": "对访客隐藏",
+  "file.share": "分享",
+  "file.shareHint": "为客户创建链接",
+  "file.delete": "删除",
+  "file.deleteHint": "删除 PDF",
+
+  "alert.loadFailed": "加载文件出错：{message}",
+  "alert.historyFailed": "加载历史出错：{message}",
+  "alert.loginFailed": "登录失败：{message}",
+  "alert.loginSuccess": "登录成功！",
+  "alert.logoutSuccess": "已退出登录",
+  "alert.selectFile": "请选择文件",
+  "alert.unknownPort": "{port} 不在港口目录中",
+  "alert.portNotAllowed": "您无权为 {port} 上传文件",
+  "alert.uploadSuccess": "文件上传成功！",
+  "alert.revisionSuccess": "第 {revision} 版上传成功！",
+  "alert.uploadFailed": "上传失败：{message}",
+  "alert.deleteSuccess": "文件已删除！",
+  "alert.deleteFailed": "删除失败：{message}",
+  "alert.exportFailed": "导出失败：{message}",
+  "alert.withdrawSuccess": "文件已撤回",
+  "alert.withdrawFailed": "撤回失败：{message}",
+  "alert.draftSaved": "已保存为草稿",
+  "alert.scheduled": "已定于 {date} 发布",
+
+  "login.title": "管理员登录",
+  "login.password": "密码",
+  "login.submit": "登录",
+
+  "upload.title": "上传 PDF 文件",
+  "upload.portName": "港口名称 *",
+  "upload.selectAssignedPort": "选择已分配的港口",
+  "upload.year": "年份 *",
+  "upload.week": "周次 *",
+  "upload.file": "PDF 文件 *",
+  "upload.changeNote": "变更说明",
+  "upload.changeNotePlaceholder": "例如：ETD 推迟 1 天",
+  "upload.revisionNotice": "{port} 本周已有船期。此次上传将成为第 {revision} 版，并替换当前版本。",
+  "upload.release": "发布方式",
+  "upload.publishNow": "立即发布",
+  "upload.schedule": "定时发布",
+  "upload.draft": "保存为草稿",
+  "upload.publishAt": "发布时间",
+  "upload.publishAtInvalid": "请选择一个将来的发布时间",
+  "upload.releaseHint": "文件发布后访客才能看到。可在“管理 → 定时发布”中管理。",
+  "upload.target": "文件将上传至：",
+  "upload.invalidWeek": "{year} 年没有第 {week} 周",
+  "upload.duplicate": "此 PDF 已存在于归档中：{file}（{port} • 第 {week} 周，{year}），上传于 {date}。",
+  "upload.anyway": "仍然上传",
+  "upload.submit": "上传 PDF",
+
+  "validation.port_required": "请填写港口名称",
+  "validation.port_too_long": "港口名称过长",
+  "validation.year_range": "年份必须在 {min} 到 {max} 之间",
+  "validation.week_range": "{year} 年的周次必须在 1 到 {max} 之间",
+  "validation.file_required": "请选择 PDF 文件",
+  "validation.file_not_pdf": "仅允许上传 PDF 文件",
+  "validation.file_empty": "文件为空",
+  "validation.file_too_large": "文件超过 {max} MB",
+
+  "history.title": "{port} • 第 {week} 周，{year} — 历史",
+  "history.fallbackTitle": "历史",
+  "history.revision": "第 {revision} 版",
+
+  "delete.title": "删除 PDF 文件",
+  "delete.message": "确定要删除 {port}（第 {week} 周，{year}）的“{file}”吗？此操作无法撤销。",
+  "delete.confirm": "删除文件",
+
+  "withdraw.title": "撤回 PDF 文件",
+  "withdraw.message": "确定要撤回 {port}（第 {week} 周，{year}）的“{file}”吗？访客将无法再看到它，上一版本将重新成为当前版本。",
+  "withdraw.confirm": "撤回",
+
+  "share.title": "分享 {port} • 第 {week} 周，{year}",
+  "share.recipient": "客户",
+  "share.recipientPlaceholder": "例如 PT Samudera Logistics",
+  "share.expiresAt": "链接到期时间",
+  "share.hint": "创建后链接会自动复制。链接到期、被撤销或文件被撤回后即失效。",
+  "share.create": "创建链接",
+  "share.empty": "暂无分享链接",
+  "share.expires": "{date} 到期",
+  "share.state.active": "有效",
+  "share.state.expired": "已过期",
+  "share.state.revoked": "已撤销",
+  "share.revoke": "撤销",
+
+  "pagination.showing": "显示第 {first}–{last} 条，共 {total} 条",
+  "pagination.page": "第 {page} / {lastPage} 页",
+  "pagination.previous": "上一页",
+  "pagination.next": "下一页",
+
+  "export.excelHint": "将当前列表导出为 Excel",
+  "export.csvHint": "将当前列表导出为 CSV",
+
+  "facets.current": "当前",
+  "facets.upcoming": "即将到来",
+  "facets.archive": "归档",
+  "facets.allWeeks": "全部周次",
+  "facets.upcomingHint": "W{week} {year} 之后的周次",
+  "facets.archiveHint": "W{week} {year} 之前的周次",
+  "facets.portCount": "{count} 个港口",
+  "facets.allYears": "全部年份",
+  "facets.weekFrom": "从",
+  "facets.weekTo": "至",
+  "facets.uploadedAnyTime": "任意上传时间",
+  "facets.uploaded.1d": "最近 24 小时",
+  "facets.uploaded.7d": "最近 7 天",
+  "facets.uploaded.30d": "最近 30 天",
+  "facets.uploaded.90d": "最近 90 天",
+  "facets.noGrouping": "不分组",
+  "facets.groupByWeek": "按周分组",
+  "facets.groupByPort": "按港口分组",
+  "facets.clear": "清除 {count} 个筛选条件",
+  "facets.copyLink": "复制链接",
+  "facets.copyLinkHint": "复制当前筛选视图的链接",
+
+  "feeds.title": "订阅船期",
+  "feeds.calendar": "日历 (.ics) — Outlook、Google 日历",
+  "feeds.json": "JSON 订阅源",
+  "feeds.params": "两个订阅源都支持 {params} 参数。",
+  "feeds.openCalendar": "在日历应用中打开",
+
+  "subscribe.title": "邮件通知",
+  "subscribe.frequency": "频率",
+  "subscribe.instant": "发布后立即通知",
+  "subscribe.weekly": "每周摘要",
+  "subscribe.unsubscribeNote": "每封邮件都包含退订链接。",
+  "subscribe.submit": "订阅",
+  "subscribe.submitting": "订阅中...",
+  "subscribe.instantDone": "{ports} 的船期发布时，我们将发送邮件至 {email}",
+  "subscribe.weeklyDone": "我们将每周向 {email} 发送 {ports} 的摘要",
+  "subscribe.confirmSent": "我们已向 {email} 发送确认链接，打开链接后即可开始接收邮件。",
+  "subscribe.requestFailed": "请求失败（{status}）",
+
+  "unsubscribe.prompt": "停止接收船期通知邮件？",
+  "unsubscribe.submit": "退订",
+  "unsubscribe.submitting": "退订中...",
+  "unsubscribe.done": "{email} 将不再收到船期邮件。",
+  "unsubscribe.incomplete": "此退订链接不完整。",
+
+  "confirmSubscription.prompt": "开始接收船期通知邮件？",
+  "confirmSubscription.submitting": "确认中...",
+  "confirmSubscription.incomplete": "此确认链接不完整。",
+
+  "schedules.title": "船期表",
+  "schedules.subtitle": "按船名、航次、航线或港口搜索",
+  "schedules.searchPlaceholder": "搜索船名、航次、航线或港口...",
+  "schedules.loading": "正在加载船期...",
+  "schedules.empty": "未找到船期",
+  "schedules.vesselVoyage": "船名 / 航次",
+  "schedules.service": "航线",
+  "schedules.portWeek": "港口和周次",
+  "schedules.rotation": "挂港顺序",
+  "schedules.officialPdf": "官方 PDF",
+  "schedules.viewPdf": "查看 PDF",
+  "schedules.notUploaded": "未上传",
+  "schedules.etaEtd": "预计到港 {eta} · 预计离港 {etd}",
+  "schedules.cutOff": "截关 {date}",
+  "schedules.loadFailed": "加载船期出错：{message}",
+  "schedules.exportFailed": "导出船期出错：{message}",
+
+  "bulk.title": "批量上传 PDF",
+  "bulk.drop": "将 PDF 拖放到此处或点击选择",
+  "bulk.nameHint": "港口、周次和年份将从文件名中读取，例如 {first} 或 {second}",
+  "bulk.file": "文件",
+  "bulk.week": "周次",
+  "bulk.year": "年份",
+  "bulk.changeNote": "变更说明",
+  "bulk.status": "状态",
+  "bulk.optional": "可选",
+  "bulk.ready": "就绪",
+  "bulk.uploaded": "已上传",
+  "bulk.notAssigned": "未分配 {port}",
+  "bulk.duplicate": "已作为 {file} 上传（{port} W{week} {year}）",
+  "bulk.retry": "重试",
+  "bulk.remove": "从队列中移除",
+  "bulk.summary": "已上传 {uploaded} 个，新版本 {count} 个，",
+  "bulk.failed": "失败 {count} 个",
+  "bulk.fixRows": "— 请修正标红的行后重试。",
+  "bulk.submit": "上传 {count} 个文件",
+
+  "viewer.previousWeek": "上一周：{week}",
+  "viewer.nextWeek": "下一周：{week}",
+  "viewer.noEarlierWeek": "没有更早的周次",
+  "viewer.noLaterWeek": "没有更晚的周次",
+  "viewer.prev": "上一周",
+  "viewer.next": "下一周",
+  "viewer.zoomOut": "缩小",
+  "viewer.zoomIn": "放大",
+  "viewer.find": "在文档中查找",
+  "viewer.noMatches": "无匹配结果",
+  "viewer.matches": "{count} 处匹配 · 第 {page} 页",
+  "viewer.previousMatch": "上一个匹配",
+  "viewer.nextMatch": "下一个匹配",
+  "viewer.compare": "并排比较",
+  "viewer.compareWith": "与…比较",
+  "viewer.openInNewTab": "在新标签页中打开",
+  "viewer.closeComparison": "关闭比较",
+  "viewer.loading": "正在加载 PDF...",
+  "viewer.loadFailed": "无法加载此 PDF：{message}",
+
+  "portPicker.placeholder": "按名称、别名或 UN/LOCODE 搜索",
+  "portPicker.noUnlocode": "无 UN/LOCODE",
+  "portPicker.filedAs": "将归档为 {port}",
+  "portPicker.unknown": "不在港口目录中",
+
+  "access.checking": "正在检查权限...",
+  "access.denied": "您没有权限查看此页面",
+
+  "announcements.subtitle": "显示在船期列表上方的通知，例如节假日停工、港口拥堵和截关时间变更",
+  "announcements.new": "新建公告",
+  "announcements.edit": "编辑公告",
+  "announcements.loading": "正在加载公告...",
+  "announcements.empty": "暂无公告",
+  "announcements.column": "公告",
+  "announcements.severity": "级别",
+  "announcements.shown": "显示时间",
+  "announcements.actions": "操作",
+  "announcements.severityInfo": "信息",
+  "announcements.severityWarning": "警告",
+  "announcements.severityCritical": "紧急",
+  "announcements.live": "显示中",
+  "announcements.upcoming": "即将显示",
+  "announcements.ended": "已结束",
+  "announcements.untilEnded": "直到手动结束",
+  "announcements.editButton": "编辑",
+  "announcements.endNow": "立即结束",
+  "announcements.delete": "删除",
+  "announcements.title": "标题 *",
+  "announcements.titlePlaceholder": "例如：开斋节期间办公室休息",
+  "announcements.message": "内容",
+  "announcements.starts": "开始 *",
+  "announcements.ends": "结束",
+  "announcements.formHint":
+    "多个港口用逗号分隔；留空则对所有港口显示。未设置结束时间的公告会一直显示，直到您结束它。访客可以关闭公告；编辑后会再次向他们显示。",
+  "announcements.save": "保存",
+  "announcements.saved": "已保存“{title}”",
+  "announcements.endedAlert": "已结束“{title}”",
+  "announcements.deleted": "已删除“{title}”",
+  "announcements.deleteTitle": "删除公告",
+  "announcements.deleteConfirm": "删除“{title}”？如需保留记录，请改用“立即结束”。",
+  "announcements.loadFailed": "加载公告失败：{message}",
+  "announcements.saveFailed": "保存失败：{message}",
+  "announcements.updateFailed": "更新失败：{message}",
+  "announcements.deleteFailed": "删除失败：{message}",
+  "announcements.titleRequired": "请填写标题",
+  "announcements.titleTooLong": "标题最多 {max} 个字符",
+  "announcements.messageTooLong": "内容最多 {max} 个字符",
+  "announcements.severityRequired": "请选择级别",
+  "announcements.startInvalid": "开始时间无效",
+  "announcements.endInvalid": "结束时间无效",
+  "announcements.endBeforeStart": "结束时间必须晚于开始时间",
+
+  "duplicates.subtitle": "通过比较内容哈希找到的重复存储的相同 PDF",
+  "duplicates.hashExisting": "为已有文件计算哈希",
+  "duplicates.sets": "重复组",
+  "duplicates.redundant": "多余副本",
+  "duplicates.unhashed": "尚未计算哈希",
+  "duplicates.hashing": "正在计算哈希… 已处理 {processed} 个",
+  "duplicates.failedCount": "（{count} 个失败）",
+  "duplicates.loading": "正在加载报告...",
+  "duplicates.empty": "未发现重复文件",
+  "duplicates.unhashedHint": "{count} 个较早的文件尚未计算哈希，不在本报告范围内。",
+  "duplicates.copies": "{count} 个副本 • {size}",
+  "duplicates.firstUpload": "（最早上传）",
+  "duplicates.superseded": "（已被替代）",
+  "duplicates.uploaded": "{file} • 上传于 {date}",
+  "duplicates.uploadedBy": "{file} • 由 {user} 上传于 {date}",
+  "duplicates.deleteTitle": "删除重复文件",
+  "duplicates.deleteConfirm": "删除 {port}（第 {week} 周，{year}）的“{file}”？此操作无法撤销。",
+  "duplicates.hashed": "已计算 {hashed} 个文件的哈希，{failed} 个失败",
+  "duplicates.hashingStopped": "哈希计算已停止：{message}",
+  "duplicates.deleted": "已删除 {file}",
+  "duplicates.loadFailed": "加载报告失败：{message}",
+  "duplicates.deleteFailed": "删除失败：{message}",
+
+  "storage.counts": "{objects} 个存储对象 • {rows} 条数据库记录",
+  "storage.recheck": "重新检查",
+  "storage.repairAll": "全部修复",
+  "storage.repairAllTitle": "修复所有问题",
+  "storage.repairAllConfirm": "将删除孤立对象、移除文件缺失的记录并更正文件大小（共 {count} 个问题）。此操作无法撤销。",
+  "storage.orphanObject": "存储对象没有数据库记录",
+  "storage.deleteObject": "删除对象",
+  "storage.missingObject": "数据库记录没有存储对象",
+  "storage.deleteRow": "删除记录",
+  "storage.sizeMismatch": "大小不一致",
+  "storage.useStorageSize": "采用存储中的大小",
+  "storage.sizeDetail": "{file} • 记录 {rowSize}，存储 {storageSize}",
+  "storage.checking": "正在检查存储...",
+  "storage.consistent": "存储与数据库一致",
+  "storage.notChecked": "运行检查以比较存储与数据库",
+  "storage.incomplete": "已读取 {count} 条数据库记录中的 {read} 条。修复前请重新检查。",
+  "storage.incompleteUnknown": "已读取 {read} 条数据库记录，总数未知。修复前请重新检查。",
+  "storage.repaired": "已修复 {count} 个问题",
+  "storage.repairedPartly": "已修复 {repaired} 个，{failed} 个失败",
+  "storage.checkFailed": "检查失败：{message}",
+
+  "textIndex.subtitle": "从每个 PDF 中提取的文本，用于按船名和航次搜索",
+  "textIndex.retryFailed": "重试失败项",
+  "textIndex.indexExisting": "为已有文件建立索引",
+  "textIndex.indexed": "已索引",
+  "textIndex.pending": "尚未索引",
+  "textIndex.failed": "提取失败",
+  "textIndex.indexing": "正在建立索引… 已处理 {processed} 个",
+  "textIndex.failedCount": "（{count} 个失败）",
+  "textIndex.done": "已索引 {indexed} 个文件，{failed} 个失败",
+  "textIndex.stopped": "建立索引已停止：{message}",
+  "textIndex.loadFailed": "加载状态失败：{message}",
+
+  "admin.menu": "管理",
+  "admin.schedules": "管理船期",
+  "admin.releases": "定时发布",
+  "admin.announcements": "公告",
+  "admin.storage": "存储状态",
+  "admin.textIndex": "PDF 文本索引",
+  "admin.duplicates": "重复文件",
+  "admin.retention": "保留策略",
+  "admin.ports": "港口目录",
+  "admin.users": "用户与角色",
+  "admin.audit": "审计日志",
+};
+
+export default zh;
@@ -0,0 +1,158 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { formatIsoWeekLabel } from "@/lib/isoWeek";
+import { getMailTransport, type MailMessage } from "@/lib/mail";
+import { absoluteFileUrl } from "@/lib/storage";
+import type { PortFile, Subscription, SubscriptionFrequency } from "@/lib/types";
+
+// =========================
+// MESSAGE COMPOSITION
+// =========================
+export function unsubscribeUrl(baseUrl: string, token: string) {
+  return `${baseUrl}/unsubscribe?token=${encodeURIComponent(token)}`;
+}
+
+export function confirmSubscriptionUrl(baseUrl: string, token: string) {
+  return `${baseUrl}/confirm-subscription?token=${encodeURIComponent(token)}`;
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function describeFile(file: PortFile) {
+  const revision = (file.revision ?? 1) > 1 ? ` (revision ${file.revision})` : "";
+  const note = file.change_note ? ` – ${file.change_note}` : "";
+  return `${file.port_name.toUpperCase()} ${formatIsoWeekLabel(file.week, file.year)}${revision}${note}`;
+}
+
+function withFooter(subscription: Subscription, baseUrl: string, text: string, html: string) {
+  const link = unsubscribeUrl(baseUrl, subscription.token);
+  return {
+    text: `${text}\n\n—\nYou receive this because ${subscription.email} subscribed to ${subscription.ports.join(", ")}.\nUnsubscribe: ${link}`,
+    html: `${html}<hr><p style="font-size:12px;color:#64748b">You receive this because ${escapeHtml(
+      subscription.email
+    )} subscribed to ${escapeHtml(subscription.ports.join(", "))}. <a href="${escapeHtml(link)}">Unsubscribe</a></p>`,
+    headers: { "List-Unsubscribe": `<${link}>` },
+  };
+}
+
+export function composeFileNotification(file: PortFile, subscription: Subscription, baseUrl: string): MailMessage {
+  const isRevision = (file.revision ?? 1) > 1;
+  const fileUrl = absoluteFileUrl(file, baseUrl);
+  const subject = `${isRevision ? "Revised" : "New"} ${file.port_name.toUpperCase()} schedule: W${file.week} ${file.year}`;
+  const body = withFooter(
+    subscription,
+    baseUrl,
+    `${describeFile(file)}\n\nDownload: ${fileUrl}\nAll schedules: ${baseUrl}`,
+    `<p>${escapeHtml(describeFile(file))}</p><p><a href="${escapeHtml(fileUrl)}">Download PDF</a> · <a href="${escapeHtml(baseUrl)}">All schedules</a></p>`
+  );
+  return { to: subscription.email, subject, ...body };
+}
+
+export function composeDigest(files: PortFile[], subscription: Subscription, baseUrl: string): MailMessage {
+  const body = withFooter(
+    subscription,
+    baseUrl,
+    `Schedules published this week:\n\n${files.map((file) => `• ${describeFile(file)}\n  ${absoluteFileUrl(file, baseUrl)}`).join("\n")}`,
+    `<p>Schedules published this week:</p><ul>${files
+      .map((file) => `<li><a href="${escapeHtml(absoluteFileUrl(file, baseUrl))}">${escapeHtml(describeFile(file))}</a></li>`)
+      .join("")}</ul>`
+  );
+  return {
+    to: subscription.email,
+    subject: `SITC weekly schedule digest: ${files.length} new schedule${files.length === 1 ? "" : "s"}`,
+    ...body,
+  };
+}
+
+// Sent for every subscribe request, so the address owner decides what they get
+export function composeConfirmation(
+  subscription: Pick<Subscription, "email"> & { confirm_token: string },
+  ports: string[],
+  frequency: SubscriptionFrequency,
+  baseUrl: string
+): MailMessage {
+  const link = confirmSubscriptionUrl(baseUrl, subscription.confirm_token);
+  const what = `${frequency === "instant" ? "an email as soon as" : "a weekly digest when"} ${ports.join(", ")} schedules are published`;
+  return {
+    to: subscription.email,
+    subject: "Confirm your SITC schedule emails",
+    text: `Someone asked to send ${subscription.email} ${what}.\n\nConfirm: ${link}\n\nIf this was not you, ignore this email and nothing changes.`,
+    html: `<p>Someone asked to send ${escapeHtml(subscription.email)} ${escapeHtml(what)}.</p><p><a href="${escapeHtml(
+      link
+    )}">Confirm</a></p><p style="font-size:12px;color:#64748b">If this was not you, ignore this email and nothing changes.</p>`,
+  };
+}
+
+// =========================
+// DELIVERY
+// =========================
+// Instant subscribers of the file's port. Failures are logged per recipient.
+export async function notifySubscribers(client: SupabaseClient, file: PortFile, baseUrl: string) {
+  const { data, error } = await client
+    .from("subscriptions")
+    .select("*")
+    .eq("frequency", "instant")
+    .not("confirmed_at", "is", null)
+    .contains("ports", [file.port_name.trim().toUpperCase()]);
+
+  if (error) throw error;
+
+  const transport = getMailTransport();
+  for (const subscription of (data || []) as Subscription[]) {
+    try {
+      await transport.send(composeFileNotification(file, subscription, baseUrl));
+    } catch (sendError) {
+      console.error(`Error emailing ${subscription.email}:`, sendError);
+    }
+  }
+}
+
+// Weekly subscribers get every latest revision published since their last digest.
+export async function sendWeeklyDigests(client: SupabaseClient, baseUrl: string) {
+  const { data, error } = await client
+    .from("subscriptions")
+    .select("*")
+    .eq("frequency", "weekly")
+    .not("confirmed_at", "is", null);
+  if (error) throw error;
+
+  const transport = getMailTransport();
+  const now = new Date();
+  const weekAgo = new Date(now.getTime() - 7 * 86400000).toISOString();
+  let sent = 0;
+
+  for (const subscription of (data || []) as Subscription[]) {
+    const { data: files, error: filesError } = await client
+      .from("port_files")
+      .select("*")
+      .is("superseded_at", null)
+      .eq("status", "published")
+      .gt("publish_at", subscription.last_digest_at ?? weekAgo)
+      .order("publish_at", { ascending: true });
+
+    if (filesError) throw filesError;
+
+    const matching = ((files || []) as PortFile[]).filter((file) =>
+      subscription.ports.includes(file.port_name.trim().toUpperCase())
+    );
+    if (matching.length === 0) continue;
+
+    try {
+      await transport.send(composeDigest(matching, subscription, baseUrl));
+      await client
+        .from("subscriptions")
+        .update({ last_digest_at: now.toISOString() })
+        .eq("id", subscription.id);
+      sent++;
+    } catch (sendError) {
+      console.error(`Error sending digest to ${subscription.email}:`, sendError);
+    }
+  }
+
+  return { sent };
+}
@@ -0,0 +1,96 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { PORT_FILES_BUCKET, storagePath } from "@/lib/storage";
+import type { PortFile, TextBackfillResult } from "@/lib/types";
+
+// =========================
+// TEXT EXTRACTION
+// =========================
+// Server-only: pdfjs-dist is listed in serverExternalPackages so it loads its
+// worker from node_modules instead of the bundle.
+export const MAX_INDEXED_CHARS = 500_000;
+
+export async function extractPdfText(data: ArrayBuffer | Uint8Array): Promise<string> {
+  const { getDocument } = await import("pdfjs-dist/legacy/build/pdf.mjs");
+  const pdf = await getDocument({
+    data: new Uint8Array(data),
+    isEvalSupported: false,
+    useSystemFonts: true,
+  }).promise;
+
+  try {
+    const pages: string[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      pages.push(
+        content.items
+          .map((item) => ("str" in item ? `${item.str}${item.hasEOL ? "\n" : " "}` : ""))
+          .join("")
+      );
+      page.cleanup();
+    }
+
+    return pages
+      .join("\n")
+      .replace(/[ \t]+/g, " ")
+      .replace(/\s*\n\s*/g, "\n")
+      .trim()
+      .slice(0, MAX_INDEXED_CHARS);
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+// =========================
+// INDEXING
+// =========================
+// Failures are stored on the row (error) rather than thrown, so one broken
+// PDF does not stop an upload or a backfill batch.
+export async function indexPortFileText(client: SupabaseClient, file: PortFile, data?: ArrayBuffer) {
+  let content = "";
+  let extractError: string | null = null;
+
+  try {
+    if (!data) {
+      const { data: blob, error } = await client.storage
+        .from(PORT_FILES_BUCKET)
+        .download(storagePath(file.file_name));
+      if (error) throw error;
+      data = await blob.arrayBuffer();
+    }
+    content = await extractPdfText(data);
+  } catch (error) {
+    console.error(`Error extracting text from ${file.file_name}:`, error);
+    extractError = (error as Error).message || "Text extraction failed";
+  }
+
+  const { error } = await client.from("port_file_contents").upsert({
+    file_id: file.id,
+    content,
+    error: extractError,
+    extracted_at: new Date().toISOString(),
+  });
+  if (error) throw error;
+
+  return { indexed: !extractError };
+}
+
+export const BACKFILL_BATCH_SIZE = 10;
+
+// Indexes the next batch of files that have no extracted text yet
+export async function backfillPortFileText(client: SupabaseClient): Promise<TextBackfillResult> {
+  const { data, error, count } = await client
+    .rpc("unindexed_port_files", {}, { count: "exact" })
+    .limit(BACKFILL_BATCH_SIZE);
+
+  if (error) throw error;
+
+  const files = (data || []) as PortFile[];
+  let failed = 0;
+  for (const file of files) {
+    const { indexed } = await indexPortFileText(client, file);
+    if (!indexed) failed++;
+  }
+
+  return { processed: files.length, failed, remaining: Math.max(0, (count ?? 0) - files.length) };
+}
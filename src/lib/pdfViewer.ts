@@ -0,0 +1,62 @@
+import type { PDFDocumentProxy } from "pdfjs-dist";
+
+// =========================
+// PDF.JS LOADING (browser)
+// =========================
+// Loaded on demand so pdf.js stays out of the initial bundle. The worker is a
+// static file copied from pdfjs-dist on install (scripts/copy-pdf-worker.mjs),
+// so it is not bundled and pdfjs-dist can stay a server external package.
+const PDF_WORKER_SRC = "/pdf.worker.min.mjs";
+
+let pdfjsPromise: Promise<typeof import("pdfjs-dist")> | null = null;
+
+export function loadPdfjs() {
+  pdfjsPromise ??= import("pdfjs-dist").then((pdfjs) => {
+    pdfjs.GlobalWorkerOptions.workerSrc = PDF_WORKER_SRC;
+    return pdfjs;
+  });
+  return pdfjsPromise;
+}
+
+export async function openPdfDocument(url: string): Promise<PDFDocumentProxy> {
+  const pdfjs = await loadPdfjs();
+  return pdfjs.getDocument({ url, isEvalSupported: false }).promise;
+}
+
+// =========================
+// ZOOM
+// =========================
+export const ZOOM_LEVELS = [0.5, 0.75, 1, 1.25, 1.5, 2, 3];
+export const DEFAULT_ZOOM = 1.25;
+
+export function nextZoom(zoom: number, direction: 1 | -1) {
+  const index = ZOOM_LEVELS.findIndex((level) => level >= zoom);
+  const current = index === -1 ? ZOOM_LEVELS.length - 1 : index;
+  return ZOOM_LEVELS[Math.min(ZOOM_LEVELS.length - 1, Math.max(0, current + direction))];
+}
+
+// =========================
+// TEXT SEARCH
+// =========================
+// Text of every page, for searching within the document
+export async function loadPageTexts(pdf: PDFDocumentProxy): Promise<string[]> {
+  const texts: string[] = [];
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const content = await page.getTextContent();
+    texts.push(content.items.map((item) => ("str" in item ? item.str : "")).join(" "));
+  }
+  return texts;
+}
+
+export type PageMatch = { page: number; count: number };
+
+export function findPageMatches(pageTexts: string[], query: string): PageMatch[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+
+  return pageTexts.flatMap((text, index) => {
+    const count = text.toLowerCase().split(needle).length - 1;
+    return count > 0 ? [{ page: index + 1, count }] : [];
+  });
+}
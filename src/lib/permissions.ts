@@ -0,0 +1,52 @@
+import type { Profile, Role } from "@/lib/types";
+
+// =========================
+// ROLE PERMISSIONS
+// =========================
+// Mirrors the RLS policies in supabase/migrations/*_profiles_and_roles.sql
+export const ROLES: Role[] = ["viewer", "uploader", "admin"];
+
+export type Permissions = {
+  isSignedIn: boolean;
+  role: Role | null;
+  canUpload: boolean;
+  canDelete: boolean;
+  canManageSchedules: boolean;
+  canManageStorage: boolean;
+  canManageUsers: boolean;
+  canViewAudit: boolean;
+  canShareFiles: boolean;
+  canManageAnnouncements: boolean;
+  // null = every port
+  uploadPorts: string[] | null;
+};
+
+export function normalizePortName(portName: string) {
+  return portName.trim().toUpperCase();
+}
+
+export function permissionsFor(profile: Profile | null, isSignedIn = !!profile): Permissions {
+  const role = profile?.role ?? null;
+  const isAdmin = role === "admin";
+  const isUploader = role === "uploader" && (profile?.ports.length ?? 0) > 0;
+
+  return {
+    isSignedIn,
+    role,
+    canUpload: isAdmin || isUploader,
+    canDelete: isAdmin,
+    canManageSchedules: isAdmin,
+    canManageStorage: isAdmin,
+    canManageUsers: isAdmin,
+    canViewAudit: isAdmin,
+    canShareFiles: isAdmin,
+    canManageAnnouncements: isAdmin,
+    uploadPorts: isAdmin ? null : isUploader ? profile!.ports.map(normalizePortName) : [],
+  };
+}
+
+export function canUploadForPort(permissions: Permissions, portName: string) {
+  if (!permissions.canUpload) return false;
+  if (permissions.uploadPorts === null) return true;
+  return permissions.uploadPorts.includes(normalizePortName(portName));
+}
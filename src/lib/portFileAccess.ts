@@ -0,0 +1,20 @@
+import { ApiError, dataBackend, optionalProfile } from "@/lib/apiServer";
+import { canUploadForPort } from "@/lib/permissions";
+import { isPublished } from "@/lib/publishing";
+
+// =========================
+// VISIBLE FILES
+// =========================
+// The caller's view of one port file, plus the backend to sign it with.
+// Row-level security already hides unpublished rows from visitors on
+// Supabase; the explicit check covers the in-memory backend.
+export async function visiblePortFile(request: Request, id: string) {
+  const { client, permissions } = await optionalProfile(request);
+  const backend = dataBackend(client);
+
+  const file = await backend.portFiles.get(id);
+  if (!file || (!isPublished(file) && !canUploadForPort(permissions, file.port_name))) {
+    throw new ApiError(404, "not_found", "Port file not found");
+  }
+  return { backend, file };
+}
@@ -0,0 +1,124 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { parseSearchTokens, UPLOADED_WITHIN, type FileFilters, type FileSort } from "@/lib/fileFilters";
+import { weekAfter, weekBefore, weekOnOrAfter, weekOnOrBefore, type RetentionWindow } from "@/lib/retention";
+
+// =========================
+// SERVER-SIDE SEARCH
+// =========================
+// Builds the filtered, counted port_files query behind GET /api/port-files.
+// Matching rules are the same as matchesFileFilters in fileFilters.ts, plus
+// PDF text matches from port_file_contents.
+export const MAX_PAGE_LIMIT = 1000;
+export const DEFAULT_PAGE_LIMIT = 100;
+// Matching ids go into the query string, so keep the list short
+const MAX_CONTENT_MATCHES = 200;
+
+// Quoted PostgREST value for an ilike pattern, with LIKE wildcards escaped
+export function ilikeValue(text: string, { contains }: { contains: boolean }) {
+  const like = text.replace(/[%_\\]/g, "\\$&");
+  const pattern = contains ? `%${like}%` : like;
+  return `"${pattern.replace(/["\\]/g, "\\$&")}"`;
+}
+
+export type PortFileQuery = Omit<FileFilters, "group" | "revisions" | "page"> & {
+  // Window for the current/upcoming/archive views; ignored for view "all"
+  retention: RetentionWindow | null;
+  latest: boolean;
+  offset: number;
+  limit: number;
+};
+
+// Every word goes to the PDF text search, numbers included: "2612" may be a
+// year but is just as likely a voyage number such as 2612N
+export function searchText(q: string) {
+  return q.toLowerCase().split(/\s+/).filter(Boolean).join(" ");
+}
+
+// Ids of files whose PDF text matches every word of the search
+export async function findContentMatches(client: SupabaseClient, text: string): Promise<string[]> {
+  if (!text) return [];
+  const { data, error } = await client.rpc("search_port_file_contents", {
+    search: text,
+    max_results: MAX_CONTENT_MATCHES,
+  });
+  if (error) throw error;
+  return ((data || []) as { file_id: string }[]).map((row) => row.file_id);
+}
+
+// Highlighted excerpts, keyed by file id. Matches are wrapped in [[ ]].
+export async function findContentSnippets(
+  client: SupabaseClient,
+  text: string,
+  fileIds: string[]
+): Promise<Record<string, string>> {
+  if (!text || fileIds.length === 0) return {};
+  const { data, error } = await client.rpc("port_file_snippets", { search: text, file_ids: fileIds });
+  if (error) throw error;
+  return Object.fromEntries(
+    ((data || []) as { file_id: string; snippet: string }[]).map((row) => [row.file_id, row.snippet])
+  );
+}
+
+export function buildPortFileQuery(
+  client: SupabaseClient,
+  query: PortFileQuery,
+  contentMatchIds: string[] = [],
+  now = Date.now()
+) {
+  // Staff callers could see drafts too; the list is always the public one
+  let builder = client.from("port_files").select("*", { count: "exact" }).eq("status", "published");
+
+  if (query.latest) builder = builder.is("superseded_at", null);
+
+  if (query.retention && query.view === "archive") {
+    builder = builder.or(weekBefore(query.retention.from));
+  } else if (query.retention && query.view === "upcoming") {
+    builder = builder.or(weekAfter(query.retention.to));
+  } else if (query.retention && query.view === "current") {
+    builder = builder.or(weekOnOrAfter(query.retention.from)).or(weekOnOrBefore(query.retention.to));
+  }
+
+  if (query.ports.length > 0) {
+    builder = builder.or(
+      query.ports.map((port) => `port_name.ilike.${ilikeValue(port, { contains: false })}`).join(",")
+    );
+  }
+  if (query.year !== null) builder = builder.eq("year", query.year);
+  if (query.week_from !== null) builder = builder.gte("week", query.week_from);
+  if (query.week_to !== null) builder = builder.lte("week", query.week_to);
+
+  if (query.uploaded_within) {
+    const since = now - UPLOADED_WITHIN[query.uploaded_within].days * 86400000;
+    builder = builder.gte("uploaded_at", new Date(since).toISOString());
+  }
+
+  const tokenClauses = parseSearchTokens(query.q).map((token) => {
+    if (token.kind === "week") return `week.eq.${token.value}`;
+    if (token.kind === "year") return `year.eq.${token.value}`;
+    const value = ilikeValue(token.value, { contains: true });
+    return `or(port_name.ilike.${value},file_name.ilike.${value})`;
+  });
+
+  // Every word as a week, year, port or file name, or all of them in the PDF text
+  if (tokenClauses.length > 0) {
+    const nameMatch = tokenClauses.length === 1 ? tokenClauses[0] : `and(${tokenClauses.join(",")})`;
+    const contentMatch = contentMatchIds.length > 0 ? `,id.in.(${contentMatchIds.join(",")})` : "";
+    builder = builder.or(`${nameMatch}${contentMatch}`);
+  }
+
+  const ascending = query.order === "asc";
+  for (const column of sortColumns(query.sort)) {
+    builder = builder.order(column, { ascending });
+  }
+  // Stable paging when the sort columns tie
+  builder = builder.order("id", { ascending });
+
+  return builder.range(query.offset, query.offset + query.limit - 1);
+}
+
+function sortColumns(sort: FileSort) {
+  if (sort === "port") return ["port_name", "year", "week"];
+  if (sort === "week") return ["year", "week", "port_name"];
+  return ["uploaded_at"];
+}
+
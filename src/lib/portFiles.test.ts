@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+import { createMemoryBackend } from "@/lib/memoryBackend";
+import {
+  buildStorageFileName,
+  deletePortFile,
+  signPortFileUrl,
+  uploadPortFile,
+  type PortFileUpload,
+} from "@/lib/portFiles";
+import { portFileUrl, storagePath } from "@/lib/storage";
+
+const NOW = Date.UTC(2026, 2, 16, 8, 0);
+
+const pdf = (name = "schedule.pdf", text = "%PDF-1.4 schedule") =>
+  new File([text], name, { type: "application/pdf" });
+
+const upload = (overrides: Partial<PortFileUpload> = {}): PortFileUpload => ({
+  port_name: "BATAM",
+  week: 12,
+  year: 2026,
+  file: pdf(),
+  uploaded_by: "ops@example.com",
+  ...overrides,
+});
+
+const failing = (message: string) => async () => {
+  throw new Error(message);
+};
+
+describe("buildStorageFileName", () => {
+  it("prefixes the timestamp and keeps the original extension", () => {
+    expect(buildStorageFileName("BATAM", 12, 2026, "schedule.pdf", NOW)).toBe(`${NOW}_BATAM_W12_2026.pdf`);
+    expect(buildStorageFileName("BATAM", 1, 2027, "Schedule.v2.PDF", NOW)).toBe(`${NOW}_BATAM_W1_2027.PDF`);
+  });
+
+  it("uppercases the port and strips characters unsafe in object names", () => {
+    expect(buildStorageFileName("  ho chi minh ", 5, 2026, "a.pdf", NOW)).toBe(`${NOW}_HO_CHI_MINH_W5_2026.pdf`);
+    expect(buildStorageFileName("Laem/Chabang (TH)", 5, 2026, "a.pdf", NOW)).toBe(`${NOW}_LAEMCHABANG_TH_W5_2026.pdf`);
+  });
+});
+
+describe("uploadPortFile", () => {
+  it("stores the object and inserts revision 1", async () => {
+    const backend = createMemoryBackend();
+    const { file, superseded } = await uploadPortFile(backend, upload({ change_note: "  first  " }), NOW);
+
+    expect(superseded).toEqual([]);
+    expect(file).toMatchObject({
+      port_name: "BATAM",
+      week: 12,
+      year: 2026,
+      file_name: `${NOW}_BATAM_W12_2026.pdf`,
+      file_url: portFileUrl(file.id),
+      file_size: pdf().size,
+      revision: 1,
+      change_note: "first",
+      uploaded_at: new Date(NOW).toISOString(),
+      uploaded_by: "ops@example.com",
+    });
+    expect(await (await backend.storage.download(storagePath(file.file_name))).text()).toBe("%PDF-1.4 schedule");
+  });
+
+  it("supersedes the current revision of the same port and week", async () => {
+    const backend = createMemoryBackend();
+    const { file: first } = await uploadPortFile(backend, upload(), NOW);
+    const { file: other } = await uploadPortFile(backend, upload({ port_name: "SHANGHAI" }), NOW + 1);
+    const { file: second, superseded } = await uploadPortFile(backend, upload({ port_name: " batam " }), NOW + 2);
+
+    expect(second.revision).toBe(2);
+    expect(superseded.map((file) => file.id)).toEqual([first.id]);
+    expect((await backend.portFiles.get(first.id))?.superseded_at).toBe(second.uploaded_at);
+    expect((await backend.portFiles.get(other.id))?.superseded_at ?? null).toBeNull();
+  });
+
+  it("removes the stored object when the row cannot be inserted", async () => {
+    const backend = createMemoryBackend();
+    backend.portFiles.insert = failing("insert failed");
+
+    await expect(uploadPortFile(backend, upload(), NOW)).rejects.toThrow("insert failed");
+    await expect(backend.storage.download(storagePath(`${NOW}_BATAM_W12_2026.pdf`))).rejects.toThrow();
+  });
+
+  it("undoes the upload when the previous revision cannot be superseded", async () => {
+    const backend = createMemoryBackend();
+    const { file: first } = await uploadPortFile(backend, upload(), NOW);
+    backend.portFiles.setSupersededAt = failing("update failed");
+
+    await expect(uploadPortFile(backend, upload(), NOW + 1)).rejects.toThrow("update failed");
+    expect(await backend.portFiles.listWeek(12, 2026)).toEqual([first]);
+    await expect(backend.storage.download(storagePath(`${NOW + 1}_BATAM_W12_2026.pdf`))).rejects.toThrow();
+  });
+});
+
+describe("deletePortFile", () => {
+  it("removes the row and the object", async () => {
+    const backend = createMemoryBackend();
+    const { file } = await uploadPortFile(backend, upload(), NOW);
+
+    await deletePortFile(backend, file);
+
+    expect(await backend.portFiles.get(file.id)).toBeNull();
+    await expect(backend.storage.download(storagePath(file.file_name))).rejects.toThrow();
+  });
+
+  it("makes the previous revision current again", async () => {
+    const backend = createMemoryBackend();
+    const { file: first } = await uploadPortFile(backend, upload(), NOW);
+    const { file: second } = await uploadPortFile(backend, upload(), NOW + 1);
+
+    await deletePortFile(backend, second);
+
+    expect((await backend.portFiles.get(first.id))?.superseded_at).toBeNull();
+  });
+
+  it("leaves newer revisions alone when an old one is deleted", async () => {
+    const backend = createMemoryBackend();
+    const { file: first } = await uploadPortFile(backend, upload(), NOW);
+    const { file: second } = await uploadPortFile(backend, upload(), NOW + 1);
+
+    await deletePortFile(backend, (await backend.portFiles.get(first.id))!);
+
+    expect(await backend.portFiles.listWeek(12, 2026)).toEqual([second]);
+  });
+
+  it("puts the row back when the object cannot be removed", async () => {
+    const backend = createMemoryBackend();
+    const { file } = await uploadPortFile(backend, upload(), NOW);
+    backend.storage.remove = failing("storage unavailable");
+
+    await expect(deletePortFile(backend, file)).rejects.toThrow("storage unavailable");
+    expect(await backend.portFiles.get(file.id)).toEqual(file);
+  });
+});
+
+describe("signPortFileUrl", () => {
+  it("links to the stored object and names downloads after the file", async () => {
+    const backend = createMemoryBackend();
+    const { file } = await uploadPortFile(backend, upload(), NOW);
+
+    expect(await signPortFileUrl(backend.storage, file, false, NOW)).toEqual({
+      url: `/api/local-files/${storagePath(file.file_name)}`,
+      expires_at: new Date(NOW + 5 * 60 * 1000).toISOString(),
+    });
+    expect((await signPortFileUrl(backend.storage, file, true, NOW)).url).toBe(
+      `/api/local-files/${storagePath(file.file_name)}?download=${file.file_name}`
+    );
+  });
+});
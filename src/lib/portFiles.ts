@@ -0,0 +1,158 @@
+import type { DataBackend, FileStorage, PortFileRepository } from "@/lib/dataAccess";
+import { isPublished, restorePreviousRevision, type UploadStatus } from "@/lib/publishing";
+import { isLatestRevision, nextRevisionNumber, revisionHistory } from "@/lib/revisions";
+import { SIGNED_URL_TTL_SECONDS, storagePath } from "@/lib/storage";
+import type { PortFile, SignedUrl } from "@/lib/types";
+
+export type PortFileUpload = {
+  port_name: string;
+  // Catalogue entry port_name was resolved to
+  port_id?: string | null;
+  week: number;
+  year: number;
+  file: File;
+  // SHA-256 of the file, see contentHash.ts
+  content_hash?: string | null;
+  change_note?: string | null;
+  // Email of the signed-in uploader
+  uploaded_by?: string | null;
+  // Defaults to published; scheduled needs publish_at
+  status?: UploadStatus;
+  publish_at?: string | null;
+};
+
+// What the upload and delete flows need from a DataBackend
+export type PortFileBackend = Pick<DataBackend, "portFiles" | "storage">;
+
+export type UploadResult = {
+  file: PortFile;
+  // Revisions this upload marked as superseded
+  superseded: PortFile[];
+};
+
+// =========================
+// NAMING
+// =========================
+export function buildStorageFileName(
+  portName: string,
+  week: number,
+  year: number,
+  originalName: string,
+  now = Date.now()
+) {
+  const fileExt = originalName.split(".").pop();
+  const safePortName = portName
+    .trim()
+    .toUpperCase()
+    .replace(/\s+/g, "_")
+    .replace(/[^a-zA-Z0-9_]/g, "");
+  return `${now}_${safePortName}_W${week}_${year}.${fileExt}`;
+}
+
+async function loadRevisions(
+  portFiles: PortFileRepository,
+  target: Pick<PortFile, "port_name" | "week" | "year">
+) {
+  return revisionHistory(await portFiles.listWeek(target.week, target.year), target);
+}
+
+// A failed rollback step must not hide the error that caused the rollback
+async function undo(step: Promise<unknown>) {
+  await step.catch((error) => console.error("Error rolling back port file change:", error));
+}
+
+// =========================
+// UPLOAD
+// =========================
+// Storage object first, then the row. Any failed DB step removes what was
+// already written so no orphan object or half-superseded week is left.
+export async function uploadPortFile(
+  { portFiles, storage }: PortFileBackend,
+  input: PortFileUpload,
+  now = Date.now()
+): Promise<UploadResult> {
+  const portName = input.port_name.trim();
+  const target = { port_name: portName, week: input.week, year: input.year };
+  const previous = await loadRevisions(portFiles, target);
+  const revision = nextRevisionNumber(previous, target);
+
+  const fileName = buildStorageFileName(portName, input.week, input.year, input.file.name, now);
+  const filePath = storagePath(fileName);
+
+  await storage.upload(filePath, input.file, input.file.type || "application/pdf");
+
+  const uploadedAt = new Date(now).toISOString();
+  const status = input.status ?? "published";
+
+  let inserted: PortFile;
+  try {
+    inserted = await portFiles.insert({
+      week: input.week,
+      year: input.year,
+      port_name: portName,
+      port_id: input.port_id ?? null,
+      file_name: fileName,
+      file_size: input.file.size,
+      content_hash: input.content_hash ?? null,
+      uploaded_at: uploadedAt,
+      revision,
+      change_note: input.change_note?.trim() || null,
+      uploaded_by: input.uploaded_by || undefined,
+      status,
+      publish_at: status === "published" ? uploadedAt : status === "scheduled" ? input.publish_at : null,
+    });
+  } catch (dbError) {
+    await undo(storage.remove([filePath]));
+    throw dbError;
+  }
+
+  // Older revisions stay downloadable from the history panel. Drafts and
+  // scheduled uploads leave the current revision public until they go live.
+  const superseded = status === "published" ? previous.filter(isLatestRevision) : [];
+  try {
+    await portFiles.setSupersededAt(superseded.map((file) => file.id), uploadedAt);
+  } catch (supersedeError) {
+    await undo(portFiles.remove(inserted.id));
+    await undo(storage.remove([filePath]));
+    throw supersedeError;
+  }
+
+  return { file: inserted, superseded };
+}
+
+// =========================
+// DELETE
+// =========================
+// Row first, then the object. If the object cannot be removed the row is
+// put back, so the table never points at a file that is gone.
+export async function deletePortFile({ portFiles, storage }: PortFileBackend, file: PortFile): Promise<void> {
+  const deleted = await portFiles.remove(file.id);
+
+  try {
+    await storage.remove([storagePath(file.file_name)]);
+  } catch (storageError) {
+    await undo(portFiles.restore(deleted));
+    throw storageError;
+  }
+
+  // Deleting the public revision makes the previous one current again
+  if (isPublished(file) && isLatestRevision(file)) await restorePreviousRevision(portFiles, file);
+}
+
+// =========================
+// DOWNLOAD
+// =========================
+// download saves the PDF under its file name instead of opening it
+export async function signPortFileUrl(
+  storage: FileStorage,
+  file: PortFile,
+  download = false,
+  now = Date.now()
+): Promise<SignedUrl> {
+  const url = await storage.signedUrl(
+    storagePath(file.file_name),
+    SIGNED_URL_TTL_SECONDS,
+    download ? file.file_name : undefined
+  );
+  return { url, expires_at: new Date(now + SIGNED_URL_TTL_SECONDS * 1000).toISOString() };
+}
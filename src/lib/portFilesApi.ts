@@ -0,0 +1,265 @@
+import { supabase } from "@/lib/supabase";
+import { fileFiltersToQuery, type FileFilters } from "@/lib/fileFilters";
+import type { UploadStatus } from "@/lib/publishing";
+import type {
+  ApiDataBody,
+  ApiErrorBody,
+  ApiPageBody,
+  DuplicateReport,
+  HashBackfillResult,
+  PortFile,
+  PortFileFacets,
+  PortFilePageMeta,
+  PortFileShare,
+  PortFileStatus,
+  RetentionPolicy,
+  RetentionPreview,
+  RetentionPurgeResult,
+  SignedUrl,
+  TextBackfillResult,
+  TextIndexStatus,
+} from "@/lib/types";
+
+// =========================
+// BROWSER CLIENT FOR /api/port-files
+// =========================
+export class PortFilesApiError extends Error {
+  constructor(
+    public status: number,
+    public body: ApiErrorBody["error"]
+  ) {
+    super(body.message);
+    this.name = "PortFilesApiError";
+  }
+}
+
+async function authHeaders(): Promise<Record<string, string>> {
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+async function requestJson<T>(url: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { ...(await authHeaders()), ...init.headers },
+  });
+  const json = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    const error = (json as ApiErrorBody | null)?.error ?? {
+      code: "server_error",
+      message: `Request failed (${response.status})`,
+    };
+    throw new PortFilesApiError(response.status, error);
+  }
+
+  return json as T;
+}
+
+async function request<T>(url: string, init: RequestInit = {}): Promise<T> {
+  return (await requestJson<ApiDataBody<T>>(url, init)).data;
+}
+
+// One page of the home table. Superseded revisions are only included when the
+// filters ask for them.
+export async function fetchPortFiles(
+  filters: FileFilters,
+  pageSize: number
+): Promise<{ files: PortFile[]; meta: PortFilePageMeta }> {
+  const params = new URLSearchParams(fileFiltersToQuery(filters));
+  params.delete("page");
+  params.delete("group");
+  params.delete("revisions");
+  if (!filters.revisions) params.set("latest", "true");
+  params.set("view", filters.view);
+  params.set("offset", String((filters.page - 1) * pageSize));
+  params.set("limit", String(pageSize));
+
+  const body = await requestJson<ApiPageBody<PortFile, PortFilePageMeta>>(`/api/port-files?${params}`);
+  return { files: body.data, meta: body.meta };
+}
+
+// Every row matching the filters, e.g. for exports
+export async function fetchAllPortFiles(filters: FileFilters): Promise<PortFile[]> {
+  const pageSize = 1000;
+  const files: PortFile[] = [];
+  for (let page = 1; ; page++) {
+    const result = await fetchPortFiles({ ...filters, page }, pageSize);
+    files.push(...result.files);
+    if (files.length >= result.meta.total || result.files.length < pageSize) return files;
+  }
+}
+
+export async function fetchRevisions(file: Pick<PortFile, "port_name" | "week" | "year">): Promise<PortFile[]> {
+  const params = new URLSearchParams({
+    port: file.port_name,
+    year: String(file.year),
+    week: String(file.week),
+    sort: "uploaded_at",
+    order: "desc",
+    limit: "1000",
+  });
+  const body = await requestJson<ApiPageBody<PortFile>>(`/api/port-files?${params}`);
+  return body.data;
+}
+
+// Latest file of every week for one port, oldest week first
+export async function fetchPortWeeks(portName: string): Promise<PortFile[]> {
+  const params = new URLSearchParams({
+    port: portName,
+    latest: "true",
+    sort: "week",
+    order: "asc",
+    limit: "1000",
+  });
+  const body = await requestJson<ApiPageBody<PortFile>>(`/api/port-files?${params}`);
+  return body.data;
+}
+
+export function fetchPortFileFacets(): Promise<PortFileFacets> {
+  return request<PortFileFacets>("/api/port-files/facets");
+}
+
+// Uses XMLHttpRequest when onProgress is given, since fetch cannot report
+// upload progress.
+export async function createPortFile(
+  input: {
+    port_name: string;
+    week: number;
+    year: number;
+    file: File;
+    change_note?: string;
+    // Defaults to published
+    status?: UploadStatus;
+    // ISO time a scheduled upload goes live
+    publish_at?: string;
+    // Upload even when the same PDF already exists (otherwise a 409 conflict)
+    allow_duplicate?: boolean;
+  },
+  onProgress?: (fraction: number) => void
+): Promise<PortFile> {
+  const form = new FormData();
+  form.set("port_name", input.port_name);
+  form.set("week", String(input.week));
+  form.set("year", String(input.year));
+  form.set("file", input.file);
+  if (input.change_note) form.set("change_note", input.change_note);
+  if (input.status) form.set("status", input.status);
+  if (input.publish_at) form.set("publish_at", input.publish_at);
+  if (input.allow_duplicate) form.set("allow_duplicate", "true");
+
+  if (!onProgress) {
+    return request<PortFile>("/api/port-files", { method: "POST", body: form });
+  }
+
+  const headers = await authHeaders();
+  return new Promise<PortFile>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", "/api/port-files");
+    for (const [name, value] of Object.entries(headers)) xhr.setRequestHeader(name, value);
+    xhr.responseType = "json";
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress(event.loaded / event.total);
+    };
+    xhr.onload = () => {
+      const json = xhr.response as ApiDataBody<PortFile> | ApiErrorBody | null;
+      if (xhr.status >= 200 && xhr.status < 300 && json && "data" in json) {
+        resolve(json.data);
+        return;
+      }
+      reject(
+        new PortFilesApiError(
+          xhr.status,
+          (json as ApiErrorBody | null)?.error ?? {
+            code: "server_error",
+            message: `Request failed (${xhr.status})`,
+          }
+        )
+      );
+    };
+    xhr.onerror = () =>
+      reject(new PortFilesApiError(0, { code: "server_error", message: "Network error" }));
+
+    xhr.send(form);
+  });
+}
+
+export function removePortFile(id: string): Promise<{ id: string }> {
+  return request<{ id: string }>(`/api/port-files/${encodeURIComponent(id)}`, { method: "DELETE" });
+}
+
+export function updatePortFileStatus(id: string, status: PortFileStatus, publishAt?: string): Promise<PortFile> {
+  return request<PortFile>(`/api/port-files/${encodeURIComponent(id)}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ status, publish_at: publishAt }),
+  });
+}
+
+// Signed link for a file the visitor cannot open through file_url, e.g. a draft
+export function fetchSignedUrl(id: string, download = false): Promise<SignedUrl> {
+  return request<SignedUrl>(`/api/port-files/${encodeURIComponent(id)}/url${download ? "?download=1" : ""}`);
+}
+
+export function fetchShares(fileId: string): Promise<PortFileShare[]> {
+  return request<PortFileShare[]>(`/api/port-files/${encodeURIComponent(fileId)}/shares`);
+}
+
+export function createShare(fileId: string, recipient: string, expiresAt: string): Promise<PortFileShare> {
+  return request<PortFileShare>(`/api/port-files/${encodeURIComponent(fileId)}/shares`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ recipient, expires_at: expiresAt }),
+  });
+}
+
+export function revokeShare(fileId: string, shareId: string): Promise<PortFileShare> {
+  return request<PortFileShare>(
+    `/api/port-files/${encodeURIComponent(fileId)}/shares/${encodeURIComponent(shareId)}`,
+    { method: "DELETE" }
+  );
+}
+
+export function fetchTextIndexStatus(): Promise<TextIndexStatus> {
+  return request<TextIndexStatus>("/api/port-files/text-index");
+}
+
+export function runTextBackfill(retryFailed = false): Promise<TextBackfillResult> {
+  return request<TextBackfillResult>(`/api/port-files/text-index${retryFailed ? "?retry=failed" : ""}`, {
+    method: "POST",
+  });
+}
+
+export function fetchDuplicateReport(): Promise<DuplicateReport> {
+  return request<DuplicateReport>("/api/port-files/duplicates");
+}
+
+export function runHashBackfill(skip = 0): Promise<HashBackfillResult> {
+  return request<HashBackfillResult>(`/api/port-files/duplicates?skip=${skip}`, { method: "POST" });
+}
+
+// The existing file a 409 conflict refers to, if the error is one
+export function duplicateOf(error: unknown): Record<string, string> | null {
+  return error instanceof PortFilesApiError && error.body.code === "conflict" ? error.body.details ?? null : null;
+}
+
+export function fetchRetentionPreview(policy?: RetentionPolicy): Promise<RetentionPreview> {
+  const params = policy
+    ? new URLSearchParams({
+        weeks_behind: String(policy.weeks_behind),
+        weeks_ahead: String(policy.weeks_ahead),
+        purge_after_weeks: policy.purge_after_weeks === null ? "" : String(policy.purge_after_weeks),
+      })
+    : "";
+  return request<RetentionPreview>(`/api/port-files/retention${params ? `?${params}` : ""}`);
+}
+
+export function purgeRetainedFiles(ids: string[]): Promise<RetentionPurgeResult> {
+  return request<RetentionPurgeResult>("/api/port-files/retention", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ids }),
+  });
+}
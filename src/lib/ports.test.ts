@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { createPortResolver, emptyPortForm, parseAliases, resolvePortList, validatePortForm } from "@/lib/ports";
+import type { Port } from "@/lib/types";
+
+const port = (name: string, unlocode: string | null, aliases: string[] = []): Port => ({
+  id: name.toLowerCase(),
+  name,
+  unlocode,
+  country: unlocode?.slice(0, 2) ?? null,
+  aliases,
+});
+
+const HAIPHONG = port("HAIPHONG", "VNHPH", ["HAI PHONG", "HPH"]);
+const JAKARTA = port("JAKARTA", "IDJKT", ["TANJUNG PRIOK"]);
+const PORTS = [HAIPHONG, JAKARTA];
+
+describe("createPortResolver", () => {
+  const resolve = createPortResolver(PORTS);
+
+  it("finds a port by its canonical name", () => {
+    expect(resolve("HAIPHONG")).toBe(HAIPHONG);
+    expect(resolve("jakarta")).toBe(JAKARTA);
+  });
+
+  it("finds a port by alias or UN/LOCODE", () => {
+    expect(resolve("HPH")).toBe(HAIPHONG);
+    expect(resolve("Tanjung Priok")).toBe(JAKARTA);
+    expect(resolve("idjkt")).toBe(JAKARTA);
+  });
+
+  it("ignores case, spacing and punctuation", () => {
+    expect(resolve("  hai-phong ")).toBe(HAIPHONG);
+    expect(resolve("Hai  Phong")).toBe(HAIPHONG);
+    expect(resolve("tanjung_priok")).toBe(JAKARTA);
+  });
+
+  it("returns null for unknown or empty names", () => {
+    expect(resolve("SURABAYA")).toBeNull();
+    expect(resolve("")).toBeNull();
+    expect(resolve(" - ")).toBeNull();
+  });
+
+  it("keeps the first port when two claim the same spelling", () => {
+    const other = port("HAI PHONG NORTH", null, ["HAIPHONG"]);
+    expect(createPortResolver([HAIPHONG, other])("Hai Phong")).toBe(HAIPHONG);
+    expect(createPortResolver([other, HAIPHONG])("Hai Phong")).toBe(other);
+  });
+});
+
+describe("resolvePortList", () => {
+  it("maps each entry to its canonical name once and reports unknown entries", () => {
+    expect(resolvePortList("hph, Jakarta,, HAIPHONG, surabya", PORTS)).toEqual({
+      names: ["HAIPHONG", "JAKARTA"],
+      unknown: ["SURABYA"],
+    });
+    expect(resolvePortList(" ", PORTS)).toEqual({ names: [], unknown: [] });
+  });
+});
+
+describe("parseAliases", () => {
+  it("upper-cases, de-duplicates and drops spellings of the port's own name", () => {
+    expect(parseAliases("saigon, hcm,HCM , ho-chi-minh,", "HO CHI MINH")).toEqual(["SAIGON", "HCM"]);
+  });
+});
+
+describe("validatePortForm", () => {
+  it("rejects names and aliases that already resolve to another port", () => {
+    const form = { ...emptyPortForm(), name: "Hai Phong", aliases: "TANJUNG PRIOK" };
+    expect(validatePortForm(form, PORTS, null)).toEqual({
+      name: '"HAI PHONG" already belongs to HAIPHONG',
+      aliases: '"TANJUNG PRIOK" already belongs to JAKARTA',
+    });
+  });
+
+  it("allows a port to keep its own spellings when edited", () => {
+    const form = { name: "HAIPHONG", unlocode: "VNHPH", country: "VN", aliases: "HAI PHONG, HPH" };
+    expect(validatePortForm(form, PORTS, HAIPHONG.id)).toEqual({});
+  });
+});
@@ -0,0 +1,179 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { resequenceRevisions } from "@/lib/revisions";
+import type { Port, PortFile, PortForm } from "@/lib/types";
+
+// =========================
+// NORMALIZATION
+// =========================
+// "Hai Phong", "HAIPHONG" and "hai-phong" share the key "HAIPHONG"
+export function portKey(text: string) {
+  return text.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+export function formatPortLabel(port: Port) {
+  return port.unlocode ? `${port.name} (${port.unlocode})` : port.name;
+}
+
+export function emptyPortForm(): PortForm {
+  return { name: "", unlocode: "", country: "", aliases: "" };
+}
+
+export function portToForm(port: Port): PortForm {
+  return {
+    name: port.name,
+    unlocode: port.unlocode ?? "",
+    country: port.country ?? "",
+    aliases: port.aliases.join(", "),
+  };
+}
+
+export function parseAliases(text: string, name = "") {
+  const aliases = text
+    .split(",")
+    .map((alias) => alias.trim().toUpperCase().replace(/\s+/g, " "))
+    .filter((alias) => alias && portKey(alias) !== portKey(name));
+  return [...new Set(aliases)];
+}
+
+// =========================
+// RESOLUTION
+// =========================
+// Looks a free-text port up by canonical name, UN/LOCODE or alias
+export function createPortResolver(ports: Port[]) {
+  const byKey = new Map<string, Port>();
+  for (const port of ports) {
+    for (const text of [port.name, port.unlocode ?? "", ...port.aliases]) {
+      const key = portKey(text);
+      if (key && !byKey.has(key)) byKey.set(key, port);
+    }
+  }
+  return (text: string): Port | null => byKey.get(portKey(text)) ?? null;
+}
+
+// Comma-separated port list, e.g. an uploader's assignments, resolved to
+// canonical names. Entries the catalogue does not know are returned apart.
+export function resolvePortList(text: string, ports: Port[]): { names: string[]; unknown: string[] } {
+  const resolve = createPortResolver(ports);
+  const names = new Set<string>();
+  const unknown = new Set<string>();
+  for (const entry of text.split(",").map((value) => value.trim()).filter(Boolean)) {
+    const port = resolve(entry);
+    if (port) names.add(port.name);
+    else unknown.add(entry.toUpperCase());
+  }
+  return { names: [...names], unknown: [...unknown] };
+}
+
+// Autocomplete: prefix matches before substring matches, then by name
+export function suggestPorts(ports: Port[], query: string, limit = 8): Port[] {
+  const needle = portKey(query);
+  if (!needle) return ports.slice(0, limit);
+
+  const ranked = ports.flatMap((port) => {
+    const keys = [port.name, port.unlocode ?? "", ...port.aliases].map(portKey);
+    if (keys.some((key) => key.startsWith(needle))) return [{ port, rank: 0 }];
+    if (keys.some((key) => key.includes(needle))) return [{ port, rank: 1 }];
+    return [];
+  });
+
+  return ranked
+    .sort((a, b) => a.rank - b.rank || a.port.name.localeCompare(b.port.name))
+    .slice(0, limit)
+    .map(({ port }) => port);
+}
+
+// =========================
+// VALIDATION
+// =========================
+export type PortFormErrors = Partial<Record<keyof PortForm, string>>;
+
+export function validatePortForm(form: PortForm, ports: Port[], editingId: string | null): PortFormErrors {
+  const errors: PortFormErrors = {};
+  const others = ports.filter((port) => port.id !== editingId);
+  const resolveOther = createPortResolver(others);
+
+  const name = form.name.trim();
+  if (!name) errors.name = "Name is required";
+  else if (resolveOther(name)) errors.name = `"${name.toUpperCase()}" already belongs to ${resolveOther(name)!.name}`;
+
+  const unlocode = form.unlocode.trim().toUpperCase();
+  if (unlocode && !/^[A-Z]{2}[A-Z2-9]{3}$/.test(unlocode)) {
+    errors.unlocode = "UN/LOCODE is 5 characters, e.g. VNHPH";
+  } else if (unlocode && others.some((port) => port.unlocode === unlocode)) {
+    errors.unlocode = `${unlocode} is already used`;
+  }
+
+  const country = form.country.trim().toUpperCase();
+  if (country && !/^[A-Z]{2}$/.test(country)) errors.country = "Use the 2-letter country code, e.g. VN";
+  else if (unlocode && country && !unlocode.startsWith(country)) {
+    errors.country = `UN/LOCODE ${unlocode} is not in ${country}`;
+  }
+
+  const taken = parseAliases(form.aliases, name).find((alias) => resolveOther(alias));
+  if (taken) errors.aliases = `"${taken}" already belongs to ${resolveOther(taken)!.name}`;
+
+  return errors;
+}
+
+export function portFormToRow(form: PortForm) {
+  const name = form.name.trim().toUpperCase().replace(/\s+/g, " ");
+  const unlocode = form.unlocode.trim().toUpperCase();
+  return {
+    name,
+    unlocode: unlocode || null,
+    country: form.country.trim().toUpperCase() || unlocode.slice(0, 2) || null,
+    aliases: parseAliases(form.aliases, name),
+  };
+}
+
+// =========================
+// DATA ACCESS
+// =========================
+export async function loadPorts(client: SupabaseClient): Promise<Port[]> {
+  const { data, error } = await client.from("ports").select("*").order("name");
+  if (error) throw error;
+  return (data || []) as Port[];
+}
+
+// Stored port names with no catalogue link, counted in the database
+export async function loadUnmappedPortNames(
+  client: SupabaseClient
+): Promise<{ port_name: string; count: number }[]> {
+  const { data, error } = await client.rpc("unmapped_port_names");
+  if (error) throw error;
+  return ((data || []) as { port_name: string; file_count: number }[]).map((row) => ({
+    port_name: row.port_name,
+    count: Number(row.file_count),
+  }));
+}
+
+// Rewrites every port_files row spelled `rawName` to the canonical port, along
+// with uploader rights, subscriptions, announcements and vessel schedules (see
+// replace_port_name), then renumbers revisions where the merge put two
+// spellings in the same week. Returns the number of files mapped.
+export async function mapPortFiles(client: SupabaseClient, rawName: string, port: Port): Promise<number> {
+  const { data: mapped, error } = await client.rpc("replace_port_name", {
+    old_name: rawName,
+    new_name: port.name,
+    new_port_id: port.id,
+  });
+
+  if (error) throw error;
+
+  const { data: files, error: loadError } = await client
+    .from("port_files")
+    .select("*")
+    .eq("port_name", port.name);
+
+  if (loadError) throw loadError;
+
+  for (const update of resequenceRevisions((files || []) as PortFile[])) {
+    const { error: updateError } = await client
+      .from("port_files")
+      .update({ revision: update.revision, superseded_at: update.superseded_at })
+      .eq("id", update.id);
+    if (updateError) throw updateError;
+  }
+
+  return (mapped as number | null) ?? 0;
+}
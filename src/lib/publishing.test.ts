@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest";
+import { createMemoryBackend } from "@/lib/memoryBackend";
+import { uploadPortFile, type PortFileUpload } from "@/lib/portFiles";
+import {
+  canChangeStatus,
+  changePortFileStatus,
+  publishDuePortFiles,
+  validatePublishAt,
+  withdrawPortFile,
+} from "@/lib/publishing";
+import { resequenceRevisions } from "@/lib/revisions";
+import type { PortFile } from "@/lib/types";
+
+const NOW = Date.UTC(2026, 2, 16, 8, 0);
+const LATER = new Date(NOW + 60 * 60 * 1000).toISOString();
+const TOMORROW = new Date(NOW + 24 * 60 * 60 * 1000).toISOString();
+
+const upload = (overrides: Partial<PortFileUpload> = {}): PortFileUpload => ({
+  port_name: "BATAM",
+  week: 12,
+  year: 2026,
+  file: new File(["%PDF-1.4 schedule"], "schedule.pdf", { type: "application/pdf" }),
+  ...overrides,
+});
+
+const row = (overrides: Partial<PortFile>): PortFile => ({
+  id: "p",
+  port_name: "BATAM",
+  week: 12,
+  year: 2026,
+  file_name: "p.pdf",
+  file_url: "/api/port-files/p/file",
+  uploaded_at: new Date(NOW).toISOString(),
+  revision: 1,
+  superseded_at: null,
+  status: "published",
+  publish_at: new Date(NOW).toISOString(),
+  ...overrides,
+});
+
+describe("validatePublishAt", () => {
+  it("only needs a future time for scheduled files", () => {
+    expect(validatePublishAt("draft", null, NOW)).toBeNull();
+    expect(validatePublishAt("scheduled", LATER, NOW)).toBeNull();
+    expect(validatePublishAt("scheduled", null, NOW)).toBe("Pick a release time");
+    expect(validatePublishAt("scheduled", "soon", NOW)).toBe("Release time is not a valid date");
+    expect(validatePublishAt("scheduled", new Date(NOW).toISOString(), NOW)).toBe(
+      "Release time must be in the future"
+    );
+  });
+});
+
+describe("canChangeStatus", () => {
+  it("only lets published files be withdrawn", () => {
+    expect(canChangeStatus({ status: "published" }, "withdrawn")).toBe(true);
+    expect(canChangeStatus({ status: "published" }, "draft")).toBe(false);
+    expect(canChangeStatus({}, "scheduled")).toBe(false);
+    expect(canChangeStatus({ status: "draft" }, "published")).toBe(true);
+  });
+});
+
+describe("draft and scheduled uploads", () => {
+  it("keep the current revision live until they are published", async () => {
+    const backend = createMemoryBackend();
+    const { file: first } = await uploadPortFile(backend, upload(), NOW);
+    const { file: draft, superseded } = await uploadPortFile(backend, upload({ status: "draft" }), NOW + 1);
+
+    expect(draft).toMatchObject({ status: "draft", publish_at: null, revision: 2 });
+    expect(superseded).toEqual([]);
+    expect((await backend.portFiles.get(first.id))?.superseded_at ?? null).toBeNull();
+
+    const published = await changePortFileStatus(backend, draft, "published", null, NOW + 2);
+
+    expect(published.file).toMatchObject({ status: "published", publish_at: new Date(NOW + 2).toISOString() });
+    expect(published.superseded.map((file) => file.id)).toEqual([first.id]);
+  });
+});
+
+describe("publishDuePortFiles", () => {
+  it("publishes scheduled files whose time has come", async () => {
+    const backend = createMemoryBackend();
+    const { file: due } = await uploadPortFile(backend, upload({ status: "scheduled", publish_at: LATER }), NOW);
+    const { file: waiting } = await uploadPortFile(
+      backend,
+      upload({ port_name: "SHANGHAI", status: "scheduled", publish_at: TOMORROW }),
+      NOW
+    );
+
+    const result = await publishDuePortFiles(backend, Date.parse(LATER));
+
+    expect(result.failed).toBe(0);
+    expect(result.published.map((file) => file.id)).toEqual([due.id]);
+    expect((await backend.portFiles.get(waiting.id))?.status).toBe("scheduled");
+  });
+
+  it("supersedes an older revision scheduled after a newer one went out", async () => {
+    const backend = createMemoryBackend();
+    const { file: older } = await uploadPortFile(backend, upload({ status: "scheduled", publish_at: LATER }), NOW);
+    const { file: newer } = await uploadPortFile(backend, upload(), NOW + 1);
+
+    await publishDuePortFiles(backend, Date.parse(LATER));
+
+    expect((await backend.portFiles.get(older.id))?.superseded_at).toBe(LATER);
+    expect((await backend.portFiles.get(newer.id))?.superseded_at ?? null).toBeNull();
+  });
+});
+
+describe("withdrawPortFile", () => {
+  it("brings the previous published revision back", async () => {
+    const backend = createMemoryBackend();
+    const { file: first } = await uploadPortFile(backend, upload(), NOW);
+    const { file: second } = await uploadPortFile(backend, upload(), NOW + 1);
+
+    const withdrawn = await withdrawPortFile(backend, second);
+
+    expect(withdrawn.status).toBe("withdrawn");
+    expect((await backend.portFiles.get(first.id))?.superseded_at ?? null).toBeNull();
+  });
+});
+
+describe("resequenceRevisions", () => {
+  it("does not let an unpublished revision supersede the published one", () => {
+    const published = row({ id: "p" });
+    const draft = row({ id: "d", uploaded_at: LATER, status: "draft", publish_at: null });
+
+    expect(resequenceRevisions([draft, published])).toEqual([{ id: "d", revision: 2, superseded_at: null }]);
+  });
+
+  it("supersedes a published revision when a newer one is published", () => {
+    const first = row({ id: "p" });
+    const draft = row({ id: "d", uploaded_at: LATER, status: "draft", publish_at: null });
+    const second = row({ id: "q", uploaded_at: TOMORROW, publish_at: TOMORROW });
+
+    expect(resequenceRevisions([first, draft, second])).toEqual([
+      { id: "p", revision: 1, superseded_at: TOMORROW },
+      { id: "d", revision: 2, superseded_at: null },
+      { id: "q", revision: 3, superseded_at: null },
+    ]);
+  });
+});
@@ -0,0 +1,152 @@
+import type { PortFileRepository } from "@/lib/dataAccess";
+import { isLatestRevision, revisionHistory } from "@/lib/revisions";
+import type { PortFile, PortFileStatus } from "@/lib/types";
+
+// =========================
+// STATUS
+// =========================
+// draft: staff only · scheduled: goes live at publish_at · published: public
+// withdrawn: taken down again, kept for the record.
+// Mirrors supabase/migrations/*_port_file_publishing.sql
+export const PORT_FILE_STATUSES: PortFileStatus[] = ["draft", "scheduled", "published", "withdrawn"];
+
+// Statuses an upload can start in
+export const UPLOAD_STATUSES = ["published", "scheduled", "draft"] as const;
+export type UploadStatus = (typeof UPLOAD_STATUSES)[number];
+
+// Allowed moves from each status. A published file can only be withdrawn so
+// the public never sees it silently turn back into a draft.
+const STATUS_CHANGES: Record<PortFileStatus, PortFileStatus[]> = {
+  draft: ["scheduled", "published"],
+  scheduled: ["draft", "scheduled", "published"],
+  published: ["withdrawn"],
+  withdrawn: ["draft", "scheduled", "published"],
+};
+
+// Rows from before publishing existed have no status and count as published
+export function portFileStatus(file: Pick<PortFile, "status">): PortFileStatus {
+  return file.status ?? "published";
+}
+
+export function isPublished(file: Pick<PortFile, "status">) {
+  return portFileStatus(file) === "published";
+}
+
+export function canChangeStatus(file: Pick<PortFile, "status">, status: PortFileStatus) {
+  return STATUS_CHANGES[portFileStatus(file)].includes(status);
+}
+
+// Error message for a release time, or null when it is fine
+export function validatePublishAt(status: PortFileStatus, publishAt: string | null, now = Date.now()) {
+  if (status !== "scheduled") return null;
+  if (!publishAt) return "Pick a release time";
+  const time = Date.parse(publishAt);
+  if (Number.isNaN(time)) return "Release time is not a valid date";
+  if (time <= now) return "Release time must be in the future";
+  return null;
+}
+
+// publish_at is stamped when a file goes live, so a realtime update carrying a
+// fresh publish_at is a release rather than an edit
+const JUST_PUBLISHED_MS = 2 * 60 * 1000;
+
+export function wasJustPublished(file: PortFile, now = Date.now()) {
+  return isPublished(file) && !!file.publish_at && now - Date.parse(file.publish_at) < JUST_PUBLISHED_MS;
+}
+
+// =========================
+// TRANSITIONS
+// =========================
+export type PublishResult = {
+  file: PortFile;
+  // Revisions this release marked as superseded
+  superseded: PortFile[];
+};
+
+type PortFilesBackend = { portFiles: PortFileRepository };
+
+// Makes the file the public revision of its port and week. Older revisions
+// are superseded; if a newer revision is already out, this one goes straight
+// into the history.
+export async function publishPortFile(
+  { portFiles }: PortFilesBackend,
+  file: PortFile,
+  now = Date.now()
+): Promise<PublishResult> {
+  const publishedAt = new Date(now).toISOString();
+  const revision = file.revision ?? 1;
+  const others = revisionHistory(await portFiles.listWeek(file.week, file.year), file).filter(
+    (other) => other.id !== file.id && isLatestRevision(other)
+  );
+
+  const hasNewer = others.some((other) => (other.revision ?? 1) > revision && isPublished(other));
+  const superseded = hasNewer ? [] : others.filter((other) => (other.revision ?? 1) < revision);
+
+  const published = await portFiles.update(file.id, {
+    status: "published",
+    publish_at: publishedAt,
+    superseded_at: hasNewer ? publishedAt : null,
+  });
+  await portFiles.setSupersededAt(superseded.map((other) => other.id), publishedAt);
+
+  return { file: published, superseded };
+}
+
+// After the current revision is deleted or withdrawn, the newest published
+// revision before it becomes current again
+export async function restorePreviousRevision(portFiles: PortFileRepository, file: PortFile) {
+  const previous = revisionHistory(await portFiles.listWeek(file.week, file.year), file).find(
+    (other) => other.id !== file.id && (other.revision ?? 1) < (file.revision ?? 1) && isPublished(other)
+  );
+  if (previous && !isLatestRevision(previous)) {
+    await portFiles.setSupersededAt([previous.id], null);
+  }
+}
+
+// Takes the file down. Withdrawing the current revision brings the previous
+// published one back.
+export async function withdrawPortFile({ portFiles }: PortFilesBackend, file: PortFile): Promise<PortFile> {
+  const withdrawn = await portFiles.update(file.id, { status: "withdrawn" });
+  if (isPublished(file) && isLatestRevision(file)) await restorePreviousRevision(portFiles, file);
+  return withdrawn;
+}
+
+export async function changePortFileStatus(
+  backend: PortFilesBackend,
+  file: PortFile,
+  status: PortFileStatus,
+  publishAt: string | null,
+  now = Date.now()
+): Promise<PublishResult> {
+  if (status === "published") return publishPortFile(backend, file, now);
+  if (status === "withdrawn") return { file: await withdrawPortFile(backend, file), superseded: [] };
+
+  const updated = await backend.portFiles.update(file.id, {
+    status,
+    publish_at: status === "scheduled" ? new Date(publishAt!).toISOString() : null,
+  });
+  return { file: updated, superseded: [] };
+}
+
+// =========================
+// SCHEDULED RELEASES
+// =========================
+// Run by the cron. One failing file does not hold back the others.
+export async function publishDuePortFiles(backend: PortFilesBackend, now = Date.now()) {
+  const due = (await backend.portFiles.listScheduled()).filter(
+    (file) => file.publish_at && Date.parse(file.publish_at) <= now
+  );
+
+  const published: PortFile[] = [];
+  let failed = 0;
+  for (const file of due) {
+    try {
+      published.push((await publishPortFile(backend, file, now)).file);
+    } catch (publishError) {
+      console.error(`Error publishing ${file.file_name}:`, publishError);
+      failed++;
+    }
+  }
+
+  return { published, failed };
+}
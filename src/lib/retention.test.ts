@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { retentionStatus, retentionWindow, validateRetentionPolicy } from "@/lib/retention";
+
+const CURRENT = { week: 2, year: 2026 };
+
+describe("retentionWindow", () => {
+  it("counts weeks across the year boundary", () => {
+    expect(retentionWindow({ weeks_behind: 4, weeks_ahead: 2, purge_after_weeks: 60 }, CURRENT)).toEqual({
+      from: { week: 50, year: 2025 },
+      to: { week: 4, year: 2026 },
+      purgeBefore: { week: 46, year: 2024 },
+    });
+  });
+
+  it("has no purge week when purging is off", () => {
+    expect(retentionWindow({ weeks_behind: 4, weeks_ahead: 2, purge_after_weeks: null }, CURRENT).purgeBefore).toBeNull();
+  });
+});
+
+describe("retentionStatus", () => {
+  const window = retentionWindow({ weeks_behind: 4, weeks_ahead: 2, purge_after_weeks: 60 }, CURRENT);
+
+  it("classifies weeks by ISO week rather than upload time", () => {
+    expect(retentionStatus({ week: 50, year: 2025 }, window)).toBe("current");
+    expect(retentionStatus({ week: 4, year: 2026 }, window)).toBe("current");
+    expect(retentionStatus({ week: 5, year: 2026 }, window)).toBe("upcoming");
+    expect(retentionStatus({ week: 49, year: 2025 }, window)).toBe("archived");
+    expect(retentionStatus({ week: 46, year: 2024 }, window)).toBe("archived");
+    expect(retentionStatus({ week: 45, year: 2024 }, window)).toBe("purge");
+  });
+});
+
+describe("validateRetentionPolicy", () => {
+  it("keeps purging outside the current view", () => {
+    expect(validateRetentionPolicy({ weeks_behind: 8, weeks_ahead: 2, purge_after_weeks: 4 })).toHaveProperty(
+      "purge_after_weeks"
+    );
+    expect(validateRetentionPolicy({ weeks_behind: 8, weeks_ahead: 2, purge_after_weeks: 52 })).toEqual({});
+  });
+});
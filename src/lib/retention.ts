@@ -0,0 +1,140 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { addIsoWeeks, compareIsoWeeks, getCurrentIsoWeek, type IsoWeek } from "@/lib/isoWeek";
+import type { PortFile, RetentionPolicy, RetentionPreview } from "@/lib/types";
+
+// =========================
+// POLICY
+// =========================
+// Mirrors supabase/migrations/*_retention_policy.sql
+export const MAX_RETENTION_WEEKS = 520;
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  weeks_behind: 4,
+  weeks_ahead: 4,
+  purge_after_weeks: null,
+};
+
+export type RetentionPolicyErrors = Partial<Record<keyof RetentionPolicy, string>>;
+
+export function validateRetentionPolicy(policy: RetentionPolicy): RetentionPolicyErrors {
+  const errors: RetentionPolicyErrors = {};
+  const inRange = (value: number) => Number.isInteger(value) && value >= 0 && value <= MAX_RETENTION_WEEKS;
+
+  if (!inRange(policy.weeks_behind)) errors.weeks_behind = `Use 0 to ${MAX_RETENTION_WEEKS} weeks`;
+  if (!inRange(policy.weeks_ahead)) errors.weeks_ahead = `Use 0 to ${MAX_RETENTION_WEEKS} weeks`;
+  if (policy.purge_after_weeks !== null) {
+    if (!inRange(policy.purge_after_weeks)) {
+      errors.purge_after_weeks = `Use 0 to ${MAX_RETENTION_WEEKS} weeks`;
+    } else if (policy.purge_after_weeks <= policy.weeks_behind) {
+      errors.purge_after_weeks = "Must be longer than the visible weeks behind, so files are archived first";
+    }
+  }
+  return errors;
+}
+
+export async function loadRetentionPolicy(client: SupabaseClient): Promise<RetentionPolicy> {
+  const { data, error } = await client
+    .from("retention_policy")
+    .select("weeks_behind, weeks_ahead, purge_after_weeks, updated_at, updated_by")
+    .maybeSingle();
+
+  if (error) throw error;
+  return (data as RetentionPolicy | null) ?? DEFAULT_RETENTION_POLICY;
+}
+
+// =========================
+// WINDOW
+// =========================
+// Weeks are compared by their ISO week, not by upload time, so a schedule
+// uploaded late still archives with its week.
+export type RetentionWindow = {
+  // First and last week shown by default
+  from: IsoWeek;
+  to: IsoWeek;
+  // Weeks before this one may be purged; null when purging is off
+  purgeBefore: IsoWeek | null;
+};
+
+export function retentionWindow(policy: RetentionPolicy, current = getCurrentIsoWeek()): RetentionWindow {
+  return {
+    from: addIsoWeeks(current, -policy.weeks_behind),
+    to: addIsoWeeks(current, policy.weeks_ahead),
+    purgeBefore: policy.purge_after_weeks === null ? null : addIsoWeeks(current, -policy.purge_after_weeks),
+  };
+}
+
+export type RetentionStatus = "current" | "upcoming" | "archived" | "purge";
+
+export function retentionStatus(file: Pick<PortFile, "week" | "year">, window: RetentionWindow): RetentionStatus {
+  if (window.purgeBefore && compareIsoWeeks(file, window.purgeBefore) < 0) return "purge";
+  if (compareIsoWeeks(file, window.from) < 0) return "archived";
+  if (compareIsoWeeks(file, window.to) > 0) return "upcoming";
+  return "current";
+}
+
+// PostgREST `or` filters for week >= / <= a given ISO week
+export function weekOnOrAfter(target: IsoWeek) {
+  return `year.gt.${target.year},and(year.eq.${target.year},week.gte.${target.week})`;
+}
+
+export function weekBefore(target: IsoWeek) {
+  return `year.lt.${target.year},and(year.eq.${target.year},week.lt.${target.week})`;
+}
+
+export function weekOnOrBefore(target: IsoWeek) {
+  return `year.lt.${target.year},and(year.eq.${target.year},week.lte.${target.week})`;
+}
+
+export function weekAfter(target: IsoWeek) {
+  return `year.gt.${target.year},and(year.eq.${target.year},week.gt.${target.week})`;
+}
+
+// =========================
+// PREVIEW & PURGE
+// =========================
+export const MAX_PURGE_BATCH = 500;
+
+// The window counts are published files, as visitors see them. Purging
+// deletes drafts and withdrawn files too, so the purge count covers every row.
+export async function previewRetention(client: SupabaseClient, policy: RetentionPolicy): Promise<RetentionPreview> {
+  const window = retentionWindow(policy);
+  const count = (filter: string | null, { publishedOnly }: { publishedOnly: boolean }) => {
+    let query = client.from("port_files").select("id", { count: "exact", head: true });
+    if (publishedOnly) query = query.eq("status", "published");
+    return filter ? query.or(filter) : query;
+  };
+
+  const [total, archived, upcoming, purge, purgeRows] = await Promise.all([
+    count(null, { publishedOnly: true }),
+    count(weekBefore(window.from), { publishedOnly: true }),
+    count(weekAfter(window.to), { publishedOnly: true }),
+    window.purgeBefore ? count(weekBefore(window.purgeBefore), { publishedOnly: false }) : null,
+    window.purgeBefore
+      ? client
+          .from("port_files")
+          .select("*")
+          .or(weekBefore(window.purgeBefore))
+          .order("year")
+          .order("week")
+          .order("port_name")
+          .limit(MAX_PURGE_BATCH)
+      : null,
+  ]);
+
+  for (const result of [total, archived, upcoming, purge, purgeRows]) {
+    if (result?.error) throw result.error;
+  }
+
+  return {
+    policy,
+    window: { from: window.from, to: window.to },
+    purgeBefore: window.purgeBefore,
+    counts: {
+      current: (total.count ?? 0) - (archived.count ?? 0) - (upcoming.count ?? 0),
+      upcoming: upcoming.count ?? 0,
+      archived: archived.count ?? 0,
+      purge: purge?.count ?? 0,
+    },
+    purge: (purgeRows?.data || []) as PortFile[],
+  };
+}
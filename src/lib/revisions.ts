@@ -0,0 +1,63 @@
+import type { PortFile } from "@/lib/types";
+
+// =========================
+// PORT FILE REVISIONS
+// =========================
+type PortWeek = Pick<PortFile, "port_name" | "week" | "year">;
+
+export function portWeekKey(file: PortWeek) {
+  return `${file.port_name.trim().toUpperCase()}|${file.year}|${file.week}`;
+}
+
+export function isLatestRevision(file: PortFile) {
+  return !file.superseded_at;
+}
+
+// All revisions for the same port/week/year, newest first
+export function revisionHistory(files: PortFile[], target: PortWeek): PortFile[] {
+  const key = portWeekKey(target);
+  return files
+    .filter((file) => portWeekKey(file) === key)
+    .sort((a, b) => (b.revision ?? 1) - (a.revision ?? 1));
+}
+
+export function nextRevisionNumber(files: PortFile[], target: PortWeek): number {
+  const history = revisionHistory(files, target);
+  return history.length ? (history[0].revision ?? 1) + 1 : 1;
+}
+
+export type RevisionUpdate = Pick<PortFile, "id" | "revision" | "superseded_at">;
+
+// isPublished in publishing.ts, which imports this module
+function isPublishedRevision(file: PortFile) {
+  return (file.status ?? "published") === "published";
+}
+
+// Renumbers revisions by upload time within each port/week, e.g. after two
+// spellings of a port were merged. As in uploadPortFile and publishPortFile,
+// only a published revision supersedes older ones; drafts, scheduled and
+// withdrawn rows keep their superseded_at. Only rows that change are returned.
+export function resequenceRevisions(files: PortFile[]): RevisionUpdate[] {
+  const groups = new Map<string, PortFile[]>();
+  for (const file of files) {
+    const key = portWeekKey(file);
+    groups.set(key, [...(groups.get(key) ?? []), file]);
+  }
+
+  const updates: RevisionUpdate[] = [];
+  for (const group of groups.values()) {
+    group.sort((a, b) => new Date(a.uploaded_at).getTime() - new Date(b.uploaded_at).getTime());
+    group.forEach((file, index) => {
+      const revision = index + 1;
+      let supersededAt = file.superseded_at ?? null;
+      if (isPublishedRevision(file)) {
+        const next = group.slice(index + 1).find(isPublishedRevision);
+        supersededAt = next ? file.superseded_at ?? next.publish_at ?? next.uploaded_at : null;
+      }
+      if ((file.revision ?? 1) !== revision || (file.superseded_at ?? null) !== supersededAt) {
+        updates.push({ id: file.id, revision, superseded_at: supersededAt });
+      }
+    });
+  }
+  return updates;
+}
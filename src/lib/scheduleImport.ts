@@ -0,0 +1,211 @@
+import * as XLSX from "xlsx";
+import { isValidIsoWeek } from "@/lib/isoWeek";
+import { validatePortCall } from "@/lib/schedules";
+import type { PortCall, VesselScheduleForm } from "@/lib/types";
+
+// =========================
+// IMPORT FIELDS
+// =========================
+// One sheet row = one port call. Rows sharing port/week/year/vessel/voyage
+// are grouped into a single vessel schedule.
+export const IMPORT_FIELDS = [
+  { key: "port_name", label: "Port (PDF)", required: true, aliases: ["port", "port name", "pdf port", "pod", "destination"] },
+  { key: "week", label: "Week", required: true, aliases: ["week", "wk", "w"] },
+  { key: "year", label: "Year", required: true, aliases: ["year", "yr"] },
+  { key: "vessel_name", label: "Vessel", required: true, aliases: ["vessel", "vessel name", "ship"] },
+  { key: "voyage_no", label: "Voyage", required: true, aliases: ["voyage", "voy", "voyage no", "voyage number"] },
+  { key: "service", label: "Service / Route", required: false, aliases: ["service", "route", "service route"] },
+  { key: "call_port", label: "Call Port", required: true, aliases: ["call port", "port of call", "rotation port", "call"] },
+  { key: "eta", label: "ETA", required: true, aliases: ["eta"] },
+  { key: "etd", label: "ETD", required: true, aliases: ["etd"] },
+  { key: "cut_off", label: "Cut-off", required: false, aliases: ["cut off", "cutoff", "cy cut off", "closing"] },
+] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number]["key"];
+
+// Field -> column index in the sheet (null = not mapped)
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export type ImportRow = {
+  rowNumber: number;
+  schedule: Omit<VesselScheduleForm, "port_calls">;
+  call: PortCall;
+  errors: string[];
+};
+
+// Conflict target for re-imports, see the vessel_schedules unique index
+export const SCHEDULE_UPSERT_KEY = "port_name,year,week,vessel_name,voyage_no";
+
+// =========================
+// SHEET READING
+// =========================
+export async function readSheet(file: File): Promise<unknown[][]> {
+  const isCsv = file.name.toLowerCase().endsWith(".csv");
+  const workbook = XLSX.read(await file.arrayBuffer(), {
+    type: "array",
+    cellDates: true,
+    // Keep CSV text as-is so dates are parsed day-first below
+    raw: isCsv,
+  });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) return [];
+  return XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: "", raw: true });
+}
+
+function normalizeHeader(header: unknown) {
+  return String(header ?? "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+export function guessColumnMapping(headers: unknown[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping = {} as ColumnMapping;
+
+  for (const field of IMPORT_FIELDS) {
+    const index = normalized.findIndex(
+      (header, i) => !used.has(i) && (field.aliases as readonly string[]).includes(header)
+    );
+    mapping[field.key] = index === -1 ? null : index;
+    if (index !== -1) used.add(index);
+  }
+
+  return mapping;
+}
+
+// =========================
+// VALUE PARSING
+// =========================
+function isBlank(value: unknown) {
+  return value === null || value === undefined || String(value).trim() === "";
+}
+
+function buildDate(y: number, m: number, d: number, hh = 0, mm = 0): string | null {
+  const date = new Date(y, m - 1, d, hh, mm);
+  if (
+    date.getFullYear() !== y ||
+    date.getMonth() !== m - 1 ||
+    date.getDate() !== d ||
+    hh > 23 ||
+    mm > 59
+  ) {
+    return null;
+  }
+  return date.toISOString();
+}
+
+// Accepts Excel dates/serials, "2026-03-16 08:00" and day-first "16/03/2026 08:00".
+export function parseSheetDate(value: unknown): string | null {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value.toISOString();
+  }
+
+  if (typeof value === "number") {
+    const parsed = XLSX.SSF.parse_date_code(value);
+    if (!parsed) return null;
+    return buildDate(parsed.y, parsed.m, parsed.d, parsed.H, parsed.M);
+  }
+
+  const text = String(value ?? "").trim();
+
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[ T](\d{1,2}):(\d{2}))?/);
+  if (iso) {
+    const [, y, m, d, hh, mm] = iso;
+    return buildDate(+y, +m, +d, +(hh ?? 0), +(mm ?? 0));
+  }
+
+  const dayFirst = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})(?:\s+(\d{1,2}):(\d{2}))?$/);
+  if (dayFirst) {
+    const [, d, m, y, hh, mm] = dayFirst;
+    return buildDate(+y, +m, +d, +(hh ?? 0), +(mm ?? 0));
+  }
+
+  return null;
+}
+
+// =========================
+// ROW VALIDATION
+// =========================
+export function buildImportRows(
+  rows: unknown[][],
+  mapping: ColumnMapping,
+  // Canonical spelling of a port, or null when it is unknown
+  resolvePort: (text: string) => string | null
+): ImportRow[] {
+  const cell = (row: unknown[], field: ImportField) => {
+    const index = mapping[field];
+    return index === null ? "" : row[index];
+  };
+  const text = (row: unknown[], field: ImportField) =>
+    String(cell(row, field) ?? "").trim().toUpperCase();
+
+  const result: ImportRow[] = [];
+
+  rows.forEach((row, index) => {
+    if (row.every(isBlank)) return;
+
+    const errors: string[] = [];
+    const week = Number(cell(row, "week"));
+    const year = Number(cell(row, "year"));
+
+    const schedule = {
+      port_name: text(row, "port_name"),
+      week,
+      year,
+      vessel_name: text(row, "vessel_name"),
+      voyage_no: text(row, "voyage_no"),
+      service: String(cell(row, "service") ?? "").trim(),
+    };
+
+    if (!schedule.port_name) errors.push("Port is required");
+    else if (!resolvePort(schedule.port_name)) errors.push(`Unknown port "${schedule.port_name}"`);
+    else schedule.port_name = resolvePort(schedule.port_name)!;
+    if (!schedule.vessel_name) errors.push("Vessel is required");
+    if (!schedule.voyage_no) errors.push("Voyage is required");
+    if (!Number.isInteger(year) || year < 2000 || year > 2100) errors.push("Year is not valid");
+    else if (!isValidIsoWeek(week, year)) errors.push(`Week ${week} does not exist in ${year}`);
+
+    const rawCutOff = cell(row, "cut_off");
+    const call: PortCall = {
+      port_name: text(row, "call_port"),
+      eta: parseSheetDate(cell(row, "eta")) ?? "",
+      etd: parseSheetDate(cell(row, "etd")) ?? "",
+      cut_off: isBlank(rawCutOff) ? null : parseSheetDate(rawCutOff) ?? String(rawCutOff),
+    };
+
+    if (call.port_name && !resolvePort(call.port_name)) {
+      errors.push(`Unknown port "${call.port_name}"`);
+    } else if (call.port_name) {
+      call.port_name = resolvePort(call.port_name)!;
+    }
+    errors.push(...validatePortCall(call));
+
+    // +2: one for the header row, one because sheet rows are 1-based
+    result.push({ rowNumber: index + 2, schedule, call, errors });
+  });
+
+  return result;
+}
+
+export function scheduleKey(schedule: Pick<VesselScheduleForm, "port_name" | "week" | "year" | "vessel_name" | "voyage_no">) {
+  return [schedule.port_name, schedule.year, schedule.week, schedule.vessel_name, schedule.voyage_no].join("|");
+}
+
+export function groupImportRows(rows: ImportRow[]): VesselScheduleForm[] {
+  const groups = new Map<string, VesselScheduleForm>();
+
+  for (const row of rows) {
+    const key = scheduleKey(row.schedule);
+    const existing = groups.get(key);
+    if (existing) {
+      existing.port_calls.push(row.call);
+      if (!existing.service) existing.service = row.schedule.service;
+    } else {
+      groups.set(key, { ...row.schedule, port_calls: [row.call] });
+    }
+  }
+
+  return [...groups.values()];
+}
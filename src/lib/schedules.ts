@@ -0,0 +1,170 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { isValidIsoWeek } from "@/lib/isoWeek";
+import { ilikeValue } from "@/lib/portFileQuery";
+import { portWeekKey } from "@/lib/revisions";
+import type { PortCall, PortFile, VesselSchedule, VesselScheduleForm } from "@/lib/types";
+
+// =========================
+// PORT CALLS
+// =========================
+export function emptyPortCall(): PortCall {
+  return { port_name: "", eta: "", etd: "", cut_off: null };
+}
+
+function isValidDate(value: string | null | undefined) {
+  return !!value && !isNaN(new Date(value).getTime());
+}
+
+// "2026-03-16T08:00" (datetime-local input) <-> ISO string
+export function toDateTimeInput(iso: string | null | undefined): string {
+  if (!isValidDate(iso)) return "";
+  const date = new Date(iso!);
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+export function fromDateTimeInput(value: string): string {
+  if (!isValidDate(value)) return "";
+  return new Date(value).toISOString();
+}
+
+// =========================
+// VALIDATION
+// =========================
+// `label` prefixes each message, e.g. "Call 2 (SINGAPORE): ETD is before ETA"
+export function validatePortCall(call: PortCall, label?: string): string[] {
+  const errors: string[] = [];
+
+  if (!call.port_name.trim()) errors.push("Port is required");
+  if (!isValidDate(call.eta)) errors.push("ETA is not a valid date");
+  if (!isValidDate(call.etd)) errors.push("ETD is not a valid date");
+
+  if (isValidDate(call.eta) && isValidDate(call.etd)) {
+    if (new Date(call.etd).getTime() < new Date(call.eta).getTime()) {
+      errors.push("ETD is before ETA");
+    }
+  }
+
+  if (call.cut_off) {
+    if (!isValidDate(call.cut_off)) {
+      errors.push("Cut-off is not a valid date");
+    } else if (isValidDate(call.etd) && new Date(call.cut_off).getTime() > new Date(call.etd).getTime()) {
+      errors.push("Cut-off is after ETD");
+    }
+  }
+
+  return label ? errors.map((error) => `${label}: ${error}`) : errors;
+}
+
+export function validateSchedule(schedule: VesselScheduleForm): string[] {
+  const errors: string[] = [];
+
+  if (!schedule.vessel_name.trim()) errors.push("Vessel name is required");
+  if (!schedule.voyage_no.trim()) errors.push("Voyage number is required");
+  if (!schedule.port_name.trim()) errors.push("Port name is required");
+  if (!Number.isInteger(schedule.year) || schedule.year < 2000 || schedule.year > 2100) {
+    errors.push("Year is not valid");
+  } else if (!isValidIsoWeek(schedule.week, schedule.year)) {
+    errors.push(`Week ${schedule.week} does not exist in ${schedule.year}`);
+  }
+  if (schedule.port_calls.length === 0) {
+    errors.push("Add at least one port call");
+  }
+
+  schedule.port_calls.forEach((call, index) => {
+    const label = `Call ${index + 1}${call.port_name ? ` (${call.port_name})` : ""}`;
+    errors.push(...validatePortCall(call, label));
+  });
+
+  return errors;
+}
+
+// =========================
+// LOOKUPS
+// =========================
+// Latest PDF uploaded for the same port/week/year as the schedule.
+export function findPortFile(
+  files: PortFile[],
+  schedule: Pick<VesselSchedule, "port_name" | "week" | "year">
+): PortFile | undefined {
+  const portName = schedule.port_name.trim().toUpperCase();
+  return files
+    .filter(
+      (file) =>
+        file.port_name.trim().toUpperCase() === portName &&
+        file.week === schedule.week &&
+        file.year === schedule.year
+    )
+    .sort((a, b) => new Date(b.uploaded_at).getTime() - new Date(a.uploaded_at).getTime())[0];
+}
+
+// =========================
+// DATA ACCESS
+// =========================
+export const SCHEDULE_PAGE_SIZE = 50;
+// Port/weeks per port_files request; each one is a clause in the query string
+const PORT_FILE_LOOKUP_BATCH = 50;
+
+// Newest week first. search_text (see *_vessel_schedules_search.sql) holds the
+// vessel, voyage, service, port and ports of call.
+function scheduleQuery(client: SupabaseClient, query: string) {
+  let builder = client.from("vessel_schedules").select("*", { count: "exact" });
+  const q = query.trim().toLowerCase();
+  if (q) builder = builder.ilike("search_text", `%${q.replace(/[%_\\]/g, "\\$&")}%`);
+  return builder
+    .order("year", { ascending: false })
+    .order("week", { ascending: false })
+    .order("id", { ascending: true });
+}
+
+export async function loadSchedulePage(
+  client: SupabaseClient,
+  query: string,
+  offset: number,
+  limit = SCHEDULE_PAGE_SIZE
+): Promise<{ schedules: VesselSchedule[]; total: number }> {
+  const { data, error, count } = await scheduleQuery(client, query).range(offset, offset + limit - 1);
+  if (error) throw error;
+  return { schedules: (data || []) as VesselSchedule[], total: count ?? 0 };
+}
+
+// Every matching schedule, for exports
+export async function loadAllSchedules(client: SupabaseClient, query: string): Promise<VesselSchedule[]> {
+  const schedules: VesselSchedule[] = [];
+  for (let offset = 0; ; offset += 1000) {
+    const page = await loadSchedulePage(client, query, offset, 1000);
+    schedules.push(...page.schedules);
+    if (page.schedules.length === 0 || schedules.length >= page.total) break;
+  }
+  return schedules;
+}
+
+// The current published PDF of each port/week the schedules belong to, and
+// nothing else, so findPortFile has what it needs however large the archive
+export async function loadSchedulePortFiles(
+  client: SupabaseClient,
+  schedules: VesselSchedule[]
+): Promise<PortFile[]> {
+  const portWeeks = [...new Map(schedules.map((schedule) => [portWeekKey(schedule), schedule])).values()];
+  const files: PortFile[] = [];
+
+  for (let start = 0; start < portWeeks.length; start += PORT_FILE_LOOKUP_BATCH) {
+    const clauses = portWeeks
+      .slice(start, start + PORT_FILE_LOOKUP_BATCH)
+      .map(
+        ({ port_name, week, year }) =>
+          `and(port_name.ilike.${ilikeValue(port_name.trim(), { contains: false })},year.eq.${year},week.eq.${week})`
+      );
+    // Signed-in uploaders can also read drafts; only link what is public
+    const { data, error } = await client
+      .from("port_files")
+      .select("*")
+      .eq("status", "published")
+      .is("superseded_at", null)
+      .or(clauses.join(","));
+    if (error) throw error;
+    files.push(...((data || []) as PortFile[]));
+  }
+
+  return files;
+}
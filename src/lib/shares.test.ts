@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { shareState, shareUrl, validateShare } from "@/lib/shares";
+
+const NOW = Date.UTC(2026, 2, 16, 8, 0);
+const TOMORROW = new Date(NOW + 24 * 60 * 60 * 1000).toISOString();
+const YESTERDAY = new Date(NOW - 24 * 60 * 60 * 1000).toISOString();
+
+describe("shareState", () => {
+  it("is active until it expires or is revoked", () => {
+    expect(shareState({ expires_at: TOMORROW, revoked_at: null }, NOW)).toBe("active");
+    expect(shareState({ expires_at: YESTERDAY, revoked_at: null }, NOW)).toBe("expired");
+    expect(shareState({ expires_at: TOMORROW, revoked_at: YESTERDAY }, NOW)).toBe("revoked");
+  });
+});
+
+describe("validateShare", () => {
+  it("needs a recipient and a future expiry", () => {
+    expect(validateShare("PT Samudera", TOMORROW, NOW)).toEqual({});
+    expect(validateShare("", YESTERDAY, NOW)).toEqual({
+      recipient: "Recipient is required",
+      expires_at: "Expiry must be in the future",
+    });
+    expect(validateShare("x".repeat(201), "next week", NOW)).toEqual({
+      recipient: "Recipient must be at most 200 characters",
+      expires_at: "Expiry is not a valid date",
+    });
+  });
+});
+
+describe("shareUrl", () => {
+  it("points at the public share route", () => {
+    expect(shareUrl("https://schedules.example.com", "abc")).toBe("https://schedules.example.com/api/shares/abc");
+  });
+});
@@ -0,0 +1,90 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { PortFileShare } from "@/lib/types";
+
+// =========================
+// SHARE LINKS
+// =========================
+// Admins hand a customer a link to one file with its own expiry. The link
+// resolves through GET /api/shares/<token> to a short-lived signed URL, so
+// revoking it or letting it expire cuts access straight away. Only published
+// files can be shared or served this way.
+export type ShareState = "active" | "expired" | "revoked";
+
+export const MAX_RECIPIENT_LENGTH = 200;
+
+const TOKEN_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function shareUrl(baseUrl: string, token: string) {
+  return `${baseUrl}/api/shares/${encodeURIComponent(token)}`;
+}
+
+export function shareState(share: Pick<PortFileShare, "expires_at" | "revoked_at">, now = Date.now()): ShareState {
+  if (share.revoked_at) return "revoked";
+  return Date.parse(share.expires_at) > now ? "active" : "expired";
+}
+
+// Field name -> message; empty when the share can be created
+export function validateShare(recipient: string, expiresAt: string, now = Date.now()) {
+  const errors: Record<string, string> = {};
+  if (!recipient) {
+    errors.recipient = "Recipient is required";
+  } else if (recipient.length > MAX_RECIPIENT_LENGTH) {
+    errors.recipient = `Recipient must be at most ${MAX_RECIPIENT_LENGTH} characters`;
+  }
+
+  const expires = Date.parse(expiresAt);
+  if (!expiresAt || Number.isNaN(expires)) {
+    errors.expires_at = "Expiry is not a valid date";
+  } else if (expires <= now) {
+    errors.expires_at = "Expiry must be in the future";
+  }
+  return errors;
+}
+
+// =========================
+// QUERIES
+// =========================
+export async function listShares(client: SupabaseClient, portFileId: string): Promise<PortFileShare[]> {
+  const { data, error } = await client
+    .from("port_file_shares")
+    .select("*")
+    .eq("port_file_id", portFileId)
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+  return (data || []) as PortFileShare[];
+}
+
+export async function createShare(
+  client: SupabaseClient,
+  share: Pick<PortFileShare, "port_file_id" | "recipient" | "expires_at" | "created_by">
+): Promise<PortFileShare> {
+  const { data, error } = await client.from("port_file_shares").insert(share).select().single();
+  if (error) throw error;
+  return data as PortFileShare;
+}
+
+// Null when the share does not exist or belongs to another file
+export async function revokeShare(
+  client: SupabaseClient,
+  portFileId: string,
+  shareId: string,
+  now = Date.now()
+): Promise<PortFileShare | null> {
+  const { data, error } = await client
+    .from("port_file_shares")
+    .update({ revoked_at: new Date(now).toISOString() })
+    .eq("id", shareId)
+    .eq("port_file_id", portFileId)
+    .is("revoked_at", null)
+    .select()
+    .maybeSingle();
+  if (error) throw error;
+  return (data as PortFileShare | null) ?? null;
+}
+
+export async function findShare(client: SupabaseClient, token: string): Promise<PortFileShare | null> {
+  if (!TOKEN_PATTERN.test(token)) return null;
+  const { data, error } = await client.from("port_file_shares").select("*").eq("token", token).maybeSingle();
+  if (error) throw error;
+  return (data as PortFileShare | null) ?? null;
+}
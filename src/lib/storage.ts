@@ -0,0 +1,143 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { PortFile } from "@/lib/types";
+
+// =========================
+// STORAGE LAYOUT
+// =========================
+// Objects live at `port-files/<file_name>` inside the `port-files` bucket.
+export const PORT_FILES_BUCKET = "port-files";
+export const PORT_FILES_FOLDER = "port-files";
+
+export function storagePath(fileName: string) {
+  return `${PORT_FILES_FOLDER}/${fileName}`;
+}
+
+// The bucket is private. file_url holds this route, which checks the caller
+// may see the row and redirects to a signed URL that expires after
+// SIGNED_URL_TTL_SECONDS. Set by a trigger, see *_private_port_files.sql.
+export const SIGNED_URL_TTL_SECONDS = 5 * 60;
+
+export function portFileUrl(id: string, download = false) {
+  return `/api/port-files/${encodeURIComponent(id)}/file${download ? "?download=1" : ""}`;
+}
+
+// file_url for emails, feeds and exports. Rows from before the bucket was
+// private still hold an absolute storage URL.
+export function absoluteFileUrl(file: Pick<PortFile, "file_url">, baseUrl: string) {
+  return new URL(file.file_url, baseUrl).toString();
+}
+
+export type StorageObject = {
+  name: string;
+  size: number | null;
+  created_at: string | null;
+};
+
+export async function listStorageObjects(client: SupabaseClient): Promise<StorageObject[]> {
+  const objects: StorageObject[] = [];
+  const pageSize = 1000;
+
+  for (let offset = 0; ; offset += pageSize) {
+    const { data, error } = await client.storage
+      .from(PORT_FILES_BUCKET)
+      .list(PORT_FILES_FOLDER, { limit: pageSize, offset, sortBy: { column: "name", order: "asc" } });
+
+    if (error) throw error;
+
+    for (const item of data || []) {
+      // Folders have no id; the placeholder keeps empty folders alive
+      if (!item.id || item.name === ".emptyFolderPlaceholder") continue;
+      objects.push({
+        name: item.name,
+        size: typeof item.metadata?.size === "number" ? item.metadata.size : null,
+        created_at: item.created_at ?? null,
+      });
+    }
+
+    if (!data || data.length < pageSize) break;
+  }
+
+  return objects;
+}
+
+// Every port_files row, paged past the PostgREST row cap. count is the exact
+// row count from the first page; a list shorter than count is incomplete.
+export async function listPortFileRows(client: SupabaseClient): Promise<{ rows: PortFile[]; count: number | null }> {
+  const rows: PortFile[] = [];
+  const pageSize = 1000;
+  let count: number | null = null;
+
+  for (let offset = 0; ; offset += pageSize) {
+    const { data, error, count: total } = await client
+      .from("port_files")
+      .select("*", { count: "exact" })
+      .order("id", { ascending: true })
+      .range(offset, offset + pageSize - 1);
+
+    if (error) throw error;
+    if (offset === 0) count = total;
+    if (!data || data.length === 0) break;
+
+    rows.push(...(data as PortFile[]));
+    if (count !== null && rows.length >= count) break;
+  }
+
+  return { rows, count };
+}
+
+// =========================
+// CONSISTENCY CHECK
+// =========================
+export type StorageIssue =
+  | { kind: "orphan_object"; object: StorageObject }
+  | { kind: "missing_object"; row: PortFile }
+  | { kind: "size_mismatch"; row: PortFile; object: StorageObject };
+
+export function findStorageIssues(objects: StorageObject[], rows: PortFile[]): StorageIssue[] {
+  const issues: StorageIssue[] = [];
+  const objectsByName = new Map(objects.map((object) => [object.name, object]));
+  const rowNames = new Set(rows.map((row) => row.file_name));
+
+  for (const row of rows) {
+    const object = objectsByName.get(row.file_name);
+    if (!object) {
+      issues.push({ kind: "missing_object", row });
+    } else if (object.size !== null && row.file_size != null && object.size !== row.file_size) {
+      issues.push({ kind: "size_mismatch", row, object });
+    }
+  }
+
+  for (const object of objects) {
+    if (!rowNames.has(object.name)) {
+      issues.push({ kind: "orphan_object", object });
+    }
+  }
+
+  return issues;
+}
+
+// orphan -> remove object, mismatch -> trust the object size. Rows whose
+// object is missing are deleted through DELETE /api/port-files/:id instead,
+// so the previous revision is restored and the delete is audited.
+export async function repairStorageIssue(
+  client: SupabaseClient,
+  issue: Exclude<StorageIssue, { kind: "missing_object" }>
+) {
+  switch (issue.kind) {
+    case "orphan_object": {
+      const { error } = await client.storage
+        .from(PORT_FILES_BUCKET)
+        .remove([storagePath(issue.object.name)]);
+      if (error) throw error;
+      return;
+    }
+    case "size_mismatch": {
+      const { error } = await client
+        .from("port_files")
+        .update({ file_size: issue.object.size })
+        .eq("id", issue.row.id);
+      if (error) throw error;
+      return;
+    }
+  }
+}
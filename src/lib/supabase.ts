@@ -1,6 +1,10 @@
 import { createClient } from "@supabase/supabase-js";
+import { createSupabaseAuth } from "@/lib/supabaseBackend";
 
 export const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
   process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 );
+
+// Browser sign-in; the session also drives useProfile and row-level security
+export const auth = createSupabaseAuth(supabase);
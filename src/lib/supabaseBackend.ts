@@ -0,0 +1,148 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { AuthService, DataBackend, FileStorage, PortFileRepository } from "@/lib/dataAccess";
+import { portFileFacets } from "@/lib/fileFilters";
+import { buildPortFileQuery } from "@/lib/portFileQuery";
+import { PORT_FILES_BUCKET } from "@/lib/storage";
+import type { PortFile } from "@/lib/types";
+
+// =========================
+// PORT FILES
+// =========================
+// Runs as whoever the client is signed in as, so row-level security applies.
+export function createSupabasePortFiles(client: SupabaseClient): PortFileRepository {
+  return {
+    async list(query, contentMatchIds = []) {
+      const { data, error, count } = await buildPortFileQuery(client, query, contentMatchIds);
+      if (error) throw error;
+      return { files: (data || []) as PortFile[], total: count ?? 0 };
+    },
+
+    async get(id) {
+      const { data, error } = await client.from("port_files").select("*").eq("id", id).maybeSingle();
+      if (error) throw error;
+      return (data as PortFile | null) ?? null;
+    },
+
+    async facets() {
+      const { data, error } = await client.from("port_file_facets").select("port_name, year");
+      if (error) throw error;
+      return portFileFacets((data || []) as Pick<PortFile, "port_name" | "year">[]);
+    },
+
+    async findByContentHash(hash) {
+      const { data, error } = await client
+        .from("port_files")
+        .select("*")
+        .eq("content_hash", hash)
+        .order("uploaded_at");
+      if (error) throw error;
+      return (data || []) as PortFile[];
+    },
+
+    async listWeek(week, year) {
+      const { data, error } = await client.from("port_files").select("*").eq("week", week).eq("year", year);
+      if (error) throw error;
+      return (data || []) as PortFile[];
+    },
+
+    async listScheduled() {
+      const { data, error } = await client
+        .from("port_files")
+        .select("*")
+        .eq("status", "scheduled")
+        .order("publish_at", { ascending: true });
+      if (error) throw error;
+      return (data || []) as PortFile[];
+    },
+
+    async insert(row) {
+      const { data, error } = await client.from("port_files").insert(row).select().single();
+      if (error) throw error;
+      return data as PortFile;
+    },
+
+    async update(id, changes) {
+      const { data, error } = await client.from("port_files").update(changes).eq("id", id).select().single();
+      if (error) throw error;
+      return data as PortFile;
+    },
+
+    async setSupersededAt(ids, supersededAt) {
+      if (ids.length === 0) return;
+      const { error } = await client.from("port_files").update({ superseded_at: supersededAt }).in("id", ids);
+      if (error) throw error;
+    },
+
+    async remove(id) {
+      const { data, error } = await client.from("port_files").delete().eq("id", id).select().single();
+      if (error) throw error;
+      return data as PortFile;
+    },
+
+    async restore(row) {
+      const { error } = await client.from("port_files").insert(row);
+      if (error) throw error;
+    },
+  };
+}
+
+// =========================
+// STORAGE
+// =========================
+export function createSupabaseStorage(client: SupabaseClient): FileStorage {
+  const bucket = () => client.storage.from(PORT_FILES_BUCKET);
+
+  return {
+    async upload(path, file, contentType) {
+      const { error } = await bucket().upload(path, file, { cacheControl: "3600", upsert: false, contentType });
+      if (error) throw error;
+    },
+
+    async download(path) {
+      const { data, error } = await bucket().download(path);
+      if (error) throw error;
+      return data;
+    },
+
+    async remove(paths) {
+      const { error } = await bucket().remove(paths);
+      if (error) throw error;
+    },
+
+    async signedUrl(path, expiresIn, download) {
+      const { data, error } = await bucket().createSignedUrl(path, expiresIn, download ? { download } : undefined);
+      if (error) throw error;
+      return data.signedUrl;
+    },
+  };
+}
+
+// =========================
+// AUTH
+// =========================
+export function createSupabaseAuth(client: SupabaseClient): AuthService {
+  return {
+    async signIn(email, password) {
+      const { data, error } = await client.auth.signInWithPassword({ email, password });
+      if (error) throw error;
+      return data.user;
+    },
+
+    async currentUser() {
+      const { data } = await client.auth.getUser();
+      return data.user;
+    },
+
+    async signOut() {
+      const { error } = await client.auth.signOut();
+      if (error) throw error;
+    },
+  };
+}
+
+export function createSupabaseBackend(client: SupabaseClient): DataBackend {
+  return {
+    portFiles: createSupabasePortFiles(client),
+    storage: createSupabaseStorage(client),
+  };
+}
@@ -0,0 +1,276 @@
+// =========================
+// SHARED TYPES
+// =========================
+// Only published files are visible to the public, see publishing.ts
+export type PortFileStatus = "draft" | "scheduled" | "published" | "withdrawn";
+
+export type PortFile = {
+  id: string;
+  week: number;
+  year: number;
+  port_name: string;
+  file_name: string;
+  file_url: string;
+  file_size?: number;
+  uploaded_at: string;
+  uploaded_by?: string;
+  // Revision 1 is the first upload for a port/week/year
+  revision?: number;
+  change_note?: string | null;
+  // Set once a newer revision for the same port/week/year exists
+  superseded_at?: string | null;
+  // Catalogue entry for port_name
+  port_id?: string | null;
+  // SHA-256 of the PDF bytes; null until hashed
+  content_hash?: string | null;
+  status?: PortFileStatus;
+  // Planned release while scheduled, actual release once published
+  publish_at?: string | null;
+};
+
+export type Port = {
+  id: string;
+  name: string;
+  unlocode: string | null;
+  country: string | null;
+  aliases: string[];
+  created_at?: string;
+  updated_at?: string;
+};
+
+export type PortForm = {
+  name: string;
+  unlocode: string;
+  country: string;
+  // Comma-separated
+  aliases: string;
+};
+
+export type PortFileFacets = {
+  ports: string[];
+  years: number[];
+};
+
+export type TextIndexStatus = {
+  indexed: number;
+  failed: number;
+  pending: number;
+};
+
+export type TextBackfillResult = {
+  processed: number;
+  failed: number;
+  remaining: number;
+};
+
+export type HashBackfillResult = TextBackfillResult;
+
+export type RetentionPolicy = {
+  // Weeks before and after the current ISO week shown by default
+  weeks_behind: number;
+  weeks_ahead: number;
+  // Files for weeks older than this may be purged; null disables purging
+  purge_after_weeks: number | null;
+  updated_at?: string;
+  updated_by?: string | null;
+};
+
+export type RetentionCounts = { current: number; upcoming: number; archived: number; purge: number };
+
+export type RetentionPreview = {
+  policy: RetentionPolicy;
+  window: { from: { week: number; year: number }; to: { week: number; year: number } };
+  purgeBefore: { week: number; year: number } | null;
+  // Published files by window position; purge counts rows of every status
+  counts: RetentionCounts;
+  // Rows that would be purged, oldest week first (capped at MAX_PURGE_BATCH)
+  purge: PortFile[];
+};
+
+export type RetentionPurgeResult = { purged: number; skipped: number };
+
+export type DuplicateReport = {
+  // Files sharing a content hash, oldest upload first in each group
+  groups: PortFile[][];
+  // Files not hashed yet, which the report cannot cover
+  unhashed: number;
+};
+
+export type UploadForm = {
+  port_name: string;
+  file: File | null;
+  week: number;
+  year: number;
+  change_note: string;
+  status: Exclude<PortFileStatus, "withdrawn">;
+  // datetime-local value, used when status is scheduled
+  publish_at: string;
+};
+
+// One stop in a vessel's port rotation. Timestamps are ISO strings.
+export type PortCall = {
+  port_name: string;
+  eta: string;
+  etd: string;
+  cut_off?: string | null;
+};
+
+export type VesselSchedule = {
+  id: string;
+  // port/week/year match the port_files row holding the official PDF
+  port_name: string;
+  week: number;
+  year: number;
+  vessel_name: string;
+  voyage_no: string;
+  service: string;
+  port_calls: PortCall[];
+  created_at: string;
+  updated_at: string;
+};
+
+export type VesselScheduleForm = Omit<VesselSchedule, "id" | "created_at" | "updated_at">;
+
+// =========================
+// USERS
+// =========================
+export type Role = "viewer" | "uploader" | "admin";
+
+export type Profile = {
+  id: string;
+  email: string;
+  role: Role;
+  // Ports an uploader may upload for (upper-cased)
+  ports: string[];
+  created_at?: string;
+  updated_at?: string;
+};
+
+// =========================
+// AUDIT
+// =========================
+export type AuditEvent = "upload" | "revision" | "publish" | "withdraw" | "delete" | "login" | "logout";
+
+export type AuditEntry = {
+  id: number;
+  event: AuditEvent;
+  actor_id: string | null;
+  actor_email: string;
+  created_at: string;
+  port_name: string | null;
+  week: number | null;
+  year: number | null;
+  file_id: string | null;
+  file_name: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+};
+
+// =========================
+// SUBSCRIPTIONS
+// =========================
+export type SubscriptionFrequency = "instant" | "weekly";
+
+export type Subscription = {
+  id: string;
+  email: string;
+  ports: string[];
+  frequency: SubscriptionFrequency;
+  token: string;
+  // null until the confirmation link is opened; only confirmed rows get email
+  confirmed_at: string | null;
+  // Single-use secret of the open confirmation link, if any
+  confirm_token: string | null;
+  // Change requested for a confirmed address, applied once it is confirmed
+  pending_ports: string[] | null;
+  pending_frequency: SubscriptionFrequency | null;
+  last_digest_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+// =========================
+// ANNOUNCEMENTS
+// =========================
+export type AnnouncementSeverity = "info" | "warning" | "critical";
+
+export type Announcement = {
+  id: string;
+  title: string;
+  body: string;
+  severity: AnnouncementSeverity;
+  // Upper-cased port names; empty means every port
+  ports: string[];
+  starts_at: string;
+  // null = until an admin ends it
+  ends_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type AnnouncementForm = {
+  title: string;
+  body: string;
+  severity: AnnouncementSeverity;
+  // Comma-separated
+  ports: string;
+  // datetime-local values
+  starts_at: string;
+  ends_at: string;
+};
+
+// =========================
+// DOWNLOADS AND SHARE LINKS
+// =========================
+export type SignedUrl = {
+  url: string;
+  expires_at: string;
+};
+
+// A link to one file for a named customer
+export type PortFileShare = {
+  id: string;
+  port_file_id: string;
+  token: string;
+  recipient: string;
+  expires_at: string;
+  created_by: string | null;
+  created_at: string;
+  revoked_at: string | null;
+};
+
+// =========================
+// API
+// =========================
+export type ApiErrorCode =
+  | "validation_error"
+  | "unauthorized"
+  | "forbidden"
+  | "not_found"
+  | "conflict"
+  | "server_error";
+
+export type ApiErrorBody = {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+    // Field name -> message for validation errors; the existing file for a
+    // duplicate upload conflict
+    details?: Record<string, string>;
+  };
+};
+
+export type ApiDataBody<T> = { data: T };
+
+export type PageMeta = { total: number; offset: number; limit: number };
+
+export type ApiPageBody<T, M extends PageMeta = PageMeta> = { data: T[]; meta: M };
+
+export type PortFilePageMeta = PageMeta & {
+  // PDF text excerpts for rows matched by content, keyed by file id.
+  // Matched words are wrapped in [[ ]].
+  snippets?: Record<string, string>;
+  // Weeks shown by the current view; the archive lists everything before `from`
+  window?: { from: { week: number; year: number }; to: { week: number; year: number } };
+};
@@ -0,0 +1,54 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { dismissalKey, loadActiveAnnouncements } from "@/lib/announcements";
+import { supabase } from "@/lib/supabase";
+import type { Announcement } from "@/lib/types";
+
+const DISMISSED_STORAGE_KEY = "dismissedAnnouncements";
+
+function readDismissed(): string[] {
+  try {
+    const value = JSON.parse(localStorage.getItem(DISMISSED_STORAGE_KEY) ?? "[]");
+    return Array.isArray(value) ? value.filter((key) => typeof key === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+// Active announcements the visitor has not dismissed. Dismissals are kept in
+// localStorage, trimmed to announcements that are still active.
+export function useAnnouncements() {
+  const [announcements, setAnnouncements] = useState<Announcement[]>([]);
+  const [dismissed, setDismissed] = useState<string[]>([]);
+
+  useEffect(() => {
+    let active = true;
+
+    loadActiveAnnouncements(supabase)
+      .then((loaded) => {
+        if (!active) return;
+        const current = new Set(loaded.map(dismissalKey));
+        const kept = readDismissed().filter((key) => current.has(key));
+        localStorage.setItem(DISMISSED_STORAGE_KEY, JSON.stringify(kept));
+        setDismissed(kept);
+        setAnnouncements(loaded);
+      })
+      .catch((error) => console.error("Error loading announcements:", error));
+
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  function dismiss(announcement: Announcement) {
+    const next = [...dismissed, dismissalKey(announcement)];
+    localStorage.setItem(DISMISSED_STORAGE_KEY, JSON.stringify(next));
+    setDismissed(next);
+  }
+
+  return {
+    announcements: announcements.filter((announcement) => !dismissed.includes(dismissalKey(announcement))),
+    dismiss,
+  };
+}
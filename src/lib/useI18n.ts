@@ -0,0 +1,24 @@
+"use client";
+
+import { createContext, useContext } from "react";
+import { DEFAULT_LOCALE, INTL_LOCALES, translate, type Locale, type Translate } from "@/lib/i18n";
+
+export type I18nContextValue = {
+  locale: Locale;
+  // BCP 47 tag for Intl formatting, e.g. "id-ID"
+  intlLocale: string;
+  setLocale: (locale: Locale) => void;
+  t: Translate;
+};
+
+export const I18nContext = createContext<I18nContextValue>({
+  locale: DEFAULT_LOCALE,
+  intlLocale: INTL_LOCALES[DEFAULT_LOCALE],
+  setLocale: () => {},
+  t: (key, params) => translate(DEFAULT_LOCALE, key, params),
+});
+
+// Active UI language and its translator, provided by I18nProvider in the root layout.
+export function useI18n() {
+  return useContext(I18nContext);
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import type { PortFileChange } from "@/lib/fileFilters";
+import { supabase } from "@/lib/supabase";
+import type { PortFile } from "@/lib/types";
+
+export type LiveStatus = "connecting" | "live" | "offline";
+
+function toChange(payload: RealtimePostgresChangesPayload<PortFile>): PortFileChange | null {
+  if (payload.eventType === "DELETE") return payload.old.id ? { type: "delete", id: payload.old.id } : null;
+  return { type: payload.eventType === "INSERT" ? "insert" : "update", file: payload.new };
+}
+
+// Streams port_files inserts, updates and deletes. supabase-js reconnects the
+// socket and rejoins the channel by itself; changes made while disconnected
+// are not replayed, so `onResync` runs once the channel is back.
+export function usePortFileChanges({
+  onChange,
+  onResync,
+}: {
+  onChange: (change: PortFileChange) => void;
+  onResync: () => void;
+}) {
+  const [status, setStatus] = useState<LiveStatus>("connecting");
+  const handlers = useRef({ onChange, onResync });
+
+  useEffect(() => {
+    handlers.current = { onChange, onResync };
+  });
+
+  useEffect(() => {
+    let joined = false;
+    let missedChanges = false;
+
+    function disconnected() {
+      missedChanges = true;
+      setStatus("offline");
+    }
+
+    function resync() {
+      missedChanges = false;
+      setStatus("live");
+      handlers.current.onResync();
+    }
+
+    const channel = supabase
+      .channel("port_files_changes")
+      .on<PortFile>("postgres_changes", { event: "*", schema: "public", table: "port_files" }, (payload) => {
+        const change = toChange(payload);
+        if (change) handlers.current.onChange(change);
+      })
+      .subscribe((state) => {
+        if (state === "SUBSCRIBED") {
+          joined = true;
+          if (missedChanges) resync();
+          else setStatus("live");
+        } else if (state === "CHANNEL_ERROR" || state === "TIMED_OUT") {
+          joined = false;
+          disconnected();
+        }
+      });
+
+    // The browser notices a dropped network before the socket heartbeat does.
+    // After a short drop the channel may never have left, so catch up here.
+    function online() {
+      if (joined && missedChanges) resync();
+    }
+
+    window.addEventListener("offline", disconnected);
+    window.addEventListener("online", online);
+    return () => {
+      window.removeEventListener("offline", disconnected);
+      window.removeEventListener("online", online);
+      supabase.removeChannel(channel);
+    };
+  }, []);
+
+  return status;
+}
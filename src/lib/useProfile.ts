@@ -0,0 +1,66 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { Session } from "@supabase/supabase-js";
+import { supabase } from "@/lib/supabase";
+import { permissionsFor } from "@/lib/permissions";
+import type { Profile } from "@/lib/types";
+
+// Current session, its profile row and the permissions derived from the role.
+export function useProfile() {
+  const [session, setSession] = useState<Session | null>(null);
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let active = true;
+
+    async function loadProfile(nextSession: Session | null) {
+      if (!nextSession) {
+        if (active) {
+          setProfile(null);
+          setIsLoading(false);
+        }
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("*")
+        .eq("id", nextSession.user.id)
+        .maybeSingle();
+
+      if (error) console.error("Error loading profile:", error);
+      if (active) {
+        setProfile((data as Profile | null) ?? null);
+        setIsLoading(false);
+      }
+    }
+
+    supabase.auth.getSession().then(({ data }) => {
+      if (!active) return;
+      setSession(data.session);
+      loadProfile(data.session);
+    });
+
+    const { data: listener } = supabase.auth.onAuthStateChange(
+      (_event, nextSession) => {
+        setSession(nextSession);
+        // Querying from inside the auth callback can deadlock supabase-js
+        setTimeout(() => loadProfile(nextSession), 0);
+      }
+    );
+
+    return () => {
+      active = false;
+      listener.subscription.unsubscribe();
+    };
+  }, []);
+
+  return {
+    session,
+    profile,
+    isLoading,
+    permissions: permissionsFor(profile, !!session),
+  };
+}
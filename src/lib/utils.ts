@@ -0,0 +1,61 @@
+// =========================
+// UTILITY FUNCTIONS
+// =========================
+export function formatFileSize(bytes: number): string {
+  if (bytes === 0) return "0 Bytes";
+  const k = 1024;
+  const sizes = ["Bytes", "KB", "MB", "GB"];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
+}
+
+// Relative within a week ("5m ago", "Yesterday"), then a short date
+export function formatDate(dateStr: string, intlLocale = "en-US"): string {
+  const date = new Date(dateStr);
+  const now = new Date();
+  const diffMs = now.getTime() - date.getTime();
+  const diffMins = Math.floor(diffMs / (1000 * 60));
+  const diffHours = Math.floor(diffMs / (1000 * 60 * 60));
+  const diffDays = Math.floor(diffMs / (1000 * 60 * 60 * 24));
+  const relative = new Intl.RelativeTimeFormat(intlLocale, { style: "narrow", numeric: "auto" });
+
+  let text: string;
+  if (diffMins < 60) {
+    text = relative.format(-Math.max(diffMins, 1), "minute");
+  } else if (diffHours < 24) {
+    text = relative.format(-diffHours, "hour");
+  } else if (diffDays < 7) {
+    text = relative.format(-diffDays, "day");
+  } else {
+    return date.toLocaleDateString(intlLocale, {
+      month: "short",
+      day: "numeric",
+      year: diffDays < 365 ? undefined : "numeric",
+    });
+  }
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+export function formatDateTime(dateStr: string | null | undefined, intlLocale = "en-US"): string {
+  if (!dateStr) return "-";
+  const date = new Date(dateStr);
+  if (isNaN(date.getTime())) return "-";
+  return date.toLocaleString(intlLocale, {
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false,
+  });
+}
+
+export function toDateKey(date: Date): string {
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// Value for <input type="datetime-local">, in the browser's time zone
+export function toDateTimeLocal(date: Date): string {
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${toDateKey(date)}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
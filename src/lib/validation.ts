@@ -0,0 +1,97 @@
+import { getIsoWeeksInYear, isValidIsoWeek } from "@/lib/isoWeek";
+
+// =========================
+// UPLOAD VALIDATION
+// =========================
+// Shared by the upload modal and the /api/port-files route handler.
+// Uploads go through POST /api/port-files, and Vercel functions refuse request
+// bodies over 4.5 MB, so the PDF plus the other form fields must stay below it
+export const MAX_UPLOAD_BYTES = 4 * 1024 * 1024;
+export const MIN_UPLOAD_YEAR = 2020;
+
+export function maxUploadYear() {
+  return new Date().getFullYear() + 2;
+}
+
+export type PortFileFields = {
+  port_name: string;
+  week: number;
+  year: number;
+  file: File | null;
+};
+
+export type FieldErrors = Partial<Record<keyof PortFileFields, string>>;
+
+// Language-neutral form of a field error; the UI translates `code` and the
+// API route turns it into the English message below.
+export type ValidationCode =
+  | "port_required"
+  | "port_too_long"
+  | "year_range"
+  | "week_range"
+  | "file_required"
+  | "file_not_pdf"
+  | "file_empty"
+  | "file_too_large";
+
+export type FieldIssue = { code: ValidationCode; params?: Record<string, number> };
+
+const ISSUE_MESSAGES: Record<ValidationCode, string> = {
+  port_required: "Port name is required",
+  port_too_long: "Port name is too long",
+  year_range: "Year must be between {min} and {max}",
+  week_range: "Week must be between 1 and {max} for {year}",
+  file_required: "PDF file is required",
+  file_not_pdf: "Only PDF files are allowed",
+  file_empty: "File is empty",
+  file_too_large: "File is larger than {max} MB",
+};
+
+export function isPdfFile(file: File) {
+  return file.type === "application/pdf" || file.name.toLowerCase().endsWith(".pdf");
+}
+
+export function portFileFieldIssues(fields: PortFileFields): Partial<Record<keyof PortFileFields, FieldIssue>> {
+  const issues: Partial<Record<keyof PortFileFields, FieldIssue>> = {};
+
+  if (!fields.port_name.trim()) {
+    issues.port_name = { code: "port_required" };
+  } else if (fields.port_name.trim().length > 100) {
+    issues.port_name = { code: "port_too_long" };
+  }
+
+  if (!Number.isInteger(fields.year) || fields.year < MIN_UPLOAD_YEAR || fields.year > maxUploadYear()) {
+    issues.year = { code: "year_range", params: { min: MIN_UPLOAD_YEAR, max: maxUploadYear() } };
+  } else if (!isValidIsoWeek(fields.week, fields.year)) {
+    issues.week = { code: "week_range", params: { max: getIsoWeeksInYear(fields.year), year: fields.year } };
+  }
+
+  if (!fields.file) {
+    issues.file = { code: "file_required" };
+  } else if (!isPdfFile(fields.file)) {
+    issues.file = { code: "file_not_pdf" };
+  } else if (fields.file.size === 0) {
+    issues.file = { code: "file_empty" };
+  } else if (fields.file.size > MAX_UPLOAD_BYTES) {
+    issues.file = { code: "file_too_large", params: { max: MAX_UPLOAD_BYTES / 1024 / 1024 } };
+  }
+
+  return issues;
+}
+
+export function validatePortFileFields(fields: PortFileFields): FieldErrors {
+  const errors: FieldErrors = {};
+  for (const [field, issue] of Object.entries(portFileFieldIssues(fields))) {
+    errors[field as keyof PortFileFields] = ISSUE_MESSAGES[issue.code].replace(
+      /\{(\w+)\}/g,
+      (_, name: string) => String(issue.params?.[name])
+    );
+  }
+  return errors;
+}
+
+// Checks the "%PDF-" magic bytes, not just the extension
+export async function hasPdfSignature(file: Blob) {
+  const header = new Uint8Array(await file.slice(0, 5).arrayBuffer());
+  return String.fromCharCode(...header) === "%PDF-";
+}
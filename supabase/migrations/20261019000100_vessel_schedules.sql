@@ -0,0 +1,30 @@
+-- Structured vessel schedules. Each row belongs to the same port/week/year
+-- as a port_files PDF, which stays the official document.
+create table if not exists public.vessel_schedules (
+  id uuid primary key default gen_random_uuid(),
+  port_name text not null,
+  week integer not null check (week between 1 and 53),
+  year integer not null,
+  vessel_name text not null,
+  voyage_no text not null,
+  service text not null default '',
+  -- [{ port_name, eta, etd, cut_off }]
+  port_calls jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists vessel_schedules_port_week_idx
+  on public.vessel_schedules (port_name, year, week);
+
+alter table public.vessel_schedules enable row level security;
+
+create policy "vessel_schedules public read"
+  on public.vessel_schedules for select
+  using (true);
+
+create policy "vessel_schedules authenticated write"
+  on public.vessel_schedules for all
+  to authenticated
+  using (true)
+  with check (true);
@@ -0,0 +1,3 @@
+-- Re-importing a week updates existing schedules instead of duplicating them.
+create unique index if not exists vessel_schedules_import_key
+  on public.vessel_schedules (port_name, year, week, vessel_name, voyage_no);
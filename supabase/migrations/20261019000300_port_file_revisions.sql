@@ -0,0 +1,9 @@
+-- A re-upload for the same port/week/year becomes revision N+1; older
+-- revisions are kept but marked superseded.
+alter table public.port_files
+  add column if not exists revision integer not null default 1,
+  add column if not exists change_note text,
+  add column if not exists superseded_at timestamptz;
+
+create index if not exists port_files_port_week_idx
+  on public.port_files (port_name, year, week);
@@ -0,0 +1,118 @@
+-- Roles: viewer (read only), uploader (upload for assigned ports), admin (everything).
+create table if not exists public.profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  email text not null default '',
+  role text not null default 'viewer' check (role in ('viewer', 'uploader', 'admin')),
+  -- Upper-cased port names an uploader may upload for
+  ports text[] not null default '{}',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Every new auth user starts as a viewer
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  insert into public.profiles (id, email) values (new.id, coalesce(new.email, ''))
+  on conflict (id) do nothing;
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_created on auth.users;
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute function public.handle_new_user();
+
+insert into public.profiles (id, email)
+select id, coalesce(email, '') from auth.users
+on conflict (id) do nothing;
+
+-- security definer so policies can check roles without recursing into profiles RLS
+create or replace function public.current_user_role()
+returns text
+language sql
+stable
+security definer set search_path = public
+as $$
+  select role from public.profiles where id = auth.uid();
+$$;
+
+create or replace function public.can_upload_port(port text)
+returns boolean
+language sql
+stable
+security definer set search_path = public
+as $$
+  select exists (
+    select 1 from public.profiles
+    where id = auth.uid()
+      and (role = 'admin' or (role = 'uploader' and upper(trim(port)) = any (ports)))
+  );
+$$;
+
+alter table public.profiles enable row level security;
+
+create policy "profiles read own or admin"
+  on public.profiles for select
+  to authenticated
+  using (id = auth.uid() or public.current_user_role() = 'admin');
+
+create policy "profiles admin update"
+  on public.profiles for update
+  to authenticated
+  using (public.current_user_role() = 'admin')
+  with check (public.current_user_role() = 'admin');
+
+-- port_files: public read, role-checked writes
+alter table public.port_files enable row level security;
+
+drop policy if exists "port_files public read" on public.port_files;
+create policy "port_files public read"
+  on public.port_files for select
+  using (true);
+
+drop policy if exists "port_files upload by role" on public.port_files;
+create policy "port_files upload by role"
+  on public.port_files for insert
+  to authenticated
+  with check (public.can_upload_port(port_name));
+
+-- Superseding older revisions of a port the caller may upload for
+drop policy if exists "port_files update by role" on public.port_files;
+create policy "port_files update by role"
+  on public.port_files for update
+  to authenticated
+  using (public.can_upload_port(port_name))
+  with check (public.can_upload_port(port_name));
+
+drop policy if exists "port_files delete by admin" on public.port_files;
+create policy "port_files delete by admin"
+  on public.port_files for delete
+  to authenticated
+  using (public.current_user_role() = 'admin');
+
+-- Schedules are managed by admins only
+drop policy if exists "vessel_schedules authenticated write" on public.vessel_schedules;
+create policy "vessel_schedules admin write"
+  on public.vessel_schedules for all
+  to authenticated
+  using (public.current_user_role() = 'admin')
+  with check (public.current_user_role() = 'admin');
+
+-- Storage objects in the port-files bucket. Uploaders may remove their own
+-- objects so a failed upload can be rolled back.
+drop policy if exists "port-files upload by role" on storage.objects;
+create policy "port-files upload by role"
+  on storage.objects for insert
+  to authenticated
+  with check (bucket_id = 'port-files' and public.current_user_role() in ('uploader', 'admin'));
+
+drop policy if exists "port-files delete by admin or owner" on storage.objects;
+create policy "port-files delete by admin or owner"
+  on storage.objects for delete
+  to authenticated
+  using (bucket_id = 'port-files' and (public.current_user_role() = 'admin' or owner = auth.uid()));
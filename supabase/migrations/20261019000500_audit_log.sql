@@ -0,0 +1,78 @@
+-- Append-only audit trail: rows can be inserted and read, never changed.
+create table if not exists public.audit_log (
+  id bigint generated always as identity primary key,
+  event text not null check (event in ('upload', 'revision', 'delete', 'login', 'logout')),
+  -- No foreign key: "on delete set null" would be an update, which the
+  -- append-only trigger rejects, so auth users with history could not be deleted
+  actor_id uuid,
+  actor_email text not null default '',
+  created_at timestamptz not null default now(),
+  port_name text,
+  week integer,
+  year integer,
+  file_id uuid,
+  file_name text,
+  before jsonb,
+  after jsonb
+);
+
+create index if not exists audit_log_created_at_idx on public.audit_log (created_at desc);
+create index if not exists audit_log_event_idx on public.audit_log (event);
+
+create or replace function public.audit_log_immutable()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'audit_log is append-only';
+end;
+$$;
+
+drop trigger if exists audit_log_no_update on public.audit_log;
+create trigger audit_log_no_update
+  before update or delete on public.audit_log
+  for each row execute function public.audit_log_immutable();
+
+alter table public.audit_log enable row level security;
+
+-- Entries are only written server-side: API routes use the service role and
+-- sign-ins are recorded by the auth.sessions trigger below. Browser clients
+-- can read (admins) but never write, so entries cannot be forged.
+revoke insert, update, delete on public.audit_log from anon, authenticated;
+
+create policy "audit_log admin read"
+  on public.audit_log for select
+  to authenticated
+  using (public.current_user_role() = 'admin');
+
+-- Sign-in creates an auth.sessions row and sign-out deletes it, whether or
+-- not the app's own code runs. Sessions removed when they expire are
+-- recorded as logouts too.
+create or replace function public.audit_auth_session()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  session_user_id uuid;
+begin
+  if tg_op = 'INSERT' then
+    session_user_id := new.user_id;
+  else
+    session_user_id := old.user_id;
+  end if;
+
+  insert into public.audit_log (event, actor_id, actor_email)
+  select case when tg_op = 'INSERT' then 'login' else 'logout' end, u.id, coalesce(u.email, '')
+  from auth.users u
+  where u.id = session_user_id;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists audit_auth_session on auth.sessions;
+create trigger audit_auth_session
+  after insert or delete on auth.sessions
+  for each row execute function public.audit_auth_session();
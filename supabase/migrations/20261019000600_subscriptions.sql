@@ -0,0 +1,18 @@
+-- Email subscriptions to port schedule publications. Only the server (service
+-- role) reads or writes this table; visitors go through /api/subscriptions.
+create table if not exists public.subscriptions (
+  id uuid primary key default gen_random_uuid(),
+  email text not null unique,
+  -- Upper-cased port names
+  ports text[] not null default '{}',
+  frequency text not null default 'instant' check (frequency in ('instant', 'weekly')),
+  -- Secret used in unsubscribe links
+  token uuid not null unique default gen_random_uuid(),
+  last_digest_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists subscriptions_ports_idx on public.subscriptions using gin (ports);
+
+alter table public.subscriptions enable row level security;
@@ -0,0 +1,30 @@
+-- Server-side search and pagination for /api/port-files.
+
+-- Substring search on port and file names (ilike '%...%')
+create extension if not exists pg_trgm;
+
+create index if not exists port_files_port_name_trgm_idx
+  on public.port_files using gin (port_name gin_trgm_ops);
+
+create index if not exists port_files_file_name_trgm_idx
+  on public.port_files using gin (file_name gin_trgm_ops);
+
+-- Default listing: latest revisions, newest upload first
+create index if not exists port_files_latest_uploaded_idx
+  on public.port_files (uploaded_at desc)
+  where superseded_at is null;
+
+create index if not exists port_files_uploaded_idx
+  on public.port_files (uploaded_at desc);
+
+create index if not exists port_files_year_week_idx
+  on public.port_files (year, week);
+
+-- Distinct ports and years for the filter controls. security_invoker keeps
+-- the caller's RLS on port_files.
+create or replace view public.port_file_facets
+  with (security_invoker = true) as
+  select distinct upper(trim(port_name)) as port_name, year
+  from public.port_files;
+
+grant select on public.port_file_facets to anon, authenticated;
@@ -0,0 +1,80 @@
+-- Text extracted from each uploaded PDF, for full-text search of vessel names
+-- and voyage numbers. Kept out of port_files so list queries stay small.
+create table if not exists public.port_file_contents (
+  file_id uuid primary key references public.port_files (id) on delete cascade,
+  content text not null default '',
+  content_tsv tsvector generated always as (to_tsvector('simple', content)) stored,
+  -- Set when extraction failed, so the backfill does not retry forever
+  error text,
+  extracted_at timestamptz not null default now()
+);
+
+create index if not exists port_file_contents_tsv_idx
+  on public.port_file_contents using gin (content_tsv);
+
+alter table public.port_file_contents enable row level security;
+
+drop policy if exists "port_file_contents public read" on public.port_file_contents;
+create policy "port_file_contents public read"
+  on public.port_file_contents for select
+  using (true);
+
+drop policy if exists "port_file_contents write by role" on public.port_file_contents;
+create policy "port_file_contents write by role"
+  on public.port_file_contents for all
+  to authenticated
+  using (public.current_user_role() in ('uploader', 'admin'))
+  with check (public.current_user_role() in ('uploader', 'admin'));
+
+-- Every search word must match, as a prefix ("2612" matches "2612N").
+create or replace function public.port_file_text_query(search text)
+returns tsquery
+language sql
+immutable
+as $$
+  select to_tsquery('simple', string_agg(token || ':*', ' & '))
+  from regexp_split_to_table(
+    trim(regexp_replace(lower(search), '[^[:alnum:]]+', ' ', 'g')),
+    ' '
+  ) as token
+  where token <> '';
+$$;
+
+-- Ids of files whose text matches, best match first
+create or replace function public.search_port_file_contents(search text, max_results integer default 1000)
+returns table (file_id uuid)
+language sql
+stable
+as $$
+  select c.file_id
+  from public.port_file_contents c
+  where c.content_tsv @@ public.port_file_text_query(search)
+  order by ts_rank(c.content_tsv, public.port_file_text_query(search)) desc
+  limit max_results;
+$$;
+
+-- Highlighted excerpt per file; matches are wrapped in [[ ]]
+create or replace function public.port_file_snippets(search text, file_ids uuid[])
+returns table (file_id uuid, snippet text)
+language sql
+stable
+as $$
+  select c.file_id,
+         ts_headline('simple', c.content, public.port_file_text_query(search),
+           'StartSel=[[, StopSel=]], MinWords=8, MaxWords=24, MaxFragments=2, FragmentDelimiter=" … "')
+  from public.port_file_contents c
+  where c.file_id = any (file_ids)
+    and c.content_tsv @@ public.port_file_text_query(search);
+$$;
+
+-- Files not yet indexed, for the backfill job
+create or replace function public.unindexed_port_files()
+returns setof public.port_files
+language sql
+stable
+as $$
+  select f.*
+  from public.port_files f
+  where not exists (select 1 from public.port_file_contents c where c.file_id = f.id)
+  order by f.uploaded_at desc;
+$$;
@@ -0,0 +1,52 @@
+-- Managed port catalogue. port_files.port_name holds the canonical name;
+-- port_id links the row to its catalogue entry.
+create table if not exists public.ports (
+  id uuid primary key default gen_random_uuid(),
+  -- Canonical, upper-cased name shown everywhere (e.g. HAIPHONG)
+  name text not null unique,
+  -- UN/LOCODE, e.g. VNHPH
+  unlocode text unique check (unlocode ~ '^[A-Z]{2}[A-Z2-9]{3}$'),
+  -- ISO 3166-1 alpha-2
+  country text check (country ~ '^[A-Z]{2}$'),
+  -- Other spellings that resolve to this port (HAI PHONG, HPH)
+  aliases text[] not null default '{}',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.ports enable row level security;
+
+drop policy if exists "ports public read" on public.ports;
+create policy "ports public read"
+  on public.ports for select
+  using (true);
+
+drop policy if exists "ports admin write" on public.ports;
+create policy "ports admin write"
+  on public.ports for all
+  to authenticated
+  using (public.current_user_role() = 'admin')
+  with check (public.current_user_role() = 'admin');
+
+alter table public.port_files
+  add column if not exists port_id uuid references public.ports (id) on delete set null;
+
+create index if not exists port_files_port_id_idx on public.port_files (port_id);
+
+-- Ports served from Batam
+insert into public.ports (name, unlocode, country, aliases) values
+  ('BATAM', 'IDBTM', 'ID', '{}'),
+  ('JAKARTA', 'IDJKT', 'ID', '{TANJUNG PRIOK}'),
+  ('SURABAYA', 'IDSUB', 'ID', '{TANJUNG PERAK}'),
+  ('SINGAPORE', 'SGSIN', 'SG', '{SIN}'),
+  ('PORT KLANG', 'MYPKG', 'MY', '{KLANG}'),
+  ('BANGKOK', 'THBKK', 'TH', '{}'),
+  ('LAEM CHABANG', 'THLCH', 'TH', '{}'),
+  ('HAIPHONG', 'VNHPH', 'VN', '{HAI PHONG,HPH}'),
+  ('HO CHI MINH', 'VNSGN', 'VN', '{HCM,HCMC,SAIGON}'),
+  ('HONG KONG', 'HKHKG', 'HK', '{HKG}'),
+  ('SHANGHAI', 'CNSHA', 'CN', '{}'),
+  ('NINGBO', 'CNNGB', 'CN', '{}'),
+  ('QINGDAO', 'CNTAO', 'CN', '{}'),
+  ('XIAMEN', 'CNXMN', 'CN', '{}')
+on conflict (name) do nothing;
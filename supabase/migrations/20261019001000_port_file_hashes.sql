@@ -0,0 +1,28 @@
+-- SHA-256 of the uploaded PDF bytes, so the same file uploaded under another
+-- name, port or week can be recognised. Null until hashed (older uploads are
+-- hashed by the backfill in Admin → Duplicate Files).
+alter table public.port_files
+  add column if not exists content_hash text;
+
+create index if not exists port_files_content_hash_idx
+  on public.port_files (content_hash)
+  where content_hash is not null;
+
+-- Every file whose content is shared with at least one other row, grouped by
+-- hash and oldest upload first within a group
+create or replace function public.duplicate_port_files()
+returns setof public.port_files
+language sql
+stable
+as $$
+  select f.*
+  from public.port_files f
+  where f.content_hash in (
+    select content_hash
+    from public.port_files
+    where content_hash is not null
+    group by content_hash
+    having count(*) > 1
+  )
+  order by f.content_hash, f.uploaded_at;
+$$;
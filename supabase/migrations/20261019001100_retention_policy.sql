@@ -0,0 +1,29 @@
+-- Which weeks the home page shows by default. Files older than the window
+-- are listed under "Archive"; files past purge_after_weeks may be deleted
+-- from Admin → Retention after the admin confirms the preview.
+create table if not exists public.retention_policy (
+  -- Single-row table
+  id boolean primary key default true check (id),
+  weeks_behind integer not null default 4 check (weeks_behind between 0 and 520),
+  weeks_ahead integer not null default 4 check (weeks_ahead between 0 and 520),
+  -- Null disables purging
+  purge_after_weeks integer check (purge_after_weeks > weeks_behind and purge_after_weeks <= 520),
+  updated_at timestamptz not null default now(),
+  updated_by text
+);
+
+alter table public.retention_policy enable row level security;
+
+drop policy if exists "retention_policy public read" on public.retention_policy;
+create policy "retention_policy public read"
+  on public.retention_policy for select
+  using (true);
+
+drop policy if exists "retention_policy admin write" on public.retention_policy;
+create policy "retention_policy admin write"
+  on public.retention_policy for all
+  to authenticated
+  using (public.current_user_role() = 'admin')
+  with check (public.current_user_role() = 'admin');
+
+insert into public.retention_policy (id) values (true) on conflict (id) do nothing;
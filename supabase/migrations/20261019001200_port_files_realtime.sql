@@ -0,0 +1,12 @@
+-- Broadcast port_files inserts, updates and deletes to the home page, which
+-- applies them to the visible table without a reload. Clients only receive
+-- rows their select policy allows.
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'port_files'
+  ) then
+    alter publication supabase_realtime add table public.port_files;
+  end if;
+end $$;
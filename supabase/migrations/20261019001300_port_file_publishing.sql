@@ -0,0 +1,62 @@
+-- Draft and scheduled publishing. A row is only visible to the public once
+-- its status is 'published'; GET /api/port-files/publish (Vercel cron)
+-- publishes 'scheduled' rows whose publish_at has passed. publish_at holds
+-- the planned time while scheduled and the actual time once published.
+alter table public.port_files
+  add column if not exists status text not null default 'published'
+    check (status in ('draft', 'scheduled', 'published', 'withdrawn')),
+  add column if not exists publish_at timestamptz;
+
+update public.port_files set publish_at = uploaded_at where publish_at is null and status = 'published';
+
+alter table public.port_files
+  drop constraint if exists port_files_scheduled_publish_at;
+alter table public.port_files
+  add constraint port_files_scheduled_publish_at
+    check (status <> 'scheduled' or publish_at is not null);
+
+create index if not exists port_files_scheduled_idx
+  on public.port_files (publish_at)
+  where status = 'scheduled';
+
+-- Drafts, scheduled and withdrawn rows are only readable by whoever may
+-- upload for the port. The select policy also filters realtime broadcasts.
+drop policy if exists "port_files public read" on public.port_files;
+create policy "port_files public read"
+  on public.port_files for select
+  using (status = 'published' or public.can_upload_port(port_name));
+
+-- Extracted PDF text follows the visibility of its file, so the text of an
+-- unpublished PDF is not readable through port_file_contents either. The
+-- write policy from *_port_file_contents.sql covered select too, so it is
+-- split into insert, update and delete.
+drop policy if exists "port_file_contents public read" on public.port_file_contents;
+create policy "port_file_contents public read"
+  on public.port_file_contents for select
+  using (exists (select 1 from public.port_files f where f.id = file_id));
+
+drop policy if exists "port_file_contents write by role" on public.port_file_contents;
+drop policy if exists "port_file_contents insert by role" on public.port_file_contents;
+create policy "port_file_contents insert by role"
+  on public.port_file_contents for insert
+  to authenticated
+  with check (public.current_user_role() in ('uploader', 'admin'));
+
+drop policy if exists "port_file_contents update by role" on public.port_file_contents;
+create policy "port_file_contents update by role"
+  on public.port_file_contents for update
+  to authenticated
+  using (public.current_user_role() in ('uploader', 'admin'))
+  with check (public.current_user_role() in ('uploader', 'admin'));
+
+drop policy if exists "port_file_contents delete by role" on public.port_file_contents;
+create policy "port_file_contents delete by role"
+  on public.port_file_contents for delete
+  to authenticated
+  using (public.current_user_role() in ('uploader', 'admin'));
+
+-- Publishing and withdrawing are audited alongside uploads and deletes
+alter table public.audit_log drop constraint if exists audit_log_event_check;
+alter table public.audit_log
+  add constraint audit_log_event_check
+    check (event in ('upload', 'revision', 'publish', 'withdraw', 'delete', 'login', 'logout'));
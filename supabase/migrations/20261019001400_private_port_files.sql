@@ -0,0 +1,63 @@
+-- PDFs are no longer public. The bucket is private and every link goes
+-- through GET /api/port-files/<id>/file, which redirects to a signed URL that
+-- expires after a few minutes. A withdrawn file stops downloading as soon as
+-- its row is hidden.
+update storage.buckets set public = false where id = 'port-files';
+
+-- An object is readable (and so signable) by whoever can read its port_files
+-- row; admins also see objects without a row for the storage check.
+create index if not exists port_files_file_name_idx on public.port_files (file_name);
+
+drop policy if exists "port-files read with row" on storage.objects;
+create policy "port-files read with row"
+  on storage.objects for select
+  using (
+    bucket_id = 'port-files'
+    and (
+      public.current_user_role() = 'admin'
+      or exists (select 1 from public.port_files f where 'port-files/' || f.file_name = name)
+    )
+  );
+
+-- file_url is the app route for the row rather than a storage URL
+create or replace function public.set_port_file_url()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.file_url := '/api/port-files/' || new.id || '/file';
+  return new;
+end;
+$$;
+
+drop trigger if exists port_files_file_url on public.port_files;
+create trigger port_files_file_url
+  before insert or update of file_url on public.port_files
+  for each row execute function public.set_port_file_url();
+
+update public.port_files set file_url = '/api/port-files/' || id || '/file';
+
+-- Links to one file for a named customer. Admins create and revoke them; the
+-- server looks tokens up with the service role.
+create table if not exists public.port_file_shares (
+  id uuid primary key default gen_random_uuid(),
+  port_file_id uuid not null references public.port_files (id) on delete cascade,
+  -- Secret in the link handed to the customer
+  token uuid not null unique default gen_random_uuid(),
+  recipient text not null,
+  expires_at timestamptz not null,
+  created_by text,
+  created_at timestamptz not null default now(),
+  revoked_at timestamptz
+);
+
+create index if not exists port_file_shares_file_idx on public.port_file_shares (port_file_id);
+
+alter table public.port_file_shares enable row level security;
+
+drop policy if exists "port_file_shares admin" on public.port_file_shares;
+create policy "port_file_shares admin"
+  on public.port_file_shares for all
+  to authenticated
+  using (public.current_user_role() = 'admin')
+  with check (public.current_user_role() = 'admin');
@@ -0,0 +1,46 @@
+-- Site announcements shown above the schedule list: holiday closures, port
+-- congestion, cut-off changes. Replaces the hard-coded maintenance footer.
+create table if not exists public.announcements (
+  id uuid primary key default gen_random_uuid(),
+  title text not null,
+  body text not null default '',
+  severity text not null default 'info' check (severity in ('info', 'warning', 'critical')),
+  -- Upper-cased port names; empty means every port
+  ports text[] not null default '{}',
+  starts_at timestamptz not null default now(),
+  -- Null keeps the announcement up until an admin ends it
+  ends_at timestamptz,
+  created_by text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint announcements_window check (ends_at is null or ends_at > starts_at)
+);
+
+create index if not exists announcements_window_idx on public.announcements (starts_at, ends_at);
+
+alter table public.announcements enable row level security;
+
+-- Visitors only see announcements inside their window
+drop policy if exists "announcements public read" on public.announcements;
+create policy "announcements public read"
+  on public.announcements for select
+  using (
+    (starts_at <= now() and (ends_at is null or ends_at > now()))
+    or public.current_user_role() = 'admin'
+  );
+
+drop policy if exists "announcements admin write" on public.announcements;
+create policy "announcements admin write"
+  on public.announcements for all
+  to authenticated
+  using (public.current_user_role() = 'admin')
+  with check (public.current_user_role() = 'admin');
+
+-- The notice that used to be hard-coded in the footer, so nothing disappears
+-- until an admin ends it
+insert into public.announcements (title, body, severity)
+select
+  'Website maintenance',
+  'Our website is currently undergoing maintenance. In the meantime, schedule information is available in PDF format. We apologize for any inconvenience and thank you for your understanding.',
+  'info'
+where not exists (select 1 from public.announcements);
@@ -0,0 +1,16 @@
+-- Double opt-in for email subscriptions. POST /api/subscriptions only stores
+-- the request and emails a confirmation link; no schedule emails go out until
+-- the link is opened.
+alter table public.subscriptions
+  add column if not exists confirmed_at timestamptz,
+  -- Single-use secret for the confirmation link, replaced by every request and
+  -- cleared once used. Kept apart from `token`, the permanent unsubscribe secret.
+  add column if not exists confirm_token uuid unique,
+  -- Ports and frequency requested for an already confirmed address. They
+  -- replace ports/frequency only once that change is confirmed too.
+  add column if not exists pending_ports text[],
+  add column if not exists pending_frequency text
+    check (pending_frequency is null or pending_frequency in ('instant', 'weekly'));
+
+-- Subscriptions made before confirmation existed keep receiving email
+update public.subscriptions set confirmed_at = created_at where confirmed_at is null;
@@ -0,0 +1,16 @@
+-- Server-side search and paging for the public /schedules table.
+
+-- Vessel, voyage, service, port and every port of call in one column, so a
+-- single indexed ilike '%...%' covers the search box
+alter table public.vessel_schedules
+  add column if not exists search_text text
+    generated always as (
+      lower(vessel_name || ' ' || voyage_no || ' ' || service || ' ' || port_name || ' ' || port_calls::text)
+    ) stored;
+
+create index if not exists vessel_schedules_search_trgm_idx
+  on public.vessel_schedules using gin (search_text gin_trgm_ops);
+
+-- Default listing: newest week first
+create index if not exists vessel_schedules_year_week_idx
+  on public.vessel_schedules (year desc, week desc);
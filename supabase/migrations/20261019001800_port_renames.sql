@@ -0,0 +1,94 @@
+-- Port names are stored by value in uploader rights, subscriptions,
+-- announcements and vessel schedules as well as on port files. Renaming a
+-- catalogue port, or mapping an old spelling onto it, rewrites all of them in
+-- one transaction so none of them is left on the old name.
+
+-- Replaces `old_key` (upper-cased, trimmed) in a port list, keeping it unique
+create or replace function public.replace_port_in_array(ports text[], old_key text, new_name text)
+returns text[]
+language sql
+immutable
+as $$
+  select case
+    when ports is null then null
+    else coalesce(
+      (select array_agg(distinct case when upper(btrim(p)) = old_key then new_name else p end) from unnest(ports) p),
+      '{}'
+    )
+  end;
+$$;
+
+-- Returns the number of port_files rows moved to the new name
+create or replace function public.replace_port_name(old_name text, new_name text, new_port_id uuid default null)
+returns integer
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+  old_key text := upper(btrim(old_name));
+  mapped integer;
+begin
+  if public.current_user_role() is distinct from 'admin' then
+    raise exception 'Only admins can rename ports' using errcode = '42501';
+  end if;
+
+  update public.port_files
+  set port_name = new_name, port_id = coalesce(new_port_id, port_id)
+  where port_name = old_name;
+  get diagnostics mapped = row_count;
+
+  update public.profiles
+  set ports = public.replace_port_in_array(ports, old_key, new_name), updated_at = now()
+  where exists (select 1 from unnest(ports) p where upper(btrim(p)) = old_key);
+
+  update public.subscriptions
+  set ports = public.replace_port_in_array(ports, old_key, new_name),
+      pending_ports = public.replace_port_in_array(pending_ports, old_key, new_name)
+  where exists (select 1 from unnest(ports) p where upper(btrim(p)) = old_key)
+     or exists (select 1 from unnest(pending_ports) p where upper(btrim(p)) = old_key);
+
+  update public.announcements
+  set ports = public.replace_port_in_array(ports, old_key, new_name)
+  where exists (select 1 from unnest(ports) p where upper(btrim(p)) = old_key);
+
+  -- A voyage imported under both spellings keeps the row already on the new name
+  delete from public.vessel_schedules s
+  where upper(btrim(s.port_name)) = old_key
+    and s.port_name <> new_name
+    and exists (
+      select 1 from public.vessel_schedules t
+      where t.port_name = new_name
+        and t.year = s.year
+        and t.week = s.week
+        and t.vessel_name = s.vessel_name
+        and t.voyage_no = s.voyage_no
+    );
+
+  update public.vessel_schedules
+  set port_name = new_name
+  where upper(btrim(port_name)) = old_key and port_name <> new_name;
+
+  return mapped;
+end;
+$$;
+
+revoke execute on function public.replace_port_name(text, text, uuid) from public, anon;
+grant execute on function public.replace_port_name(text, text, uuid) to authenticated;
+
+-- Renaming a catalogue port cascades in the same statement
+create or replace function public.cascade_port_rename()
+returns trigger
+language plpgsql
+as $$
+begin
+  perform public.replace_port_name(old.name, new.name, new.id);
+  return new;
+end;
+$$;
+
+drop trigger if exists ports_cascade_rename on public.ports;
+create trigger ports_cascade_rename
+  after update of name on public.ports
+  for each row
+  when (old.name is distinct from new.name)
+  execute function public.cascade_port_rename();
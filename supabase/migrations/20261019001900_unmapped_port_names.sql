@@ -0,0 +1,13 @@
+-- Port names on files that are not linked to the catalogue, with their file
+-- counts. Grouped here so the admin page is not capped by the API row limit.
+create or replace function public.unmapped_port_names()
+returns table (port_name text, file_count bigint)
+language sql
+stable
+as $$
+  select f.port_name, count(*) as file_count
+  from public.port_files f
+  where f.port_id is null
+  group by f.port_name
+  order by f.port_name;
+$$;